@@ -28,6 +28,7 @@ export const createSDKMock = () => ({
     unpinVersion: vi.fn(),
     getLinks: vi.fn(),
     getBacklinks: vi.fn(),
+    bulkTag: vi.fn(),
   },
   search: {
     search: vi.fn(),
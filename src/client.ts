@@ -1,5 +1,24 @@
 import { LifestreamVaultClient } from '@lifestreamdynamics/vault-sdk';
 import { loadConfig, loadConfigAsync, getCredentialManager } from './config.js';
+import { changeFeedUrl, type ChangeFeedSource } from './sync/change-feed.js';
+
+/**
+ * Persist refreshed tokens to secure storage, so the next client (another
+ * CLI invocation, or the sync daemon) starts from them. A rotated refresh
+ * token replaces the stored one; the old one no longer works.
+ */
+async function persistRefreshedTokens(tokens: { accessToken: string }): Promise<void> {
+  const { refreshToken } = tokens as { refreshToken?: string };
+  try {
+    const cm = getCredentialManager();
+    await cm.saveCredentials({
+      accessToken: tokens.accessToken,
+      ...(refreshToken ? { refreshToken } : {}),
+    });
+  } catch {
+    // Best-effort persistence; don't break the request
+  }
+}
 
 /**
  * Create an SDK client from CLI configuration.
@@ -17,17 +36,7 @@ export function getClient(): LifestreamVaultClient {
       baseUrl: config.apiUrl,
       accessToken: config.accessToken,
       refreshToken: config.refreshToken,
-      onTokenRefresh: async (tokens) => {
-        // Persist refreshed tokens to secure storage
-        try {
-          const cm = getCredentialManager();
-          await cm.saveCredentials({
-            accessToken: tokens.accessToken,
-          });
-        } catch {
-          // Best-effort persistence; don't break the request
-        }
-      },
+      onTokenRefresh: persistRefreshedTokens,
     });
   }
 
@@ -49,28 +58,20 @@ export function getClient(): LifestreamVaultClient {
 
 /**
  * Create an SDK client from async config resolution (secure credential manager).
- * This resolves credentials from keychain/encrypted storage.
+ * This resolves credentials from keychain/encrypted storage, with the API URL
+ * and key of a profile taking precedence when one is given.
  *
  * @throws {Error} If no credentials are configured.
  */
-export async function getClientAsync(): Promise<LifestreamVaultClient> {
-  const config = await loadConfigAsync();
+export async function getClientAsync(profile?: string): Promise<LifestreamVaultClient> {
+  const config = await loadConfigAsync(profile);
 
   if (config.accessToken) {
     return new LifestreamVaultClient({
       baseUrl: config.apiUrl,
       accessToken: config.accessToken,
       refreshToken: config.refreshToken,
-      onTokenRefresh: async (tokens) => {
-        try {
-          const cm = getCredentialManager();
-          await cm.saveCredentials({
-            accessToken: tokens.accessToken,
-          });
-        } catch {
-          // Best-effort
-        }
-      },
+      onTokenRefresh: persistRefreshedTokens,
     });
   }
 
@@ -88,3 +89,20 @@ export async function getClientAsync(): Promise<LifestreamVaultClient> {
     'Or set LSVAULT_API_KEY environment variable',
   );
 }
+
+/**
+ * Where to subscribe to the change feed of a vault (see sync/change-feed.ts),
+ * authenticated like getClientAsync. Credentials are read again for every
+ * connection, so tokens refreshed by a client in the meantime are used.
+ */
+export function getChangeFeedSource(vaultId: string, profile?: string): ChangeFeedSource {
+  return async () => {
+    const config = await loadConfigAsync(profile);
+    const token = config.accessToken ?? config.apiKey;
+    if (!token) throw new Error('No credentials configured.');
+    return {
+      url: changeFeedUrl(config.apiUrl, vaultId),
+      headers: { Authorization: `Bearer ${token}` },
+    };
+  };
+}
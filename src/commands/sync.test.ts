@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import { Command } from 'commander';
 import { registerSyncCommands } from './sync.js';
 import { createSDKMock, type SDKMock } from '../__tests__/mocks/sdk.js';
@@ -40,46 +43,179 @@ vi.mock('../sync/config.js', () => ({
   getSyncConfig: vi.fn((id: string) => {
     return mockConfigs.find(c => c.id === id) ?? null;
   }),
+  updateSyncConfig: vi.fn((id: string, changes: Record<string, unknown>) => {
+    const config = mockConfigs.find(c => c.id === id);
+    return config ? Object.assign(config, changes) : undefined;
+  }),
+  syncProfileName: vi.fn((config: { profile?: string }) => config.profile ?? 'default'),
+}));
+
+vi.mock('../lib/profiles.js', () => ({
+  resolveProfileName: vi.fn((name?: string) => name || 'default'),
+  listProfiles: vi.fn(() => ['work']),
 }));
 
 // Mock sync state module
 vi.mock('../sync/state.js', () => ({
   deleteSyncState: vi.fn(() => true),
-  loadSyncState: vi.fn(() => null),
+  loadSyncState: vi.fn(() => ({ syncId: 'test-sync-id', local: {}, remote: {}, updatedAt: '' })),
   saveSyncState: vi.fn(),
   hashFileContent: vi.fn(() => 'hash'),
   buildRemoteFileState: vi.fn(),
+  refreshStatCache: vi.fn(() => false),
+}));
+
+// Mock base revision store
+vi.mock('../sync/base-store.js', () => ({
+  saveBaseContent: vi.fn(),
+  deleteBaseStore: vi.fn(),
+}));
+
+// Mock conflict queue
+vi.mock('../sync/conflict-queue.js', () => ({
+  deleteConflictQueue: vi.fn(),
+  dequeueConflict: vi.fn(() => false),
+}));
+
+// Mock conflict inbox
+vi.mock('../sync/conflict-inbox.js', () => ({
+  listConflictInbox: vi.fn(() => []),
+  findInboxEntries: vi.fn(() => []),
+  loadInboxVersions: vi.fn(() => ({ local: 'local', remote: 'remote' })),
+  removeInboxEntry: vi.fn(),
+  resolveInboxEntry: vi.fn(),
+  isStaleInboxEntry: vi.fn(() => false),
 }));
 
 // Mock sync engine module
 vi.mock('../sync/engine.js', () => ({
-  scanLocalFiles: vi.fn(() => ({})),
+  scanLocalFiles: vi.fn(async () => ({})),
   scanRemoteFiles: vi.fn(async () => ({})),
   executePull: vi.fn(async (_client: unknown, _config: unknown, _diff: unknown, onProgress?: (p: unknown) => void) => {
     if (onProgress) onProgress({ phase: 'complete', current: 0, total: 0 });
-    return { filesDownloaded: 0, filesDeleted: 0, filesUploaded: 0, bytesTransferred: 0, errors: [] };
+    return { filesDownloaded: 0, filesDeleted: 0, filesMoved: 0, filesUploaded: 0, bytesTransferred: 0, errors: [], conflicts: [] };
   }),
   executePush: vi.fn(async (_client: unknown, _config: unknown, _diff: unknown, onProgress?: (p: unknown) => void) => {
     if (onProgress) onProgress({ phase: 'complete', current: 0, total: 0 });
-    return { filesDownloaded: 0, filesDeleted: 0, filesUploaded: 0, bytesTransferred: 0, errors: [] };
+    return { filesDownloaded: 0, filesDeleted: 0, filesMoved: 0, filesUploaded: 0, bytesTransferred: 0, errors: [], conflicts: [] };
   }),
+  executeSync: vi.fn(async () => ({
+    filesDownloaded: 0, filesDeleted: 0, filesMoved: 0, filesUploaded: 0, bytesTransferred: 0, errors: [], conflicts: [],
+  })),
   computePullDiff: vi.fn(() => ({ downloads: [], deletes: [], uploads: [], totalBytes: 0 })),
   computePushDiff: vi.fn(() => ({ downloads: [], deletes: [], uploads: [], totalBytes: 0 })),
+  computeSyncDiff: vi.fn(() => ({ downloads: [], deletes: [], uploads: [], conflicts: [], totalBytes: 0 })),
+  resumeSyncRun: vi.fn(async () => null),
+  isValidConcurrency: vi.fn((n: number) => Number.isInteger(n) && n >= 1 && n <= 16),
+  MAX_CONCURRENCY: 16,
 }));
 
 // Mock sync ignore module
-vi.mock('../sync/ignore.js', () => ({
+vi.mock('../sync/ignore.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../sync/ignore.js')>(),
   resolveIgnorePatterns: vi.fn(() => []),
 }));
 
+vi.mock('../sync/remote-manifest.js', () => ({
+  loadRemoteManifest: vi.fn(() => ({})),
+  saveRemoteManifest: vi.fn(),
+  deleteRemoteManifest: vi.fn(),
+  recordRemoteDocument: vi.fn(),
+}));
+
+vi.mock('../sync/journal.js', () => ({
+  loadInterruptedRun: vi.fn(() => null),
+  clearJournal: vi.fn(),
+}));
+
+vi.mock('../sync/lock.js', () => ({
+  acquireSyncLock: vi.fn(() => true),
+  waitForSyncLock: vi.fn(async () => undefined),
+  releaseSyncLock: vi.fn(),
+  readSyncLock: vi.fn(() => null),
+  formatLockHolder: vi.fn(() => 'daemon (pid 4242) for 0m 5s'),
+}));
+
+vi.mock('../sync/trash.js', () => ({
+  listTrash: vi.fn(() => []),
+  restoreFromTrash: vi.fn(() => ({ restored: [], skipped: [] })),
+  emptyTrash: vi.fn(() => 0),
+}));
+
+vi.mock('../sync/history.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../sync/history.js')>(),
+  loadSyncHistory: vi.fn(() => []),
+  deleteSyncHistory: vi.fn(),
+}));
+
+vi.mock('../sync/encryption.js', () => ({
+  createSyncClient: vi.fn(async (client: unknown) => client),
+  requireVaultKey: vi.fn(async () => 'a'.repeat(64)),
+}));
+
+vi.mock('../sync/daemon.js', () => ({
+  startDaemon: vi.fn(),
+  stopDaemon: vi.fn(),
+  getDaemonStatus: vi.fn(() => ({ running: false, pid: null, logFile: '/tmp/daemon.log', uptime: null, startedAt: null })),
+}));
+
+vi.mock('../sync/daemon-control.js', () => ({
+  sendDaemonCommand: vi.fn(),
+}));
+
+vi.mock('../sync/auth-status.js', () => ({
+  readAuthRequired: vi.fn(() => ({})),
+  formatAuthRequired: vi.fn((profile: string) => `Login required for profile "${profile}"`),
+}));
+
 let sdkMock: SDKMock;
 vi.mock('../client.js', () => ({
   getClientAsync: vi.fn(async () => sdkMock),
+  getChangeFeedSource: vi.fn(),
+}));
+
+vi.mock('../sync/change-feed.js', () => ({
+  deleteFeedCursor: vi.fn(),
+}));
+
+vi.mock('../sync/outbox.js', () => ({
+  loadOutbox: vi.fn(() => []),
+  deleteOutbox: vi.fn(),
 }));
 
-import { createSyncConfig, deleteSyncConfig, loadSyncConfigs } from '../sync/config.js';
-import { deleteSyncState } from '../sync/state.js';
-import { scanLocalFiles, scanRemoteFiles, computePullDiff, computePushDiff, executePull, executePush } from '../sync/engine.js';
+import { createSyncConfig, deleteSyncConfig, loadSyncConfigs, updateSyncConfig } from '../sync/config.js';
+import { getClientAsync } from '../client.js';
+import { deleteSyncState, loadSyncState } from '../sync/state.js';
+import { deleteConflictQueue } from '../sync/conflict-queue.js';
+import { createSyncClient, requireVaultKey } from '../sync/encryption.js';
+import { deleteRemoteManifest, recordRemoteDocument, saveRemoteManifest } from '../sync/remote-manifest.js';
+import { deleteFeedCursor } from '../sync/change-feed.js';
+import { loadOutbox, deleteOutbox } from '../sync/outbox.js';
+import { clearJournal } from '../sync/journal.js';
+import { listTrash, restoreFromTrash, emptyTrash } from '../sync/trash.js';
+import { loadSyncHistory, deleteSyncHistory, startSyncRun, recordChange } from '../sync/history.js';
+import { waitForSyncLock, releaseSyncLock, readSyncLock } from '../sync/lock.js';
+import { getDaemonStatus } from '../sync/daemon.js';
+import { sendDaemonCommand } from '../sync/daemon-control.js';
+import { readAuthRequired } from '../sync/auth-status.js';
+import {
+  listConflictInbox,
+  findInboxEntries,
+  removeInboxEntry,
+  resolveInboxEntry,
+  isStaleInboxEntry,
+} from '../sync/conflict-inbox.js';
+import {
+  scanLocalFiles,
+  scanRemoteFiles,
+  computePullDiff,
+  computePushDiff,
+  computeSyncDiff,
+  executePull,
+  executePush,
+  executeSync,
+  resumeSyncRun,
+} from '../sync/engine.js';
 
 describe('sync commands', () => {
   let program: Command;
@@ -120,6 +256,23 @@ describe('sync commands', () => {
       );
     });
 
+    it('should record the profile the sync uses', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'Work Vault' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/work', '--profile', 'work']);
+
+      expect(getClientAsync).toHaveBeenCalledWith('work');
+      expect(createSyncConfig).toHaveBeenCalledWith(expect.objectContaining({ profile: 'work' }));
+    });
+
+    it('should reject an unknown profile', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/work', '--profile', 'nope']);
+
+      expect(createSyncConfig).not.toHaveBeenCalled();
+      expect(outputSpy.stderr.some(l => l.includes('Profile not found: nope'))).toBe(true);
+      expect(process.exitCode).toBe(1);
+    });
+
     it('should pass custom options', async () => {
       sdkMock.vaults.get.mockResolvedValue({
         id: 'vault-1',
@@ -143,6 +296,139 @@ describe('sync commands', () => {
       );
     });
 
+    it('should pass attachment extensions and the size limit', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'My Vault', slug: 'my-vault' });
+
+      await program.parseAsync([
+        'node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault',
+        '--include-extensions', 'md', '.PNG', 'pdf',
+        '--max-file-size', '25MB',
+      ]);
+
+      expect(createSyncConfig).toHaveBeenCalledWith(
+        expect.objectContaining({
+          includeExtensions: ['.md', '.png', '.pdf'],
+          maxFileSize: 25 * 1024 * 1024,
+        }),
+      );
+    });
+
+    it('should store the transfer concurrency', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'My Vault', slug: 'my-vault' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault', '--concurrency', '8']);
+
+      expect(createSyncConfig).toHaveBeenCalledWith(expect.objectContaining({ concurrency: 8 }));
+    });
+
+    it('should store the mass-deletion threshold', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'My Vault', slug: 'my-vault' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault', '--mass-delete-threshold', '25%']);
+
+      expect(createSyncConfig).toHaveBeenCalledWith(expect.objectContaining({ massDeleteThreshold: '25%' }));
+    });
+
+    it('should reject an invalid mass-deletion threshold', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'My Vault', slug: 'my-vault' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault', '--mass-delete-threshold', 'lots']);
+
+      expect(createSyncConfig).not.toHaveBeenCalled();
+      expect(outputSpy.stderr.some(l => l.includes('Invalid threshold: lots'))).toBe(true);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should store include paths', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'My Vault', slug: 'my-vault' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault', '--include', './projects/', 'journal']);
+
+      expect(createSyncConfig).toHaveBeenCalledWith(expect.objectContaining({ include: ['projects/', 'journal'] }));
+    });
+
+    it('should store the normalization policy', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'My Vault', slug: 'my-vault' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault', '--line-endings', 'crlf', '--strip-bom']);
+
+      expect(createSyncConfig).toHaveBeenCalledWith(expect.objectContaining({
+        normalize: { lineEndings: 'crlf', stripBom: true, ignoreTrailingWhitespace: undefined },
+      }));
+    });
+
+    it('should store the frontmatter fields', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'My Vault', slug: 'my-vault' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault', '--frontmatter', 'title,tags']);
+
+      expect(createSyncConfig).toHaveBeenCalledWith(expect.objectContaining({ frontmatter: ['tags', 'title'] }));
+    });
+
+    it('should reject unknown frontmatter fields', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'My Vault', slug: 'my-vault' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault', '--frontmatter', 'tags,owner']);
+
+      expect(createSyncConfig).not.toHaveBeenCalled();
+      expect(outputSpy.stderr.some(l => l.includes('Invalid --frontmatter: tags,owner'))).toBe(true);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should reject unknown line endings', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'My Vault', slug: 'my-vault' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault', '--line-endings', 'cr']);
+
+      expect(createSyncConfig).not.toHaveBeenCalled();
+      expect(outputSpy.stderr.some(l => l.includes('Invalid --line-endings: cr'))).toBe(true);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should reject include paths outside the sync folder', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'My Vault', slug: 'my-vault' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault', '--include', '../elsewhere']);
+
+      expect(createSyncConfig).not.toHaveBeenCalled();
+      expect(outputSpy.stderr.some(l => l.includes('Invalid include path: ../elsewhere'))).toBe(true);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should reject an invalid size limit', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'My Vault', slug: 'my-vault' });
+
+      await program.parseAsync([
+        'node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault',
+        '--max-file-size', 'huge',
+      ]);
+
+      expect(createSyncConfig).not.toHaveBeenCalled();
+      expect(outputSpy.stderr.some(l => l.includes('Invalid size: huge'))).toBe(true);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should refuse an encrypted vault without a vault key', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'Secret', slug: 'secret', encryptionEnabled: true });
+      vi.mocked(requireVaultKey).mockRejectedValueOnce(new Error('Vault vault-1 is encrypted but no vault key found.'));
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault']);
+
+      expect(requireVaultKey).toHaveBeenCalledWith('vault-1');
+      expect(createSyncConfig).not.toHaveBeenCalled();
+      expect(outputSpy.stderr.some(l => l.includes('no vault key found'))).toBe(true);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should initialize an encrypted vault when its key is available', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', name: 'Secret', slug: 'secret', encryptionEnabled: true });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'init', 'vault-1', '/tmp/test-vault']);
+
+      expect(requireVaultKey).toHaveBeenCalledWith('vault-1');
+      expect(createSyncConfig).toHaveBeenCalled();
+    });
+
     it('should handle vault not found error', async () => {
       sdkMock.vaults.get.mockRejectedValue(new Error('Not found'));
 
@@ -203,6 +489,26 @@ describe('sync commands', () => {
       expect(Array.isArray(parsed)).toBe(true);
       expect(parsed[0].id).toBe('sync-1');
     });
+
+    it('should show the profile of each sync', async () => {
+      vi.mocked(loadSyncConfigs).mockReturnValueOnce([
+        {
+          id: 'sync-1', vaultId: 'vault-1', localPath: '/home/user/work', profile: 'work',
+          mode: 'sync' as const, onConflict: 'newer' as const, ignore: [],
+          lastSyncAt: '1970-01-01T00:00:00.000Z', autoSync: true,
+        },
+        {
+          id: 'sync-2', vaultId: 'vault-2', localPath: '/home/user/notes',
+          mode: 'sync' as const, onConflict: 'newer' as const, ignore: [],
+          lastSyncAt: '1970-01-01T00:00:00.000Z', autoSync: true,
+        },
+      ]);
+
+      await program.parseAsync(['node', 'cli', 'sync', 'list', '--output', 'json']);
+
+      const parsed = JSON.parse(outputSpy.stdout.join(''));
+      expect(parsed.map((c: { profile: string }) => c.profile)).toEqual(['work', 'default']);
+    });
   });
 
   describe('sync delete', () => {
@@ -213,6 +519,12 @@ describe('sync commands', () => {
 
       expect(deleteSyncConfig).toHaveBeenCalledWith('sync-1');
       expect(deleteSyncState).toHaveBeenCalledWith('sync-1');
+      expect(deleteConflictQueue).toHaveBeenCalledWith('sync-1');
+      expect(deleteRemoteManifest).toHaveBeenCalledWith('sync-1');
+      expect(deleteFeedCursor).toHaveBeenCalledWith('sync-1');
+      expect(deleteOutbox).toHaveBeenCalledWith('sync-1');
+      expect(clearJournal).toHaveBeenCalledWith('sync-1');
+      expect(deleteSyncHistory).toHaveBeenCalledWith('sync-1');
     });
 
     it('should report error when sync not found', async () => {
@@ -224,6 +536,95 @@ describe('sync commands', () => {
     });
   });
 
+  describe('sync config', () => {
+    beforeEach(() => {
+      mockConfigs.push({
+        id: 'sync-1', vaultId: 'vault-1', localPath: '/tmp/test',
+        mode: 'sync', onConflict: 'newer', ignore: ['.git', 'node_modules'],
+        include: ['projects/'],
+        lastSyncAt: '1970-01-01T00:00:00.000Z', autoSync: false,
+      });
+    });
+
+    it('should show the current rules', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'config', 'sync-1', '--output', 'json']);
+
+      expect(updateSyncConfig).not.toHaveBeenCalled();
+      expect(JSON.parse(outputSpy.stdout.join(''))).toEqual(expect.objectContaining({
+        include: 'projects/',
+        ignore: '.git, node_modules',
+      }));
+    });
+
+    it('should add and remove ignore patterns and include paths', async () => {
+      await program.parseAsync([
+        'node', 'cli', 'sync', 'config', 'sync-1',
+        '--add-ignore', '*.pdf', '!keep.pdf',
+        '--remove-ignore', 'node_modules',
+        '--add-include', 'journal/',
+      ]);
+
+      expect(updateSyncConfig).toHaveBeenCalledWith('sync-1', {
+        ignore: ['.git', '*.pdf', '!keep.pdf'],
+        include: ['projects/', 'journal/'],
+      });
+    });
+
+    it('should clear the include list', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'config', 'sync-1', '--clear-include']);
+
+      expect(updateSyncConfig).toHaveBeenCalledWith('sync-1', { ignore: ['.git', 'node_modules'], include: undefined });
+    });
+
+    it('should change the normalization policy', async () => {
+      mockConfigs[0].normalize = { lineEndings: 'lf', stripBom: true };
+
+      await program.parseAsync([
+        'node', 'cli', 'sync', 'config', 'sync-1', '--no-strip-bom', '--ignore-trailing-whitespace',
+      ]);
+
+      expect(updateSyncConfig).toHaveBeenCalledWith('sync-1', expect.objectContaining({
+        normalize: { lineEndings: 'lf', stripBom: undefined, ignoreTrailingWhitespace: true },
+      }));
+    });
+
+    it('should drop the policy once nothing is normalized', async () => {
+      mockConfigs[0].normalize = { lineEndings: 'lf' };
+
+      await program.parseAsync(['node', 'cli', 'sync', 'config', 'sync-1', '--line-endings', 'preserve']);
+
+      const [, changes] = vi.mocked(updateSyncConfig).mock.calls[0];
+      expect(changes).toHaveProperty('normalize', undefined);
+    });
+
+    it('should change the frontmatter fields', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'config', 'sync-1', '--frontmatter', 'tags']);
+
+      expect(updateSyncConfig).toHaveBeenCalledWith('sync-1', expect.objectContaining({ frontmatter: ['tags'] }));
+    });
+
+    it('should turn the frontmatter mapping off', async () => {
+      mockConfigs[0].frontmatter = ['tags', 'title'];
+
+      await program.parseAsync(['node', 'cli', 'sync', 'config', 'sync-1', '--no-frontmatter']);
+
+      const [, changes] = vi.mocked(updateSyncConfig).mock.calls[0];
+      expect(changes).toHaveProperty('frontmatter', undefined);
+    });
+
+    it('should not save changes in a dry run', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'config', 'sync-1', '--add-include', 'journal/', '--dry-run']);
+
+      expect(updateSyncConfig).not.toHaveBeenCalled();
+    });
+
+    it('should report error when sync not found', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'config', 'nonexistent']);
+
+      expect(process.exitCode).toBe(1);
+    });
+  });
+
   describe('sync pull', () => {
     beforeEach(() => {
       mockConfigs.push({
@@ -253,6 +654,18 @@ describe('sync commands', () => {
       expect(parsed.downloaded).toBe(0);
     });
 
+    it('should scan and transfer through the encryption-aware client', async () => {
+      const syncClient = { ...sdkMock };
+      vi.mocked(createSyncClient).mockResolvedValueOnce(syncClient as never);
+      vi.mocked(scanRemoteFiles).mockResolvedValue({});
+      vi.mocked(computePullDiff).mockReturnValue({ downloads: [], deletes: [], uploads: [], totalBytes: 0 });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'pull', 'pull-1', '--output', 'json']);
+
+      expect(createSyncClient).toHaveBeenCalledWith(sdkMock, expect.objectContaining({ vaultId: 'vault-1' }));
+      expect(scanRemoteFiles).toHaveBeenCalledWith(syncClient, 'vault-1', [], ['.md'], {});
+    });
+
     it('should output only JSON (no text status) when --dry-run and --output json', async () => {
       vi.mocked(scanRemoteFiles).mockResolvedValue({
         'a.md': { path: 'a.md', hash: '', mtime: '', size: 100 },
@@ -304,8 +717,8 @@ describe('sync commands', () => {
         totalBytes: 100,
       });
       vi.mocked(executePull).mockResolvedValue({
-        filesDownloaded: 1, filesDeleted: 0, filesUploaded: 0,
-        bytesTransferred: 100, errors: [],
+        filesDownloaded: 1, filesDeleted: 0, filesMoved: 0, filesUploaded: 0,
+        bytesTransferred: 100, errors: [], conflicts: [],
       });
 
       await program.parseAsync(['node', 'cli', 'sync', 'pull', 'pull-1', '--output', 'json']);
@@ -316,6 +729,76 @@ describe('sync commands', () => {
       expect(parsed.unchanged).toBe(2);
       expect(parsed.downloaded).toBe(1);
     });
+
+    it('should pass --concurrency to the engine', async () => {
+      vi.mocked(computePullDiff).mockReturnValue({
+        downloads: [
+          { path: 'a.md', action: 'create' as const, direction: 'download' as const, sizeBytes: 100, reason: 'new' },
+        ],
+        deletes: [],
+        uploads: [],
+        totalBytes: 100,
+      });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'pull', 'pull-1', '--concurrency', '8']);
+
+      expect(executePull).toHaveBeenCalledWith(
+        expect.anything(), expect.anything(), expect.anything(), expect.any(Function),
+        expect.objectContaining({ concurrency: 8 }),
+      );
+    });
+
+    it('should hold the sync lock while pulling', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'pull', 'pull-1']);
+
+      expect(waitForSyncLock).toHaveBeenCalledWith('pull-1', 'sync pull');
+      expect(releaseSyncLock).toHaveBeenCalledWith('pull-1');
+    });
+
+    it('should fail when another process keeps the sync locked', async () => {
+      vi.mocked(waitForSyncLock).mockRejectedValueOnce(new Error('Sync pull-1 is locked by daemon (pid 4242) for 0m 5s.'));
+
+      await program.parseAsync(['node', 'cli', 'sync', 'pull', 'pull-1']);
+
+      expect(scanLocalFiles).not.toHaveBeenCalled();
+      expect(outputSpy.stderr.some(l => l.includes('locked by daemon'))).toBe(true);
+    });
+
+    it('should scan with the stat cache unless --rehash is given', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'pull', 'pull-1']);
+      await program.parseAsync(['node', 'cli', 'sync', 'pull', 'pull-1', '--rehash']);
+
+      const options = vi.mocked(scanLocalFiles).mock.calls.map(call => call[3]);
+      expect(options).toEqual([
+        { cache: {}, rehash: false },
+        { cache: {}, rehash: true },
+      ]);
+    });
+
+    it('should only allow mass deletions with --allow-mass-delete', async () => {
+      vi.mocked(computePullDiff).mockReturnValue({
+        downloads: [],
+        deletes: [{ path: 'a.md', action: 'delete' as const, direction: 'download' as const, sizeBytes: 0, reason: 'deleted remotely' }],
+        uploads: [],
+        totalBytes: 0,
+      });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'pull', 'pull-1']);
+      await program.parseAsync(['node', 'cli', 'sync', 'pull', 'pull-1', '--allow-mass-delete']);
+
+      const options = vi.mocked(executePull).mock.calls.map(call => call[4]);
+      expect(options).toEqual([
+        expect.objectContaining({ allowMassDelete: false }),
+        expect.objectContaining({ allowMassDelete: true }),
+      ]);
+    });
+
+    it.each(['0', '17', '4abc', '2.5', ''])('should reject --concurrency %j', async (value) => {
+      await expect(program.parseAsync(['node', 'cli', 'sync', 'pull', 'pull-1', '--concurrency', value]))
+        .rejects.toThrow(`argument '${value}' is invalid. Expected a whole number from 1 to 16.`);
+
+      expect(executePull).not.toHaveBeenCalled();
+    });
   });
 
   describe('sync push', () => {
@@ -328,7 +811,7 @@ describe('sync commands', () => {
     });
 
     it('should include unchanged count in JSON when up to date', async () => {
-      vi.mocked(scanLocalFiles).mockReturnValue({
+      vi.mocked(scanLocalFiles).mockResolvedValue({
         'a.md': { path: 'a.md', hash: 'h1', mtime: '', size: 0 },
         'b.md': { path: 'b.md', hash: 'h2', mtime: '', size: 0 },
         'c.md': { path: 'c.md', hash: 'h3', mtime: '', size: 0 },
@@ -343,4 +826,456 @@ describe('sync commands', () => {
       expect(parsed.unchanged).toBe(3);
     });
   });
+
+  describe('sync run', () => {
+    beforeEach(() => {
+      mockConfigs.push({
+        id: 'sync-1', vaultId: 'vault-1', localPath: '/tmp/test',
+        mode: 'sync', onConflict: 'newer', ignore: [],
+        lastSyncAt: '1970-01-01T00:00:00.000Z', autoSync: false,
+      });
+    });
+
+    it('should reject configurations that are not in sync mode', async () => {
+      mockConfigs.push({
+        id: 'pull-1', vaultId: 'vault-1', localPath: '/tmp/test',
+        mode: 'pull', onConflict: 'newer', ignore: [],
+        lastSyncAt: '1970-01-01T00:00:00.000Z', autoSync: false,
+      });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'run', 'pull-1']);
+
+      expect(process.exitCode).toBe(1);
+      expect(executeSync).not.toHaveBeenCalled();
+    });
+
+    it('should report up to date without executing', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'run', 'sync-1', '--output', 'json']);
+
+      expect(computeSyncDiff).toHaveBeenCalled();
+      expect(executeSync).not.toHaveBeenCalled();
+      const parsed = JSON.parse(outputSpy.stdout.find(l => l.includes('"status"'))!);
+      expect(parsed.status).toBe('up-to-date');
+    });
+
+    it('should execute the sync and report uploads, downloads and conflicts', async () => {
+      vi.mocked(computeSyncDiff).mockReturnValue({
+        uploads: [{ path: 'a.md', action: 'update', direction: 'upload', sizeBytes: 10, reason: 'Local file updated' }],
+        downloads: [{ path: 'b.md', action: 'update', direction: 'download', sizeBytes: 20, reason: 'Remote file updated' }],
+        deletes: [],
+        conflicts: [{
+          path: 'c.md',
+          local: { path: 'c.md', hash: 'l', mtime: '', size: 1 },
+          remote: { path: 'c.md', hash: 'r', mtime: '', size: 1 },
+          reason: 'Changed locally and remotely',
+        }],
+        totalBytes: 31,
+      });
+      vi.mocked(executeSync).mockResolvedValue({
+        filesUploaded: 1, filesDownloaded: 2, filesDeleted: 0, filesMoved: 0, bytesTransferred: 31, errors: [],
+        conflicts: [{ path: 'c.md', resolution: 'remote', conflictFile: 'c.conflicted.local.2025-01-01T00-00-00.md' }],
+      });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'run', 'sync-1', '--output', 'json']);
+
+      expect(executeSync).toHaveBeenCalled();
+      const parsed = JSON.parse(outputSpy.stdout.find(l => l.includes('"conflicts"'))!);
+      expect(parsed.uploaded).toBe(1);
+      expect(parsed.downloaded).toBe(2);
+      expect(parsed.conflicts).toBe(1);
+    });
+
+    it('should point queued conflicts at sync resolve', async () => {
+      vi.mocked(computeSyncDiff).mockReturnValue({
+        uploads: [],
+        downloads: [],
+        deletes: [],
+        conflicts: [{
+          path: 'c.md',
+          local: { path: 'c.md', hash: 'l', mtime: '', size: 1 },
+          remote: { path: 'c.md', hash: 'r', mtime: '', size: 1 },
+          reason: 'Changed locally and remotely',
+        }],
+        totalBytes: 1,
+      });
+      vi.mocked(executeSync).mockResolvedValue({
+        filesUploaded: 0, filesDownloaded: 0, filesDeleted: 0, filesMoved: 0, bytesTransferred: 0, errors: [],
+        conflicts: [{ path: 'c.md', resolution: 'queued', conflictFile: null }],
+      });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'run', 'sync-1']);
+
+      const stderr = outputSpy.stderr.join('');
+      expect(stderr).toContain('c.md — queued');
+      expect(stderr).toContain('lsvault sync resolve sync-1 c.md');
+    });
+  });
+
+  describe('sync status', () => {
+    beforeEach(() => {
+      mockConfigs.push({
+        id: 'sync-1', vaultId: 'vault-1', localPath: '/tmp/test',
+        mode: 'sync', onConflict: 'newer', ignore: [],
+        lastSyncAt: '1970-01-01T00:00:00.000Z', autoSync: false,
+      });
+    });
+
+    it('should show which process holds the sync lock', async () => {
+      const lock = { pid: 4242, holder: 'daemon', acquiredAt: '2025-01-01T00:00:00.000Z' };
+      vi.mocked(readSyncLock).mockReturnValue(lock);
+
+      await program.parseAsync(['node', 'cli', 'sync', 'status', 'sync-1', '--output', 'json']);
+      expect(JSON.parse(outputSpy.stdout.join('')).lockedBy).toEqual(lock);
+
+      outputSpy.stderr.length = 0;
+      await program.parseAsync(['node', 'cli', 'sync', 'status', 'sync-1', '--output', 'text']);
+      expect(outputSpy.stderr.some(l => l.includes('Locked by daemon (pid 4242) for 0m 5s'))).toBe(true);
+    });
+
+    it('should list changes waiting in the outbox', async () => {
+      const outbox = [{ path: 'notes/a.md', op: 'put' as const, queuedAt: '2025-06-16T10:00:00.000Z', attempts: 3, lastError: 'fetch failed' }];
+      vi.mocked(loadOutbox).mockReturnValue(outbox);
+
+      await program.parseAsync(['node', 'cli', 'sync', 'status', 'sync-1', '--output', 'json']);
+      expect(JSON.parse(outputSpy.stdout.join('')).outbox).toEqual(outbox);
+
+      outputSpy.stderr.length = 0;
+      await program.parseAsync(['node', 'cli', 'sync', 'status', 'sync-1', '--output', 'text']);
+      expect(outputSpy.stderr.some(l => l.includes('1 change(s) in the outbox'))).toBe(true);
+      expect(outputSpy.stderr.some(l => l.includes('upload  notes/a.md') && l.includes('3 attempts: fetch failed'))).toBe(true);
+      vi.mocked(loadOutbox).mockReturnValue([]);
+    });
+  });
+
+  describe('sync resume', () => {
+    beforeEach(() => {
+      mockConfigs.push({
+        id: 'sync-1', vaultId: 'vault-1', localPath: '/tmp/test',
+        mode: 'sync', onConflict: 'newer', ignore: [],
+        lastSyncAt: '1970-01-01T00:00:00.000Z', autoSync: false,
+      });
+    });
+
+    it('should report when there is nothing to resume', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'resume', 'sync-1', '--output', 'json']);
+
+      const parsed = JSON.parse(outputSpy.stdout.find(l => l.startsWith('{'))!);
+      expect(parsed.status).toBe('nothing-to-resume');
+    });
+
+    it('should recover the interrupted run and report the counts', async () => {
+      vi.mocked(resumeSyncRun).mockResolvedValueOnce({ completed: 3, redone: 1, rolledBack: 0, errors: [] });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'resume', 'sync-1', '--output', 'json']);
+
+      expect(resumeSyncRun).toHaveBeenCalledWith(sdkMock, expect.objectContaining({ id: 'sync-1' }), { rollback: false });
+      const parsed = JSON.parse(outputSpy.stdout.find(l => l.startsWith('{'))!);
+      expect(parsed).toMatchObject({ completed: 3, redone: 1, rolledBack: 0, errors: 0 });
+    });
+
+    it('should pass --rollback through', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'resume', 'sync-1', '--rollback']);
+
+      expect(resumeSyncRun).toHaveBeenCalledWith(sdkMock, expect.anything(), { rollback: true });
+    });
+  });
+
+  describe('sync conflicts', () => {
+    const entry = {
+      id: 'c0ffee00',
+      kind: 'copy' as const,
+      docPath: 'notes/a.md',
+      source: 'remote' as const,
+      detectedAt: '2025-06-15T10:20:30.000Z',
+      copyPath: 'notes/a.conflicted.remote.2025-06-15T10-20-30.md',
+    };
+
+    beforeEach(() => {
+      mockConfigs.push({
+        id: 'sync-1', vaultId: 'vault-1', localPath: '/tmp/test',
+        mode: 'sync', onConflict: 'newer', ignore: [],
+        lastSyncAt: '1970-01-01T00:00:00.000Z', autoSync: false,
+      });
+      vi.mocked(loadSyncState).mockReturnValue({ syncId: 'sync-1', local: {}, remote: {}, updatedAt: '' });
+      vi.mocked(listConflictInbox).mockReturnValue([]);
+      vi.mocked(findInboxEntries).mockReturnValue([]);
+    });
+
+    it('should list inbox entries across configurations', async () => {
+      vi.mocked(listConflictInbox).mockReturnValue([entry]);
+
+      await program.parseAsync(['node', 'cli', 'sync', 'conflicts', 'list', '--output', 'json']);
+
+      const parsed = JSON.parse(outputSpy.stdout.join(''));
+      expect(parsed).toEqual([{ syncId: 'sync-1', ...entry }]);
+    });
+
+    it('should remove only stale entries on clean', async () => {
+      const fresh = { ...entry, id: 'fresh000' };
+      vi.mocked(listConflictInbox).mockReturnValue([entry, fresh]);
+      vi.mocked(isStaleInboxEntry).mockImplementation((_c, e) => e.id === entry.id);
+
+      await program.parseAsync(['node', 'cli', 'sync', 'conflicts', 'clean', 'sync-1', '--yes', '--output', 'json']);
+
+      expect(removeInboxEntry).toHaveBeenCalledTimes(1);
+      expect(removeInboxEntry).toHaveBeenCalledWith(expect.objectContaining({ id: 'sync-1' }), entry);
+      expect(JSON.parse(outputSpy.stdout.join(''))).toEqual({ removed: 1 });
+    });
+
+    it('should resolve an inbox entry with --use', async () => {
+      vi.mocked(findInboxEntries).mockReturnValue([entry]);
+
+      await program.parseAsync(['node', 'cli', 'sync', 'resolve', 'sync-1', 'c0ffee00', '--use', 'remote', '--output', 'json']);
+
+      expect(resolveInboxEntry).toHaveBeenCalledWith(sdkMock, expect.objectContaining({ id: 'sync-1' }), entry, 'remote');
+      expect(JSON.parse(outputSpy.stdout.join(''))).toEqual({ id: 'c0ffee00', docPath: 'notes/a.md', resolved: 'remote' });
+    });
+
+    it('should require --use when it cannot prompt', async () => {
+      vi.mocked(listConflictInbox).mockReturnValue([entry]);
+
+      await program.parseAsync(['node', 'cli', 'sync', 'resolve', 'sync-1']);
+
+      expect(process.exitCode).toBe(1);
+      expect(resolveInboxEntry).not.toHaveBeenCalled();
+    });
+
+    it('should resolve a document outside the inbox by path', async () => {
+      sdkMock.documents.get.mockResolvedValue({ content: 'remote content', document: {} });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'resolve', 'sync-1', 'b.md', '--use', 'remote', '--output', 'json']);
+
+      expect(sdkMock.documents.get).toHaveBeenCalledWith('vault-1', 'b.md');
+      expect(JSON.parse(outputSpy.stdout.join(''))).toEqual({ docPath: 'b.md', resolved: 'remote' });
+    });
+
+    it('should record the uploaded version in the remote manifest', async () => {
+      const localPath = fs.mkdtempSync(path.join(os.tmpdir(), 'lsvault-resolve-'));
+      mockConfigs[0].localPath = localPath;
+      fs.writeFileSync(path.join(localPath, 'b.md'), '# Local');
+      const uploaded = { path: 'b.md', fileModifiedAt: '2025-06-16T10:00:00.000Z', sizeBytes: 7, contentHash: 'c1' };
+      sdkMock.documents.put.mockResolvedValue(uploaded);
+
+      try {
+        await program.parseAsync(['node', 'cli', 'sync', 'resolve', 'sync-1', 'b.md', '--use', 'local']);
+      } finally {
+        fs.rmSync(localPath, { recursive: true, force: true });
+      }
+
+      expect(sdkMock.documents.put).toHaveBeenCalledWith('vault-1', 'b.md', '# Local');
+      expect(recordRemoteDocument).toHaveBeenCalledWith({}, 'b.md', 'hash', uploaded);
+      expect(saveRemoteManifest).toHaveBeenCalledWith('sync-1', {});
+    });
+  });
+
+  describe('sync trash', () => {
+    const trashed = { batch: '2025-06-15T10-20-30-000Z', docPath: 'notes/a.md', deletedAt: '2025-06-15T10:20:30.000Z', sizeBytes: 12 };
+
+    beforeEach(() => {
+      mockConfigs.push({
+        id: 'sync-1', vaultId: 'vault-1', localPath: '/tmp/test',
+        mode: 'sync', onConflict: 'newer', ignore: [],
+        lastSyncAt: '1970-01-01T00:00:00.000Z', autoSync: false,
+      });
+    });
+
+    it('should list trashed files', async () => {
+      vi.mocked(listTrash).mockReturnValue([trashed]);
+
+      await program.parseAsync(['node', 'cli', 'sync', 'trash', 'list', 'sync-1', '--output', 'json']);
+
+      expect(listTrash).toHaveBeenCalledWith('/tmp/test');
+      expect(JSON.parse(outputSpy.stdout.join(''))).toEqual([trashed]);
+    });
+
+    it('should restore a trash batch', async () => {
+      vi.mocked(listTrash).mockReturnValue([trashed]);
+      vi.mocked(restoreFromTrash).mockReturnValue({ restored: ['notes/a.md'], skipped: [] });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'trash', 'restore', 'sync-1', trashed.batch, '--output', 'json']);
+
+      expect(restoreFromTrash).toHaveBeenCalledWith('/tmp/test', trashed.batch, undefined, false);
+      expect(JSON.parse(outputSpy.stdout.join(''))).toEqual({ restored: 1, skipped: 0 });
+    });
+
+    it('should fail for an unknown batch', async () => {
+      vi.mocked(listTrash).mockReturnValue([trashed]);
+
+      await program.parseAsync(['node', 'cli', 'sync', 'trash', 'restore', 'sync-1', 'nope']);
+
+      expect(restoreFromTrash).not.toHaveBeenCalled();
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should empty batches older than --older-than', async () => {
+      vi.mocked(listTrash).mockReturnValue([trashed]);
+      vi.mocked(emptyTrash).mockReturnValue(1);
+
+      await program.parseAsync(['node', 'cli', 'sync', 'trash', 'empty', 'sync-1', '--older-than', '7', '--yes', '--output', 'json']);
+
+      expect(emptyTrash).toHaveBeenCalledWith('/tmp/test', 7 * 24 * 60 * 60 * 1000);
+      expect(JSON.parse(outputSpy.stdout.join(''))).toEqual({ removed: 1 });
+    });
+  });
+
+  describe('sync history', () => {
+    function makeRun(startedAt: string, trigger: 'manual' | 'watcher', docPath: string, error?: string) {
+      const run = startSyncRun(trigger, trigger === 'manual' ? 'push' : 'watch');
+      run.startedAt = startedAt;
+      if (error) {
+        run.errors.push({ path: docPath, error });
+      } else {
+        recordChange(run, { path: docPath, op: 'upload' }, 10);
+      }
+      return run;
+    }
+
+    const runs = [
+      makeRun('2025-06-14T10:00:00.000Z', 'manual', 'a.md'),
+      makeRun('2025-06-15T10:00:00.000Z', 'watcher', 'b.md', 'Network down'),
+      makeRun('2025-06-16T10:00:00.000Z', 'watcher', 'a.md'),
+    ];
+
+    beforeEach(() => {
+      mockConfigs.push({
+        id: 'sync-1', vaultId: 'vault-1', localPath: '/tmp/test',
+        mode: 'sync', onConflict: 'newer', ignore: [],
+        lastSyncAt: '1970-01-01T00:00:00.000Z', autoSync: false,
+      });
+      vi.mocked(loadSyncHistory).mockReturnValue(runs);
+    });
+
+    function startedAts(): string[] {
+      return (JSON.parse(outputSpy.stdout.join('')) as Array<{ startedAt: string }>).map(r => r.startedAt);
+    }
+
+    it('should list runs newest first as JSON', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'history', 'sync-1', '--output', 'json']);
+
+      expect(loadSyncHistory).toHaveBeenCalledWith('sync-1');
+      const listed = JSON.parse(outputSpy.stdout.join(''));
+      expect(listed).toHaveLength(3);
+      expect(listed[0]).toEqual(expect.objectContaining({
+        startedAt: '2025-06-16T10:00:00.000Z',
+        trigger: 'watcher',
+        changes: [{ path: 'a.md', op: 'upload' }],
+      }));
+    });
+
+    it('should filter runs by document path', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'history', 'sync-1', '--path', 'a.md', '--output', 'json']);
+      expect(startedAts()).toEqual(['2025-06-16T10:00:00.000Z', '2025-06-14T10:00:00.000Z']);
+    });
+
+    it('should filter runs by trigger and start date', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'history', 'sync-1', '--trigger', 'watcher', '--since', '2025-06-16', '--output', 'json']);
+      expect(startedAts()).toEqual(['2025-06-16T10:00:00.000Z']);
+    });
+
+    it('should show only runs with errors', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'history', 'sync-1', '--errors', '--output', 'json']);
+      expect(startedAts()).toEqual(['2025-06-15T10:00:00.000Z']);
+    });
+
+    it('should limit the number of runs', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'history', 'sync-1', '--limit', '1', '--output', 'json']);
+      expect(startedAts()).toEqual(['2025-06-16T10:00:00.000Z']);
+    });
+
+    it('should reject an unknown trigger', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'history', 'sync-1', '--trigger', 'cron']);
+      expect(process.exitCode).toBe(1);
+    });
+  });
+
+  describe('sync daemon', () => {
+    const running = { running: true, pid: 4242, logFile: '/tmp/daemon.log', uptime: 65, startedAt: '2025-06-16T10:00:00.000Z' };
+    const live = {
+      syncId: 'sync-1', profile: 'work', localPath: '/tmp/test', mode: 'sync' as const,
+      paused: false, watching: true, polling: true, streaming: false,
+      lastSyncAt: '2025-06-16T10:00:00.000Z', queueDepth: 3,
+      lastError: { message: 'Network down', at: '2025-06-16T10:05:00.000Z' },
+      authRequired: false,
+    };
+
+    it('should include live sync status', async () => {
+      vi.mocked(getDaemonStatus).mockReturnValueOnce(running);
+      vi.mocked(sendDaemonCommand).mockResolvedValue({ ok: true, syncs: [live] });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'daemon', 'status']);
+
+      expect(sendDaemonCommand).toHaveBeenCalledWith({ command: 'status' });
+      const text = outputSpy.stderr.join('\n');
+      expect(text).toContain('/tmp/test (sync, profile work) — watching, polling');
+      expect(text).toContain('3 change(s) queued');
+      expect(text).toContain('Last error: Network down');
+    });
+
+    it('should report live status in JSON output', async () => {
+      vi.mocked(getDaemonStatus).mockReturnValueOnce(running);
+      vi.mocked(sendDaemonCommand).mockResolvedValue({ ok: true, syncs: [live] });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'daemon', 'status', '--output', 'json']);
+
+      expect(JSON.parse(outputSpy.stdout.join(''))).toEqual(expect.objectContaining({ running: true, syncs: [live] }));
+    });
+
+    it('should still show status when the daemon does not answer', async () => {
+      vi.mocked(getDaemonStatus).mockReturnValueOnce(running);
+      vi.mocked(sendDaemonCommand).mockRejectedValue(new Error('Daemon control socket is not available.'));
+
+      await program.parseAsync(['node', 'cli', 'sync', 'daemon', 'status']);
+
+      expect(outputSpy.stderr.some(l => l.includes('Daemon is running'))).toBe(true);
+      expect(outputSpy.stderr.some(l => l.includes('Live status unavailable'))).toBe(true);
+      expect(process.exitCode).toBeUndefined();
+    });
+
+    it('should report profiles that need a new login', async () => {
+      vi.mocked(readAuthRequired).mockReturnValueOnce({
+        work: { since: '2025-06-16T10:00:00.000Z', message: 'Invalid refresh token' },
+      });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'daemon', 'status']);
+
+      expect(outputSpy.stderr.some(l => l.includes('Login required for profile "work"'))).toBe(true);
+    });
+
+    it('should pause a sync', async () => {
+      vi.mocked(getDaemonStatus).mockReturnValueOnce(running);
+      vi.mocked(sendDaemonCommand).mockResolvedValue({ ok: true, message: 'Paused sync sync-1' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'daemon', 'pause', 'sync-1']);
+
+      expect(sendDaemonCommand).toHaveBeenCalledWith({ command: 'pause', syncId: 'sync-1' }, { timeoutMs: undefined });
+      expect(outputSpy.stderr.some(l => l.includes('Paused sync sync-1'))).toBe(true);
+    });
+
+    it('should wait for a triggered sync to finish', async () => {
+      vi.mocked(getDaemonStatus).mockReturnValueOnce(running);
+      vi.mocked(sendDaemonCommand).mockResolvedValue({ ok: true, message: '2 uploaded' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'daemon', 'trigger', 'sync-1']);
+
+      expect(sendDaemonCommand).toHaveBeenCalledWith({ command: 'trigger', syncId: 'sync-1' }, { timeoutMs: 0 });
+    });
+
+    it('should report errors from the daemon', async () => {
+      vi.mocked(getDaemonStatus).mockReturnValueOnce(running);
+      vi.mocked(sendDaemonCommand).mockResolvedValue({ ok: false, error: 'Sync not managed by the daemon: nope' });
+
+      await program.parseAsync(['node', 'cli', 'sync', 'daemon', 'resume', 'nope']);
+
+      expect(outputSpy.stderr.some(l => l.includes('Sync not managed by the daemon: nope'))).toBe(true);
+      expect(process.exitCode).toBe(1);
+    });
+
+    it('should refuse commands when the daemon is not running', async () => {
+      await program.parseAsync(['node', 'cli', 'sync', 'daemon', 'reload']);
+
+      expect(sendDaemonCommand).not.toHaveBeenCalled();
+      expect(outputSpy.stderr.some(l => l.includes('Daemon is not running'))).toBe(true);
+      expect(process.exitCode).toBe(1);
+    });
+  });
 });
@@ -1,33 +1,123 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import type { Command } from 'commander';
+import { randomBytes } from 'node:crypto';
+import { InvalidArgumentError, type Command } from 'commander';
 import chalk from 'chalk';
-import { getClientAsync } from '../client.js';
+import type { LifestreamVaultClient } from '@lifestreamdynamics/vault-sdk';
+import { getClientAsync, getChangeFeedSource } from '../client.js';
+import { resolveProfileName, listProfiles } from '../lib/profiles.js';
 import { addGlobalFlags, resolveFlags } from '../utils/flags.js';
-import { createOutput, handleError } from '../utils/output.js';
+import { createOutput, handleError, type Output } from '../utils/output.js';
 import { confirmAction } from '../utils/confirm.js';
-import { formatUptime } from '../utils/format.js';
+import { formatUptime, formatBytes } from '../utils/format.js';
 import {
   loadSyncConfigs,
   createSyncConfig,
   deleteSyncConfig,
   getSyncConfig,
+  updateSyncConfig,
+  syncProfileName,
 } from '../sync/config.js';
-import { deleteSyncState, loadSyncState, saveSyncState, hashFileContent, buildRemoteFileState } from '../sync/state.js';
-import { resolveIgnorePatterns } from '../sync/ignore.js';
+import {
+  deleteSyncState,
+  loadSyncState,
+  saveSyncState,
+  hashFileContent,
+  buildRemoteFileState,
+  refreshStatCache,
+} from '../sync/state.js';
+import { resolveIgnorePatterns, normalizeIncludePath } from '../sync/ignore.js';
+import { saveBaseContent, loadBaseContent, deleteBaseStore } from '../sync/base-store.js';
 import {
   scanLocalFiles,
   scanRemoteFiles,
   executePull,
   executePush,
+  executeSync,
   computePullDiff,
   computePushDiff,
+  computeSyncDiff,
+  resumeSyncRun,
+  isValidConcurrency,
+  MAX_CONCURRENCY,
+  type SyncResult,
+  type SyncProgress,
 } from '../sync/engine.js';
 import { formatDiff } from '../sync/diff.js';
+import {
+  createConflictPrompt,
+  formatConflictDiff,
+  buildEditorMergeContent,
+  editInEditor,
+} from '../sync/conflict-prompt.js';
+import {
+  createConflictFile,
+  type ConflictDecision,
+  type ConflictPrompt,
+  type ConflictPromptRequest,
+} from '../sync/conflict.js';
+import {
+  listConflictInbox,
+  findInboxEntries,
+  loadInboxVersions,
+  removeInboxEntry,
+  resolveInboxEntry,
+  isStaleInboxEntry,
+  type ConflictInboxEntry,
+} from '../sync/conflict-inbox.js';
+import { deleteConflictQueue, dequeueConflict } from '../sync/conflict-queue.js';
+import {
+  loadRemoteManifest,
+  saveRemoteManifest,
+  deleteRemoteManifest,
+  recordRemoteDocument,
+} from '../sync/remote-manifest.js';
+import { deleteFeedCursor } from '../sync/change-feed.js';
+import { loadOutbox, deleteOutbox } from '../sync/outbox.js';
+import { loadInterruptedRun, clearJournal } from '../sync/journal.js';
+import { listTrash, restoreFromTrash, emptyTrash } from '../sync/trash.js';
+import {
+  loadSyncHistory,
+  deleteSyncHistory,
+  runTouchesPath,
+  SYNC_TRIGGERS,
+  type SyncTrigger,
+  type SyncHistoryRecord,
+} from '../sync/history.js';
+import {
+  acquireSyncLock,
+  waitForSyncLock,
+  releaseSyncLock,
+  readSyncLock,
+  formatLockHolder,
+} from '../sync/lock.js';
+import { parseDeleteThreshold } from '../sync/mass-delete.js';
+import { localFilePath } from '../sync/paths.js';
+import { isLineEndings, hasNormalization, normalizeText, describeNormalization } from '../sync/normalize.js';
+import { parseFrontmatterFields, describeFrontmatter, withFrontmatter } from '../sync/frontmatter.js';
+import {
+  resolveIncludeExtensions,
+  resolveMaxFileSize,
+  normalizeExtension,
+  parseSize,
+  isBinaryPath,
+  encodeContent,
+  decodeContent,
+} from '../sync/attachments.js';
+import { createSyncClient, requireVaultKey } from '../sync/encryption.js';
 import { createWatcher } from '../sync/watcher.js';
 import { createRemotePoller } from '../sync/remote-poller.js';
 import { startDaemon, stopDaemon, getDaemonStatus } from '../sync/daemon.js';
-import type { SyncMode, ConflictStrategy } from '../sync/types.js';
+import { sendDaemonCommand, type DaemonRequest, type DaemonSyncStatus } from '../sync/daemon-control.js';
+import { readAuthRequired, formatAuthRequired } from '../sync/auth-status.js';
+import type {
+  SyncMode,
+  ConflictStrategy,
+  SyncConfig,
+  NormalizePolicy,
+  LineEndings,
+  FrontmatterField,
+} from '../sync/types.js';
 
 export function registerSyncCommands(program: Command): void {
   const sync = program.command('sync').description('Configure and manage vault sync');
@@ -39,43 +129,155 @@ export function registerSyncCommands(program: Command): void {
     .argument('<localPath>', 'Local directory path')
     .option('--mode <mode>', 'Sync mode: pull, push, sync (default: sync)')
     .option('--on-conflict <strategy>', 'Conflict strategy: newer, local, remote, ask (default: newer)')
-    .option('--ignore <patterns...>', 'Glob patterns to ignore')
+    .option('--conflict-markers', 'Mark overlapping edits inline (git-style) instead of creating a conflict copy')
+    .option('--ignore <patterns...>', 'Patterns to ignore (.gitignore syntax)')
+    .option('--include <paths...>', 'Only sync these folders or files, e.g. projects/ journal/')
+    .option('--include-extensions <exts...>', 'File extensions to sync, e.g. .md .png .pdf, or * for all files (default: .md)')
+    .option('--max-file-size <size>', 'Skip files larger than this, e.g. 25MB (default: 50MB)')
+    .option('--concurrency <n>', 'Files to transfer in parallel (default: 4)', parseConcurrency)
+    .option('--mass-delete-threshold <threshold>', 'Abort syncs deleting more than this many files, or share of tracked files, e.g. 100 or 25% (default: 50%)')
+    .option('--line-endings <style>', 'Normalize line endings of text files: lf, crlf or native (compared and uploaded as LF)')
+    .option('--strip-bom', 'Remove the UTF-8 byte order mark from text files')
+    .option('--ignore-trailing-whitespace', 'Do not count edits to trailing whitespace as changes')
+    .option('--frontmatter <fields>', 'Keep document fields in YAML frontmatter, e.g. tags,title (fields: tags, title, id, createdAt)')
     .option('--interval <interval>', 'Auto-sync interval (e.g., 5m, 1h)')
     .option('--auto-sync', 'Enable auto-sync')
+    .option('-p, --profile <name>', 'Configuration profile to sync with (default: active profile)')
     .addHelpText('after', `
 Examples:
   lsvault sync init <vaultId> ~/my-vault
+  lsvault sync init <vaultId> ~/work --profile work --auto-sync
   lsvault sync init <vaultId> ~/mirror --mode pull --on-conflict remote
   lsvault sync init <vaultId> ~/docs --mode push --on-conflict local --auto-sync
+  lsvault sync init <vaultId> ~/notes --include-extensions .md .png .jpg .pdf --max-file-size 25MB
+  lsvault sync init <vaultId> ~/laptop --include projects/ journal/
+  lsvault sync init <vaultId> ~/shared --line-endings native --strip-bom
+  lsvault sync init <vaultId> ~/obsidian --frontmatter tags,title
 
 Sync modes:
   pull   Download remote changes only (ideal for cron/automation)
   push   Upload local changes only (ideal for CI pipelines)
-  sync   Bidirectional with conflict detection (default)`))
+  sync   Bidirectional with conflict detection (default)
+
+Concurrent edits to different parts of a file are merged automatically.
+Overlapping edits fall back to --on-conflict, or are marked inline with
+--conflict-markers.
+
+Known binary formats (images, PDFs and office documents, archives, audio,
+video, fonts) are transferred byte for byte and stored base64-encoded in the
+vault. Any other file is transferred as UTF-8 text, and is reported as an
+error instead if its content is not UTF-8 text.
+
+Files deleted locally because they were removed from the vault are kept in
+<localPath>/.lsvault/trash; see \`lsvault sync trash\`.
+
+Ignore patterns and .lsvault-ignore files (at the root or in any folder)
+follow .gitignore syntax, including !negation. Change the rules later with
+\`lsvault sync config\`.`))
     .action(async (vaultId: string, localPath: string, _opts: Record<string, unknown>) => {
       const flags = resolveFlags(_opts);
       const out = createOutput(flags);
       out.startSpinner('Initializing sync...');
       try {
-        const client = await getClientAsync();
+        const profile = resolveProfileName(_opts.profile as string | undefined);
+        if (_opts.profile !== undefined && profile !== 'default' && !listProfiles().includes(profile)) {
+          out.failSpinner('Invalid --profile');
+          out.error(`Profile not found: ${profile}`);
+          process.exitCode = 1;
+          return;
+        }
+        const client = await getClientAsync(profile);
         const vault = await client.vaults.get(vaultId);
         const absPath = path.resolve(localPath);
 
+        if (vault.encryptionEnabled) {
+          // Without the key the engine would sync ciphertext
+          await requireVaultKey(vaultId);
+        }
+
         const mode = (_opts.mode as SyncMode | undefined) ?? 'sync';
         const onConflict = (_opts.onConflict as ConflictStrategy | undefined) ?? 'newer';
         if (!_opts.onConflict) {
           out.warn('No --on-conflict strategy specified; defaulting to "newer" (keeps the file with the more recent modification time). Use --on-conflict local|remote|ask to override.');
         }
+        const conflictMarkers = _opts.conflictMarkers === true ? true : undefined;
         const ignore = _opts.ignore as string[] | undefined;
+        let include: string[] | undefined;
+        if (_opts.include !== undefined) {
+          include = [];
+          for (const entry of _opts.include as string[]) {
+            const normalized = normalizeIncludePath(entry);
+            if (!normalized) {
+              out.failSpinner('Invalid --include');
+              out.error(`Invalid include path: ${entry} (expected a folder or file inside the sync folder)`);
+              process.exitCode = 1;
+              return;
+            }
+            include.push(normalized);
+          }
+        }
+        const includeExtensions = (_opts.includeExtensions as string[] | undefined)
+          ?.map(e => (e === '*' ? e : normalizeExtension(e)));
+        let maxFileSize: number | undefined;
+        if (_opts.maxFileSize !== undefined) {
+          const parsed = parseSize(_opts.maxFileSize as string);
+          if (parsed === null || parsed <= 0) {
+            out.failSpinner('Invalid --max-file-size');
+            out.error(`Invalid size: ${String(_opts.maxFileSize)} (expected e.g. 500KB, 25MB, 1GB)`);
+            process.exitCode = 1;
+            return;
+          }
+          maxFileSize = parsed;
+        }
+        const concurrency = _opts.concurrency as number | undefined;
+        const massDeleteThreshold = _opts.massDeleteThreshold as string | undefined;
+        if (massDeleteThreshold !== undefined && parseDeleteThreshold(massDeleteThreshold) === null) {
+          out.failSpinner('Invalid --mass-delete-threshold');
+          out.error(`Invalid threshold: ${massDeleteThreshold} (expected a file count like 100 or a percentage like 25%)`);
+          process.exitCode = 1;
+          return;
+        }
+        const lineEndings = _opts.lineEndings as string | undefined;
+        if (lineEndings !== undefined && !isLineEndings(lineEndings)) {
+          out.failSpinner('Invalid --line-endings');
+          out.error(`Invalid --line-endings: ${lineEndings} (expected lf, crlf or native)`);
+          process.exitCode = 1;
+          return;
+        }
+        const normalize: NormalizePolicy = {
+          lineEndings,
+          stripBom: _opts.stripBom === true || undefined,
+          ignoreTrailingWhitespace: _opts.ignoreTrailingWhitespace === true || undefined,
+        };
+        let frontmatter: FrontmatterField[] | undefined;
+        if (_opts.frontmatter !== undefined) {
+          const fields = parseFrontmatterFields(String(_opts.frontmatter));
+          if (!fields) {
+            out.failSpinner('Invalid --frontmatter');
+            out.error(`Invalid --frontmatter: ${String(_opts.frontmatter)} (expected a comma-separated list of tags, title, id, createdAt)`);
+            process.exitCode = 1;
+            return;
+          }
+          frontmatter = fields;
+        }
         const syncInterval = _opts.interval as string | undefined;
         const autoSync = _opts.autoSync === true;
 
         const config = createSyncConfig({
           vaultId,
+          profile,
           localPath: absPath,
           mode,
           onConflict,
+          conflictMarkers,
           ignore,
+          include,
+          includeExtensions,
+          maxFileSize,
+          concurrency,
+          massDeleteThreshold,
+          normalize: hasNormalization(normalize) ? normalize : undefined,
+          frontmatter,
           syncInterval,
           autoSync,
         });
@@ -83,15 +285,25 @@ Sync modes:
         out.success(`Sync initialized for vault "${vault.name}"`, {
           id: config.id,
           vaultId: config.vaultId,
+          profile,
           localPath: config.localPath,
           mode: config.mode,
           onConflict: config.onConflict,
+          includeExtensions: resolveIncludeExtensions(config).join(', '),
+          ...(config.include ? { include: config.include.join(', ') } : {}),
+          ...(config.normalize ? { normalize: describeNormalization(config.normalize) } : {}),
+          ...(config.frontmatter ? { frontmatter: describeFrontmatter(config.frontmatter) } : {}),
+          encrypted: vault.encryptionEnabled === true,
           autoSync: config.autoSync,
         });
 
         if (flags.output === 'text' && !flags.quiet) {
           out.status('');
-          out.status(`Run ${chalk.cyan(`lsvault sync pull ${config.id}`)} or ${chalk.cyan(`lsvault sync push ${config.id}`)} to perform the first sync.`);
+          if (config.mode === 'sync') {
+            out.status(`Run ${chalk.cyan(`lsvault sync run ${config.id}`)} to perform the first sync.`);
+          } else {
+            out.status(`Run ${chalk.cyan(`lsvault sync pull ${config.id}`)} or ${chalk.cyan(`lsvault sync push ${config.id}`)} to perform the first sync.`);
+          }
         }
       } catch (err) {
         handleError(out, err, 'Failed to initialize sync');
@@ -110,6 +322,7 @@ Sync modes:
           configs.map(c => ({
             id: c.id,
             vaultId: c.vaultId,
+            profile: syncProfileName(c),
             localPath: c.localPath,
             mode: c.mode,
             autoSync: c.autoSync,
@@ -120,6 +333,7 @@ Sync modes:
             columns: [
               { key: 'id', header: 'ID', width: 36 },
               { key: 'vaultId', header: 'Vault' },
+              { key: 'profile', header: 'Profile' },
               { key: 'localPath', header: 'Local Path' },
               { key: 'mode', header: 'Mode' },
               { key: 'autoSync', header: 'Auto' },
@@ -127,6 +341,7 @@ Sync modes:
             textFn: (c) => {
               const lines = [chalk.cyan(`  ${String(c.id)}`)];
               lines.push(`  Vault:     ${String(c.vaultId)}`);
+              lines.push(`  Profile:   ${String(c.profile)}`);
               lines.push(`  Path:      ${String(c.localPath)}`);
               lines.push(`  Mode:      ${String(c.mode)}`);
               lines.push(`  Auto-sync: ${c.autoSync ? chalk.green('enabled') : chalk.dim('disabled')}`);
@@ -166,16 +381,166 @@ Sync modes:
           return;
         }
         deleteSyncState(syncId);
+        deleteBaseStore(syncId);
+        deleteConflictQueue(syncId);
+        deleteRemoteManifest(syncId);
+        deleteFeedCursor(syncId);
+        deleteOutbox(syncId);
+        clearJournal(syncId);
+        deleteSyncHistory(syncId);
         out.success('Sync configuration deleted', { id: syncId, deleted: true });
       } catch (err) {
         handleError(out, err, 'Failed to delete sync configuration');
       }
     });
 
+  // sync config <syncId>
+  addGlobalFlags(sync.command('config')
+    .description('Show or edit which files a sync configuration includes and how text and frontmatter are handled')
+    .argument('<syncId>', 'Sync configuration ID')
+    .option('--add-ignore <patterns...>', 'Add ignore patterns (.gitignore syntax)')
+    .option('--remove-ignore <patterns...>', 'Remove ignore patterns')
+    .option('--add-include <paths...>', 'Add folders or files to sync; everything else is ignored')
+    .option('--remove-include <paths...>', 'Remove folders or files from the include list')
+    .option('--clear-include', 'Sync every folder again')
+    .option('--line-endings <style>', 'Normalize line endings of text files: lf, crlf, native, or preserve to stop')
+    .option('--strip-bom', 'Remove the UTF-8 byte order mark from text files')
+    .option('--no-strip-bom', 'Keep byte order marks')
+    .option('--ignore-trailing-whitespace', 'Do not count edits to trailing whitespace as changes')
+    .option('--no-ignore-trailing-whitespace', 'Count edits to trailing whitespace as changes')
+    .option('--frontmatter <fields>', 'Keep document fields in YAML frontmatter, e.g. tags,title (fields: tags, title, id, createdAt)')
+    .option('--no-frontmatter', 'Stop mapping document fields to frontmatter')
+    .addHelpText('after', `
+Examples:
+  lsvault sync config <syncId>
+  lsvault sync config <syncId> --add-include projects/ journal/
+  lsvault sync config <syncId> --add-ignore "*.pdf" "!keep.pdf"
+  lsvault sync config <syncId> --clear-include
+  lsvault sync config <syncId> --line-endings lf --ignore-trailing-whitespace
+  lsvault sync config <syncId> --frontmatter tags
+
+Files that stop being synced are left in place, locally and in the vault.
+Patterns in .lsvault-ignore files apply on top of the configured ones.`))
+    .action(async (syncId: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      try {
+        const config = getSyncConfig(syncId);
+        if (!config) {
+          out.error(`Sync configuration not found: ${syncId}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        const normalizeAll = (paths: string[] | undefined): string[] | null => {
+          const normalized: string[] = [];
+          for (const entry of paths ?? []) {
+            const p = normalizeIncludePath(entry);
+            if (!p) {
+              out.error(`Invalid include path: ${entry} (expected a folder or file inside the sync folder)`);
+              process.exitCode = 1;
+              return null;
+            }
+            normalized.push(p);
+          }
+          return normalized;
+        };
+        const addInclude = normalizeAll(_opts.addInclude as string[] | undefined);
+        const removeInclude = normalizeAll(_opts.removeInclude as string[] | undefined);
+        if (!addInclude || !removeInclude) return;
+        const addIgnore = (_opts.addIgnore as string[] | undefined) ?? [];
+        const removeIgnore = (_opts.removeIgnore as string[] | undefined) ?? [];
+        const lineEndings = _opts.lineEndings as string | undefined;
+        if (lineEndings !== undefined && lineEndings !== 'preserve' && !isLineEndings(lineEndings)) {
+          out.error(`Invalid --line-endings: ${lineEndings} (expected lf, crlf, native or preserve)`);
+          process.exitCode = 1;
+          return;
+        }
+        const editingNormalize = lineEndings !== undefined
+          || _opts.stripBom !== undefined || _opts.ignoreTrailingWhitespace !== undefined;
+        let frontmatter = config.frontmatter;
+        if (typeof _opts.frontmatter === 'string') {
+          const fields = parseFrontmatterFields(_opts.frontmatter);
+          if (!fields) {
+            out.error(`Invalid --frontmatter: ${_opts.frontmatter} (expected a comma-separated list of tags, title, id, createdAt)`);
+            process.exitCode = 1;
+            return;
+          }
+          frontmatter = fields;
+        } else if (_opts.frontmatter === false) {
+          frontmatter = undefined;
+        }
+        const editingFrontmatter = _opts.frontmatter !== undefined;
+
+        const editing = addIgnore.length > 0 || removeIgnore.length > 0
+          || addInclude.length > 0 || removeInclude.length > 0 || _opts.clearInclude === true
+          || editingNormalize || editingFrontmatter;
+        if (!editing) {
+          out.record({
+            id: config.id,
+            localPath: config.localPath,
+            include: config.include?.length ? config.include.join(', ') : '(everything)',
+            ignore: config.ignore.join(', '),
+            normalize: describeNormalization(config.normalize),
+            frontmatter: describeFrontmatter(config.frontmatter),
+          });
+          return;
+        }
+
+        const ignore = config.ignore.filter(p => !removeIgnore.includes(p));
+        for (const pattern of addIgnore) {
+          if (!ignore.includes(pattern)) ignore.push(pattern);
+        }
+        const include = _opts.clearInclude === true
+          ? []
+          : (config.include ?? []).filter(p => !removeInclude.includes(p));
+        for (const entry of addInclude) {
+          if (!include.includes(entry)) include.push(entry);
+        }
+        const policy: NormalizePolicy = { ...config.normalize };
+        if (lineEndings !== undefined) {
+          policy.lineEndings = lineEndings === 'preserve' ? undefined : lineEndings as LineEndings;
+        }
+        if (_opts.stripBom !== undefined) policy.stripBom = _opts.stripBom === true || undefined;
+        if (_opts.ignoreTrailingWhitespace !== undefined) {
+          policy.ignoreTrailingWhitespace = _opts.ignoreTrailingWhitespace === true || undefined;
+        }
+        const normalize = hasNormalization(policy) ? policy : undefined;
+
+        if (flags.dryRun) {
+          out.status(chalk.yellow('Dry run — the configuration would become:'));
+          out.status(`  include:     ${include.length > 0 ? include.join(', ') : '(everything)'}`);
+          out.status(`  ignore:      ${ignore.join(', ')}`);
+          out.status(`  normalize:   ${describeNormalization(normalize)}`);
+          out.status(`  frontmatter: ${describeFrontmatter(frontmatter)}`);
+          return;
+        }
+
+        updateSyncConfig(syncId, {
+          ignore,
+          include: include.length > 0 ? include : undefined,
+          ...(editingNormalize ? { normalize } : {}),
+          ...(editingFrontmatter ? { frontmatter } : {}),
+        });
+        out.success('Sync configuration updated', {
+          id: syncId,
+          include: include.length > 0 ? include.join(', ') : '(everything)',
+          ignore: ignore.join(', '),
+          normalize: describeNormalization(normalize),
+          frontmatter: describeFrontmatter(frontmatter),
+        });
+      } catch (err) {
+        handleError(out, err, 'Failed to update sync configuration');
+      }
+    });
+
   // sync pull <syncId>
   addGlobalFlags(sync.command('pull')
     .description('Pull remote changes to local directory')
-    .argument('<syncId>', 'Sync configuration ID'))
+    .argument('<syncId>', 'Sync configuration ID')
+    .option('--concurrency <n>', 'Files to transfer in parallel (default: the sync\'s setting, or 4)', parseConcurrency)
+    .option('--allow-mass-delete', 'Apply deletions even if they exceed the sync\'s mass-deletion threshold')
+    .option('--rehash', 'Hash every local file instead of trusting unchanged size, mtime and inode'))
     .action(async (syncId: string, _opts: Record<string, unknown>) => {
       const flags = resolveFlags(_opts);
       const out = createOutput(flags);
@@ -186,24 +551,34 @@ Sync modes:
           process.exitCode = 1;
           return;
         }
+        // Waits for the daemon to finish what it is doing with this sync
+        await waitForSyncLock(config.id, 'sync pull');
+        const concurrency = _opts.concurrency as number | undefined;
 
-        const client = await getClientAsync();
-        const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath);
+        const client = await createSyncClient(await getClientAsync(syncProfileName(config)), config);
+        const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath, config.include);
+        const includeExtensions = resolveIncludeExtensions(config);
         const lastState = loadSyncState(config.id);
 
         out.startSpinner('Scanning local files...');
-        const localFiles = scanLocalFiles(config.localPath, ignorePatterns);
+        const localFiles = await scanLocalFiles(config.localPath, ignorePatterns, includeExtensions, {
+          cache: lastState.local,
+          rehash: _opts.rehash === true,
+          normalize: config.normalize,
+        });
+        if (refreshStatCache(lastState, localFiles)) saveSyncState(lastState);
         out.debug(`Found ${Object.keys(localFiles).length} local files`);
 
         out.startSpinner('Scanning remote files...');
-        const remoteFiles = await scanRemoteFiles(client, config.vaultId, ignorePatterns);
+        const remoteFiles = await scanRemoteFiles(client, config.vaultId, ignorePatterns, includeExtensions, loadRemoteManifest(config.id));
         out.debug(`Found ${Object.keys(remoteFiles).length} remote files`);
 
         out.startSpinner('Computing diff...');
         const diff = computePullDiff(localFiles, remoteFiles, lastState);
 
         const unchanged = Object.keys(remoteFiles).length - diff.downloads.length;
-        const totalOps = diff.downloads.length + diff.deletes.length;
+        const moves = diff.moves?.length ?? 0;
+        const totalOps = diff.downloads.length + diff.deletes.length + moves;
         if (totalOps === 0) {
           out.succeedSpinner('Everything is up to date');
           if (flags.output === 'json') {
@@ -211,6 +586,7 @@ Sync modes:
               status: 'up-to-date',
               downloaded: 0,
               deleted: 0,
+              moved: 0,
               unchanged: Object.keys(remoteFiles).length,
               bytesTransferred: 0,
               errors: 0,
@@ -227,6 +603,7 @@ Sync modes:
               dryRun: true,
               downloads: diff.downloads.length,
               deletes: diff.deletes.length,
+              moves,
               unchanged,
               totalBytes: diff.totalBytes,
             });
@@ -242,11 +619,12 @@ Sync modes:
         }
 
         out.startSpinner(`Pulling ${totalOps} file(s)...`);
+        const prompt = config.onConflict === 'ask' ? createConflictPrompt(() => out.stopSpinner()) : undefined;
         const result = await executePull(client, config, diff, (progress) => {
           if (progress.phase === 'transferring' && progress.currentFile) {
-            out.startSpinner(`[${progress.current}/${progress.total}] ${progress.currentFile}`);
+            out.startSpinner(formatTransferProgress(progress));
           }
-        });
+        }, { prompt, concurrency, allowMassDelete: _opts.allowMassDelete === true });
 
         if (result.errors.length > 0) {
           out.failSpinner(`Pull completed with ${result.errors.length} error(s)`);
@@ -256,23 +634,30 @@ Sync modes:
         } else {
           out.succeedSpinner('Pull complete');
         }
+        reportConflicts(out, syncId, result.conflicts);
 
         out.success('', {
           downloaded: result.filesDownloaded,
           deleted: result.filesDeleted,
+          moved: result.filesMoved,
           unchanged,
           bytesTransferred: result.bytesTransferred,
           errors: result.errors.length,
         });
       } catch (err) {
         handleError(out, err, 'Pull failed');
+      } finally {
+        releaseSyncLock(syncId);
       }
     });
 
   // sync push <syncId>
   addGlobalFlags(sync.command('push')
     .description('Push local changes to remote vault')
-    .argument('<syncId>', 'Sync configuration ID'))
+    .argument('<syncId>', 'Sync configuration ID')
+    .option('--concurrency <n>', 'Files to transfer in parallel (default: the sync\'s setting, or 4)', parseConcurrency)
+    .option('--allow-mass-delete', 'Apply deletions even if they exceed the sync\'s mass-deletion threshold')
+    .option('--rehash', 'Hash every local file instead of trusting unchanged size, mtime and inode'))
     .action(async (syncId: string, _opts: Record<string, unknown>) => {
       const flags = resolveFlags(_opts);
       const out = createOutput(flags);
@@ -283,24 +668,34 @@ Sync modes:
           process.exitCode = 1;
           return;
         }
+        // Waits for the daemon to finish what it is doing with this sync
+        await waitForSyncLock(config.id, 'sync push');
+        const concurrency = _opts.concurrency as number | undefined;
 
-        const client = await getClientAsync();
-        const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath);
+        const client = await createSyncClient(await getClientAsync(syncProfileName(config)), config);
+        const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath, config.include);
+        const includeExtensions = resolveIncludeExtensions(config);
         const lastState = loadSyncState(config.id);
 
         out.startSpinner('Scanning local files...');
-        const localFiles = scanLocalFiles(config.localPath, ignorePatterns);
+        const localFiles = await scanLocalFiles(config.localPath, ignorePatterns, includeExtensions, {
+          cache: lastState.local,
+          rehash: _opts.rehash === true,
+          normalize: config.normalize,
+        });
+        if (refreshStatCache(lastState, localFiles)) saveSyncState(lastState);
         out.debug(`Found ${Object.keys(localFiles).length} local files`);
 
         out.startSpinner('Scanning remote files...');
-        const remoteFiles = await scanRemoteFiles(client, config.vaultId, ignorePatterns);
+        const remoteFiles = await scanRemoteFiles(client, config.vaultId, ignorePatterns, includeExtensions, loadRemoteManifest(config.id));
         out.debug(`Found ${Object.keys(remoteFiles).length} remote files`);
 
         out.startSpinner('Computing diff...');
         const diff = computePushDiff(localFiles, remoteFiles, lastState);
 
         const unchanged = Object.keys(localFiles).length - diff.uploads.length;
-        const totalOps = diff.uploads.length + diff.deletes.length;
+        const moves = diff.moves?.length ?? 0;
+        const totalOps = diff.uploads.length + diff.deletes.length + moves;
         if (totalOps === 0) {
           out.succeedSpinner('Everything is up to date');
           if (flags.output === 'json') {
@@ -308,6 +703,7 @@ Sync modes:
               status: 'up-to-date',
               uploaded: 0,
               deleted: 0,
+              moved: 0,
               unchanged: Object.keys(localFiles).length,
               bytesTransferred: 0,
               errors: 0,
@@ -324,6 +720,7 @@ Sync modes:
               dryRun: true,
               uploads: diff.uploads.length,
               deletes: diff.deletes.length,
+              moves,
               unchanged,
               totalBytes: diff.totalBytes,
             });
@@ -339,11 +736,12 @@ Sync modes:
         }
 
         out.startSpinner(`Pushing ${totalOps} file(s)...`);
+        const prompt = config.onConflict === 'ask' ? createConflictPrompt(() => out.stopSpinner()) : undefined;
         const result = await executePush(client, config, diff, (progress) => {
           if (progress.phase === 'transferring' && progress.currentFile) {
-            out.startSpinner(`[${progress.current}/${progress.total}] ${progress.currentFile}`);
+            out.startSpinner(formatTransferProgress(progress));
           }
-        });
+        }, { prompt, concurrency, allowMassDelete: _opts.allowMassDelete === true });
 
         if (result.errors.length > 0) {
           out.failSpinner(`Push completed with ${result.errors.length} error(s)`);
@@ -353,23 +751,231 @@ Sync modes:
         } else {
           out.succeedSpinner('Push complete');
         }
+        reportConflicts(out, syncId, result.conflicts);
 
         out.success('', {
           uploaded: result.filesUploaded,
           deleted: result.filesDeleted,
+          moved: result.filesMoved,
           unchanged,
           bytesTransferred: result.bytesTransferred,
           errors: result.errors.length,
         });
       } catch (err) {
         handleError(out, err, 'Push failed');
+      } finally {
+        releaseSyncLock(syncId);
+      }
+    });
+
+  // sync run <syncId>
+  addGlobalFlags(sync.command('run')
+    .description('Run a one-shot bidirectional sync with conflict detection')
+    .argument('<syncId>', 'Sync configuration ID')
+    .option('--concurrency <n>', 'Files to transfer in parallel (default: the sync\'s setting, or 4)', parseConcurrency)
+    .option('--allow-mass-delete', 'Apply deletions even if they exceed the sync\'s mass-deletion threshold')
+    .option('--rehash', 'Hash every local file instead of trusting unchanged size, mtime and inode')
+    .addHelpText('after', `
+Examples:
+  lsvault sync run <syncId>
+  lsvault sync run <syncId> --dry-run
+  lsvault sync run <syncId> --concurrency 8
+
+Changes on either side are propagated to the other. Files changed on both
+sides since the last sync are resolved with the configured --on-conflict
+strategy; the losing version is kept as a .conflicted copy. With the "ask"
+strategy you are prompted for each conflict, or it is queued for
+"lsvault sync resolve" when no terminal is attached.`))
+    .action(async (syncId: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      try {
+        const config = getSyncConfig(syncId);
+        if (!config) {
+          out.error(`Sync configuration not found: ${syncId}`);
+          process.exitCode = 1;
+          return;
+        }
+        // Waits for the daemon to finish what it is doing with this sync
+        await waitForSyncLock(config.id, 'sync run');
+        const concurrency = _opts.concurrency as number | undefined;
+
+        if (config.mode !== 'sync') {
+          out.error(`Sync ${syncId} is configured for ${config.mode} mode. Use "lsvault sync ${config.mode} ${syncId}" instead.`);
+          process.exitCode = 1;
+          return;
+        }
+
+        const client = await createSyncClient(await getClientAsync(syncProfileName(config)), config);
+        const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath, config.include);
+        const includeExtensions = resolveIncludeExtensions(config);
+        const lastState = loadSyncState(config.id);
+
+        out.startSpinner('Scanning local files...');
+        const localFiles = await scanLocalFiles(config.localPath, ignorePatterns, includeExtensions, {
+          cache: lastState.local,
+          rehash: _opts.rehash === true,
+          normalize: config.normalize,
+        });
+        if (refreshStatCache(lastState, localFiles)) saveSyncState(lastState);
+        out.debug(`Found ${Object.keys(localFiles).length} local files`);
+
+        out.startSpinner('Scanning remote files...');
+        const remoteFiles = await scanRemoteFiles(client, config.vaultId, ignorePatterns, includeExtensions, loadRemoteManifest(config.id));
+        out.debug(`Found ${Object.keys(remoteFiles).length} remote files`);
+
+        out.startSpinner('Computing diff...');
+        const diff = computeSyncDiff(localFiles, remoteFiles, lastState);
+        const conflicts = diff.conflicts ?? [];
+
+        const tracked = new Set([...Object.keys(localFiles), ...Object.keys(remoteFiles)]).size;
+        const moves = diff.moves?.length ?? 0;
+        const totalOps = diff.uploads.length + diff.downloads.length + diff.deletes.length + moves + conflicts.length;
+        // A moved file is tracked under both its old and new path
+        const unchanged = tracked - totalOps - moves;
+        if (totalOps === 0) {
+          out.succeedSpinner('Everything is up to date');
+          if (flags.output === 'json') {
+            out.record({
+              status: 'up-to-date',
+              uploaded: 0,
+              downloaded: 0,
+              deleted: 0,
+              moved: 0,
+              conflicts: 0,
+              unchanged: tracked,
+              bytesTransferred: 0,
+              errors: 0,
+            });
+          }
+          return;
+        }
+
+        out.stopSpinner();
+
+        if (flags.dryRun) {
+          if (flags.output === 'json') {
+            out.record({
+              dryRun: true,
+              uploads: diff.uploads.length,
+              downloads: diff.downloads.length,
+              deletes: diff.deletes.length,
+              moves,
+              conflicts: conflicts.length,
+              unchanged,
+              totalBytes: diff.totalBytes,
+            });
+          } else {
+            out.status(chalk.yellow('Dry run — no changes will be made:'));
+            out.status(formatDiff(diff));
+          }
+          return;
+        }
+
+        if (flags.verbose) {
+          out.status(formatDiff(diff));
+        }
+
+        out.startSpinner(`Syncing ${totalOps} file(s)...`);
+        const prompt = config.onConflict === 'ask' ? createConflictPrompt(() => out.stopSpinner()) : undefined;
+        const result = await executeSync(client, config, diff, (progress) => {
+          if (progress.phase === 'transferring' && progress.currentFile) {
+            out.startSpinner(formatTransferProgress(progress));
+          }
+        }, { prompt, concurrency, allowMassDelete: _opts.allowMassDelete === true });
+
+        if (result.errors.length > 0) {
+          out.failSpinner(`Sync completed with ${result.errors.length} error(s)`);
+          for (const err of result.errors) {
+            out.error(`  ${err.path}: ${err.error}`);
+          }
+        } else {
+          out.succeedSpinner('Sync complete');
+        }
+
+        reportConflicts(out, syncId, result.conflicts);
+
+        out.success('', {
+          uploaded: result.filesUploaded,
+          downloaded: result.filesDownloaded,
+          deleted: result.filesDeleted,
+          moved: result.filesMoved,
+          conflicts: result.conflicts.length,
+          unchanged,
+          bytesTransferred: result.bytesTransferred,
+          errors: result.errors.length,
+        });
+      } catch (err) {
+        handleError(out, err, 'Sync failed');
+      } finally {
+        releaseSyncLock(syncId);
+      }
+    });
+
+  // sync resume <syncId> [--rollback]
+  addGlobalFlags(sync.command('resume')
+    .description('Complete or roll back a sync run that was interrupted')
+    .argument('<syncId>', 'Sync configuration ID')
+    .option('--rollback', 'Leave interrupted operations undone instead of completing them')
+    .addHelpText('after', `
+Examples:
+  lsvault sync resume <syncId>
+  lsvault sync resume <syncId> --rollback
+
+Pull, push and run journal every file operation. If one is killed midway,
+resuming records the files it already transferred, and executes operations
+that were in flight again. With --rollback those are left for the next sync.`))
+    .action(async (syncId: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      try {
+        const config = getSyncConfig(syncId);
+        if (!config) {
+          out.error(`Sync configuration not found: ${syncId}`);
+          process.exitCode = 1;
+          return;
+        }
+        // Waits for the daemon to finish what it is doing with this sync
+        await waitForSyncLock(config.id, 'sync resume');
+
+        out.startSpinner('Resuming interrupted sync run...');
+        const client = await createSyncClient(await getClientAsync(syncProfileName(config)), config);
+        const result = await resumeSyncRun(client, config, { rollback: _opts.rollback === true });
+        if (!result) {
+          out.succeedSpinner('No interrupted sync run to resume');
+          if (flags.output === 'json') {
+            out.record({ status: 'nothing-to-resume' });
+          }
+          return;
+        }
+
+        if (result.errors.length > 0) {
+          out.failSpinner(`Resumed with ${result.errors.length} error(s)`);
+          for (const err of result.errors) {
+            out.error(`  ${err.path}: ${err.error}`);
+          }
+        } else {
+          out.succeedSpinner('Interrupted sync run recovered');
+        }
+
+        out.success('', {
+          completed: result.completed,
+          redone: result.redone,
+          rolledBack: result.rolledBack,
+          errors: result.errors.length,
+        });
+      } catch (err) {
+        handleError(out, err, 'Resume failed');
+      } finally {
+        releaseSyncLock(syncId);
       }
     });
 
   // sync status <syncId>
   addGlobalFlags(sync.command('status')
     .description('Show sync status and pending changes')
-    .argument('<syncId>', 'Sync configuration ID'))
+    .argument('<syncId>', 'Sync configuration ID')
+    .option('--rehash', 'Hash every local file instead of trusting unchanged size, mtime and inode'))
     .action(async (syncId: string, _opts: Record<string, unknown>) => {
       const flags = resolveFlags(_opts);
       const out = createOutput(flags);
@@ -381,21 +987,41 @@ Sync modes:
           return;
         }
 
-        const client = await getClientAsync();
-        const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath);
+        // Listings only need the frontmatter mapping, not the vault key
+        const client = config.frontmatter?.length
+          ? withFrontmatter(await getClientAsync(syncProfileName(config)), config.frontmatter)
+          : await getClientAsync(syncProfileName(config));
+        const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath, config.include);
+        const includeExtensions = resolveIncludeExtensions(config);
         const lastState = loadSyncState(config.id);
 
         out.startSpinner('Scanning...');
-        const localFiles = scanLocalFiles(config.localPath, ignorePatterns);
-        const remoteFiles = await scanRemoteFiles(client, config.vaultId, ignorePatterns);
+        const localFiles = await scanLocalFiles(config.localPath, ignorePatterns, includeExtensions, {
+          cache: lastState.local,
+          rehash: _opts.rehash === true,
+          normalize: config.normalize,
+        });
+        // Status does not wait for the lock; file stats are only saved when no sync is running
+        if (acquireSyncLock(config.id, 'sync status')) {
+          try {
+            const state = loadSyncState(config.id);
+            if (refreshStatCache(state, localFiles)) saveSyncState(state);
+          } finally {
+            releaseSyncLock(config.id);
+          }
+        }
+        const remoteFiles = await scanRemoteFiles(client, config.vaultId, ignorePatterns, includeExtensions, loadRemoteManifest(config.id));
 
         const pullDiff = computePullDiff(localFiles, remoteFiles, lastState);
         const pushDiff = computePushDiff(localFiles, remoteFiles, lastState);
 
         out.stopSpinner();
 
-        const pullOps = pullDiff.downloads.length + pullDiff.deletes.length;
-        const pushOps = pushDiff.uploads.length + pushDiff.deletes.length;
+        const pullOps = pullDiff.downloads.length + pullDiff.deletes.length + (pullDiff.moves?.length ?? 0);
+        const pushOps = pushDiff.uploads.length + pushDiff.deletes.length + (pushDiff.moves?.length ?? 0);
+        const interrupted = loadInterruptedRun(config.id);
+        const lock = readSyncLock(config.id);
+        const outbox = loadOutbox(config.id);
 
         if (flags.output === 'json') {
           out.record({
@@ -403,10 +1029,15 @@ Sync modes:
             vaultId: config.vaultId,
             localPath: config.localPath,
             mode: config.mode,
+            includeExtensions,
+            maxFileSize: resolveMaxFileSize(config),
             localFiles: Object.keys(localFiles).length,
             remoteFiles: Object.keys(remoteFiles).length,
             pendingPull: pullOps,
             pendingPush: pushOps,
+            interruptedRunAt: interrupted?.startedAt ?? null,
+            lockedBy: lock,
+            outbox,
             lastSyncAt: config.lastSyncAt,
           });
           return;
@@ -416,11 +1047,32 @@ Sync modes:
         out.status(`Vault: ${config.vaultId}`);
         out.status(`Path:  ${config.localPath}`);
         out.status(`Mode:  ${config.mode}`);
+        out.status(`Files: ${includeExtensions.join(', ')} (up to ${formatBytes(resolveMaxFileSize(config))} each)`);
         out.status('');
         out.status(`Local files:  ${Object.keys(localFiles).length}`);
         out.status(`Remote files: ${Object.keys(remoteFiles).length}`);
         out.status('');
 
+        if (lock) {
+          out.status(chalk.yellow(`Locked by ${formatLockHolder(lock)}`));
+          out.status('');
+        }
+
+        if (interrupted) {
+          out.status(chalk.red(`A sync run started ${new Date(interrupted.startedAt).toLocaleString()} was interrupted.`));
+          out.status(`Run ${chalk.cyan(`lsvault sync resume ${config.id}`)} to complete or roll it back.`);
+          out.status('');
+        }
+
+        if (outbox.length > 0) {
+          out.status(chalk.yellow(`${outbox.length} change(s) in the outbox, waiting for the server:`));
+          for (const entry of outbox) {
+            const attempts = entry.attempts === 1 ? '1 attempt' : `${entry.attempts} attempts`;
+            out.status(`  ${entry.op === 'put' ? 'upload' : 'delete'}  ${entry.path} (queued ${new Date(entry.queuedAt).toLocaleString()}, ${attempts}: ${entry.lastError})`);
+          }
+          out.status('');
+        }
+
         if (pullOps > 0) {
           out.status(chalk.yellow(`${pullOps} pending pull operation(s):`));
           out.status(formatDiff(pullDiff));
@@ -450,7 +1102,8 @@ Sync modes:
   addGlobalFlags(sync.command('watch')
     .description('Watch for changes and sync continuously')
     .argument('<syncId>', 'Sync configuration ID')
-    .option('--poll-interval <ms>', 'Remote poll interval in milliseconds', '30000'))
+    .option('--poll-interval <ms>', 'Remote poll interval in milliseconds', '30000')
+    .option('--no-change-feed', 'Poll for remote changes instead of subscribing to the change feed'))
     .action(async (syncId: string, _opts: Record<string, unknown>) => {
       const flags = resolveFlags(_opts);
       const out = createOutput(flags);
@@ -468,8 +1121,9 @@ Sync modes:
           return;
         }
 
-        const client = await getClientAsync();
-        const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath);
+        const client = await createSyncClient(await getClientAsync(syncProfileName(config)), config);
+        const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath, config.include);
+        const includeExtensions = resolveIncludeExtensions(config);
         const pollInterval = parseInt(String(_opts.pollInterval ?? '30000'), 10);
 
         out.status(`Watching sync ${chalk.cyan(syncId.slice(0, 8))}...`);
@@ -477,7 +1131,10 @@ Sync modes:
         out.status(`  Path:      ${config.localPath}`);
         out.status(`  Mode:      ${config.mode}`);
         out.status(`  Conflict:  ${config.onConflict}`);
-        out.status(`  Poll:      ${pollInterval / 1000}s`);
+        out.status(`  Files:     ${includeExtensions.join(', ')}`);
+        out.status(_opts.changeFeed === false
+          ? `  Poll:      ${pollInterval / 1000}s`
+          : `  Remote:    change feed (polling every ${pollInterval / 1000}s when unavailable)`);
         out.status('');
         out.status('Press Ctrl+C to stop.');
         out.status('');
@@ -485,13 +1142,17 @@ Sync modes:
         const logHandler = (msg: string) => out.debug(msg);
         const conflictHandler = (msg: string) => out.warn(msg);
         const errorHandler = (err: Error) => out.error(err.message);
+        const prompt = config.onConflict === 'ask' ? createConflictPrompt() : undefined;
 
         // Start local watcher
         const { stop: stopWatcher } = createWatcher(client, config, {
           ignorePatterns,
+          includeExtensions,
           onLog: logHandler,
           onConflictLog: conflictHandler,
           onError: errorHandler,
+          prompt,
+          lockHolder: 'sync watch',
         });
 
         // Start remote poller (only for sync and pull modes)
@@ -499,10 +1160,14 @@ Sync modes:
         if (config.mode === 'sync') {
           const poller = createRemotePoller(client, config, {
             ignorePatterns,
+            includeExtensions,
             intervalMs: pollInterval,
+            changeFeed: _opts.changeFeed === false ? undefined : getChangeFeedSource(config.vaultId, syncProfileName(config)),
             onLog: logHandler,
             onConflictLog: conflictHandler,
             onError: errorHandler,
+            prompt,
+            lockHolder: 'sync watch',
           });
           stopPoller = poller.stop;
         }
@@ -526,79 +1191,499 @@ Sync modes:
       }
     });
 
-  // sync resolve <syncId> <path> --use <local|remote>
+  // sync resolve <syncId> [entry] [--use <local|remote|merge>]
   addGlobalFlags(sync.command('resolve')
-    .description('Manually resolve a sync conflict')
+    .description('Resolve sync conflicts from the conflict inbox')
     .argument('<syncId>', 'Sync configuration ID')
-    .argument('<docPath>', 'Document path to resolve')
-    .requiredOption('--use <version>', 'Which version to keep: local or remote'))
-    .action(async (syncId: string, docPath: string, _opts: Record<string, unknown>) => {
+    .argument('[entry]', 'Inbox entry ID or document path (default: every entry)')
+    .option('--use <version>', 'Version to keep without prompting: local, remote, or merge (opens $EDITOR)')
+    .addHelpText('after', `
+Examples:
+  lsvault sync resolve <syncId>                      Walk through every conflict interactively
+  lsvault sync resolve <syncId> 3f9a1c2e             Resolve one inbox entry
+  lsvault sync resolve <syncId> notes/a.md --use local
+
+Inbox entries are listed by "lsvault sync conflicts list". Without --use, each
+conflict is shown as a diff and you choose which version to keep.`))
+    .action(async (syncId: string, entryArg: string | undefined, _opts: Record<string, unknown>) => {
       const flags = resolveFlags(_opts);
       const out = createOutput(flags);
-      out.startSpinner('Resolving conflict...');
       try {
         const config = getSyncConfig(syncId);
         if (!config) {
-          out.failSpinner('Sync configuration not found');
+          out.error(`Sync configuration not found: ${syncId}`);
+          process.exitCode = 1;
+          return;
+        }
+        // Waits for the daemon to finish what it is doing with this sync
+        await waitForSyncLock(config.id, 'sync resolve');
+
+        const useVersion = _opts.use === undefined ? undefined : String(_opts.use);
+        if (useVersion !== undefined && useVersion !== 'local' && useVersion !== 'remote' && useVersion !== 'merge') {
+          out.error('--use must be "local", "remote" or "merge"');
           process.exitCode = 1;
           return;
         }
 
-        const useVersion = String(_opts.use);
-        if (useVersion !== 'local' && useVersion !== 'remote') {
-          out.failSpinner('--use must be "local" or "remote"');
+        const entries = entryArg ? findInboxEntries(config, entryArg) : listConflictInbox(config);
+        if (entries.length === 0) {
+          if (entryArg && (useVersion === 'local' || useVersion === 'remote')) {
+            // Not in the inbox: resolve the document directly
+            const client = await createSyncClient(await getClientAsync(syncProfileName(config)), config);
+            await resolveDocument(out, client, config, entryArg, useVersion);
+            return;
+          }
+          if (entryArg) {
+            out.error(`No conflict found for ${entryArg}. Run "lsvault sync conflicts list ${syncId}" to see unresolved conflicts.`);
+            process.exitCode = 1;
+            return;
+          }
+          out.status('No unresolved conflicts.');
+          return;
+        }
+
+        const prompt = useVersion === undefined ? createConflictPrompt() : undefined;
+        if (useVersion === undefined && !prompt) {
+          out.error('Cannot prompt in non-interactive mode. Use --use local, --use remote or --use merge.');
           process.exitCode = 1;
           return;
         }
 
-        const client = await getClientAsync();
-        const localFile = path.join(config.localPath, docPath);
-        const state = loadSyncState(config.id);
+        const client = await createSyncClient(await getClientAsync(syncProfileName(config)), config);
+        for (const entry of entries) {
+          await resolveEntry(out, client, config, entry, useVersion, prompt);
+        }
+      } catch (err) {
+        handleError(out, err, 'Failed to resolve conflict');
+      } finally {
+        releaseSyncLock(syncId);
+      }
+    });
+
+  // sync conflicts <list|show|diff|clean>
+  const conflicts = sync.command('conflicts').description('Inspect and clean up unresolved sync conflicts');
 
-        if (useVersion === 'local') {
-          if (!fs.existsSync(localFile)) {
-            out.failSpinner(`Local file not found: ${localFile}`);
+  addGlobalFlags(conflicts.command('list')
+    .description('List unresolved conflicts')
+    .argument('[syncId]', 'Sync configuration ID (default: all configurations)'))
+    .action(async (syncId: string | undefined, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      try {
+        let configs = loadSyncConfigs();
+        if (syncId) {
+          const config = getSyncConfig(syncId);
+          if (!config) {
+            out.error(`Sync configuration not found: ${syncId}`);
             process.exitCode = 1;
             return;
           }
-          const content = fs.readFileSync(localFile, 'utf-8');
-          await client.documents.put(config.vaultId, docPath, content);
+          configs = [config];
+        }
 
-          state.local[docPath] = {
-            path: docPath,
-            hash: hashFileContent(content),
-            mtime: new Date().toISOString(),
-            size: Buffer.byteLength(content),
-          };
-          state.remote[docPath] = buildRemoteFileState(docPath, content, new Date().toISOString());
-        } else {
-          const { content } = await client.documents.get(config.vaultId, docPath);
-          const dir = path.dirname(localFile);
-          if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-          }
-          fs.writeFileSync(localFile, content, 'utf-8');
-
-          state.local[docPath] = {
-            path: docPath,
-            hash: hashFileContent(content),
-            mtime: new Date().toISOString(),
-            size: Buffer.byteLength(content),
-          };
-          state.remote[docPath] = buildRemoteFileState(docPath, content, new Date().toISOString());
-        }
-
-        saveSyncState(state);
-        out.success(`Conflict resolved: ${docPath} — using ${useVersion}`, {
-          docPath,
-          resolved: useVersion,
+        const rows = configs.flatMap(config => listConflictInbox(config).map(entry => ({
+          syncId: config.id,
+          id: entry.id,
+          kind: entry.kind,
+          docPath: entry.docPath,
+          source: entry.source,
+          detectedAt: entry.detectedAt,
+          copyPath: entry.copyPath,
+        })));
+        out.list(rows, {
+          emptyMessage: 'No unresolved conflicts.',
+          columns: [
+            { key: 'id', header: 'ID', width: 8 },
+            { key: 'syncId', header: 'Sync' },
+            { key: 'docPath', header: 'Document' },
+            { key: 'kind', header: 'Kind' },
+            { key: 'detectedAt', header: 'Detected' },
+          ],
+          textFn: (c) => {
+            const detail = c.kind === 'queued'
+              ? 'queued, remote version saved for later'
+              : `${String(c.source)} version saved as ${String(c.copyPath)}`;
+            const lines = [`  ${chalk.cyan(String(c.id))}  ${String(c.docPath)}`];
+            lines.push(chalk.dim(`            ${detail} — ${new Date(String(c.detectedAt)).toLocaleString()}`));
+            if (!syncId) lines.push(chalk.dim(`            sync ${String(c.syncId)}`));
+            return lines.join('\n');
+          },
         });
       } catch (err) {
-        handleError(out, err, 'Failed to resolve conflict');
+        handleError(out, err, 'Failed to list conflicts');
+      }
+    });
+
+  addGlobalFlags(conflicts.command('show')
+    .description('Show an unresolved conflict and its set-aside version')
+    .argument('<syncId>', 'Sync configuration ID')
+    .argument('<entry>', 'Inbox entry ID or document path'))
+    .action(async (syncId: string, entryArg: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      try {
+        const found = findConflictEntries(out, syncId, entryArg);
+        if (!found) return;
+
+        for (const entry of found.entries) {
+          const versions = loadInboxVersions(found.config, entry);
+          const setAside = entry.source === 'local' ? versions.local : versions.remote;
+          const binary = isBinaryPath(entry.docPath);
+          const byteLength = (content: string) => Buffer.byteLength(content, binary ? 'base64' : 'utf-8');
+          out.record({
+            id: entry.id,
+            kind: entry.kind,
+            docPath: entry.docPath,
+            source: entry.source,
+            detectedAt: entry.detectedAt,
+            copyPath: entry.copyPath,
+            localBytes: versions.local === null ? null : byteLength(versions.local),
+            remoteBytes: versions.remote === null ? null : byteLength(versions.remote),
+            identical: versions.local === versions.remote,
+          });
+          if (flags.output === 'text' && setAside !== null && binary) {
+            out.status(chalk.dim(`--- ${entry.source} version: binary, ${formatBytes(byteLength(setAside))} ---`));
+          } else if (flags.output === 'text' && setAside !== null) {
+            out.status(chalk.dim(`--- ${entry.source} version ---`));
+            out.raw(setAside.endsWith('\n') ? setAside : setAside + '\n');
+          }
+        }
+      } catch (err) {
+        handleError(out, err, 'Failed to show conflict');
+      }
+    });
+
+  addGlobalFlags(conflicts.command('diff')
+    .description('Show a diff between the local and remote versions of a conflict')
+    .argument('<syncId>', 'Sync configuration ID')
+    .argument('<entry>', 'Inbox entry ID or document path'))
+    .action(async (syncId: string, entryArg: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      try {
+        const found = findConflictEntries(out, syncId, entryArg);
+        if (!found) return;
+
+        for (const entry of found.entries) {
+          const versions = loadInboxVersions(found.config, entry);
+          out.status(chalk.bold(`${entry.id}  ${entry.docPath}`) + chalk.dim(' (- local, + remote)'));
+          if (versions.local === versions.remote) {
+            out.status(chalk.dim('  Versions are identical.'));
+            continue;
+          }
+          if (isBinaryPath(entry.docPath)) {
+            const size = (content: string | null) => (content === null ? 'missing' : formatBytes(Buffer.byteLength(content, 'base64')));
+            out.status(`  Binary files differ (local ${size(versions.local)}, remote ${size(versions.remote)})`);
+            continue;
+          }
+          out.raw(formatConflictDiff(versions.local ?? '', versions.remote ?? '') + '\n');
+        }
+      } catch (err) {
+        handleError(out, err, 'Failed to diff conflict');
+      }
+    });
+
+  addGlobalFlags(conflicts.command('clean')
+    .description('Remove stale conflict copies and queue entries')
+    .argument('<syncId>', 'Sync configuration ID')
+    .option('--older-than <days>', 'Also remove entries older than this many days')
+    .option('--all', 'Remove every entry, discarding the set-aside versions')
+    .option('-y, --yes', 'Skip confirmation prompt')
+    .addHelpText('after', `
+An entry is stale when both of its versions are identical. Use --older-than
+or --all to also discard conflicts that still differ.`))
+    .action(async (syncId: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      try {
+        const config = getSyncConfig(syncId);
+        if (!config) {
+          out.error(`Sync configuration not found: ${syncId}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        let olderThanMs: number | undefined;
+        if (_opts.olderThan !== undefined) {
+          const days = Number(_opts.olderThan);
+          if (!Number.isFinite(days) || days < 0) {
+            out.error('--older-than must be a number of days');
+            process.exitCode = 1;
+            return;
+          }
+          olderThanMs = days * 24 * 60 * 60 * 1000;
+        }
+
+        const stale = listConflictInbox(config).filter(entry =>
+          _opts.all === true || isStaleInboxEntry(config, entry, olderThanMs),
+        );
+        if (stale.length === 0) {
+          out.success('No stale conflicts to remove', { removed: 0 });
+          return;
+        }
+
+        if (flags.dryRun) {
+          out.status(chalk.yellow('Dry run — these conflict entries would be removed:'));
+          for (const entry of stale) {
+            out.status(`  ${entry.id}  ${entry.copyPath ?? entry.docPath}`);
+          }
+          return;
+        }
+
+        const confirmed = await confirmAction(`Remove ${stale.length} conflict entr${stale.length === 1 ? 'y' : 'ies'}?`, { yes: _opts.yes as boolean | undefined });
+        if (!confirmed) {
+          out.status('Clean cancelled.');
+          return;
+        }
+
+        for (const entry of stale) {
+          removeInboxEntry(config, entry);
+          out.debug(`Removed ${entry.copyPath ?? entry.docPath}`);
+        }
+        out.success(`Removed ${stale.length} conflict entr${stale.length === 1 ? 'y' : 'ies'}`, { removed: stale.length });
+      } catch (err) {
+        handleError(out, err, 'Failed to clean conflicts');
+      }
+    });
+
+  // sync history <syncId>
+  addGlobalFlags(sync.command('history')
+    .description('Show past sync runs and the files they changed')
+    .argument('<syncId>', 'Sync configuration ID')
+    .option('--path <docPath>', 'Only show runs that touched this document')
+    .option('--trigger <trigger>', `Only show runs started by: ${SYNC_TRIGGERS.join(', ')}`)
+    .option('--since <date>', 'Only show runs started at or after this date')
+    .option('--errors', 'Only show runs with errors')
+    .option('--limit <n>', 'Maximum number of runs to show', '20')
+    .addHelpText('after', `
+Runs are listed newest first. Pull, push, run and resume are recorded as
+manual runs; the watcher, remote poller and daemon record their own.`))
+    .action(async (syncId: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      try {
+        const config = getSyncConfig(syncId);
+        if (!config) {
+          out.error(`Sync configuration not found: ${syncId}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        const trigger = _opts.trigger as string | undefined;
+        if (trigger !== undefined && !SYNC_TRIGGERS.includes(trigger as SyncTrigger)) {
+          out.error(`Invalid trigger: ${trigger}. Must be one of: ${SYNC_TRIGGERS.join(', ')}`);
+          process.exitCode = 1;
+          return;
+        }
+        let since: number | undefined;
+        if (_opts.since !== undefined) {
+          since = new Date(String(_opts.since)).getTime();
+          if (Number.isNaN(since)) {
+            out.error('--since must be a date, e.g. 2025-06-15 or 2025-06-15T10:00:00Z');
+            process.exitCode = 1;
+            return;
+          }
+        }
+        const limit = parseInt(String(_opts.limit), 10);
+        if (!Number.isInteger(limit) || limit < 1) {
+          out.error('--limit must be a positive integer');
+          process.exitCode = 1;
+          return;
+        }
+        const docPath = _opts.path as string | undefined;
+
+        const runs = loadSyncHistory(syncId)
+          .filter(r => trigger === undefined || r.trigger === trigger)
+          .filter(r => since === undefined || new Date(r.startedAt).getTime() >= since)
+          .filter(r => !_opts.errors || r.errors.length > 0)
+          .filter(r => docPath === undefined || runTouchesPath(r, docPath))
+          .reverse()
+          .slice(0, limit);
+
+        out.list(runs.map(r => ({ ...r })), {
+          emptyMessage: 'No sync runs recorded.',
+          columns: [
+            { key: 'startedAt', header: 'Started' },
+            { key: 'trigger', header: 'Trigger' },
+            { key: 'operation', header: 'Operation' },
+            { key: 'filesUploaded', header: 'Up' },
+            { key: 'filesDownloaded', header: 'Down' },
+            { key: 'filesDeleted', header: 'Deleted' },
+            { key: 'filesMoved', header: 'Moved' },
+          ],
+          textFn: (item) => {
+            const r = item as unknown as SyncHistoryRecord;
+            const counts = [
+              r.filesUploaded > 0 ? `${r.filesUploaded} uploaded` : null,
+              r.filesDownloaded > 0 ? `${r.filesDownloaded} downloaded` : null,
+              r.filesDeleted > 0 ? `${r.filesDeleted} deleted` : null,
+              r.filesMoved > 0 ? `${r.filesMoved} moved` : null,
+              r.bytesTransferred > 0 ? formatBytes(r.bytesTransferred) : null,
+            ].filter(Boolean).join(', ') || 'no changes';
+            const lines = [`  ${chalk.cyan(new Date(r.startedAt).toLocaleString())}  ${r.trigger} ${r.operation} — ${counts}`];
+            const changes = docPath === undefined
+              ? r.changes
+              : r.changes.filter(c => c.path === docPath || c.fromPath === docPath);
+            for (const c of changes.slice(0, 10)) {
+              lines.push(chalk.dim(`      ${c.op.padEnd(13)} ${c.fromPath ? `${c.fromPath} -> ` : ''}${c.path}`));
+            }
+            if (changes.length > 10) {
+              lines.push(chalk.dim(`      ... and ${changes.length - 10} more`));
+            }
+            for (const c of r.conflicts) {
+              if (docPath !== undefined && c.path !== docPath) continue;
+              lines.push(chalk.yellow(`      conflict      ${c.path} (${c.resolution}${c.conflictFile ? `, saved ${c.conflictFile}` : ''})`));
+            }
+            for (const e of r.errors) {
+              if (docPath !== undefined && e.path !== docPath) continue;
+              lines.push(chalk.red(`      error         ${e.path}: ${e.error}`));
+            }
+            return lines.join('\n');
+          },
+        });
+      } catch (err) {
+        handleError(out, err, 'Failed to load sync history');
+      }
+    });
+
+  // sync trash <list|restore|empty>
+  const trash = sync.command('trash').description('Recover files that sync deleted locally');
+
+  addGlobalFlags(trash.command('list')
+    .description('List files in the sync trash')
+    .argument('<syncId>', 'Sync configuration ID'))
+    .action(async (syncId: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      try {
+        const config = getSyncConfig(syncId);
+        if (!config) {
+          out.error(`Sync configuration not found: ${syncId}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        const rows = listTrash(config.localPath).map(entry => ({ ...entry }));
+        out.list(rows, {
+          emptyMessage: 'Trash is empty.',
+          columns: [
+            { key: 'batch', header: 'Batch' },
+            { key: 'docPath', header: 'Document' },
+            { key: 'deletedAt', header: 'Deleted' },
+            { key: 'sizeBytes', header: 'Size' },
+          ],
+          textFn: (t) => {
+            const lines = [`  ${chalk.cyan(String(t.batch))}  ${String(t.docPath)}`];
+            lines.push(chalk.dim(`            ${formatBytes(Number(t.sizeBytes))} — deleted ${new Date(String(t.deletedAt)).toLocaleString()}`));
+            return lines.join('\n');
+          },
+        });
+      } catch (err) {
+        handleError(out, err, 'Failed to list trash');
+      }
+    });
+
+  addGlobalFlags(trash.command('restore')
+    .description('Restore trashed files to their original location')
+    .argument('<syncId>', 'Sync configuration ID')
+    .argument('<batch>', 'Trash batch, as shown by `sync trash list`')
+    .argument('[path]', 'Restore only this document (default: the whole batch)')
+    .option('--force', 'Overwrite files that exist at the original location again')
+    .addHelpText('after', `
+Restored files are picked up as local changes by the next sync.`))
+    .action(async (syncId: string, batch: string, docPath: string | undefined, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      try {
+        const config = getSyncConfig(syncId);
+        if (!config) {
+          out.error(`Sync configuration not found: ${syncId}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        const entries = listTrash(config.localPath).filter(e => e.batch === batch && (!docPath || e.docPath === docPath));
+        if (entries.length === 0) {
+          out.error(docPath ? `Not in trash batch ${batch}: ${docPath}` : `Trash batch not found: ${batch}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        if (flags.dryRun) {
+          out.status(chalk.yellow('Dry run — these files would be restored:'));
+          for (const entry of entries) {
+            out.status(`  ${entry.docPath}`);
+          }
+          return;
+        }
+
+        const { restored, skipped } = restoreFromTrash(config.localPath, batch, docPath, _opts.force === true);
+        for (const p of skipped) {
+          out.warn(`Skipped ${p}: a file exists at its original location (use --force to overwrite)`);
+        }
+        out.success(`Restored ${restored.length} file(s)`, { restored: restored.length, skipped: skipped.length });
+      } catch (err) {
+        handleError(out, err, 'Failed to restore from trash');
+      }
+    });
+
+  addGlobalFlags(trash.command('empty')
+    .description('Permanently delete trashed files')
+    .argument('<syncId>', 'Sync configuration ID')
+    .option('--older-than <days>', 'Only delete batches older than this many days')
+    .option('-y, --yes', 'Skip confirmation prompt'))
+    .action(async (syncId: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      try {
+        const config = getSyncConfig(syncId);
+        if (!config) {
+          out.error(`Sync configuration not found: ${syncId}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        let olderThanMs: number | undefined;
+        if (_opts.olderThan !== undefined) {
+          const days = Number(_opts.olderThan);
+          if (!Number.isFinite(days) || days < 0) {
+            out.error('--older-than must be a number of days');
+            process.exitCode = 1;
+            return;
+          }
+          olderThanMs = days * 24 * 60 * 60 * 1000;
+        }
+
+        const expired = listTrash(config.localPath).filter(e =>
+          olderThanMs === undefined || Date.now() - new Date(e.deletedAt).getTime() > olderThanMs,
+        );
+        if (expired.length === 0) {
+          out.success('Nothing to delete from trash', { removed: 0 });
+          return;
+        }
+
+        if (flags.dryRun) {
+          out.status(chalk.yellow('Dry run — these files would be permanently deleted:'));
+          for (const entry of expired) {
+            out.status(`  ${entry.batch}  ${entry.docPath}`);
+          }
+          return;
+        }
+
+        const confirmed = await confirmAction(`Permanently delete ${expired.length} trashed file(s)?`, { yes: _opts.yes as boolean | undefined });
+        if (!confirmed) {
+          out.status('Empty cancelled.');
+          return;
+        }
+
+        const removed = emptyTrash(config.localPath, olderThanMs);
+        out.success(`Deleted ${removed} file(s) from trash`, { removed });
+      } catch (err) {
+        handleError(out, err, 'Failed to empty trash');
       }
     });
 
-  // sync daemon <start|stop|status>
+  // sync daemon <start|stop|status|pause|resume|trigger|reload>
   const daemon = sync.command('daemon').description('Manage the background sync daemon');
 
   addGlobalFlags(daemon.command('start')
@@ -637,13 +1722,28 @@ Sync modes:
     });
 
   addGlobalFlags(daemon.command('status')
-    .description('Show daemon status'))
+    .description('Show daemon status and the live state of each sync'))
     .action(async (_opts: Record<string, unknown>) => {
       const flags = resolveFlags(_opts);
       const out = createOutput(flags);
       try {
         const status = getDaemonStatus();
 
+        let syncs: DaemonSyncStatus[] | undefined;
+        let liveError: string | undefined;
+        if (status.running) {
+          try {
+            const response = await sendDaemonCommand({ command: 'status' });
+            if (response.ok) syncs = response.syncs;
+            else liveError = response.error;
+          } catch (err) {
+            liveError = err instanceof Error ? err.message : String(err);
+          }
+        }
+
+        const authRequired = readAuthRequired();
+        const needsLogin = Object.keys(authRequired).length > 0;
+
         if (flags.output === 'json') {
           out.record({
             running: status.running,
@@ -651,6 +1751,8 @@ Sync modes:
             logFile: status.logFile,
             uptime: status.uptime,
             startedAt: status.startedAt,
+            ...(syncs ? { syncs } : {}),
+            ...(needsLogin ? { authRequired } : {}),
           });
           return;
         }
@@ -665,11 +1767,330 @@ Sync modes:
           if (status.startedAt) {
             out.status(`  Started at: ${new Date(status.startedAt).toLocaleString()}`);
           }
+          if (syncs) {
+            out.status(`  Syncs:      ${syncs.length}`);
+            for (const live of syncs) {
+              reportDaemonSync(out, live);
+            }
+          } else if (liveError) {
+            out.warn(`Live status unavailable: ${liveError}`);
+          }
         } else {
           out.status(chalk.dim('Daemon is not running'));
         }
+        for (const [profile, entry] of Object.entries(authRequired)) {
+          out.warn(formatAuthRequired(profile, entry));
+        }
       } catch (err) {
         handleError(out, err, 'Failed to get daemon status');
       }
     });
+
+  addGlobalFlags(daemon.command('pause')
+    .description('Stop watching and polling a sync until it is resumed')
+    .argument('<syncId>', 'Sync configuration ID'))
+    .action(async (syncId: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      await runDaemonCommand(out, { command: 'pause', syncId }, 'Failed to pause sync');
+    });
+
+  addGlobalFlags(daemon.command('resume')
+    .description('Catch up on a paused sync and start watching it again')
+    .argument('<syncId>', 'Sync configuration ID'))
+    .action(async (syncId: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      await runDaemonCommand(out, { command: 'resume', syncId }, 'Failed to resume sync', 0);
+    });
+
+  addGlobalFlags(daemon.command('trigger')
+    .description('Make the daemon sync now instead of waiting for changes')
+    .argument('<syncId>', 'Sync configuration ID'))
+    .action(async (syncId: string, _opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      await runDaemonCommand(out, { command: 'trigger', syncId }, 'Failed to trigger sync', 0);
+    });
+
+  addGlobalFlags(daemon.command('reload')
+    .description('Re-read sync configurations without restarting the daemon'))
+    .action(async (_opts: Record<string, unknown>) => {
+      const flags = resolveFlags(_opts);
+      const out = createOutput(flags);
+      await runDaemonCommand(out, { command: 'reload' }, 'Failed to reload daemon', 0);
+    });
+}
+
+/**
+ * Send a request to the running daemon and report its answer. Requests that
+ * sync (resume, trigger, reload) pass timeoutMs 0 to wait for them to finish.
+ */
+async function runDaemonCommand(
+  out: Output,
+  request: DaemonRequest,
+  errorMessage: string,
+  timeoutMs?: number,
+): Promise<void> {
+  try {
+    if (!getDaemonStatus().running) {
+      out.error('Daemon is not running. Start it with: lsvault sync daemon start');
+      process.exitCode = 1;
+      return;
+    }
+    const response = await sendDaemonCommand(request, { timeoutMs });
+    if (!response.ok) {
+      out.error(response.error);
+      process.exitCode = 1;
+      return;
+    }
+    out.success(response.message ?? 'Done', { ...request, message: response.message ?? null });
+  } catch (err) {
+    handleError(out, err, errorMessage);
+  }
+}
+
+/**
+ * Print the live state of one sync reported by the daemon.
+ */
+function reportDaemonSync(out: Output, live: DaemonSyncStatus): void {
+  const state = live.paused
+    ? chalk.yellow('paused')
+    : live.authRequired
+      ? chalk.red('login required')
+      : [live.watching && 'watching', live.streaming && 'streaming', live.polling && 'polling'].filter(Boolean).join(', ') || chalk.red('stopped');
+  out.status(`    ${live.syncId.slice(0, 8)}  ${live.localPath} (${live.mode}, profile ${live.profile}) — ${state}`);
+  const details = [`last sync ${live.lastSyncAt ? new Date(live.lastSyncAt).toLocaleString() : 'never'}`];
+  if (live.queueDepth > 0) details.push(`${live.queueDepth} change(s) queued`);
+  out.status(chalk.dim(`      ${details.join(', ')}`));
+  if (live.lastError) {
+    out.status(chalk.red(`      Last error: ${live.lastError.message} (${new Date(live.lastError.at).toLocaleString()})`));
+  }
+}
+
+/**
+ * Parse a --concurrency value. Only whole numbers in range are accepted;
+ * parseInt alone would read '4abc' as 4 and '2.5' as 2.
+ */
+function parseConcurrency(value: string): number {
+  const concurrency = /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!isValidConcurrency(concurrency)) {
+    throw new InvalidArgumentError(`Expected a whole number from 1 to ${MAX_CONCURRENCY}.`);
+  }
+  return concurrency;
+}
+
+/**
+ * Format a transfer progress line: position, file, and its size plus the
+ * running byte total when sizes are known.
+ */
+function formatTransferProgress(progress: SyncProgress): string {
+  let line = `[${progress.current}/${progress.total}] ${progress.currentFile}`;
+  if (progress.currentFileBytes) {
+    line += ` (${formatBytes(progress.currentFileBytes)})`;
+  }
+  if (progress.totalBytes > 0) {
+    line += chalk.dim(` — ${formatBytes(progress.bytesTransferred)} of ${formatBytes(progress.totalBytes)}`);
+  }
+  return line;
+}
+
+/**
+ * Print how each conflict found by pull, push or run was handled.
+ */
+function reportConflicts(out: Output, syncId: string, conflicts: SyncResult['conflicts']): void {
+  for (const conflict of conflicts) {
+    if (conflict.markers) {
+      out.warn(`  Conflict: ${conflict.path} — ${conflict.markers} overlapping edit(s) marked in the file; edit it to resolve`);
+    } else if (conflict.resolution === 'merged') {
+      out.status(`  Merged: ${conflict.path} — local and remote edits combined`);
+    } else if (conflict.resolution === 'queued') {
+      out.warn(`  Conflict: ${conflict.path} — queued; resolve with "lsvault sync resolve ${syncId} ${conflict.path}"`);
+    } else if (conflict.resolution === 'skipped') {
+      out.warn(`  Conflict: ${conflict.path} — skipped, left unchanged`);
+    } else {
+      const backup = conflict.conflictFile ? `, other version saved as ${conflict.conflictFile}` : '';
+      out.warn(`  Conflict: ${conflict.path} — kept ${conflict.resolution}${backup}`);
+    }
+  }
+}
+
+/**
+ * Look up inbox entries for the conflicts show/diff commands.
+ * Reports an error and returns null if the config or entry is not found.
+ */
+function findConflictEntries(
+  out: Output,
+  syncId: string,
+  entryArg: string,
+): { config: SyncConfig; entries: ConflictInboxEntry[] } | null {
+  const config = getSyncConfig(syncId);
+  if (!config) {
+    out.error(`Sync configuration not found: ${syncId}`);
+    process.exitCode = 1;
+    return null;
+  }
+  const entries = findInboxEntries(config, entryArg);
+  if (entries.length === 0) {
+    out.error(`No conflict found for ${entryArg}`);
+    process.exitCode = 1;
+    return null;
+  }
+  return { config, entries };
+}
+
+/**
+ * Resolve a single inbox entry, prompting unless a version was given.
+ */
+async function resolveEntry(
+  out: Output,
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  entry: ConflictInboxEntry,
+  useVersion: string | undefined,
+  prompt: ConflictPrompt | undefined,
+): Promise<void> {
+  const versions = loadInboxVersions(config, entry);
+  if (entry.kind === 'queued') {
+    // The remote document may have moved on since the conflict was queued
+    const { content: received } = await client.documents.get(config.vaultId, entry.docPath);
+    const content = normalizeText(received, config.normalize);
+    if (content !== versions.remote) {
+      out.warn(`  ${entry.docPath}: remote changed since the conflict was queued; using the current remote version`);
+    }
+    versions.remote = content;
+  }
+  if (versions.local === null || versions.remote === null) {
+    const missing = versions.local === null ? 'local' : 'remote';
+    out.warn(`  ${entry.docPath}: the ${missing} version no longer exists; remove it with "lsvault sync conflicts clean ${config.id} --all"`);
+    return;
+  }
+
+  const state = loadSyncState(config.id);
+  const baseHash = state.remote[entry.docPath]?.hash;
+  const request: ConflictPromptRequest = {
+    docPath: entry.docPath,
+    localContent: versions.local,
+    remoteContent: versions.remote,
+    // A conflict copy's other side is already the synced version, so it is no merge base
+    baseContent: entry.kind === 'queued' && baseHash ? loadBaseContent(config.id, baseHash) : null,
+    binary: isBinaryPath(entry.docPath),
+  };
+
+  let decision: ConflictDecision;
+  if (useVersion === 'local' || useVersion === 'remote') {
+    decision = { resolution: useVersion };
+  } else if (useVersion === 'merge') {
+    if (request.binary) {
+      out.error(`  ${entry.docPath}: binary files cannot be merged; use --use local or --use remote`);
+      process.exitCode = 1;
+      return;
+    }
+    const merged = editInEditor(entry.docPath, buildEditorMergeContent(request));
+    if (merged === null) {
+      out.error(`  ${entry.docPath}: editor exited with an error; conflict left unresolved`);
+      process.exitCode = 1;
+      return;
+    }
+    decision = { resolution: 'merged', content: merged };
+  } else {
+    decision = await prompt!(request);
+  }
+
+  switch (decision.resolution) {
+    case 'local':
+    case 'remote':
+      await resolveInboxEntry(client, config, entry, decision.resolution === 'local' ? versions.local : versions.remote);
+      break;
+    case 'merged':
+      await resolveInboxEntry(client, config, entry, decision.content);
+      break;
+    case 'both':
+      if (entry.kind === 'copy') {
+        out.status(`  ${entry.docPath}: kept both; ${entry.copyPath} left in place`);
+        return;
+      }
+      createConflictFile(config.localPath, entry.docPath, versions.remote, 'remote');
+      await resolveInboxEntry(client, config, entry, versions.local);
+      break;
+    case 'skipped':
+    case 'queued':
+      out.status(`  ${entry.docPath}: skipped`);
+      return;
+  }
+
+  out.success(`Conflict resolved: ${entry.docPath} — using ${decision.resolution}`, {
+    id: entry.id,
+    docPath: entry.docPath,
+    resolved: decision.resolution,
+  });
+}
+
+/**
+ * Resolve a document that is not in the conflict inbox by copying one side
+ * over the other.
+ */
+async function resolveDocument(
+  out: Output,
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  docPath: string,
+  useVersion: 'local' | 'remote',
+): Promise<void> {
+  out.startSpinner('Resolving conflict...');
+  const localFile = localFilePath(config.localPath, docPath);
+  const state = loadSyncState(config.id);
+  const manifest = loadRemoteManifest(config.id);
+
+  if (useVersion === 'local') {
+    if (!fs.existsSync(localFile)) {
+      out.failSpinner(`Local file not found: ${localFile}`);
+      process.exitCode = 1;
+      return;
+    }
+    const content = encodeContent(docPath, fs.readFileSync(localFile), config.normalize);
+    const document = await client.documents.put(config.vaultId, docPath, content);
+
+    state.local[docPath] = {
+      path: docPath,
+      hash: hashFileContent(content, config.normalize),
+      mtime: new Date().toISOString(),
+      size: Buffer.byteLength(content),
+    };
+    state.remote[docPath] = buildRemoteFileState(docPath, content, new Date().toISOString(), config.normalize);
+    recordRemoteDocument(manifest, docPath, hashFileContent(content, config.normalize), document);
+    if (!isBinaryPath(docPath)) {
+      saveBaseContent(config.id, content, config.normalize);
+    }
+  } else {
+    const { content: received, document } = await client.documents.get(config.vaultId, docPath);
+    const content = normalizeText(received, config.normalize);
+    const dir = path.dirname(localFile);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const tmpFile = `${localFile}.tmp.${randomBytes(4).toString('hex')}`;
+    fs.writeFileSync(tmpFile, decodeContent(docPath, content, config.normalize));
+    fs.renameSync(tmpFile, localFile);
+
+    state.local[docPath] = {
+      path: docPath,
+      hash: hashFileContent(content, config.normalize),
+      mtime: new Date().toISOString(),
+      size: Buffer.byteLength(content),
+    };
+    state.remote[docPath] = buildRemoteFileState(docPath, content, new Date().toISOString(), config.normalize);
+    recordRemoteDocument(manifest, docPath, hashFileContent(content, config.normalize), document);
+    if (!isBinaryPath(docPath)) {
+      saveBaseContent(config.id, content, config.normalize);
+    }
+  }
+
+  saveRemoteManifest(config.id, manifest);
+  saveSyncState(state);
+  dequeueConflict(config.id, docPath);
+  out.success(`Conflict resolved: ${docPath} — using ${useVersion}`, {
+    docPath,
+    resolved: useVersion,
+  });
 }
@@ -148,6 +148,43 @@ describe('config', () => {
       stderrSpy.mockRestore();
     });
 
+    it('should apply the API URL and key of a profile', async () => {
+      mockCredentialManager.getCredentials.mockResolvedValue({
+        accessToken: 'jwt-personal',
+        refreshToken: 'refresh-personal',
+        apiUrl: 'https://secure.com',
+      });
+      mockedFs.existsSync.mockImplementation(p => String(p).endsWith(path.join('profiles', 'work.json')));
+      mockedFs.readFileSync.mockReturnValue(
+        JSON.stringify({ apiUrl: 'https://work.example.com', apiKey: 'lsv_k_work' }),
+      );
+
+      const config = await loadConfigAsync('work');
+
+      expect(config).toEqual({ apiUrl: 'https://work.example.com', apiKey: 'lsv_k_work' });
+    });
+
+    it('should not send the stored login to the API URL of a profile', async () => {
+      mockCredentialManager.getCredentials.mockResolvedValue({
+        accessToken: 'jwt-personal',
+        refreshToken: 'refresh-personal',
+      });
+      mockedFs.existsSync.mockImplementation(p => String(p).endsWith(path.join('profiles', 'work.json')));
+      mockedFs.readFileSync.mockReturnValue(JSON.stringify({ apiUrl: 'https://work.example.com' }));
+
+      await expect(loadConfigAsync('work')).rejects.toThrow('Profile "work" sets apiUrl but no apiKey');
+    });
+
+    it('should keep the stored login for a profile without an API key', async () => {
+      mockCredentialManager.getCredentials.mockResolvedValue({ accessToken: 'jwt-personal' });
+      mockedFs.existsSync.mockReturnValue(false);
+
+      const config = await loadConfigAsync('default');
+
+      expect(config.accessToken).toBe('jwt-personal');
+      expect(config.apiUrl).toBe('https://vault.lifestreamdynamics.com');
+    });
+
     it('should use default API URL when nothing else available', async () => {
       mockCredentialManager.getCredentials.mockResolvedValue({});
       mockedFs.existsSync.mockReturnValue(false);
@@ -2,6 +2,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 import { createCredentialManager, type CredentialManager } from './lib/credential-manager.js';
+import { loadProfile } from './lib/profiles.js';
 
 const CONFIG_DIR = path.join(os.homedir(), '.lsvault');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
@@ -61,8 +62,32 @@ export function loadConfig(): CliConfig {
 /**
  * Loads config with secure credential resolution.
  * Priority: env vars > keychain > encrypted config > plaintext config (deprecated).
+ * With a profile, the apiUrl and apiKey set in it (`lsvault config set
+ * --profile`) take precedence; a profile API key replaces the stored login.
+ * Stored logins are not kept per profile, so a profile that points at its
+ * own apiUrl must set its own apiKey: the stored tokens belong to the
+ * default server and are never sent to another one.
+ *
+ * @throws {Error} If the profile sets an apiUrl without an apiKey.
  */
-export async function loadConfigAsync(): Promise<CliConfig> {
+export async function loadConfigAsync(profile?: string): Promise<CliConfig> {
+  const config = await loadStoredConfigAsync();
+  if (!profile) return config;
+
+  const profileConfig = loadProfile(profile);
+  if (profileConfig.apiKey) {
+    return { apiUrl: profileConfig.apiUrl || config.apiUrl, apiKey: profileConfig.apiKey };
+  }
+  if (profileConfig.apiUrl) {
+    throw new Error(
+      `Profile "${profile}" sets apiUrl but no apiKey.\n` +
+      `Run: lsvault config set apiKey <key> --profile ${profile}`,
+    );
+  }
+  return config;
+}
+
+async function loadStoredConfigAsync(): Promise<CliConfig> {
   const cm = getCredentialManager();
   const secureCreds = await cm.getCredentials();
 
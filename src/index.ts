@@ -40,6 +40,7 @@ import { registerSamlCommands } from './commands/saml.js';
 import { registerScimCommands } from './commands/scim.js';
 import { registerPluginCommands } from './commands/plugins.js';
 import { registerCompletionCommands } from './commands/completion.js';
+import { readAuthRequired, formatAuthRequired } from './sync/auth-status.js';
 
 const program = new Command();
 program
@@ -66,6 +67,20 @@ LEARN MORE
   lsvault <command> --help                   Show help for a command
   lsvault <command> <subcommand> --help      Show help for a subcommand`);
 
+// Warn when the sync daemon stopped syncs because their login was rejected.
+// `auth` commands are how it gets fixed and `sync daemon` commands report it
+// themselves.
+program.hook('preAction', (_program, actionCommand) => {
+  const names: string[] = [];
+  for (let cmd: Command | null = actionCommand; cmd?.parent; cmd = cmd.parent) {
+    names.unshift(cmd.name());
+  }
+  if (names[0] === 'auth' || (names[0] === 'sync' && names[1] === 'daemon')) return;
+  for (const [profile, entry] of Object.entries(readAuthRequired())) {
+    process.stderr.write(chalk.yellow(`Warning: ${formatAuthRequired(profile, entry)}`) + '\n');
+  }
+});
+
 registerAuthCommands(program);
 registerMfaCommands(program);
 registerVaultCommands(program);
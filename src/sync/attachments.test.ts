@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MAX_FILE_SIZE,
+  normalizeExtension,
+  resolveIncludeExtensions,
+  isIncludedPath,
+  isBinaryPath,
+  decodedSize,
+  encodeContent,
+  decodeContent,
+  resolveMaxFileSize,
+  parseSize,
+} from './attachments.js';
+
+describe('sync attachments', () => {
+  describe('normalizeExtension', () => {
+    it('should lowercase and add a leading dot', () => {
+      expect(normalizeExtension('PNG')).toBe('.png');
+      expect(normalizeExtension('.Pdf')).toBe('.pdf');
+      expect(normalizeExtension(' md ')).toBe('.md');
+    });
+  });
+
+  describe('resolveIncludeExtensions', () => {
+    it('should default to markdown only', () => {
+      expect(resolveIncludeExtensions({})).toEqual(['.md']);
+      expect(resolveIncludeExtensions({ includeExtensions: [] })).toEqual(['.md']);
+    });
+
+    it('should normalize configured extensions and keep the wildcard', () => {
+      expect(resolveIncludeExtensions({ includeExtensions: ['md', '.PNG', '*'] })).toEqual(['.md', '.png', '*']);
+    });
+  });
+
+  describe('isIncludedPath', () => {
+    it('should match extensions case-insensitively', () => {
+      expect(isIncludedPath('img/Photo.JPG', ['.jpg'])).toBe(true);
+      expect(isIncludedPath('notes/a.md', ['.jpg'])).toBe(false);
+    });
+
+    it('should include everything with the wildcard', () => {
+      expect(isIncludedPath('archive.tar.gz', ['*'])).toBe(true);
+      expect(isIncludedPath('Makefile', ['*'])).toBe(true);
+    });
+  });
+
+  describe('isBinaryPath', () => {
+    it('should treat known binary formats as binary', () => {
+      expect(isBinaryPath('a.png')).toBe(true);
+      expect(isBinaryPath('b.PDF')).toBe(true);
+      expect(isBinaryPath('archive.tar.gz')).toBe(true);
+    });
+
+    it('should treat other files as text', () => {
+      expect(isBinaryPath('a.md')).toBe(false);
+      expect(isBinaryPath('data/b.JSON')).toBe(false);
+      expect(isBinaryPath('page.html')).toBe(false);
+      expect(isBinaryPath('icon.svg')).toBe(false);
+      expect(isBinaryPath('src/main.ts')).toBe(false);
+      expect(isBinaryPath('Makefile')).toBe(false);
+    });
+  });
+
+  describe('decodedSize', () => {
+    it('should undo the base64 overhead of binary documents', () => {
+      expect(decodedSize('a.png', 4000)).toBe(3000);
+      expect(decodedSize('a.md', 4000)).toBe(4000);
+    });
+  });
+
+  describe('encodeContent / decodeContent', () => {
+    it('should pass text through as UTF-8', () => {
+      const data = Buffer.from('# Héllo\n', 'utf-8');
+      expect(encodeContent('a.md', data)).toBe('# Héllo\n');
+      expect(decodeContent('a.md', '# Héllo\n')).toEqual(data);
+    });
+
+    it('should apply the normalization policy to text but not to binary content', () => {
+      const policy = { lineEndings: 'crlf' as const, stripBom: true };
+      expect(encodeContent('a.md', Buffer.from('\uFEFFa\r\nb\r\n'), policy)).toBe('a\nb\n');
+      expect(decodeContent('a.md', 'a\nb\n', policy)).toEqual(Buffer.from('a\r\nb\r\n'));
+      const bytes = Buffer.from([0x0d, 0x0a, 0xef, 0xbb, 0xbf]);
+      expect(decodeContent('img.png', encodeContent('img.png', bytes, policy), policy)).toEqual(bytes);
+    });
+
+    it('should keep a byte order mark when no policy strips it', () => {
+      expect(encodeContent('a.md', Buffer.from('\uFEFF# Note\n'))).toBe('\uFEFF# Note\n');
+    });
+
+    it('should refuse files synced as text that are not UTF-8 text', () => {
+      const latin1 = Buffer.from([0x63, 0x61, 0x66, 0xe9]);
+      expect(() => encodeContent('book.mobi', latin1)).toThrow('book.mobi is not UTF-8 text');
+      expect(() => encodeContent('.DS_Store', Buffer.from([0x00, 0x00, 0x00, 0x01, 0x42, 0x75]))).toThrow('.DS_Store is not UTF-8 text');
+    });
+
+    it('should round-trip binary content through base64', () => {
+      const data = Buffer.from([0x00, 0xff, 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]);
+      const encoded = encodeContent('img.png', data);
+      expect(encoded).toBe(data.toString('base64'));
+      expect(decodeContent('img.png', encoded)).toEqual(data);
+    });
+  });
+
+  describe('resolveMaxFileSize', () => {
+    it('should use the configured limit or the default', () => {
+      expect(resolveMaxFileSize({ maxFileSize: 1024 })).toBe(1024);
+      expect(resolveMaxFileSize({})).toBe(DEFAULT_MAX_FILE_SIZE);
+    });
+  });
+
+  describe('parseSize', () => {
+    it('should parse sizes with units', () => {
+      expect(parseSize('500')).toBe(500);
+      expect(parseSize('500KB')).toBe(500 * 1024);
+      expect(parseSize('25 mb')).toBe(25 * 1024 * 1024);
+      expect(parseSize('1.5GB')).toBe(Math.floor(1.5 * 1024 * 1024 * 1024));
+    });
+
+    it('should return null for invalid sizes', () => {
+      expect(parseSize('')).toBeNull();
+      expect(parseSize('big')).toBeNull();
+      expect(parseSize('10TB')).toBeNull();
+      expect(parseSize('-5MB')).toBeNull();
+    });
+  });
+});
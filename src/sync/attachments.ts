@@ -0,0 +1,133 @@
+/**
+ * File type and size rules for syncing attachments alongside markdown.
+ * Known binary formats (images, PDFs, archives, ...) are sent to the vault
+ * base64-encoded, so their content survives the string-based document API
+ * byte for byte; everything else travels as UTF-8 text, so it stays readable
+ * and searchable in the vault. A file with another extension whose content is
+ * not UTF-8 text is refused rather than uploaded with its bytes replaced.
+ */
+import path from 'node:path';
+import type { NormalizePolicy, SyncConfig } from './types.js';
+import { normalizeText, toLocalText } from './normalize.js';
+
+/** Extensions synced when a configuration does not list its own. */
+export const DEFAULT_INCLUDE_EXTENSIONS = ['.md'];
+
+/** Per-file size limit when a configuration does not set one (50 MB). */
+export const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+/** Decodes text content, failing on bytes that are not valid UTF-8; a BOM is kept. */
+const UTF8_DECODER = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true });
+
+/** Extensions transferred as base64 rather than UTF-8 text. */
+const BINARY_EXTENSIONS = new Set([
+  // Images
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.ico', '.tif', '.tiff', '.heic', '.heif', '.avif', '.psd',
+  // Documents
+  '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.odt', '.ods', '.odp', '.epub',
+  // Archives
+  '.zip', '.gz', '.tgz', '.bz2', '.xz', '.7z', '.rar', '.tar',
+  // Audio and video
+  '.mp3', '.wav', '.ogg', '.flac', '.m4a', '.aac', '.mp4', '.m4v', '.mov', '.webm', '.mkv', '.avi',
+  // Fonts
+  '.woff', '.woff2', '.ttf', '.otf', '.eot',
+  // Other
+  '.exe', '.dll', '.so', '.dylib', '.bin', '.dat', '.class', '.jar', '.wasm', '.sqlite', '.db',
+]);
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+/**
+ * Normalize an extension to lowercase with a leading dot ("PNG" -> ".png").
+ */
+export function normalizeExtension(ext: string): string {
+  const trimmed = ext.trim().toLowerCase();
+  return trimmed.startsWith('.') ? trimmed : `.${trimmed}`;
+}
+
+/**
+ * The extensions synced by a configuration. Accepts "*" to sync every file.
+ */
+export function resolveIncludeExtensions(config: Pick<SyncConfig, 'includeExtensions'>): string[] {
+  const exts = config.includeExtensions?.length ? config.includeExtensions : DEFAULT_INCLUDE_EXTENSIONS;
+  return exts.map(e => (e === '*' ? '*' : normalizeExtension(e)));
+}
+
+/**
+ * Check whether a document path has one of the included extensions.
+ */
+export function isIncludedPath(docPath: string, includeExtensions: string[]): boolean {
+  if (includeExtensions.includes('*')) return true;
+  return includeExtensions.includes(path.posix.extname(docPath).toLowerCase());
+}
+
+/**
+ * Check whether a document is transferred as binary (base64) content.
+ */
+export function isBinaryPath(docPath: string): boolean {
+  return BINARY_EXTENSIONS.has(path.posix.extname(docPath).toLowerCase());
+}
+
+/**
+ * The size of a document on disk, from its size in the vault. Binary
+ * documents are stored base64-encoded, which takes 4 characters for every
+ * 3 bytes.
+ */
+export function decodedSize(docPath: string, sizeBytes: number): number {
+  return isBinaryPath(docPath) ? Math.floor(sizeBytes * 3 / 4) : sizeBytes;
+}
+
+/**
+ * Convert raw file bytes to the content string sent to the vault, with text
+ * in the canonical form of the normalization policy.
+ *
+ * @throws {Error} If a file synced as text is not valid UTF-8 or contains NUL
+ *   bytes, since decoding it would replace the bytes it cannot represent.
+ */
+export function encodeContent(docPath: string, data: Buffer, policy?: NormalizePolicy): string {
+  if (isBinaryPath(docPath)) return data.toString('base64');
+  let text: string | null;
+  try {
+    text = UTF8_DECODER.decode(data);
+  } catch {
+    text = null;
+  }
+  if (text === null || text.includes('\0')) {
+    throw new Error(
+      `${docPath} is not UTF-8 text, and its extension is not a known binary format; ` +
+      'exclude it, or it would be corrupted in the vault',
+    );
+  }
+  return normalizeText(text, policy);
+}
+
+/**
+ * Convert content received from the vault to the bytes written to disk, with
+ * text in the line endings of the normalization policy.
+ */
+export function decodeContent(docPath: string, content: string, policy?: NormalizePolicy): Buffer {
+  return isBinaryPath(docPath) ? Buffer.from(content, 'base64') : Buffer.from(toLocalText(content, policy), 'utf-8');
+}
+
+/**
+ * The per-file size limit of a configuration, in bytes.
+ */
+export function resolveMaxFileSize(config: Pick<SyncConfig, 'maxFileSize'>): number {
+  return config.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+}
+
+/**
+ * Parse a human-readable size such as "500KB", "25MB" or "1.5GB" into bytes.
+ * A bare number is taken as bytes. Returns null if the value is invalid.
+ */
+export function parseSize(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(value.trim());
+  if (!match) return null;
+  const unit = SIZE_UNITS[(match[2] ?? 'b').toLowerCase()];
+  return Math.floor(parseFloat(match[1]) * unit);
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+vi.mock('./daemon.js', () => ({
+  DAEMON_DIR: '/home/user/.lsvault/daemon',
+}));
+
+import {
+  isAuthError,
+  readAuthRequired,
+  markAuthRequired,
+  clearAuthRequired,
+  formatAuthRequired,
+} from './auth-status.js';
+
+const AUTH_FILE = '/home/user/.lsvault/daemon/auth-required.json';
+const entry = { since: '2025-06-16T10:00:00.000Z', message: 'Invalid refresh token' };
+
+function stored(entries: Record<string, unknown>): void {
+  mockedFs.readFileSync.mockReturnValue(JSON.stringify(entries));
+}
+
+describe('daemon auth status', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedFs.readFileSync.mockReset();
+  });
+
+  it.each([
+    [Object.assign(new Error('Request failed'), { status: 401 }), true],
+    [Object.assign(new Error('Request failed'), { response: { status: 401 } }), true],
+    [new Error('Unauthorized'), true],
+    ['Push error: a.md: Invalid refresh token', true],
+    [new Error('Token has expired'), true],
+    [Object.assign(new Error('Forbidden'), { status: 403 }), false],
+    [new Error('Network error'), false],
+  ])('should tell whether %s rejected the credentials', (err, expected) => {
+    expect(isAuthError(err)).toBe(expected);
+  });
+
+  it('should read nothing when no profile needs a login', () => {
+    mockedFs.readFileSync.mockImplementation(() => { throw Object.assign(new Error('missing'), { code: 'ENOENT' }); });
+    expect(readAuthRequired()).toEqual({});
+    stored(['not', 'an', 'object']);
+    expect(readAuthRequired()).toEqual({});
+  });
+
+  it('should record a profile alongside others', () => {
+    stored({ work: entry });
+
+    markAuthRequired('default', 'Unauthorized');
+
+    const written = JSON.parse(mockedFs.writeFileSync.mock.calls[0][1] as string);
+    expect(mockedFs.writeFileSync).toHaveBeenCalledWith(AUTH_FILE, expect.any(String), { mode: 0o600 });
+    expect(written.work).toEqual(entry);
+    expect(written.default.message).toBe('Unauthorized');
+  });
+
+  it('should remove the file once no profile needs a login', () => {
+    stored({ work: entry, default: entry });
+
+    clearAuthRequired('work');
+    expect(JSON.parse(mockedFs.writeFileSync.mock.calls[0][1] as string)).toEqual({ default: entry });
+
+    stored({ default: entry });
+    clearAuthRequired('default');
+    expect(mockedFs.rmSync).toHaveBeenCalledWith(AUTH_FILE, { force: true });
+  });
+
+  it('should leave the file alone when the profile is not recorded', () => {
+    stored({ work: entry });
+
+    clearAuthRequired('default');
+
+    expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    expect(mockedFs.rmSync).not.toHaveBeenCalled();
+  });
+
+  it('should tell the user how to recover', () => {
+    const message = formatAuthRequired('work', entry);
+    expect(message).toContain('profile "work"');
+    expect(message).toContain('Invalid refresh token');
+    expect(message).toContain('lsvault sync daemon reload');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Re-authentication signalling for the sync daemon.
+ * When the server rejects a profile's credentials and they cannot be
+ * refreshed, the daemon stops the syncs using that profile and records it in
+ * ~/.lsvault/daemon/auth-required.json. `sync daemon status` and every other
+ * command read the file to tell the user to log in again; the daemon clears
+ * it on `sync daemon reload`, which retries the profile's syncs.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { DAEMON_DIR } from './daemon.js';
+
+const AUTH_REQUIRED_FILE = path.join(DAEMON_DIR, 'auth-required.json');
+
+export interface AuthRequiredEntry {
+  /** ISO 8601 timestamp when the credentials were rejected */
+  since: string;
+  /** Error the server answered with */
+  message: string;
+}
+
+/**
+ * Error fields the SDK may set for HTTP failures.
+ */
+interface HttpErrorLike {
+  status?: number;
+  statusCode?: number;
+  response?: { status?: number };
+}
+
+/**
+ * Whether an error, or an error message, means the credentials were rejected.
+ */
+export function isAuthError(err: unknown): boolean {
+  const e = (err ?? {}) as HttpErrorLike;
+  if ((e.status ?? e.statusCode ?? e.response?.status) === 401) return true;
+  const message = err instanceof Error ? err.message : String(err);
+  return /\b401\b|unauthori[sz]ed|unauthenticated|(invalid|expired|revoked) (refresh |access )?token|token (has )?(expired|been revoked)/i.test(message);
+}
+
+/**
+ * Read the profiles whose credentials the daemon could not use, keyed by
+ * profile name. Returns an empty object when there are none.
+ */
+export function readAuthRequired(): Record<string, AuthRequiredEntry> {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(AUTH_REQUIRED_FILE, 'utf-8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeAuthRequired(entries: Record<string, AuthRequiredEntry>): void {
+  if (Object.keys(entries).length === 0) {
+    fs.rmSync(AUTH_REQUIRED_FILE, { force: true });
+    return;
+  }
+  fs.mkdirSync(DAEMON_DIR, { recursive: true, mode: 0o700 });
+  fs.writeFileSync(AUTH_REQUIRED_FILE, JSON.stringify(entries, null, 2) + '\n', { mode: 0o600 });
+}
+
+/**
+ * Record that a profile needs a new login.
+ */
+export function markAuthRequired(profile: string, message: string): void {
+  writeAuthRequired({ ...readAuthRequired(), [profile]: { since: new Date().toISOString(), message } });
+}
+
+/**
+ * Forget that a profile needed a new login, or every profile when none is given.
+ */
+export function clearAuthRequired(profile?: string): void {
+  const entries = readAuthRequired();
+  if (profile === undefined) {
+    writeAuthRequired({});
+    return;
+  }
+  if (!(profile in entries)) return;
+  delete entries[profile];
+  writeAuthRequired(entries);
+}
+
+/**
+ * Describe what to do about a profile that needs a new login.
+ */
+export function formatAuthRequired(profile: string, entry: AuthRequiredEntry): string {
+  const login = profile === 'default' ? 'lsvault auth login' : `lsvault auth login (or update the API key of profile "${profile}")`;
+  return `The sync daemon stopped the syncs of profile "${profile}" at ${new Date(entry.since).toLocaleString()}: ${entry.message}\n`
+    + `  Run ${login}, then lsvault sync daemon reload`;
+}
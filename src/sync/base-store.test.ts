@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+vi.mock('./state.js', () => ({
+  hashFileContent: vi.fn((content: string) => `hash-${content}`),
+}));
+
+import {
+  saveBaseContent,
+  loadBaseContent,
+  pruneBaseContent,
+  deleteBaseStore,
+} from './base-store.js';
+
+describe('sync base store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('saveBaseContent', () => {
+    it('should write a content-addressed blob', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+      const hash = saveBaseContent('sync-1', 'hello');
+      expect(hash).toBe('hash-hello');
+      expect(mockedFs.mkdirSync).toHaveBeenCalledWith(
+        expect.stringContaining('sync-1'),
+        { recursive: true, mode: 0o700 },
+      );
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+        expect.stringMatching(/sync-1[/\\]hash-hello$/),
+        'hello',
+        { encoding: 'utf-8', mode: 0o600 },
+      );
+    });
+
+    it('should skip writing when the blob already exists', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      saveBaseContent('sync-1', 'hello');
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadBaseContent', () => {
+    it('should return null for a missing blob', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+      expect(loadBaseContent('sync-1', 'nope')).toBeNull();
+    });
+
+    it('should read a stored blob', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue('base content');
+      expect(loadBaseContent('sync-1', 'hash-x')).toBe('base content');
+    });
+  });
+
+  describe('pruneBaseContent', () => {
+    it('should delete unreferenced blobs only', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readdirSync.mockReturnValue(['keep', 'stale'] as unknown as ReturnType<typeof fs.readdirSync>);
+      pruneBaseContent('sync-1', ['keep']);
+      expect(mockedFs.unlinkSync).toHaveBeenCalledTimes(1);
+      expect(mockedFs.unlinkSync).toHaveBeenCalledWith(expect.stringMatching(/stale$/));
+    });
+  });
+
+  describe('deleteBaseStore', () => {
+    it('should remove the sync blob directory', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      deleteBaseStore('sync-1');
+      expect(mockedFs.rmSync).toHaveBeenCalledWith(
+        expect.stringContaining('sync-1'),
+        { recursive: true, force: true },
+      );
+    });
+  });
+});
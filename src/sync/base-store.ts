@@ -0,0 +1,75 @@
+/**
+ * Base revision store for three-way merges.
+ * Keeps the last-synced content of each file in a content-addressed blob
+ * store at ~/.lsvault/sync-state/base/<syncId>/<sha256>.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { hashFileContent } from './state.js';
+import type { NormalizePolicy } from './types.js';
+
+const BASE_DIR = path.join(os.homedir(), '.lsvault', 'sync-state', 'base');
+
+function syncBaseDir(syncId: string): string {
+  return path.join(BASE_DIR, syncId);
+}
+
+/**
+ * Store the content of a synced revision.
+ * Returns the content hash used as the blob key, which matches the hash in
+ * the sync state when given the same normalization policy.
+ */
+export function saveBaseContent(syncId: string, content: string, policy?: NormalizePolicy): string {
+  const hash = hashFileContent(content, policy);
+  const dir = syncBaseDir(syncId);
+  const blobPath = path.join(dir, hash);
+  if (fs.existsSync(blobPath)) return hash;
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+  fs.writeFileSync(blobPath, content, { encoding: 'utf-8', mode: 0o600 });
+  return hash;
+}
+
+/**
+ * Load a stored revision by content hash.
+ * Returns null if the blob is missing.
+ */
+export function loadBaseContent(syncId: string, hash: string): string | null {
+  const blobPath = path.join(syncBaseDir(syncId), hash);
+  if (!fs.existsSync(blobPath)) return null;
+  try {
+    return fs.readFileSync(blobPath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove blobs that are no longer referenced by the sync state.
+ */
+export function pruneBaseContent(syncId: string, keepHashes: Iterable<string>): void {
+  const dir = syncBaseDir(syncId);
+  if (!fs.existsSync(dir)) return;
+  const keep = new Set(keepHashes);
+  try {
+    for (const entry of fs.readdirSync(dir)) {
+      if (!keep.has(entry)) {
+        fs.unlinkSync(path.join(dir, entry));
+      }
+    }
+  } catch {
+    // Ignore prune errors — stale blobs are harmless
+  }
+}
+
+/**
+ * Delete all stored revisions for a sync configuration.
+ */
+export function deleteBaseStore(syncId: string): void {
+  const dir = syncBaseDir(syncId);
+  if (fs.existsSync(dir)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
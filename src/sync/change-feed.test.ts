@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import fs from 'node:fs';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+import {
+  changeFeedUrl,
+  createSseParser,
+  toChangeEvent,
+  openChangeFeed,
+  isFeedUnsupported,
+  loadFeedCursor,
+  saveFeedCursor,
+  deleteFeedCursor,
+  type ChangeEvent,
+  type ChangeFeedSource,
+  type SseMessage,
+} from './change-feed.js';
+
+describe('sync change feed', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('changeFeedUrl', () => {
+    it('should build the stream URL of a vault', () => {
+      expect(changeFeedUrl('https://vault.example.com/', 'vault 1'))
+        .toBe('https://vault.example.com/api/v1/vaults/vault%201/changes/stream');
+    });
+  });
+
+  describe('createSseParser', () => {
+    it('should dispatch events split across chunks', () => {
+      const messages: SseMessage[] = [];
+      const parser = createSseParser(m => messages.push(m));
+
+      parser.push('id: 1\nevent: document.deleted\nda');
+      parser.push('ta: {"path":"a.md"}\r');
+      parser.push('\n\r\n: ping\n\ndata: one\ndata: two\n\n');
+
+      expect(messages).toEqual([
+        { id: '1', event: 'document.deleted', data: '{"path":"a.md"}' },
+        { id: '1', event: 'message', data: 'one\ntwo' },
+      ]);
+    });
+
+    it('should not dispatch an incomplete event', () => {
+      const messages: SseMessage[] = [];
+      const parser = createSseParser(m => messages.push(m));
+
+      parser.push('event: reset\n');
+
+      expect(messages).toEqual([]);
+    });
+  });
+
+  describe('toChangeEvent', () => {
+    it('should parse updates, deletions and resets', () => {
+      expect(toChangeEvent({
+        id: 'c1',
+        event: 'document.updated',
+        data: '{"path":"a.md","sizeBytes":3,"fileModifiedAt":"2025-01-01T00:00:00.000Z","contentHash":"h"}',
+      })).toEqual({
+        type: 'updated',
+        cursor: 'c1',
+        document: { path: 'a.md', sizeBytes: 3, fileModifiedAt: '2025-01-01T00:00:00.000Z', contentHash: 'h' },
+      });
+      expect(toChangeEvent({ id: 'c2', event: 'document.deleted', data: '{"path":"a.md"}' }))
+        .toEqual({ type: 'deleted', cursor: 'c2', path: 'a.md' });
+      expect(toChangeEvent({ id: null, event: 'reset', data: '' }))
+        .toEqual({ type: 'reset', cursor: null });
+    });
+
+    it('should skip events it does not understand', () => {
+      expect(toChangeEvent({ id: '1', event: 'vault.renamed', data: '{"path":"a.md"}' })).toBeNull();
+      expect(toChangeEvent({ id: '1', event: 'document.updated', data: '{"path":"a.md"}' })).toBeNull();
+      expect(toChangeEvent({ id: '1', event: 'document.deleted', data: 'not json' })).toBeNull();
+    });
+  });
+
+  describe('openChangeFeed', () => {
+    let server: http.Server;
+    let handler: http.RequestListener;
+    let source: ChangeFeedSource;
+
+    beforeEach(async () => {
+      handler = (_req, res) => res.end();
+      server = http.createServer((req, res) => handler(req, res));
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      source = async () => ({
+        url: changeFeedUrl(`http://127.0.0.1:${port}`, 'vault-1'),
+        headers: { Authorization: 'Bearer token-1' },
+      });
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should resume from the cursor and deliver events until the stream ends', async () => {
+      let request: http.IncomingMessage | undefined;
+      handler = (req, res) => {
+        request = req;
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(': ping\n\n');
+        res.write('id: c2\nevent: document.updated\ndata: {"path":"a.md","sizeBytes":3,"fileModifiedAt":"2025-01-01T00:00:00.000Z"}\n\n');
+        res.end('id: c3\nevent: document.deleted\ndata: {"path":"b.md"}\n\n');
+      };
+      const events: ChangeEvent[] = [];
+      const onOpen = vi.fn();
+
+      await openChangeFeed(source, { cursor: 'c1', onOpen, onEvent: e => events.push(e) });
+
+      expect(request?.url).toBe('/api/v1/vaults/vault-1/changes/stream');
+      expect(request?.headers['last-event-id']).toBe('c1');
+      expect(request?.headers.authorization).toBe('Bearer token-1');
+      expect(onOpen).toHaveBeenCalledOnce();
+      expect(events.map(e => [e.type, e.cursor])).toEqual([['updated', 'c2'], ['deleted', 'c3']]);
+    });
+
+    it('should report a server without a change feed as unsupported', async () => {
+      handler = (_req, res) => {
+        res.statusCode = 404;
+        res.end('Not found');
+      };
+
+      const err = await openChangeFeed(source, { onEvent: vi.fn() }).catch(e => e);
+
+      expect(err.message).toBe('Change feed request failed: HTTP 404');
+      expect(isFeedUnsupported(err)).toBe(true);
+    });
+
+    it('should report a response that is not an event stream as unsupported', async () => {
+      handler = (_req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end('[]');
+      };
+
+      const err = await openChangeFeed(source, { onEvent: vi.fn() }).catch(e => e);
+
+      expect(isFeedUnsupported(err)).toBe(true);
+    });
+
+    it('should treat server errors as worth retrying', async () => {
+      handler = (_req, res) => {
+        res.statusCode = 503;
+        res.end();
+      };
+
+      const err = await openChangeFeed(source, { onEvent: vi.fn() }).catch(e => e);
+
+      expect(err.status).toBe(503);
+      expect(isFeedUnsupported(err)).toBe(false);
+    });
+
+    it('should close the connection when aborted', async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(': ping\n\n');
+      };
+      const abort = new AbortController();
+
+      const feed = openChangeFeed(source, { signal: abort.signal, onOpen: () => abort.abort(), onEvent: vi.fn() });
+
+      await expect(feed).rejects.toThrow('Change feed subscription aborted');
+    });
+  });
+
+  describe('feed cursor', () => {
+    it('should return null when no cursor is stored', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+      expect(loadFeedCursor('sync-1')).toBeNull();
+    });
+
+    it('should load a stored cursor', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue('c42\n');
+      expect(loadFeedCursor('sync-1')).toBe('c42');
+    });
+
+    it('should save a cursor atomically', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+
+      saveFeedCursor('sync-1', 'c42');
+
+      const [tmpFile, content] = mockedFs.writeFileSync.mock.calls[0];
+      expect(String(tmpFile)).toContain('sync-1.cursor.tmp.');
+      expect(content).toBe('c42\n');
+      expect(mockedFs.renameSync).toHaveBeenCalledWith(tmpFile, expect.stringContaining('sync-1.cursor'));
+    });
+
+    it('should delete a stored cursor', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+
+      deleteFeedCursor('sync-1');
+
+      expect(mockedFs.unlinkSync).toHaveBeenCalledWith(expect.stringContaining('sync-1.cursor'));
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Remote change feed.
+ * Servers that support it stream the changes made to a vault as server-sent
+ * events from GET /api/v1/vaults/<vaultId>/changes/stream. Each event ID is a
+ * resume cursor: reconnecting with it in Last-Event-ID replays the changes
+ * made since, so a poller that was disconnected or stopped catches up without
+ * listing the whole vault. The cursor of the last change applied by a sync is
+ * stored at ~/.lsvault/sync-state/<syncId>.cursor.
+ *
+ * Events:
+ *   document.updated  data: {"path","sizeBytes","fileModifiedAt","contentHash"?}
+ *   document.deleted  data: {"path"}
+ *   reset             the cursor is too old to resume from; list the vault again
+ * Comment lines (": ping") keep an idle connection alive.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+const STATE_DIR = path.join(os.homedir(), '.lsvault', 'sync-state');
+
+/** A connection that receives nothing, not even a keep-alive, for this long is dropped */
+const IDLE_TIMEOUT_MS = 90_000;
+/** HTTP statuses meaning the server has no change feed */
+const UNSUPPORTED_STATUSES = new Set([404, 405, 406, 501]);
+
+/**
+ * Metadata of a changed document, as listed by `documents.list`.
+ */
+export interface ChangedDocument {
+  path: string;
+  sizeBytes: number;
+  fileModifiedAt: string;
+  contentHash?: string | null;
+}
+
+export type ChangeEvent =
+  | { type: 'updated'; cursor: string | null; document: ChangedDocument }
+  | { type: 'deleted'; cursor: string | null; path: string }
+  | { type: 'reset'; cursor: string | null };
+
+/**
+ * Where to subscribe to a vault's changes, and with which headers.
+ */
+export interface ChangeFeedRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Resolves the request for each connection, so credentials refreshed since
+ * the last one are used.
+ */
+export type ChangeFeedSource = () => Promise<ChangeFeedRequest>;
+
+export interface ChangeFeedOptions {
+  /** Cursor to resume from; without one, only changes made from now on are sent */
+  cursor?: string | null;
+  /** Called once the server has accepted the subscription */
+  onOpen?: () => void;
+  onEvent: (event: ChangeEvent) => void;
+  /** Aborting closes the connection; the returned promise then rejects */
+  signal?: AbortSignal;
+}
+
+/** One dispatched server-sent event */
+export interface SseMessage {
+  id: string | null;
+  event: string;
+  data: string;
+}
+
+/**
+ * URL of the change feed of a vault.
+ */
+export function changeFeedUrl(apiUrl: string, vaultId: string): string {
+  return `${apiUrl.replace(/\/+$/, '')}/api/v1/vaults/${encodeURIComponent(vaultId)}/changes/stream`;
+}
+
+/**
+ * Incremental parser for a text/event-stream body. Feed it chunks as they
+ * arrive; it calls onMessage for every complete event. As in the EventSource
+ * specification, the last event ID carries over to later events that do not
+ * set one.
+ */
+export function createSseParser(onMessage: (message: SseMessage) => void): { push: (chunk: string) => void } {
+  let buffer = '';
+  let lastId: string | null = null;
+  let event = '';
+  let data: string[] = [];
+
+  function dispatch(): void {
+    if (data.length > 0 || event !== '') {
+      onMessage({ id: lastId, event: event || 'message', data: data.join('\n') });
+    }
+    event = '';
+    data = [];
+  }
+
+  function processLine(line: string): void {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id' && !value.includes('\0')) lastId = value;
+  }
+
+  return {
+    push(chunk: string): void {
+      buffer += chunk;
+      let match: RegExpExecArray | null;
+      const lineEnd = /\r\n|\r|\n/g;
+      let start = 0;
+      while ((match = lineEnd.exec(buffer)) !== null) {
+        // A trailing \r may be the first half of \r\n; wait for the next chunk
+        if (match[0] === '\r' && match.index === buffer.length - 1) break;
+        processLine(buffer.slice(start, match.index));
+        start = match.index + match[0].length;
+      }
+      buffer = buffer.slice(start);
+    },
+  };
+}
+
+/**
+ * Turn a server-sent event into a change event. Returns null for events
+ * that are not understood, which are skipped.
+ */
+export function toChangeEvent(message: SseMessage): ChangeEvent | null {
+  const cursor = message.id || null;
+  if (message.event === 'reset') return { type: 'reset', cursor };
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(message.data) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload.path !== 'string') return null;
+  if (message.event === 'document.deleted') {
+    return { type: 'deleted', cursor, path: payload.path };
+  }
+  if (message.event === 'document.updated') {
+    if (typeof payload.sizeBytes !== 'number' || typeof payload.fileModifiedAt !== 'string') return null;
+    return {
+      type: 'updated',
+      cursor,
+      document: {
+        path: payload.path,
+        sizeBytes: payload.sizeBytes,
+        fileModifiedAt: payload.fileModifiedAt,
+        contentHash: typeof payload.contentHash === 'string' ? payload.contentHash : null,
+      },
+    };
+  }
+  return null;
+}
+
+function feedError(message: string, status: number | null, unsupported: boolean): Error {
+  return Object.assign(new Error(message), { status, unsupported });
+}
+
+/**
+ * Whether a subscription failed because the server has no change feed, as
+ * opposed to a network or server error worth retrying soon.
+ */
+export function isFeedUnsupported(err: unknown): boolean {
+  return (err as { unsupported?: unknown } | null)?.unsupported === true;
+}
+
+/**
+ * Subscribe to a change feed and deliver its events until the connection
+ * ends. Resolves when the server closes the stream; rejects if the
+ * subscription is refused, the connection fails or goes idle, or the signal
+ * is aborted.
+ */
+export async function openChangeFeed(source: ChangeFeedSource, options: ChangeFeedOptions): Promise<void> {
+  const { cursor, onOpen, onEvent, signal } = options;
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal?.aborted) throw feedError('Change feed subscription aborted', null, false);
+  signal?.addEventListener('abort', abort, { once: true });
+
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  let idle = false;
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      idle = true;
+      controller.abort();
+    }, IDLE_TIMEOUT_MS);
+  };
+
+  try {
+    const request = await source();
+    const headers: Record<string, string> = {
+      ...request.headers,
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    };
+    if (cursor) headers['Last-Event-ID'] = cursor;
+
+    resetIdleTimer();
+    const res = await fetch(request.url, { headers, signal: controller.signal });
+    if (!res.ok) {
+      await res.body?.cancel();
+      throw feedError(`Change feed request failed: HTTP ${res.status}`, res.status, UNSUPPORTED_STATUSES.has(res.status));
+    }
+    const contentType = res.headers.get('content-type') ?? '';
+    if (!contentType.startsWith('text/event-stream') || !res.body) {
+      await res.body?.cancel();
+      throw feedError(`Change feed answered with ${contentType || 'no content type'}, not an event stream`, res.status, true);
+    }
+    onOpen?.();
+
+    const parser = createSseParser((message) => {
+      const event = toChangeEvent(message);
+      if (event) onEvent(event);
+    });
+    const decoder = new TextDecoder();
+    const reader = res.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      resetIdleTimer();
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+  } catch (err) {
+    if (idle) throw feedError(`Change feed went quiet for ${IDLE_TIMEOUT_MS / 1000}s`, null, false);
+    if (signal?.aborted) throw feedError('Change feed subscription aborted', null, false);
+    throw err;
+  } finally {
+    clearTimeout(idleTimer);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+function cursorFilePath(syncId: string): string {
+  return path.join(STATE_DIR, `${syncId}.cursor`);
+}
+
+/**
+ * Load the change feed cursor of a sync configuration, or null if none is stored.
+ */
+export function loadFeedCursor(syncId: string): string | null {
+  const filePath = cursorFilePath(syncId);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return fs.readFileSync(filePath, 'utf-8').trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the change feed cursor of a sync configuration (atomically, via a temp file).
+ */
+export function saveFeedCursor(syncId: string, cursor: string): void {
+  if (!fs.existsSync(STATE_DIR)) {
+    fs.mkdirSync(STATE_DIR, { recursive: true, mode: 0o700 });
+  }
+  const filePath = cursorFilePath(syncId);
+  const tmpFile = `${filePath}.tmp.${randomBytes(4).toString('hex')}`;
+  fs.writeFileSync(tmpFile, cursor + '\n', { mode: 0o600 });
+  fs.renameSync(tmpFile, filePath);
+}
+
+/**
+ * Delete the change feed cursor of a sync configuration.
+ */
+export function deleteFeedCursor(syncId: string): void {
+  const filePath = cursorFilePath(syncId);
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
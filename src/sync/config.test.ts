@@ -7,7 +7,9 @@ const mockedFs = vi.mocked(fs);
 // Must import after mocking fs
 import {
   loadSyncConfigs,
+  readSyncConfigs,
   saveSyncConfigs,
+  watchSyncConfigs,
   getSyncConfig,
   getSyncConfigByVaultId,
   createSyncConfig,
@@ -61,6 +63,40 @@ describe('sync config', () => {
     });
   });
 
+  describe('readSyncConfigs', () => {
+    it('should return empty array when no file exists', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+      expect(readSyncConfigs()).toEqual([]);
+    });
+
+    it('should throw for a corrupt file', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue('not-json');
+      expect(() => readSyncConfigs()).toThrow();
+      mockedFs.readFileSync.mockReturnValue('{"foo": "bar"}');
+      expect(() => readSyncConfigs()).toThrow('does not contain a list of sync configurations');
+    });
+  });
+
+  describe('watchSyncConfigs', () => {
+    it('should report changes to the file until stopped', () => {
+      const onChange = vi.fn();
+      const stop = watchSyncConfigs(onChange, 500);
+
+      const [file, options, listener] = mockedFs.watchFile.mock.calls[0] as unknown as
+        [string, object, (current: Partial<fs.Stats>, previous: Partial<fs.Stats>) => void];
+      expect(file).toContain('syncs.json');
+      expect(options).toEqual({ interval: 500, persistent: true });
+      listener({ mtimeMs: 1, ino: 1, size: 10 }, { mtimeMs: 1, ino: 1, size: 10 });
+      expect(onChange).not.toHaveBeenCalled();
+      listener({ mtimeMs: 2, ino: 2, size: 10 }, { mtimeMs: 1, ino: 1, size: 10 });
+      expect(onChange).toHaveBeenCalledTimes(1);
+
+      stop();
+      expect(mockedFs.unwatchFile).toHaveBeenCalledWith(file, listener);
+    });
+  });
+
   describe('saveSyncConfigs', () => {
     it('should create config directory if it does not exist', () => {
       mockedFs.existsSync.mockReturnValue(false);
@@ -80,6 +116,10 @@ describe('sync config', () => {
         expect.stringContaining('"vaultId": "vault-1"'),
         { mode: 0o600 },
       );
+      expect(mockedFs.renameSync).toHaveBeenCalledWith(
+        mockedFs.writeFileSync.mock.calls[0][0],
+        expect.stringMatching(/syncs\.json$/),
+      );
     });
   });
 
@@ -15,27 +15,64 @@ const SYNCS_FILE = path.join(CONFIG_DIR, 'syncs.json');
  * Read all sync configurations from disk.
  */
 export function loadSyncConfigs(): SyncConfig[] {
-  if (!fs.existsSync(SYNCS_FILE)) {
-    return [];
-  }
   try {
-    const raw = fs.readFileSync(SYNCS_FILE, 'utf-8');
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed as SyncConfig[];
+    return readSyncConfigs();
   } catch {
     return [];
   }
 }
 
+/**
+ * Read all sync configurations from disk, throwing if syncs.json exists but
+ * is not a valid list. Used where an unreadable file must not be mistaken
+ * for an empty one.
+ */
+export function readSyncConfigs(): SyncConfig[] {
+  if (!fs.existsSync(SYNCS_FILE)) {
+    return [];
+  }
+  const parsed = JSON.parse(fs.readFileSync(SYNCS_FILE, 'utf-8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${SYNCS_FILE} does not contain a list of sync configurations`);
+  }
+  return parsed as SyncConfig[];
+}
+
 /**
  * Write all sync configurations to disk.
+ * Written to a temp file and renamed into place, so the daemon watching the
+ * file never reads it half-written.
  */
 export function saveSyncConfigs(configs: SyncConfig[]): void {
   if (!fs.existsSync(CONFIG_DIR)) {
     fs.mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
   }
-  fs.writeFileSync(SYNCS_FILE, JSON.stringify(configs, null, 2) + '\n', { mode: 0o600 });
+  const tmpFile = `${SYNCS_FILE}.tmp.${crypto.randomBytes(4).toString('hex')}`;
+  fs.writeFileSync(tmpFile, JSON.stringify(configs, null, 2) + '\n', { mode: 0o600 });
+  fs.renameSync(tmpFile, SYNCS_FILE);
+}
+
+/**
+ * Call onChange whenever syncs.json is created, changed or removed.
+ * Polls the file's metadata, which also notices it being replaced by a
+ * rename. Returns a function that stops watching.
+ */
+export function watchSyncConfigs(onChange: () => void, intervalMs = 1000): () => void {
+  const listener = (current: fs.Stats, previous: fs.Stats) => {
+    if (current.mtimeMs !== previous.mtimeMs || current.ino !== previous.ino || current.size !== previous.size) {
+      onChange();
+    }
+  };
+  fs.watchFile(SYNCS_FILE, { interval: intervalMs, persistent: true }, listener);
+  return () => fs.unwatchFile(SYNCS_FILE, listener);
+}
+
+/**
+ * The configuration profile a sync uses. Syncs created before syncs recorded
+ * their profile use the default one.
+ */
+export function syncProfileName(config: Pick<SyncConfig, 'profile'>): string {
+  return config.profile ?? 'default';
 }
 
 /**
@@ -73,10 +110,19 @@ export function createSyncConfig(opts: CreateSyncOptions): SyncConfig {
   const config: SyncConfig = {
     id: crypto.randomUUID(),
     vaultId: opts.vaultId,
+    profile: opts.profile,
     localPath: opts.localPath,
     mode: opts.mode ?? 'sync',
     onConflict: opts.onConflict ?? 'newer',
+    conflictMarkers: opts.conflictMarkers,
+    includeExtensions: opts.includeExtensions,
+    maxFileSize: opts.maxFileSize,
+    concurrency: opts.concurrency,
+    massDeleteThreshold: opts.massDeleteThreshold,
+    normalize: opts.normalize,
+    frontmatter: opts.frontmatter,
     ignore: opts.ignore ?? ['.git', '.DS_Store', 'node_modules'],
+    include: opts.include,
     lastSyncAt: new Date(0).toISOString(),
     syncInterval: opts.syncInterval,
     autoSync: opts.autoSync ?? false,
@@ -87,6 +133,19 @@ export function createSyncConfig(opts: CreateSyncOptions): SyncConfig {
   return config;
 }
 
+/**
+ * Update fields of a sync configuration.
+ * Returns the updated config, or undefined if it was not found.
+ */
+export function updateSyncConfig(id: string, changes: Partial<Omit<SyncConfig, 'id'>>): SyncConfig | undefined {
+  const configs = loadSyncConfigs();
+  const config = configs.find(c => c.id === id);
+  if (!config) return undefined;
+  Object.assign(config, changes);
+  saveSyncConfigs(configs);
+  return config;
+}
+
 /**
  * Delete a sync configuration by ID.
  * Returns true if the config was found and deleted.
@@ -110,3 +169,5 @@ export function updateLastSync(id: string, timestamp?: string): void {
   config.lastSyncAt = timestamp ?? new Date().toISOString();
   saveSyncConfigs(configs);
 }
+
+export { SYNCS_FILE };
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+vi.mock('./ignore.js', () => ({
+  resolveIgnorePatterns: vi.fn(() => []),
+  shouldIgnore: vi.fn(() => false),
+}));
+
+vi.mock('./state.js', () => ({
+  loadSyncState: vi.fn(() => ({ syncId: 'sync-1', local: {}, remote: {}, updatedAt: '' })),
+  saveSyncState: vi.fn(),
+  hashFileContent: vi.fn((content: string) => `hash-${content}`),
+  buildRemoteFileState: vi.fn((docPath: string, content: string, mtime: string) => ({
+    path: docPath, hash: `hash-${content}`, mtime, size: content.length,
+  })),
+}));
+
+vi.mock('./conflict-queue.js', () => ({
+  loadConflictQueue: vi.fn(() => []),
+  dequeueConflict: vi.fn(() => true),
+}));
+
+vi.mock('./base-store.js', () => ({
+  saveBaseContent: vi.fn(),
+}));
+
+import {
+  parseConflictCopyPath,
+  listConflictInbox,
+  findInboxEntries,
+  loadInboxVersions,
+  resolveInboxEntry,
+  isStaleInboxEntry,
+  type ConflictInboxEntry,
+} from './conflict-inbox.js';
+import { loadConflictQueue, dequeueConflict } from './conflict-queue.js';
+import { saveSyncState } from './state.js';
+import type { SyncConfig, SyncState } from './types.js';
+
+const config: SyncConfig = {
+  id: 'sync-1',
+  vaultId: 'vault-1',
+  localPath: '/vault',
+  mode: 'sync',
+  onConflict: 'newer',
+  ignore: [],
+  lastSyncAt: '',
+  autoSync: false,
+};
+
+function dirent(name: string, isDir = false) {
+  return { name, isDirectory: () => isDir, isFile: () => !isDir };
+}
+
+const copyEntry: ConflictInboxEntry = {
+  id: 'c0ffee00',
+  kind: 'copy',
+  docPath: 'notes/a.md',
+  source: 'remote',
+  detectedAt: '2025-06-15T10:20:30.000Z',
+  copyPath: 'notes/a.conflicted.remote.2025-06-15T10-20-30.md',
+};
+
+describe('sync conflict inbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseConflictCopyPath', () => {
+    it('should parse a conflict copy created by createConflictFile', () => {
+      expect(parseConflictCopyPath('notes/a.conflicted.local.2025-06-15T10-20-30.md')).toEqual({
+        docPath: 'notes/a.md',
+        source: 'local',
+        detectedAt: '2025-06-15T10:20:30.000Z',
+      });
+    });
+
+    it('should return null for ordinary files', () => {
+      expect(parseConflictCopyPath('notes/a.md')).toBeNull();
+      expect(parseConflictCopyPath('notes/a.conflicted.md')).toBeNull();
+    });
+  });
+
+  describe('listConflictInbox', () => {
+    it('should combine queued conflicts and conflict copies, oldest first', () => {
+      vi.mocked(loadConflictQueue).mockReturnValue([{
+        id: 'abcd1234',
+        docPath: 'b.md',
+        detectedAt: '2025-07-01T00:00:00.000Z',
+        trigger: 'watch',
+        localHash: 'l',
+        remoteHash: 'r',
+        remoteContent: 'remote',
+      }]);
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readdirSync.mockImplementation(((dir: string) => {
+        if (dir === '/vault') return [dirent('notes', true), dirent('b.md')];
+        return [dirent('a.md'), dirent('a.conflicted.remote.2025-06-15T10-20-30.md')];
+      }) as unknown as typeof fs.readdirSync);
+
+      const entries = listConflictInbox(config);
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({
+        kind: 'copy',
+        docPath: 'notes/a.md',
+        source: 'remote',
+        copyPath: 'notes/a.conflicted.remote.2025-06-15T10-20-30.md',
+      });
+      expect(entries[0].id).toMatch(/^[0-9a-f]{8}$/);
+      expect(entries[1]).toEqual({
+        id: 'abcd1234',
+        kind: 'queued',
+        docPath: 'b.md',
+        source: 'remote',
+        detectedAt: '2025-07-01T00:00:00.000Z',
+        copyPath: null,
+      });
+    });
+
+    it('should find entries by document path', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readdirSync.mockReturnValue(
+        [dirent('a.conflicted.local.2025-06-15T10-20-30.md')] as unknown as ReturnType<typeof fs.readdirSync>,
+      );
+      expect(findInboxEntries(config, 'a.md')).toHaveLength(1);
+      expect(findInboxEntries(config, 'other.md')).toHaveLength(0);
+    });
+  });
+
+  describe('loadInboxVersions', () => {
+    it('should treat a remote copy as the remote version', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockImplementation(((p: string) =>
+        Buffer.from(p.includes('conflicted') ? 'copy' : 'current')) as unknown as typeof fs.readFileSync);
+      expect(loadInboxVersions(config, copyEntry)).toEqual({ local: 'current', remote: 'copy' });
+    });
+
+    it('should use the queued remote content for queued conflicts', () => {
+      vi.mocked(loadConflictQueue).mockReturnValue([{
+        id: 'abcd1234', docPath: 'b.md', detectedAt: '', trigger: 'run',
+        localHash: 'l', remoteHash: 'r', remoteContent: 'remote',
+      }]);
+      mockedFs.existsSync.mockReturnValue(false);
+      const entry = { ...copyEntry, id: 'abcd1234', kind: 'queued' as const, docPath: 'b.md', copyPath: null };
+      expect(loadInboxVersions(config, entry)).toEqual({ local: null, remote: 'remote' });
+    });
+  });
+
+  describe('resolveInboxEntry', () => {
+    it('should write, upload and record the content, then delete the copy', async () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      const client = { documents: { put: vi.fn().mockResolvedValue({}) } } as any;
+
+      await resolveInboxEntry(client, config, copyEntry, 'chosen');
+
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith('/vault/notes/a.md', Buffer.from('chosen'));
+      expect(client.documents.put).toHaveBeenCalledWith('vault-1', 'notes/a.md', 'chosen');
+      const saved = vi.mocked(saveSyncState).mock.calls[0][0] as SyncState;
+      expect(saved.local['notes/a.md'].hash).toBe('hash-chosen');
+      expect(saved.remote['notes/a.md'].hash).toBe('hash-chosen');
+      expect(mockedFs.unlinkSync).toHaveBeenCalledWith('/vault/notes/a.conflicted.remote.2025-06-15T10-20-30.md');
+    });
+
+    it('should dequeue queued conflicts', async () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      const client = { documents: { put: vi.fn().mockResolvedValue({}) } } as any;
+      const entry = { ...copyEntry, kind: 'queued' as const, copyPath: null };
+
+      await resolveInboxEntry(client, config, entry, 'chosen');
+
+      expect(dequeueConflict).toHaveBeenCalledWith('sync-1', 'c0ffee00');
+      expect(mockedFs.unlinkSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isStaleInboxEntry', () => {
+    it('should treat identical versions as stale', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('same'));
+      expect(isStaleInboxEntry(config, copyEntry)).toBe(true);
+    });
+
+    it('should keep differing versions unless older than the limit', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockImplementation(((p: string) =>
+        Buffer.from(p.includes('conflicted') ? 'copy' : 'current')) as unknown as typeof fs.readFileSync);
+      expect(isStaleInboxEntry(config, copyEntry)).toBe(false);
+      expect(isStaleInboxEntry(config, copyEntry, 24 * 60 * 60 * 1000)).toBe(true);
+    });
+  });
+});
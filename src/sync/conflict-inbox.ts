@@ -0,0 +1,204 @@
+/**
+ * Conflict inbox: the unresolved conflicts of a sync configuration.
+ * Combines conflicts queued by the 'ask' strategy with the
+ * `<name>.conflicted.<source>.<timestamp>.<ext>` copies that strategy-based
+ * resolution leaves next to synced files.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import type { LifestreamVaultClient } from '@lifestreamdynamics/vault-sdk';
+import type { SyncConfig } from './types.js';
+import { resolveIgnorePatterns, shouldIgnore } from './ignore.js';
+import { loadSyncState, saveSyncState, hashFileContent, buildRemoteFileState } from './state.js';
+import { loadConflictQueue, dequeueConflict } from './conflict-queue.js';
+import { saveBaseContent } from './base-store.js';
+import { isBinaryPath, encodeContent, decodeContent } from './attachments.js';
+import { loadRemoteManifest, saveRemoteManifest, recordRemoteDocument } from './remote-manifest.js';
+import { fromLocalPath, localFilePath } from './paths.js';
+
+export interface ConflictInboxEntry {
+  /** Short identifier for referring to the entry on the command line */
+  id: string;
+  /** Where the entry comes from: the 'ask' queue or a conflict copy file */
+  kind: 'queued' | 'copy';
+  /** Document path (relative, forward slashes) */
+  docPath: string;
+  /** Side the set-aside version came from */
+  source: 'local' | 'remote';
+  /** ISO 8601 timestamp when the conflict was detected */
+  detectedAt: string;
+  /** Conflict copy path (relative), for copy entries */
+  copyPath: string | null;
+}
+
+/** Both versions of a conflicted document; null when a side no longer exists. */
+export interface ConflictInboxVersions {
+  local: string | null;
+  remote: string | null;
+}
+
+const COPY_PATTERN = /^(.*)\.conflicted\.(local|remote)\.(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})(\.[^./]+)?$/;
+
+/**
+ * Parse a conflict copy path created by createConflictFile().
+ * Returns null if the path is not a conflict copy.
+ */
+export function parseConflictCopyPath(
+  copyPath: string,
+): { docPath: string; source: 'local' | 'remote'; detectedAt: string } | null {
+  const match = COPY_PATTERN.exec(copyPath);
+  if (!match) return null;
+  const [, base, source, date, hh, mm, ss, ext = ''] = match;
+  return {
+    docPath: base + ext,
+    source: source as 'local' | 'remote',
+    detectedAt: `${date}T${hh}:${mm}:${ss}.000Z`,
+  };
+}
+
+function copyEntryId(copyPath: string): string {
+  return crypto.createHash('sha256').update(copyPath).digest('hex').slice(0, 8);
+}
+
+function findConflictCopies(config: SyncConfig): ConflictInboxEntry[] {
+  const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath, config.include);
+  const entries: ConflictInboxEntry[] = [];
+
+  function walk(dir: string, prefix: string): void {
+    if (!fs.existsSync(dir)) return;
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const relPath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!shouldIgnore(relPath + '/', ignorePatterns)) {
+          walk(path.join(dir, entry.name), relPath);
+        }
+      } else if (entry.isFile()) {
+        const copyPath = fromLocalPath(relPath);
+        const parsed = parseConflictCopyPath(copyPath);
+        if (parsed) {
+          entries.push({ id: copyEntryId(copyPath), kind: 'copy', copyPath, ...parsed });
+        }
+      }
+    }
+  }
+
+  walk(config.localPath, '');
+  return entries;
+}
+
+/**
+ * List the unresolved conflicts of a sync configuration, oldest first.
+ */
+export function listConflictInbox(config: SyncConfig): ConflictInboxEntry[] {
+  const queued: ConflictInboxEntry[] = loadConflictQueue(config.id).map(q => ({
+    id: q.id,
+    kind: 'queued',
+    docPath: q.docPath,
+    source: 'remote',
+    detectedAt: q.detectedAt,
+    copyPath: null,
+  }));
+  return [...queued, ...findConflictCopies(config)]
+    .sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+}
+
+/**
+ * Find inbox entries by ID, document path or conflict copy path.
+ */
+export function findInboxEntries(config: SyncConfig, idOrPath: string): ConflictInboxEntry[] {
+  return listConflictInbox(config).filter(e =>
+    e.id === idOrPath || e.docPath === idOrPath || e.copyPath === idOrPath,
+  );
+}
+
+/** Read a file as vault content (base64 for binary documents). */
+function readIfExists(config: SyncConfig, filePath: string, docPath: string): string | null {
+  return fs.existsSync(filePath) ? encodeContent(docPath, fs.readFileSync(filePath), config.normalize) : null;
+}
+
+/**
+ * Load both versions of an inbox entry.
+ * For queued conflicts the remote version is the one recorded when the
+ * conflict was queued. For conflict copies the set-aside version is the copy
+ * and the other side is the current file.
+ */
+export function loadInboxVersions(config: SyncConfig, entry: ConflictInboxEntry): ConflictInboxVersions {
+  const current = readIfExists(config, localFilePath(config.localPath, entry.docPath), entry.docPath);
+  if (entry.kind === 'queued') {
+    const queued = loadConflictQueue(config.id).find(q => q.id === entry.id);
+    return { local: current, remote: queued?.remoteContent ?? null };
+  }
+  const copy = readIfExists(config, localFilePath(config.localPath, entry.copyPath!), entry.docPath);
+  return entry.source === 'local'
+    ? { local: copy, remote: current }
+    : { local: current, remote: copy };
+}
+
+/**
+ * Remove an entry from the inbox: dequeue it, or delete the conflict copy.
+ */
+export function removeInboxEntry(config: SyncConfig, entry: ConflictInboxEntry): void {
+  if (entry.kind === 'queued') {
+    dequeueConflict(config.id, entry.id);
+    return;
+  }
+  const copyFile = localFilePath(config.localPath, entry.copyPath!);
+  if (fs.existsSync(copyFile)) {
+    fs.unlinkSync(copyFile);
+  }
+}
+
+/**
+ * Resolve an inbox entry with the given content: write it locally, upload it,
+ * record it as synced, and remove the entry from the inbox.
+ */
+export async function resolveInboxEntry(
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  entry: ConflictInboxEntry,
+  content: string,
+): Promise<void> {
+  const localFile = localFilePath(config.localPath, entry.docPath);
+  const dir = path.dirname(localFile);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(localFile, decodeContent(entry.docPath, content, config.normalize));
+  const uploaded = await client.documents.put(config.vaultId, entry.docPath, content);
+
+  const state = loadSyncState(config.id);
+  state.local[entry.docPath] = {
+    path: entry.docPath,
+    hash: hashFileContent(content, config.normalize),
+    mtime: new Date().toISOString(),
+    size: Buffer.byteLength(content),
+  };
+  state.remote[entry.docPath] = buildRemoteFileState(entry.docPath, content, new Date().toISOString(), config.normalize);
+  const manifest = loadRemoteManifest(config.id);
+  recordRemoteDocument(manifest, entry.docPath, state.remote[entry.docPath].hash, uploaded);
+  saveRemoteManifest(config.id, manifest);
+  if (!isBinaryPath(entry.docPath)) {
+    saveBaseContent(config.id, content, config.normalize);
+  }
+  saveSyncState(state);
+
+  removeInboxEntry(config, entry);
+}
+
+/**
+ * Whether an inbox entry no longer needs attention: both versions are
+ * identical, or it is older than the given age.
+ */
+export function isStaleInboxEntry(
+  config: SyncConfig,
+  entry: ConflictInboxEntry,
+  olderThanMs?: number,
+): boolean {
+  if (olderThanMs !== undefined && Date.now() - new Date(entry.detectedAt).getTime() > olderThanMs) {
+    return true;
+  }
+  const versions = loadInboxVersions(config, entry);
+  return versions.local !== null && versions.remote !== null
+    && hashFileContent(versions.local, config.normalize) === hashFileContent(versions.remote, config.normalize);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { formatConflictDiff, buildEditorMergeContent, createConflictPrompt } from './conflict-prompt.js';
+
+// eslint-disable-next-line no-control-regex
+const stripAnsi = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '');
+
+describe('sync conflict prompt', () => {
+  describe('formatConflictDiff', () => {
+    it('should mark local lines with - and remote lines with +', () => {
+      const diff = stripAnsi(formatConflictDiff('a\nb\nc\n', 'a\nB\nc\n'));
+      expect(diff.split('\n')).toEqual([
+        '@@ local 2,1 remote 2,1 @@',
+        '  a',
+        '- b',
+        '+ B',
+        '  c',
+      ]);
+    });
+
+    it('should return an empty diff for identical content', () => {
+      expect(formatConflictDiff('same\n', 'same\n')).toBe('');
+    });
+  });
+
+  describe('buildEditorMergeContent', () => {
+    it('should three-way merge when a base is known', () => {
+      const content = buildEditorMergeContent({
+        docPath: 'a.md',
+        baseContent: 'one\ntwo\nthree\n',
+        localContent: 'ONE\ntwo\nthree\n',
+        remoteContent: 'one\ntwo\nTHREE\n',
+      });
+      expect(content).toBe('ONE\ntwo\nTHREE\n');
+    });
+
+    it('should wrap both versions in markers without a base', () => {
+      const content = buildEditorMergeContent({
+        docPath: 'a.md',
+        baseContent: null,
+        localContent: 'local',
+        remoteContent: 'remote\n',
+      });
+      expect(content).toBe('<<<<<<< local\nlocal\n=======\nremote\n>>>>>>> remote\n');
+    });
+  });
+
+  describe('createConflictPrompt', () => {
+    const isTTY = process.stdin.isTTY;
+
+    afterEach(() => {
+      process.stdin.isTTY = isTTY;
+    });
+
+    it('should return undefined when stdin is not a TTY', () => {
+      process.stdin.isTTY = false;
+      expect(createConflictPrompt()).toBeUndefined();
+    });
+
+    it('should return a prompt function on a TTY', () => {
+      process.stdin.isTTY = true;
+      expect(createConflictPrompt()).toBeTypeOf('function');
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Interactive conflict resolution for the 'ask' strategy.
+ * Shows a colored diff of local vs remote on stderr and lets the user keep
+ * either side, keep both, merge in $EDITOR, or skip the file.
+ */
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import readline from 'node:readline';
+import { spawnSync } from 'node:child_process';
+import chalk from 'chalk';
+import { formatBytes } from '../utils/format.js';
+import type { ConflictDecision, ConflictPrompt, ConflictPromptRequest } from './conflict.js';
+import {
+  mergeThreeWay,
+  computeHunks,
+  splitLines,
+  CONFLICT_MARKER_LOCAL,
+  CONFLICT_MARKER_SEPARATOR,
+  CONFLICT_MARKER_REMOTE,
+} from './merge.js';
+
+/** Unchanged lines shown around each changed hunk. */
+const CONTEXT_LINES = 2;
+
+/**
+ * Format a unified-style, colored line diff from local to remote.
+ * Lines only in the local version are red (-), lines only in the remote
+ * version are green (+).
+ */
+export function formatConflictDiff(localContent: string, remoteContent: string): string {
+  const localLines = splitLines(localContent);
+  const remoteLines = splitLines(remoteContent);
+  const hunks = computeHunks(localLines, remoteLines);
+  const strip = (line: string) => line.replace(/\r?\n$/, '');
+  const out: string[] = [];
+
+  for (const hunk of hunks) {
+    const ctxStart = Math.max(0, hunk.baseStart - CONTEXT_LINES);
+    const ctxEnd = Math.min(localLines.length, hunk.baseEnd + CONTEXT_LINES);
+    out.push(chalk.cyan(`@@ local ${hunk.baseStart + 1},${hunk.baseEnd - hunk.baseStart} remote ${hunk.sideStart + 1},${hunk.sideEnd - hunk.sideStart} @@`));
+    for (let i = ctxStart; i < hunk.baseStart; i++) out.push(chalk.dim(`  ${strip(localLines[i])}`));
+    for (let i = hunk.baseStart; i < hunk.baseEnd; i++) out.push(chalk.red(`- ${strip(localLines[i])}`));
+    for (let i = hunk.sideStart; i < hunk.sideEnd; i++) out.push(chalk.green(`+ ${strip(remoteLines[i])}`));
+    for (let i = hunk.baseEnd; i < ctxEnd; i++) out.push(chalk.dim(`  ${strip(localLines[i])}`));
+  }
+
+  return out.join('\n');
+}
+
+/**
+ * Build the initial content for an editor merge: a three-way merge with
+ * conflict markers when a base revision is known, otherwise both versions
+ * between markers.
+ */
+export function buildEditorMergeContent(request: ConflictPromptRequest): string {
+  if (request.baseContent !== null) {
+    return mergeThreeWay(request.baseContent, request.localContent, request.remoteContent).content;
+  }
+  const terminate = (s: string) => (s.length === 0 || s.endsWith('\n') ? s : s + '\n');
+  return `${CONFLICT_MARKER_LOCAL}\n${terminate(request.localContent)}${CONFLICT_MARKER_SEPARATOR}\n${terminate(request.remoteContent)}${CONFLICT_MARKER_REMOTE}\n`;
+}
+
+/**
+ * Open content in the user's $VISUAL / $EDITOR and return the saved result.
+ * Returns null if the editor exits with an error.
+ */
+export function editInEditor(docPath: string, content: string): string | null {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsvault-merge-'));
+  const tmpFile = path.join(tmpDir, path.posix.basename(docPath));
+  try {
+    fs.writeFileSync(tmpFile, content, 'utf-8');
+    const result = spawnSync(editor, [tmpFile], { stdio: 'inherit', shell: true });
+    if (result.error || result.status !== 0) return null;
+    return fs.readFileSync(tmpFile, 'utf-8');
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+function question(prompt: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise((resolve) => {
+    rl.question(prompt, (answer) => {
+      rl.close();
+      resolve(answer.trim().toLowerCase());
+    });
+  });
+}
+
+/**
+ * Prompt the user to resolve a single conflict.
+ */
+export async function promptConflict(request: ConflictPromptRequest): Promise<ConflictDecision> {
+  process.stderr.write('\n' + chalk.yellow.bold(`Conflict: ${request.docPath}`) + '\n');
+  if (request.binary) {
+    const size = (content: string) => formatBytes(Buffer.byteLength(content, 'base64'));
+    process.stderr.write(chalk.dim('Binary file changed both locally and remotely since the last sync.') + '\n');
+    process.stderr.write(`  local:  ${size(request.localContent)}\n  remote: ${size(request.remoteContent)}\n\n`);
+  } else {
+    process.stderr.write(chalk.dim('Changed both locally (-) and remotely (+) since the last sync.') + '\n');
+    process.stderr.write(formatConflictDiff(request.localContent, request.remoteContent) + '\n\n');
+  }
+
+  const choices = request.binary
+    ? 'Keep [l]ocal, [r]emote, [b]oth, or [s]kip? '
+    : 'Keep [l]ocal, [r]emote, [b]oth, [m]erge in editor, or [s]kip? ';
+  for (;;) {
+    const answer = await question(choices);
+    switch (answer) {
+      case 'l':
+      case 'local':
+        return { resolution: 'local' };
+      case 'r':
+      case 'remote':
+        return { resolution: 'remote' };
+      case 'b':
+      case 'both':
+        return { resolution: 'both' };
+      case 's':
+      case 'skip':
+        return { resolution: 'skipped' };
+      case 'm':
+      case 'merge': {
+        if (request.binary) {
+          process.stderr.write(chalk.dim('Binary files cannot be merged; please answer l, r, b or s.') + '\n');
+          continue;
+        }
+        const edited = editInEditor(request.docPath, buildEditorMergeContent(request));
+        if (edited === null) {
+          process.stderr.write(chalk.red('Editor exited with an error; choose again.') + '\n');
+          continue;
+        }
+        if (edited.includes(CONFLICT_MARKER_LOCAL) || edited.includes(CONFLICT_MARKER_REMOTE)) {
+          process.stderr.write(chalk.yellow('Conflict markers are still present; they will be kept as written.') + '\n');
+        }
+        return { resolution: 'merged', content: edited };
+      }
+      default:
+        process.stderr.write(chalk.dim('Please answer l, r, b, m or s.') + '\n');
+    }
+  }
+}
+
+/**
+ * Create a conflict prompt for the current process.
+ * Returns undefined when stdin is not a TTY, so callers queue conflicts
+ * instead. Prompts are serialized so concurrent watcher events never
+ * interleave on the terminal.
+ *
+ * @param beforePrompt - Called before each prompt (e.g. to stop a spinner)
+ */
+export function createConflictPrompt(beforePrompt?: () => void): ConflictPrompt | undefined {
+  if (!process.stdin.isTTY) return undefined;
+  let queue: Promise<unknown> = Promise.resolve();
+  return (request) => {
+    const next = queue.then(() => {
+      beforePrompt?.();
+      return promptConflict(request);
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  };
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+import {
+  loadConflictQueue,
+  enqueueConflict,
+  dequeueConflict,
+  deleteConflictQueue,
+  type QueuedConflict,
+} from './conflict-queue.js';
+
+function makeQueued(overrides: Partial<QueuedConflict> = {}): QueuedConflict {
+  return {
+    id: 'abcd1234',
+    docPath: 'notes/a.md',
+    detectedAt: '2025-06-15T10:00:00.000Z',
+    trigger: 'run',
+    localHash: 'l',
+    remoteHash: 'r',
+    remoteContent: 'remote',
+    ...overrides,
+  };
+}
+
+function writtenEntries(): QueuedConflict[] {
+  const call = mockedFs.writeFileSync.mock.calls[0];
+  return JSON.parse(call[1] as string);
+}
+
+describe('sync conflict queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('loadConflictQueue', () => {
+    it('should return an empty list when nothing is queued', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+      expect(loadConflictQueue('sync-1')).toEqual([]);
+    });
+
+    it('should return an empty list for a corrupt file', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue('not json');
+      expect(loadConflictQueue('sync-1')).toEqual([]);
+    });
+  });
+
+  describe('enqueueConflict', () => {
+    it('should write a new entry with an id and timestamp', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+      const entry = enqueueConflict('sync-1', {
+        docPath: 'notes/a.md', trigger: 'run', localHash: 'l', remoteHash: 'r', remoteContent: 'remote',
+      });
+      expect(entry.id).toMatch(/^[0-9a-f]{8}$/);
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+        expect.stringContaining('sync-1.conflicts.json'),
+        expect.any(String),
+        { mode: 0o600 },
+      );
+      expect(writtenEntries()).toEqual([entry]);
+    });
+
+    it('should replace an older entry for the same path', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(JSON.stringify([makeQueued()]));
+      const entry = enqueueConflict('sync-1', {
+        docPath: 'notes/a.md', trigger: 'poll', localHash: 'l2', remoteHash: 'r', remoteContent: 'remote',
+      });
+      expect(writtenEntries()).toEqual([entry]);
+    });
+
+    it('should keep an existing entry for the same versions', () => {
+      const queued = makeQueued();
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(JSON.stringify([queued]));
+      const entry = enqueueConflict('sync-1', {
+        docPath: 'notes/a.md', trigger: 'poll', localHash: 'l', remoteHash: 'r', remoteContent: 'remote',
+      });
+      expect(entry).toEqual(queued);
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dequeueConflict', () => {
+    beforeEach(() => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(JSON.stringify([
+        makeQueued(),
+        makeQueued({ id: 'ffff0000', docPath: 'notes/b.md' }),
+      ]));
+    });
+
+    it('should remove an entry by id', () => {
+      expect(dequeueConflict('sync-1', 'ffff0000')).toBe(true);
+      expect(writtenEntries().map(e => e.docPath)).toEqual(['notes/a.md']);
+    });
+
+    it('should remove an entry by path', () => {
+      expect(dequeueConflict('sync-1', 'notes/a.md')).toBe(true);
+      expect(writtenEntries().map(e => e.docPath)).toEqual(['notes/b.md']);
+    });
+
+    it('should return false when nothing matches', () => {
+      expect(dequeueConflict('sync-1', 'missing.md')).toBe(false);
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteConflictQueue', () => {
+    it('should remove the queue file', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      deleteConflictQueue('sync-1');
+      expect(mockedFs.unlinkSync).toHaveBeenCalledWith(expect.stringContaining('sync-1.conflicts.json'));
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Persistent queue of unresolved sync conflicts.
+ * Conflicts deferred by the 'ask' strategy (no TTY available, or skipped by
+ * the user) are stored at ~/.lsvault/sync-state/<syncId>.conflicts.json
+ * together with the remote version, so they can be resolved later.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+
+const STATE_DIR = path.join(os.homedir(), '.lsvault', 'sync-state');
+
+export interface QueuedConflict {
+  /** Short identifier for referring to the conflict on the command line */
+  id: string;
+  /** Document path (relative, forward slashes) */
+  docPath: string;
+  /** ISO 8601 timestamp when the conflict was queued */
+  detectedAt: string;
+  /** What detected the conflict (run, pull, push, watch, poll) */
+  trigger: string;
+  /** Hash of the local content when the conflict was detected */
+  localHash: string;
+  /** Hash of the remote content when the conflict was detected */
+  remoteHash: string;
+  /** Remote content when the conflict was detected */
+  remoteContent: string;
+}
+
+function queueFilePath(syncId: string): string {
+  return path.join(STATE_DIR, `${syncId}.conflicts.json`);
+}
+
+function saveConflictQueue(syncId: string, entries: QueuedConflict[]): void {
+  if (!fs.existsSync(STATE_DIR)) {
+    fs.mkdirSync(STATE_DIR, { recursive: true, mode: 0o700 });
+  }
+  fs.writeFileSync(queueFilePath(syncId), JSON.stringify(entries, null, 2) + '\n', { mode: 0o600 });
+}
+
+/**
+ * Load the queued conflicts for a sync configuration.
+ * Returns an empty list if nothing is queued.
+ */
+export function loadConflictQueue(syncId: string): QueuedConflict[] {
+  const filePath = queueFilePath(syncId);
+  if (!fs.existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return Array.isArray(parsed) ? parsed as QueuedConflict[] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Queue a conflict for later resolution.
+ * Replaces any existing entry for the same document path, unless it already
+ * records the same pair of versions.
+ */
+export function enqueueConflict(
+  syncId: string,
+  conflict: Omit<QueuedConflict, 'id' | 'detectedAt'>,
+): QueuedConflict {
+  const existing = loadConflictQueue(syncId);
+  const same = existing.find(e =>
+    e.docPath === conflict.docPath &&
+    e.localHash === conflict.localHash &&
+    e.remoteHash === conflict.remoteHash,
+  );
+  if (same) return same;
+
+  const entries = existing.filter(e => e.docPath !== conflict.docPath);
+  const entry: QueuedConflict = {
+    id: crypto.randomBytes(4).toString('hex'),
+    detectedAt: new Date().toISOString(),
+    ...conflict,
+  };
+  entries.push(entry);
+  saveConflictQueue(syncId, entries);
+  return entry;
+}
+
+/**
+ * Remove a queued conflict by ID or document path.
+ * Returns true if an entry was removed.
+ */
+export function dequeueConflict(syncId: string, idOrPath: string): boolean {
+  const entries = loadConflictQueue(syncId);
+  const remaining = entries.filter(e => e.id !== idOrPath && e.docPath !== idOrPath);
+  if (remaining.length === entries.length) return false;
+  saveConflictQueue(syncId, remaining);
+  return true;
+}
+
+/**
+ * Delete the conflict queue for a sync configuration.
+ */
+export function deleteConflictQueue(syncId: string): void {
+  const filePath = queueFilePath(syncId);
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
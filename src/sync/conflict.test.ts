@@ -4,13 +4,27 @@ import fs from 'node:fs';
 vi.mock('node:fs');
 const mockedFs = vi.mocked(fs);
 
+vi.mock('./base-store.js', () => ({
+  loadBaseContent: vi.fn(() => null),
+}));
+
+vi.mock('./conflict-queue.js', () => ({
+  enqueueConflict: vi.fn(),
+  dequeueConflict: vi.fn(() => true),
+}));
+
 import {
   detectConflict,
   resolveConflict,
   createConflictFile,
   formatConflictLog,
+  mergeWithBase,
+  askConflict,
+  planConflictDecision,
 } from './conflict.js';
-import type { FileState } from './types.js';
+import { loadBaseContent } from './base-store.js';
+import { enqueueConflict, dequeueConflict } from './conflict-queue.js';
+import type { FileState, SyncConfig } from './types.js';
 
 function makeFileState(overrides: Partial<FileState> = {}): FileState {
   return {
@@ -116,7 +130,6 @@ describe('sync conflict', () => {
       expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
         expect.stringContaining('conflicted'),
         '# Conflicted content',
-        'utf-8',
       );
     });
 
@@ -147,4 +160,101 @@ describe('sync conflict', () => {
       expect(log).not.toContain('backup:');
     });
   });
+
+  describe('mergeWithBase', () => {
+    const config = {
+      id: 'sync-1',
+      vaultId: 'vault-1',
+      localPath: '/vault',
+      mode: 'sync',
+      onConflict: 'newer',
+      ignore: [],
+      lastSyncAt: '',
+      autoSync: false,
+    } as SyncConfig;
+
+    it('should return null when no base revision is stored', () => {
+      expect(mergeWithBase(config, 'base-hash', 'a\n', 'b\n')).toBeNull();
+      expect(mergeWithBase(config, undefined, 'a\n', 'b\n')).toBeNull();
+    });
+
+    it('should merge non-overlapping edits', () => {
+      vi.mocked(loadBaseContent).mockReturnValue('one\ntwo\nthree\n');
+      const result = mergeWithBase(config, 'base-hash', 'ONE\ntwo\nthree\n', 'one\ntwo\nTHREE\n');
+      expect(result).toEqual({ content: 'ONE\ntwo\nTHREE\n', conflicts: 0 });
+    });
+
+    it('should fall back when edits overlap and markers are disabled', () => {
+      vi.mocked(loadBaseContent).mockReturnValue('one\n');
+      expect(mergeWithBase(config, 'base-hash', 'local\n', 'remote\n')).toBeNull();
+    });
+
+    it('should return marked content when conflictMarkers is enabled', () => {
+      vi.mocked(loadBaseContent).mockReturnValue('one\n');
+      const result = mergeWithBase({ ...config, conflictMarkers: true }, 'base-hash', 'local\n', 'remote\n');
+      expect(result?.conflicts).toBe(1);
+      expect(result?.content).toContain('<<<<<<< local');
+    });
+  });
+
+  describe('askConflict', () => {
+    const request = { docPath: 'notes/a.md', localContent: 'local', remoteContent: 'remote', baseContent: null };
+
+    it('should queue the conflict when no prompt is available', async () => {
+      const decision = await askConflict('sync-1', request, 'run');
+      expect(decision).toEqual({ resolution: 'queued' });
+      expect(enqueueConflict).toHaveBeenCalledWith('sync-1', expect.objectContaining({
+        docPath: 'notes/a.md',
+        trigger: 'run',
+        remoteContent: 'remote',
+      }));
+    });
+
+    it('should return the prompted decision and dequeue resolved conflicts', async () => {
+      const prompt = vi.fn().mockResolvedValue({ resolution: 'remote' });
+      const decision = await askConflict('sync-1', request, 'watch', prompt);
+      expect(prompt).toHaveBeenCalledWith(request);
+      expect(decision).toEqual({ resolution: 'remote' });
+      expect(dequeueConflict).toHaveBeenCalledWith('sync-1', 'notes/a.md');
+      expect(enqueueConflict).not.toHaveBeenCalled();
+    });
+
+    it('should keep skipped conflicts queued', async () => {
+      const prompt = vi.fn().mockResolvedValue({ resolution: 'skipped' });
+      await askConflict('sync-1', request, 'run', prompt);
+      expect(dequeueConflict).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('planConflictDecision', () => {
+    it('should upload the local version when keeping local', () => {
+      expect(planConflictDecision({ resolution: 'local' }, 'L', 'R')).toEqual({
+        writeLocal: null, upload: 'L', backup: null, synced: 'L',
+      });
+    });
+
+    it('should write the remote version locally when keeping remote', () => {
+      expect(planConflictDecision({ resolution: 'remote' }, 'L', 'R')).toEqual({
+        writeLocal: 'R', upload: null, backup: null, synced: 'R',
+      });
+    });
+
+    it('should keep the remote version as a conflict copy when keeping both', () => {
+      expect(planConflictDecision({ resolution: 'both' }, 'L', 'R')).toEqual({
+        writeLocal: null, upload: 'L', backup: { content: 'R', source: 'remote' }, synced: 'L',
+      });
+    });
+
+    it('should write and upload merged content', () => {
+      expect(planConflictDecision({ resolution: 'merged', content: 'M' }, 'L', 'R')).toEqual({
+        writeLocal: 'M', upload: 'M', backup: null, synced: 'M',
+      });
+    });
+
+    it('should leave both sides untouched when skipped or queued', () => {
+      const untouched = { writeLocal: null, upload: null, backup: null, synced: null };
+      expect(planConflictDecision({ resolution: 'skipped' }, 'L', 'R')).toEqual(untouched);
+      expect(planConflictDecision({ resolution: 'queued' }, 'L', 'R')).toEqual(untouched);
+    });
+  });
 });
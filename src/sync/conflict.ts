@@ -3,7 +3,13 @@
  */
 import fs from 'node:fs';
 import path from 'node:path';
-import type { FileState, ConflictStrategy } from './types.js';
+import type { FileState, ConflictStrategy, SyncConfig } from './types.js';
+import { loadBaseContent } from './base-store.js';
+import { mergeThreeWay, type MergeResult } from './merge.js';
+import { enqueueConflict, dequeueConflict } from './conflict-queue.js';
+import { hashFileContent } from './state.js';
+import { isBinaryPath, decodeContent } from './attachments.js';
+import { localFilePath } from './paths.js';
 
 export interface ConflictInfo {
   /** Document path (relative) */
@@ -16,7 +22,49 @@ export interface ConflictInfo {
   lastKnown: FileState | undefined;
 }
 
-export type ConflictResolution = 'local' | 'remote';
+export type ConflictResolution = 'local' | 'remote' | 'merged' | 'both' | 'skipped' | 'queued';
+
+/**
+ * A conflict presented to the user by the 'ask' strategy.
+ */
+export interface ConflictPromptRequest {
+  /** Document path (relative) */
+  docPath: string;
+  /** Current local content */
+  localContent: string;
+  /** Current remote content */
+  remoteContent: string;
+  /** Last-synced base content, if stored */
+  baseContent: string | null;
+  /** Whether the contents are base64-encoded binary data, which cannot be diffed or merged */
+  binary?: boolean;
+}
+
+/**
+ * The user's answer to a conflict prompt.
+ */
+export type ConflictDecision =
+  | { resolution: 'local' | 'remote' | 'both' | 'skipped' | 'queued' }
+  | { resolution: 'merged'; content: string };
+
+/**
+ * Interactive resolver for the 'ask' strategy.
+ */
+export type ConflictPrompt = (request: ConflictPromptRequest) => Promise<ConflictDecision>;
+
+/**
+ * File operations needed to apply a conflict decision.
+ */
+export interface ConflictPlan {
+  /** Content to write to the local file, or null to leave it */
+  writeLocal: string | null;
+  /** Content to upload, or null to leave the remote document */
+  upload: string | null;
+  /** Version to keep as a conflict copy, if any */
+  backup: { content: string; source: 'local' | 'remote' } | null;
+  /** Content both sides hold afterwards, or null if the conflict stays unresolved */
+  synced: string | null;
+}
 
 /**
  * Detect if a file has a bidirectional conflict.
@@ -44,7 +92,7 @@ export function resolveConflict(
   strategy: ConflictStrategy,
   local: FileState,
   remote: FileState,
-): ConflictResolution {
+): 'local' | 'remote' {
   switch (strategy) {
     case 'local':
       return 'local';
@@ -53,12 +101,90 @@ export function resolveConflict(
     case 'newer':
       return new Date(local.mtime) >= new Date(remote.mtime) ? 'local' : 'remote';
     case 'ask':
-      // 'ask' cannot be resolved automatically — caller must handle interactively.
-      // Default to 'newer' as fallback when non-interactive.
+      // 'ask' is resolved through askConflict(); this is only the 'newer' fallback
+      // for callers that need a side without prompting.
       return new Date(local.mtime) >= new Date(remote.mtime) ? 'local' : 'remote';
   }
 }
 
+/**
+ * Resolve a conflict under the 'ask' strategy.
+ * Prompts through the given resolver when one is available (a TTY); otherwise
+ * queues the conflict for later instead of picking a side. Resolved conflicts
+ * are removed from the queue.
+ */
+export async function askConflict(
+  syncId: string,
+  request: ConflictPromptRequest,
+  trigger: string,
+  prompt?: ConflictPrompt,
+): Promise<ConflictDecision> {
+  if (!prompt) {
+    enqueueConflict(syncId, {
+      docPath: request.docPath,
+      trigger,
+      localHash: hashFileContent(request.localContent),
+      remoteHash: hashFileContent(request.remoteContent),
+      remoteContent: request.remoteContent,
+    });
+    return { resolution: 'queued' };
+  }
+
+  const decision = await prompt(request);
+  if (decision.resolution !== 'skipped' && decision.resolution !== 'queued') {
+    dequeueConflict(syncId, request.docPath);
+  }
+  return decision;
+}
+
+/**
+ * Translate a conflict decision into the file operations that apply it.
+ */
+export function planConflictDecision(
+  decision: ConflictDecision,
+  localContent: string,
+  remoteContent: string,
+): ConflictPlan {
+  switch (decision.resolution) {
+    case 'local':
+      return { writeLocal: null, upload: localContent, backup: null, synced: localContent };
+    case 'remote':
+      return { writeLocal: remoteContent, upload: null, backup: null, synced: remoteContent };
+    case 'both':
+      return {
+        writeLocal: null,
+        upload: localContent,
+        backup: { content: remoteContent, source: 'remote' },
+        synced: localContent,
+      };
+    case 'merged':
+      return { writeLocal: decision.content, upload: decision.content, backup: null, synced: decision.content };
+    case 'skipped':
+    case 'queued':
+      return { writeLocal: null, upload: null, backup: null, synced: null };
+  }
+}
+
+/**
+ * Attempt a three-way merge of a conflict against the last-synced base revision.
+ * Returns the merge when it is clean, or when it has overlapping hunks and the
+ * config asks for inline conflict markers. Returns null when no base revision
+ * is stored or the caller should fall back to the onConflict strategy.
+ */
+export function mergeWithBase(
+  config: SyncConfig,
+  baseHash: string | undefined,
+  localContent: string,
+  remoteContent: string,
+): MergeResult | null {
+  if (!baseHash) return null;
+  const base = loadBaseContent(config.id, baseHash);
+  if (base === null) return null;
+  const merged = mergeThreeWay(base, localContent, remoteContent);
+  if (merged.conflicts > 0 && !config.conflictMarkers) return null;
+  return merged;
+}
+
 /**
  * Create a conflict backup file with a timestamped name.
  * Returns the path of the created conflict file.
@@ -73,12 +199,12 @@ export function createConflictFile(
   const base = docPath.slice(0, -ext.length);
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
   const conflictPath = `${base}.conflicted.${source}.${timestamp}${ext}`;
-  const absPath = path.join(localPath, conflictPath);
+  const absPath = localFilePath(localPath, conflictPath);
   const dir = path.dirname(absPath);
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
-  fs.writeFileSync(absPath, content, 'utf-8');
+  fs.writeFileSync(absPath, isBinaryPath(docPath) ? decodeContent(docPath, content) : content);
   return conflictPath;
 }
 
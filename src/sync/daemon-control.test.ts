@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  parseDaemonRequest,
+  startControlServer,
+  closeControlServer,
+  sendDaemonCommand,
+  type DaemonRequestHandler,
+} from './daemon-control.js';
+
+describe('daemon control', () => {
+  describe('parseDaemonRequest', () => {
+    it('should parse known commands', () => {
+      expect(parseDaemonRequest('{"command":"status"}')).toEqual({ command: 'status' });
+      expect(parseDaemonRequest('{"command":"pause","syncId":"s1","extra":1}')).toEqual({ command: 'pause', syncId: 's1' });
+    });
+
+    it.each([
+      ['not json', 'Malformed request'],
+      ['{"command":"trigger"}', 'trigger needs a sync ID'],
+      ['{"command":"restart"}', 'Unknown command: restart'],
+      ['null', 'Unknown command: undefined'],
+    ])('should reject %j', (line, error) => {
+      expect(() => parseDaemonRequest(line)).toThrow(error);
+    });
+  });
+
+  describe('socket', () => {
+    let tmpDir: string;
+    let socketPath: string;
+    let server: net.Server | null;
+    const handler = vi.fn<DaemonRequestHandler>();
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsvault-control-'));
+      socketPath = path.join(tmpDir, 'daemon', 'daemon.sock');
+      server = null;
+    });
+
+    afterEach(async () => {
+      if (server) await closeControlServer(server, socketPath);
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should answer requests with the handler response', async () => {
+      handler.mockResolvedValue({ ok: true, message: 'Paused sync s1' });
+      server = await startControlServer(handler, socketPath);
+
+      const response = await sendDaemonCommand({ command: 'pause', syncId: 's1' }, { socketPath });
+
+      expect(handler).toHaveBeenCalledWith({ command: 'pause', syncId: 's1' });
+      expect(response).toEqual({ ok: true, message: 'Paused sync s1' });
+      expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+    });
+
+    it('should turn handler failures into error responses', async () => {
+      handler.mockRejectedValue(new Error('Boom'));
+      server = await startControlServer(handler, socketPath);
+
+      await expect(sendDaemonCommand({ command: 'reload' }, { socketPath }))
+        .resolves.toEqual({ ok: false, error: 'Boom' });
+    });
+
+    it('should replace a socket left behind by a previous daemon', async () => {
+      fs.mkdirSync(path.dirname(socketPath), { recursive: true });
+      fs.writeFileSync(socketPath, '');
+      handler.mockResolvedValue({ ok: true, syncs: [] });
+      server = await startControlServer(handler, socketPath);
+
+      await expect(sendDaemonCommand({ command: 'status' }, { socketPath }))
+        .resolves.toEqual({ ok: true, syncs: [] });
+    });
+
+    it('should remove the socket when closed', async () => {
+      server = await startControlServer(handler, socketPath);
+      await closeControlServer(server, socketPath);
+      server = null;
+
+      expect(fs.existsSync(socketPath)).toBe(false);
+      await expect(sendDaemonCommand({ command: 'status' }, { socketPath }))
+        .rejects.toThrow('Daemon control socket is not available');
+    });
+
+    it('should give up on a daemon that does not answer', async () => {
+      handler.mockReturnValue(new Promise(() => {}));
+      server = await startControlServer(handler, socketPath);
+
+      await expect(sendDaemonCommand({ command: 'status' }, { socketPath, timeoutMs: 50 }))
+        .rejects.toThrow('Daemon did not respond within 0.05s');
+    });
+  });
+});
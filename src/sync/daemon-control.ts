@@ -0,0 +1,185 @@
+/**
+ * Control socket of the sync daemon.
+ * The daemon worker listens on a Unix domain socket in ~/.lsvault/daemon (a
+ * named pipe on Windows). Each connection carries one JSON request line and
+ * gets one JSON response line back. `lsvault sync daemon` commands use it to
+ * read live per-sync status and to pause, resume, trigger or reload syncs
+ * without restarting the daemon.
+ */
+import fs from 'node:fs';
+import net from 'node:net';
+import path from 'node:path';
+import { SOCKET_FILE } from './daemon.js';
+import type { SyncMode } from './types.js';
+
+/** Longest request line the daemon accepts */
+const MAX_REQUEST_BYTES = 64 * 1024;
+/** How long a command waits for the daemon unless told otherwise */
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export type DaemonRequest =
+  | { command: 'status' }
+  | { command: 'reload' }
+  | { command: 'pause' | 'resume' | 'trigger'; syncId: string };
+
+/**
+ * Live state of one sync managed by the daemon.
+ */
+export interface DaemonSyncStatus {
+  syncId: string;
+  /** Configuration profile the sync uses */
+  profile: string;
+  localPath: string;
+  mode: SyncMode;
+  /** Paused with `sync daemon pause`; the watcher and poller are stopped */
+  paused: boolean;
+  /** Whether local changes are being watched */
+  watching: boolean;
+  /** Whether the vault is being polled for remote changes */
+  polling: boolean;
+  /** Whether remote changes arrive over the server's change feed */
+  streaming: boolean;
+  /** ISO 8601 timestamp of the last sync that changed something */
+  lastSyncAt: string | null;
+  /** Local changes waiting to be pushed */
+  queueDepth: number;
+  /** Most recent error, with when it happened */
+  lastError: { message: string; at: string } | null;
+  /** Stopped because the server rejected the credentials of the sync's profile */
+  authRequired: boolean;
+}
+
+export type DaemonResponse =
+  | { ok: true; message?: string; syncs?: DaemonSyncStatus[] }
+  | { ok: false; error: string };
+
+export type DaemonRequestHandler = (request: DaemonRequest) => Promise<DaemonResponse>;
+
+/**
+ * Parse a request line. Throws if it is not a known command.
+ */
+export function parseDaemonRequest(line: string): DaemonRequest {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    throw new Error('Malformed request');
+  }
+  const { command, syncId } = (parsed ?? {}) as { command?: unknown; syncId?: unknown };
+  if (command === 'status' || command === 'reload') {
+    return { command };
+  }
+  if (command === 'pause' || command === 'resume' || command === 'trigger') {
+    if (typeof syncId !== 'string' || syncId === '') {
+      throw new Error(`${command} needs a sync ID`);
+    }
+    return { command, syncId };
+  }
+  throw new Error(`Unknown command: ${String(command)}`);
+}
+
+async function respond(handler: DaemonRequestHandler, line: string | null): Promise<DaemonResponse> {
+  if (line === null) return { ok: false, error: 'Request too large' };
+  try {
+    return await handler(parseDaemonRequest(line));
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Listen for control requests. A socket file left behind by a daemon that
+ * did not shut down cleanly is replaced; only the owner may connect.
+ */
+export function startControlServer(
+  handler: DaemonRequestHandler,
+  socketPath: string = SOCKET_FILE,
+): Promise<net.Server> {
+  const pipe = process.platform === 'win32';
+  if (!pipe) {
+    fs.mkdirSync(path.dirname(socketPath), { recursive: true, mode: 0o700 });
+    if (fs.existsSync(socketPath)) fs.unlinkSync(socketPath);
+  }
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let answered = false;
+    socket.setEncoding('utf-8');
+    socket.on('error', () => {
+      // The client went away; nothing to answer
+    });
+    socket.on('data', (chunk: string) => {
+      if (answered) return;
+      buffer += chunk;
+      const end = buffer.indexOf('\n');
+      if (end === -1 && buffer.length <= MAX_REQUEST_BYTES) return;
+      answered = true;
+      respond(handler, end === -1 ? null : buffer.slice(0, end))
+        .then(response => socket.end(JSON.stringify(response) + '\n'));
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(socketPath, () => {
+      server.off('error', reject);
+      if (!pipe) fs.chmodSync(socketPath, 0o600);
+      resolve(server);
+    });
+  });
+}
+
+/**
+ * Stop listening and remove the socket file.
+ */
+export function closeControlServer(server: net.Server, socketPath: string = SOCKET_FILE): Promise<void> {
+  return new Promise((resolve) => {
+    server.close(() => resolve());
+    if (process.platform !== 'win32' && fs.existsSync(socketPath)) {
+      fs.unlinkSync(socketPath);
+    }
+  });
+}
+
+/**
+ * Send a request to the running daemon and wait for its response.
+ * Rejects if the daemon is not listening or does not answer in time
+ * (timeoutMs 0 waits indefinitely).
+ */
+export function sendDaemonCommand(
+  request: DaemonRequest,
+  options: { socketPath?: string; timeoutMs?: number } = {},
+): Promise<DaemonResponse> {
+  const { socketPath = SOCKET_FILE, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(socketPath);
+    let buffer = '';
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+          socket.destroy();
+          reject(new Error(`Daemon did not respond within ${timeoutMs / 1000}s`));
+        }, timeoutMs)
+      : undefined;
+
+    socket.setEncoding('utf-8');
+    socket.on('connect', () => socket.write(JSON.stringify(request) + '\n'));
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+    });
+    socket.on('end', () => {
+      clearTimeout(timer);
+      try {
+        resolve(JSON.parse(buffer) as DaemonResponse);
+      } catch {
+        reject(new Error('Invalid response from daemon'));
+      }
+    });
+    socket.on('error', (err: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(err.code === 'ENOENT' || err.code === 'ECONNREFUSED'
+        ? new Error('Daemon control socket is not available. Restart the daemon with: lsvault sync daemon stop && lsvault sync daemon start')
+        : err);
+    });
+  });
+}
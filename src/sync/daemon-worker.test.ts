@@ -6,24 +6,43 @@ const mockResolveIgnorePatterns = vi.fn(() => []);
 const mockCreateWatcher = vi.fn(() => ({
   watcher: { close: vi.fn() },
   stop: vi.fn(),
+  pending: vi.fn(() => 2),
 }));
-const mockCreateRemotePoller = vi.fn(() => ({ stop: vi.fn() }));
+const mockCreateRemotePoller = vi.fn(() => ({ stop: vi.fn(), streaming: vi.fn(() => false) }));
 const mockRemovePid = vi.fn();
-const mockLoadConfig = vi.fn(async () => ({ apiUrl: 'http://localhost', apiKey: 'test-key' }));
-const mockScanLocalFiles = vi.fn(() => ({}));
+const mockUserMe = vi.fn(async () => ({ email: 'user@example.com' }));
+const mockGetClientAsync = vi.fn(async (_profile?: string) => ({ user: { me: mockUserMe } }));
+const mockMarkAuthRequired = vi.fn();
+const mockClearAuthRequired = vi.fn();
+const mockScanLocalFiles = vi.fn(async () => ({}));
 const mockScanRemoteFiles = vi.fn(async () => ({}));
 const mockComputePushDiff = vi.fn((): Record<string, unknown> => ({ uploads: [], deletes: [], downloads: [], totalBytes: 0 }));
 const mockComputePullDiff = vi.fn((): Record<string, unknown> => ({ uploads: [], deletes: [], downloads: [], totalBytes: 0 }));
-const mockExecutePush = vi.fn(async (): Promise<Record<string, unknown>> => ({ filesUploaded: 0, filesDownloaded: 0, filesDeleted: 0, bytesTransferred: 0, errors: [] }));
-const mockExecutePull = vi.fn(async (): Promise<Record<string, unknown>> => ({ filesUploaded: 0, filesDownloaded: 0, filesDeleted: 0, bytesTransferred: 0, errors: [] }));
+const mockExecutePush = vi.fn(async (): Promise<Record<string, unknown>> => ({ filesUploaded: 0, filesDownloaded: 0, filesDeleted: 0, filesMoved: 0, bytesTransferred: 0, errors: [] }));
+const mockExecutePull = vi.fn(async (): Promise<Record<string, unknown>> => ({ filesUploaded: 0, filesDownloaded: 0, filesDeleted: 0, filesMoved: 0, bytesTransferred: 0, errors: [] }));
+const mockStartControlServer = vi.fn(async (_handler: (request: unknown) => Promise<unknown>) => ({}));
 const mockLoadSyncState = vi.fn(() => ({ syncId: 'test', local: {}, remote: {}, updatedAt: new Date().toISOString() }));
 
-vi.mock('./config.js', () => ({ loadSyncConfigs: mockLoadSyncConfigs }));
+const mockWatchSyncConfigs = vi.fn((_onChange: () => void) => vi.fn());
+vi.mock('./config.js', () => ({
+  loadSyncConfigs: mockLoadSyncConfigs,
+  readSyncConfigs: mockLoadSyncConfigs,
+  watchSyncConfigs: mockWatchSyncConfigs,
+  syncProfileName: (config: { profile?: string }) => config.profile ?? 'default',
+}));
 vi.mock('./ignore.js', () => ({ resolveIgnorePatterns: mockResolveIgnorePatterns }));
 vi.mock('./watcher.js', () => ({ createWatcher: mockCreateWatcher }));
 vi.mock('./remote-poller.js', () => ({ createRemotePoller: mockCreateRemotePoller }));
-vi.mock('./daemon.js', () => ({ removePid: mockRemovePid }));
-vi.mock('../config.js', () => ({ loadConfigAsync: mockLoadConfig }));
+vi.mock('./daemon.js', () => ({ removePid: mockRemovePid, DAEMON_DIR: '/tmp/lsvault-test/daemon' }));
+vi.mock('../client.js', () => ({
+  getClientAsync: mockGetClientAsync,
+  getChangeFeedSource: vi.fn(() => vi.fn()),
+}));
+vi.mock('./auth-status.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./auth-status.js')>(),
+  markAuthRequired: mockMarkAuthRequired,
+  clearAuthRequired: mockClearAuthRequired,
+}));
 vi.mock('./engine.js', () => ({
   scanLocalFiles: mockScanLocalFiles,
   scanRemoteFiles: mockScanRemoteFiles,
@@ -31,11 +50,27 @@ vi.mock('./engine.js', () => ({
   computePullDiff: mockComputePullDiff,
   executePush: mockExecutePush,
   executePull: mockExecutePull,
+  resumeSyncRun: vi.fn(async () => null),
+}));
+vi.mock('./state.js', () => ({
+  loadSyncState: mockLoadSyncState,
+  saveSyncState: vi.fn(),
+  refreshStatCache: vi.fn(() => false),
 }));
-vi.mock('./state.js', () => ({ loadSyncState: mockLoadSyncState }));
-vi.mock('@lifestreamdynamics/vault-sdk', () => ({
-  LifestreamVaultClient: vi.fn(function() { return {}; }),
+vi.mock('./lock.js', () => ({
+  withSyncLock: vi.fn(async (_syncId: string, _holder: string, task: () => Promise<void>) => {
+    await task();
+    return true;
+  }),
+  readSyncLock: vi.fn(() => null),
+  formatLockHolder: vi.fn(() => ''),
 }));
+vi.mock('./remote-manifest.js', () => ({ loadRemoteManifest: vi.fn(() => ({})) }));
+vi.mock('./daemon-control.js', () => ({
+  startControlServer: mockStartControlServer,
+  closeControlServer: vi.fn(async () => {}),
+}));
+vi.mock('./encryption.js', () => ({ createSyncClient: vi.fn(async (client: unknown) => client) }));
 
 // Prevent process.exit from actually exiting
 const mockExit = vi.spyOn(process, 'exit').mockImplementation((() => {}) as never);
@@ -69,14 +104,14 @@ describe('daemon-worker reconciliation', () => {
   it('should run push reconciliation for push-mode configs', async () => {
     const config = makeConfig({ mode: 'push' });
     mockLoadSyncConfigs.mockReturnValue([config]);
-    mockComputePushDiff.mockReturnValue({
+    mockComputePushDiff.mockReturnValueOnce({
       uploads: [{ path: 'new.md', action: 'create' as const, direction: 'upload' as const, sizeBytes: 100, reason: 'new file' }],
       deletes: [],
       downloads: [],
       totalBytes: 100,
     });
-    mockExecutePush.mockResolvedValue({
-      filesUploaded: 1, filesDownloaded: 0, filesDeleted: 0, bytesTransferred: 100, errors: [],
+    mockExecutePush.mockResolvedValueOnce({
+      filesUploaded: 1, filesDownloaded: 0, filesDeleted: 0, filesMoved: 0, bytesTransferred: 100, errors: [],
     });
 
     await import('./daemon-worker.js');
@@ -116,7 +151,7 @@ describe('daemon-worker reconciliation', () => {
   it('should still start watchers when reconciliation fails', async () => {
     const config = makeConfig({ mode: 'push' });
     mockLoadSyncConfigs.mockReturnValue([config]);
-    mockScanRemoteFiles.mockRejectedValue(new Error('Network error'));
+    mockScanRemoteFiles.mockRejectedValueOnce(new Error('Network error'));
 
     await import('./daemon-worker.js');
     await new Promise(r => setTimeout(r, 50));
@@ -137,3 +172,290 @@ describe('daemon-worker reconciliation', () => {
     expect(mockExecutePull).not.toHaveBeenCalled();
   });
 });
+
+describe('daemon-worker control', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+  });
+
+  async function startWorker() {
+    await import('./daemon-worker.js');
+    await new Promise(r => setTimeout(r, 50));
+    return mockStartControlServer.mock.calls[0][0];
+  }
+
+  it('should report live status of each sync', async () => {
+    mockLoadSyncConfigs.mockReturnValue([makeConfig({ lastSyncAt: '2024-01-01T00:00:00.000Z' })]);
+
+    const handle = await startWorker();
+    const response = await handle({ command: 'status' });
+
+    expect(response).toEqual({
+      ok: true,
+      syncs: [{
+        syncId: 'abc12345-test-config-id',
+        profile: 'default',
+        localPath: '/tmp/test',
+        mode: 'sync',
+        paused: false,
+        watching: true,
+        polling: true,
+        streaming: false,
+        lastSyncAt: '2024-01-01T00:00:00.000Z',
+        queueDepth: 2,
+        lastError: null,
+        authRequired: false,
+      }],
+    });
+  });
+
+  it('should subscribe to the change feed and report it as streaming', async () => {
+    mockCreateRemotePoller.mockReturnValueOnce({ stop: vi.fn(), streaming: vi.fn(() => true) });
+    mockLoadSyncConfigs.mockReturnValue([makeConfig()]);
+
+    const handle = await startWorker();
+    const response = await handle({ command: 'status' });
+
+    expect(mockCreateRemotePoller).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ id: 'abc12345-test-config-id' }),
+      expect.objectContaining({ changeFeed: expect.any(Function) }),
+    );
+    expect(response).toMatchObject({ ok: true, syncs: [{ polling: false, streaming: true }] });
+  });
+
+  it('should stop a paused sync and refuse to trigger it', async () => {
+    const stopPoller = vi.fn();
+    mockCreateRemotePoller.mockReturnValueOnce({ stop: stopPoller, streaming: vi.fn(() => false) });
+    mockLoadSyncConfigs.mockReturnValue([makeConfig()]);
+
+    const handle = await startWorker();
+    await expect(handle({ command: 'pause', syncId: 'abc12345-test-config-id' }))
+      .resolves.toEqual({ ok: true, message: 'Paused sync abc12345' });
+
+    expect(stopPoller).toHaveBeenCalled();
+    await expect(handle({ command: 'trigger', syncId: 'abc12345-test-config-id' }))
+      .resolves.toMatchObject({ ok: false, error: expect.stringContaining('is paused') });
+    await expect(handle({ command: 'trigger', syncId: 'other' }))
+      .resolves.toEqual({ ok: false, error: 'Sync not managed by the daemon: other' });
+  });
+
+  it('should run a resume and a reload one after the other', async () => {
+    mockLoadSyncConfigs.mockReturnValue([makeConfig()]);
+    const handle = await startWorker();
+    await handle({ command: 'pause', syncId: 'abc12345-test-config-id' });
+
+    const resumed = handle({ command: 'resume', syncId: 'abc12345-test-config-id' });
+    mockLoadSyncConfigs.mockReturnValue([makeConfig({ ignore: ['drafts'] })]);
+    mockWatchSyncConfigs.mock.calls[0][0]();
+    await expect(resumed).resolves.toEqual({ ok: true, message: 'Resumed sync abc12345' });
+    await new Promise(r => setTimeout(r, 50));
+
+    const watchers = mockCreateWatcher.mock.results.map(r => (r.value as { stop: ReturnType<typeof vi.fn> }).stop);
+    expect(watchers).toHaveLength(3);
+    expect(watchers.filter(stop => stop.mock.calls.length === 0)).toHaveLength(1);
+  });
+});
+
+describe('daemon-worker hot reload', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+  });
+
+  async function startWorker() {
+    await import('./daemon-worker.js');
+    await new Promise(r => setTimeout(r, 50));
+    const onChange = mockWatchSyncConfigs.mock.calls[0][0];
+    return async () => {
+      onChange();
+      await new Promise(r => setTimeout(r, 50));
+    };
+  }
+
+  it('should keep running when there is nothing to sync', async () => {
+    mockLoadSyncConfigs.mockReturnValue([]);
+
+    await startWorker();
+
+    expect(mockExit).not.toHaveBeenCalled();
+    expect(mockStartControlServer).toHaveBeenCalled();
+  });
+
+  it('should start syncs added to syncs.json', async () => {
+    mockLoadSyncConfigs.mockReturnValue([]);
+    const changed = await startWorker();
+
+    mockLoadSyncConfigs.mockReturnValue([makeConfig()]);
+    await changed();
+
+    expect(mockScanLocalFiles).toHaveBeenCalled();
+    expect(mockCreateWatcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should restart only syncs whose configuration changed', async () => {
+    const stopA = vi.fn();
+    const stopB = vi.fn();
+    mockCreateWatcher
+      .mockReturnValueOnce({ watcher: { close: vi.fn() }, stop: stopA, pending: vi.fn(() => 0) })
+      .mockReturnValueOnce({ watcher: { close: vi.fn() }, stop: stopB, pending: vi.fn(() => 0) });
+    const a = makeConfig({ id: 'aaaaaaaa-1', mode: 'push' });
+    const b = makeConfig({ id: 'bbbbbbbb-2', mode: 'push' });
+    mockLoadSyncConfigs.mockReturnValue([a, b]);
+    const changed = await startWorker();
+
+    mockLoadSyncConfigs.mockReturnValue([
+      { ...a, lastSyncAt: '2025-01-01T00:00:00.000Z' },
+      { ...b, ignore: ['drafts'] },
+    ]);
+    await changed();
+
+    expect(stopA).not.toHaveBeenCalled();
+    expect(stopB).toHaveBeenCalled();
+    expect(mockCreateWatcher).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not reload when only lastSyncAt changed', async () => {
+    const stop = vi.fn();
+    mockCreateWatcher.mockReturnValueOnce({ watcher: { close: vi.fn() }, stop, pending: vi.fn(() => 0) });
+    mockLoadSyncConfigs.mockReturnValue([makeConfig()]);
+    const changed = await startWorker();
+    const scans = mockScanLocalFiles.mock.calls.length;
+
+    mockLoadSyncConfigs.mockReturnValue([makeConfig({ lastSyncAt: '2025-01-01T00:00:00.000Z' })]);
+    await changed();
+
+    expect(mockStdoutWrite).not.toHaveBeenCalledWith(expect.stringContaining('Reloading sync configurations'));
+    expect(stop).not.toHaveBeenCalled();
+    expect(mockScanLocalFiles).toHaveBeenCalledTimes(scans);
+    expect(mockCreateWatcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop syncs that were removed or had autoSync turned off', async () => {
+    const stop = vi.fn();
+    mockCreateWatcher.mockReturnValueOnce({ watcher: { close: vi.fn() }, stop, pending: vi.fn(() => 0) });
+    mockLoadSyncConfigs.mockReturnValue([makeConfig()]);
+    const changed = await startWorker();
+
+    mockLoadSyncConfigs.mockReturnValue([makeConfig({ autoSync: false })]);
+    await changed();
+
+    expect(stop).toHaveBeenCalled();
+    expect(mockExit).not.toHaveBeenCalled();
+  });
+
+  it('should keep syncs running when syncs.json cannot be read', async () => {
+    const stop = vi.fn();
+    mockCreateWatcher.mockReturnValueOnce({ watcher: { close: vi.fn() }, stop, pending: vi.fn(() => 0) });
+    mockLoadSyncConfigs.mockReturnValue([makeConfig()]);
+    const changed = await startWorker();
+
+    mockLoadSyncConfigs.mockImplementation(() => {
+      throw new Error('Unexpected end of JSON input');
+    });
+    await changed();
+
+    expect(stop).not.toHaveBeenCalled();
+    mockLoadSyncConfigs.mockReset();
+  });
+});
+
+describe('daemon-worker profiles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+  });
+
+  it('should create one client per profile', async () => {
+    mockLoadSyncConfigs.mockReturnValue([
+      makeConfig({ id: 'aaaaaaaa-1', profile: 'work' }),
+      makeConfig({ id: 'bbbbbbbb-2', profile: 'work' }),
+      makeConfig({ id: 'cccccccc-3' }),
+    ]);
+
+    await import('./daemon-worker.js');
+    await new Promise(r => setTimeout(r, 50));
+
+    expect(mockGetClientAsync).toHaveBeenCalledTimes(2);
+    expect(mockGetClientAsync).toHaveBeenCalledWith('work');
+    expect(mockGetClientAsync).toHaveBeenCalledWith('default');
+    expect(mockCreateWatcher).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('daemon-worker credentials', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+  });
+
+  it('should stop the syncs of a profile whose login was rejected', async () => {
+    const stop = vi.fn();
+    mockCreateWatcher.mockReturnValueOnce({ watcher: { close: vi.fn() }, stop, pending: vi.fn(() => 0) });
+    mockLoadSyncConfigs.mockReturnValue([makeConfig({ mode: 'push' })]);
+    mockUserMe.mockRejectedValueOnce(Object.assign(new Error('Invalid refresh token'), { status: 401 }));
+
+    await import('./daemon-worker.js');
+    await new Promise(r => setTimeout(r, 50));
+    const [, , options] = mockCreateWatcher.mock.calls[0] as unknown as [unknown, unknown, { onError: (err: Error) => void }];
+    options.onError(Object.assign(new Error('Unauthorized'), { status: 401 }));
+    await new Promise(r => setTimeout(r, 50));
+
+    expect(mockGetClientAsync).toHaveBeenCalledTimes(2);
+    expect(stop).toHaveBeenCalled();
+    expect(mockMarkAuthRequired).toHaveBeenCalledWith('default', 'Invalid refresh token');
+    const handle = mockStartControlServer.mock.calls[0][0];
+    const status = await handle({ command: 'status' }) as { syncs: Array<{ authRequired: boolean; watching: boolean }> };
+    expect(status.syncs[0]).toMatchObject({ authRequired: true, watching: false });
+  });
+
+  it('should keep a profile marked as needing a login when syncs.json is rewritten', async () => {
+    mockLoadSyncConfigs.mockReturnValue([makeConfig({ mode: 'push' })]);
+    mockUserMe.mockRejectedValueOnce(Object.assign(new Error('Invalid refresh token'), { status: 401 }));
+
+    await import('./daemon-worker.js');
+    await new Promise(r => setTimeout(r, 50));
+    const [, , options] = mockCreateWatcher.mock.calls[0] as unknown as [unknown, unknown, { onError: (err: Error) => void }];
+    options.onError(Object.assign(new Error('Unauthorized'), { status: 401 }));
+    await new Promise(r => setTimeout(r, 50));
+
+    const onChange = mockWatchSyncConfigs.mock.calls[0][0];
+    mockLoadSyncConfigs.mockReturnValue([makeConfig({ mode: 'push', lastSyncAt: '2025-01-01T00:00:00.000Z' })]);
+    onChange();
+    await new Promise(r => setTimeout(r, 50));
+    mockLoadSyncConfigs.mockReturnValue([
+      makeConfig({ mode: 'push', lastSyncAt: '2025-01-01T00:00:00.000Z' }),
+      makeConfig({ id: 'bbbbbbbb-2', autoSync: false }),
+    ]);
+    onChange();
+    await new Promise(r => setTimeout(r, 50));
+
+    // Once, as the daemon started
+    expect(mockClearAuthRequired).toHaveBeenCalledTimes(1);
+    expect(mockCreateWatcher).toHaveBeenCalledTimes(1);
+    const handle = mockStartControlServer.mock.calls[0][0];
+    const status = await handle({ command: 'status' }) as { syncs: Array<{ authRequired: boolean }> };
+    expect(status.syncs[0].authRequired).toBe(true);
+
+    await handle({ command: 'reload' });
+    expect(mockClearAuthRequired).toHaveBeenCalledTimes(2);
+    expect(mockCreateWatcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reconnect when the stored credentials still work', async () => {
+    const stop = vi.fn();
+    mockCreateWatcher.mockReturnValueOnce({ watcher: { close: vi.fn() }, stop, pending: vi.fn(() => 0) });
+    mockLoadSyncConfigs.mockReturnValue([makeConfig({ mode: 'push' })]);
+
+    await import('./daemon-worker.js');
+    await new Promise(r => setTimeout(r, 50));
+    const [, , options] = mockCreateWatcher.mock.calls[0] as unknown as [unknown, unknown, { onError: (err: Error) => void }];
+    options.onError(new Error('401 Unauthorized'));
+    await new Promise(r => setTimeout(r, 50));
+
+    expect(mockMarkAuthRequired).not.toHaveBeenCalled();
+    expect(stop).toHaveBeenCalled();
+    expect(mockCreateWatcher).toHaveBeenCalledTimes(2);
+  });
+});
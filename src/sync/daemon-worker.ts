@@ -1,178 +1,569 @@
 /**
  * Daemon worker process.
  * Runs as a detached background process, managing watchers for all autoSync syncs.
- * Designed to be spawned by daemon.ts startDaemon().
+ * Designed to be spawned by daemon.ts startDaemon(). Answers requests on the
+ * control socket (see daemon-control.ts) to report live status and to pause,
+ * resume, trigger or reload syncs. Changes to syncs.json, and SIGHUP, are
+ * applied without a restart; with no auto-sync configurations it idles.
+ * Clients come from the CLI's factory, so refreshed tokens are persisted; a
+ * profile whose credentials are rejected has its syncs stopped and is
+ * recorded as needing a new login (see auth-status.ts).
  */
-import { loadSyncConfigs } from './config.js';
+import type { Server } from 'node:net';
+import { loadSyncConfigs, readSyncConfigs, watchSyncConfigs, syncProfileName } from './config.js';
 import { resolveIgnorePatterns } from './ignore.js';
+import { resolveIncludeExtensions } from './attachments.js';
+import { createSyncClient } from './encryption.js';
 import { createWatcher } from './watcher.js';
 import { createRemotePoller } from './remote-poller.js';
 import { removePid } from './daemon.js';
-import { loadConfigAsync } from '../config.js';
-import { LifestreamVaultClient } from '@lifestreamdynamics/vault-sdk';
-import type { FSWatcher } from 'chokidar';
-import { scanLocalFiles, scanRemoteFiles, computePushDiff, computePullDiff, executePush, executePull } from './engine.js';
-import { loadSyncState } from './state.js';
+import { getClientAsync, getChangeFeedSource } from '../client.js';
+import type { LifestreamVaultClient } from '@lifestreamdynamics/vault-sdk';
+import {
+  scanLocalFiles,
+  scanRemoteFiles,
+  computePushDiff,
+  computePullDiff,
+  executePush,
+  executePull,
+  resumeSyncRun,
+} from './engine.js';
+import { loadSyncState, saveSyncState, refreshStatCache } from './state.js';
+import { loadRemoteManifest } from './remote-manifest.js';
+import { withSyncLock, readSyncLock, formatLockHolder } from './lock.js';
+import {
+  startControlServer,
+  closeControlServer,
+  type DaemonRequest,
+  type DaemonResponse,
+  type DaemonSyncStatus,
+} from './daemon-control.js';
+import { isAuthError, markAuthRequired, clearAuthRequired } from './auth-status.js';
+import type { SyncConfig } from './types.js';
 
 interface ManagedSync {
-  syncId: string;
-  watcher: FSWatcher;
-  stopWatcher: () => Promise<void>;
+  config: SyncConfig;
+  /** Paused with `sync daemon pause`; the watcher and poller are stopped */
+  paused: boolean;
+  stopWatcher?: () => Promise<void>;
+  /** Local changes waiting to be pushed */
+  pending?: () => number;
   stopPoller?: () => void;
+  /** Whether remote changes arrive over the change feed rather than by polling */
+  streaming?: () => boolean;
+  lastError: { message: string; at: string } | null;
 }
 
-const managed: ManagedSync[] = [];
+const managed = new Map<string, ManagedSync>();
+/** One client per configuration profile, shared by the syncs using it */
+const clients = new Map<string, Promise<LifestreamVaultClient>>();
+/** Profiles whose credentials were rejected; their syncs stay stopped until an explicit reload */
+const authRequired = new Set<string>();
+/** Credential checks in progress, by profile */
+const checkingAuth = new Map<string, Promise<void>>();
+let controlServer: Server | null = null;
+let stopConfigWatcher: (() => void) | undefined;
+/** The task starting, stopping or running syncs, which the next one waits for */
+let queue: Promise<void> = Promise.resolve();
+/** Key of the sync configurations last applied (see configsKey) */
+let appliedConfigs: string | undefined;
 
 function log(msg: string): void {
   const ts = new Date().toISOString();
   process.stdout.write(`[${ts}] ${msg}\n`);
 }
 
-async function createClient(): Promise<LifestreamVaultClient> {
-  const config = await loadConfigAsync();
-  if (!config.apiKey && !config.accessToken) {
-    throw new Error('No credentials configured. Run `lsvault auth login` first.');
+function recordError(sync: ManagedSync, message: string): void {
+  sync.lastError = { message, at: new Date().toISOString() };
+}
+
+/**
+ * Run a task that starts, stops or runs syncs once those queued before it are
+ * done, so that two of them never act on the same sync at once.
+ */
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task);
+  queue = run.then(() => undefined, () => undefined);
+  return run;
+}
+
+/**
+ * The client for a profile, created on first use with the CLI's client
+ * factory, which persists refreshed tokens. A profile whose client could not
+ * be created is tried again the next time.
+ */
+function getClient(profile: string): Promise<LifestreamVaultClient> {
+  let client = clients.get(profile);
+  if (!client) {
+    client = getClientAsync(profile);
+    clients.set(profile, client);
+    client.catch(() => clients.delete(profile));
   }
-  if (config.accessToken) {
-    return new LifestreamVaultClient({
-      baseUrl: config.apiUrl,
-      accessToken: config.accessToken,
-      refreshToken: config.refreshToken,
-    });
+  return client;
+}
+
+function loginRequiredMessage(profile: string): string {
+  return `Login required for profile "${profile}". Run \`lsvault auth login\`, then \`lsvault sync daemon reload\``;
+}
+
+/**
+ * Check a profile's credentials after the server rejected them. Another
+ * command may have logged in again or rotated the tokens since the client was
+ * created, so the stored credentials are tried first; if those are rejected
+ * too, the profile's syncs are stopped and the profile is recorded as needing
+ * a new login. Concurrent failures share one check.
+ */
+function checkCredentials(profile: string): Promise<void> {
+  let check = checkingAuth.get(profile);
+  if (!check) {
+    check = enqueue(() => verifyCredentials(profile)).finally(() => checkingAuth.delete(profile));
+    checkingAuth.set(profile, check);
   }
-  return new LifestreamVaultClient({
-    baseUrl: config.apiUrl,
-    apiKey: config.apiKey!,
-  });
+  return check;
 }
 
-async function start(): Promise<void> {
-  log('Daemon starting...');
+async function verifyCredentials(profile: string): Promise<void> {
+  if (authRequired.has(profile)) return;
+  clients.delete(profile);
+  const syncs = [...managed.values()].filter(s => !s.paused && syncProfileName(s.config) === profile);
+  try {
+    const client = await getClient(profile);
+    await client.user.me();
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    if (!isAuthError(err) && !msg.startsWith('No credentials configured')) {
+      log(`Could not check the credentials of profile ${profile}: ${msg}`);
+      return;
+    }
+    authRequired.add(profile);
+    markAuthRequired(profile, msg);
+    for (const sync of syncs) {
+      await stopSync(sync);
+      recordError(sync, loginRequiredMessage(profile));
+    }
+    log(`Credentials of profile ${profile} were rejected (${msg}); stopped ${syncs.length} sync(s). Log in again, then run: lsvault sync daemon reload`);
+    return;
+  }
 
-  const configs = loadSyncConfigs().filter(c => c.autoSync);
-  if (configs.length === 0) {
-    log('No auto-sync configurations found. Daemon has nothing to do.');
-    removePid();
-    process.exit(0);
+  log(`Reconnecting ${syncs.length} sync(s) of profile ${profile} with the stored credentials`);
+  for (const sync of syncs) {
+    await stopSync(sync);
+    await reconcile(sync);
+    await startSync(sync);
   }
+}
 
-  log(`Found ${configs.length} auto-sync configuration(s)`);
+/**
+ * Record an error of a sync, checking its profile's credentials when the
+ * server rejected them.
+ */
+function handleSyncError(sync: ManagedSync, err: unknown): void {
+  const message = err instanceof Error ? err.message : String(err);
+  recordError(sync, message);
+  if (isAuthError(err)) void checkCredentials(syncProfileName(sync.config));
+}
 
-  const client = await createClient();
+/**
+ * Catch up on changes made while a sync was not being watched: finish an
+ * interrupted run, then push and pull the differences.
+ */
+async function reconcile(sync: ManagedSync): Promise<DaemonResponse> {
+  const { config } = sync;
+  const shortId = config.id.slice(0, 8);
+  const profile = syncProfileName(config);
+  if (authRequired.has(profile)) {
+    return { ok: false, error: loginRequiredMessage(profile) };
+  }
+  let response: DaemonResponse = { ok: false, error: `Sync ${config.id} was not reconciled` };
+  // Waits for the sync's watcher and poller; a manual command already
+  // syncing this config takes its place
+  const acquired = await withSyncLock(config.id, 'daemon', async () => {
+    response = await reconcileLocked(sync);
+  });
+  if (!acquired) {
+    const holder = readSyncLock(config.id);
+    const lockedBy = holder ? formatLockHolder(holder) : 'another process';
+    log(`Skipping reconciliation of ${shortId}: locked by ${lockedBy}`);
+    return { ok: false, error: `Sync ${config.id} is locked by ${lockedBy}` };
+  }
+  return response;
+}
 
-  // Startup reconciliation: catch changes made while daemon was stopped
-  for (const config of configs) {
-    try {
-      log(`Reconciling ${config.id.slice(0, 8)} (${config.mode} mode)...`);
-      const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath);
-      const lastState = loadSyncState(config.id);
-      const localFiles = scanLocalFiles(config.localPath, ignorePatterns);
-      const remoteFiles = await scanRemoteFiles(client, config.vaultId, ignorePatterns);
-
-      let pushed = 0;
-      let pulled = 0;
-      let deleted = 0;
-
-      if (config.mode === 'push' || config.mode === 'sync') {
-        const pushDiff = computePushDiff(localFiles, remoteFiles, lastState);
-        const pushOps = pushDiff.uploads.length + pushDiff.deletes.length;
-        if (pushOps > 0) {
-          const result = await executePush(client, config, pushDiff);
-          pushed = result.filesUploaded;
-          deleted += result.filesDeleted;
-          if (result.errors.length > 0) {
-            for (const err of result.errors) {
-              log(`  Push error: ${err.path}: ${err.error}`);
-            }
+/** Reconcile a sync while holding its lock (see reconcile). */
+async function reconcileLocked(sync: ManagedSync): Promise<DaemonResponse> {
+  const { config } = sync;
+  const shortId = config.id.slice(0, 8);
+  try {
+    log(`Reconciling ${shortId} (${config.mode} mode)...`);
+    const syncClient = await createSyncClient(await getClient(syncProfileName(config)), config);
+    // Finish a run that was interrupted (e.g. by a crash) before reconciling
+    const resumed = await resumeSyncRun(syncClient, config, { trigger: 'daemon' });
+    if (resumed) {
+      log(`Resumed interrupted run of ${shortId}: ${resumed.completed} completed, ${resumed.redone} redone, ${resumed.rolledBack} rolled back`);
+    }
+    const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath, config.include);
+    const includeExtensions = resolveIncludeExtensions(config);
+    const lastState = loadSyncState(config.id);
+    const localFiles = await scanLocalFiles(config.localPath, ignorePatterns, includeExtensions, {
+      cache: lastState.local,
+      normalize: config.normalize,
+    });
+    if (refreshStatCache(lastState, localFiles)) saveSyncState(lastState);
+    const remoteFiles = await scanRemoteFiles(syncClient, config.vaultId, ignorePatterns, includeExtensions, loadRemoteManifest(config.id));
+
+    let pushed = 0;
+    let pulled = 0;
+    let deleted = 0;
+    let moved = 0;
+
+    if (config.mode === 'push' || config.mode === 'sync') {
+      const pushDiff = computePushDiff(localFiles, remoteFiles, lastState);
+      const pushOps = pushDiff.uploads.length + pushDiff.deletes.length + (pushDiff.moves?.length ?? 0);
+      if (pushOps > 0) {
+        const result = await executePush(syncClient, config, pushDiff, undefined, { trigger: 'daemon' });
+        pushed = result.filesUploaded;
+        deleted += result.filesDeleted;
+        moved += result.filesMoved;
+        if (result.errors.length > 0) {
+          for (const err of result.errors) {
+            log(`  Push error: ${err.path}: ${err.error}`);
           }
+          handleSyncError(sync, `Push error: ${result.errors[0].path}: ${result.errors[0].error}`);
         }
       }
+    }
 
-      if (config.mode === 'pull' || config.mode === 'sync') {
-        const pullDiff = computePullDiff(localFiles, remoteFiles, lastState);
-        const pullOps = pullDiff.downloads.length + pullDiff.deletes.length;
-        if (pullOps > 0) {
-          const result = await executePull(client, config, pullDiff);
-          pulled = result.filesDownloaded;
-          deleted += result.filesDeleted;
-          if (result.errors.length > 0) {
-            for (const err of result.errors) {
-              log(`  Pull error: ${err.path}: ${err.error}`);
-            }
+    if (config.mode === 'pull' || config.mode === 'sync') {
+      const pullDiff = computePullDiff(localFiles, remoteFiles, lastState);
+      const pullOps = pullDiff.downloads.length + pullDiff.deletes.length + (pullDiff.moves?.length ?? 0);
+      if (pullOps > 0) {
+        const result = await executePull(syncClient, config, pullDiff, undefined, { trigger: 'daemon' });
+        pulled = result.filesDownloaded;
+        deleted += result.filesDeleted;
+        moved += result.filesMoved;
+        if (result.errors.length > 0) {
+          for (const err of result.errors) {
+            log(`  Pull error: ${err.path}: ${err.error}`);
           }
+          handleSyncError(sync, `Pull error: ${result.errors[0].path}: ${result.errors[0].error}`);
         }
       }
-
-      const total = pushed + pulled + deleted;
-      if (total > 0) {
-        const parts: string[] = [];
-        if (pushed > 0) parts.push(`${pushed} uploaded`);
-        if (pulled > 0) parts.push(`${pulled} downloaded`);
-        if (deleted > 0) parts.push(`${deleted} deleted`);
-        log(`Reconciled ${config.id.slice(0, 8)}: ${parts.join(', ')}`);
-      } else {
-        log(`Reconciled ${config.id.slice(0, 8)}: up to date`);
-      }
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      log(`Reconciliation failed for ${config.id.slice(0, 8)}: ${msg}`);
-      // Continue — still start the watcher even if reconciliation fails
     }
+
+    const parts: string[] = [];
+    if (pushed > 0) parts.push(`${pushed} uploaded`);
+    if (pulled > 0) parts.push(`${pulled} downloaded`);
+    if (deleted > 0) parts.push(`${deleted} deleted`);
+    if (moved > 0) parts.push(`${moved} moved`);
+    const summary = parts.length > 0 ? parts.join(', ') : 'up to date';
+    log(`Reconciled ${shortId}: ${summary}`);
+    return { ok: true, message: summary };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`Reconciliation failed for ${shortId}: ${msg}`);
+    handleSyncError(sync, err);
+    return { ok: false, error: msg };
   }
+}
 
-  for (const config of configs) {
-    try {
-      const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath);
+/**
+ * Start watching a sync, and polling the vault in sync mode.
+ * Returns false if it could not be started.
+ */
+async function startSync(sync: ManagedSync): Promise<boolean> {
+  const { config } = sync;
+  // Already started, e.g. by a reload queued before a resume
+  if (sync.stopWatcher !== undefined) return true;
+  if (authRequired.has(syncProfileName(config))) return false;
+  const onError = (err: Error) => {
+    log(`ERROR [${config.id.slice(0, 8)}]: ${err.message}`);
+    handleSyncError(sync, err);
+  };
+  try {
+    const syncClient = await createSyncClient(await getClient(syncProfileName(config)), config);
+    const ignorePatterns = resolveIgnorePatterns(config.ignore, config.localPath, config.include);
+    const includeExtensions = resolveIncludeExtensions(config);
 
-      const { watcher, stop: stopWatcher } = createWatcher(client, config, {
+    const { stop: stopWatcher, pending } = createWatcher(syncClient, config, {
+      ignorePatterns,
+      includeExtensions,
+      onLog: (msg) => log(msg),
+      onConflictLog: (msg) => log(`CONFLICT: ${msg}`),
+      onError,
+    });
+    sync.stopWatcher = stopWatcher;
+    sync.pending = pending;
+
+    if (config.mode === 'sync') {
+      const pollIntervalMs = parseSyncInterval(config.syncInterval) || 30000;
+      const poller = createRemotePoller(syncClient, config, {
         ignorePatterns,
+        includeExtensions,
+        intervalMs: pollIntervalMs,
+        changeFeed: getChangeFeedSource(config.vaultId, syncProfileName(config)),
         onLog: (msg) => log(msg),
         onConflictLog: (msg) => log(`CONFLICT: ${msg}`),
-        onError: (err) => log(`ERROR [${config.id.slice(0, 8)}]: ${err.message}`),
+        onError,
       });
+      sync.stopPoller = poller.stop;
+      sync.streaming = poller.streaming;
+    }
 
-      let stopPoller: (() => void) | undefined;
-      if (config.mode === 'sync') {
-        const pollIntervalMs = parseSyncInterval(config.syncInterval) || 30000;
-        const poller = createRemotePoller(client, config, {
-          ignorePatterns,
-          intervalMs: pollIntervalMs,
-          onLog: (msg) => log(msg),
-          onConflictLog: (msg) => log(`CONFLICT: ${msg}`),
-          onError: (err) => log(`ERROR [${config.id.slice(0, 8)}]: ${err.message}`),
-        });
-        stopPoller = poller.stop;
-      }
+    log(`Started sync: ${config.id.slice(0, 8)} (${config.localPath}, profile ${syncProfileName(config)})`);
+    return true;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`Failed to start sync ${config.id.slice(0, 8)}: ${msg}`);
+    handleSyncError(sync, err);
+    return false;
+  }
+}
+
+/**
+ * Stop watching and polling a sync.
+ */
+async function stopSync(sync: ManagedSync): Promise<void> {
+  const wasRunning = sync.stopWatcher !== undefined || sync.stopPoller !== undefined;
+  try {
+    sync.stopPoller?.();
+    await sync.stopWatcher?.();
+    if (wasRunning) log(`Stopped sync: ${sync.config.id.slice(0, 8)}`);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`Error stopping sync ${sync.config.id.slice(0, 8)}: ${msg}`);
+  } finally {
+    sync.stopWatcher = undefined;
+    sync.pending = undefined;
+    sync.stopPoller = undefined;
+    sync.streaming = undefined;
+  }
+}
 
-      managed.push({ syncId: config.id, watcher, stopWatcher, stopPoller });
-      log(`Started sync: ${config.id.slice(0, 8)} (${config.localPath})`);
+/**
+ * Configuration fields that change what a running sync does. lastSyncAt is
+ * left out: it is rewritten after every sync, by the daemon itself too.
+ */
+function configKey(config: SyncConfig): string {
+  return JSON.stringify({ ...config, lastSyncAt: undefined });
+}
+
+/**
+ * Key of a set of sync configurations, equal for two sets that differ only
+ * in lastSyncAt.
+ */
+function configsKey(configs: SyncConfig[]): string {
+  return JSON.stringify(configs.map(configKey));
+}
+
+/**
+ * Bring the managed syncs in line with the auto-sync configurations: stop
+ * syncs that were removed or had autoSync turned off, restart those whose
+ * configuration changed, and reconcile and start new ones. Syncs that are
+ * unchanged keep running undisturbed; paused syncs stay paused.
+ */
+async function applySyncConfigs(configs: SyncConfig[]): Promise<string> {
+  const wanted = new Map(configs.filter(c => c.autoSync).map(c => [c.id, c]));
+  const toStart: ManagedSync[] = [];
+  let added = 0;
+  let removed = 0;
+  let restarted = 0;
+
+  for (const sync of [...managed.values()]) {
+    if (!wanted.has(sync.config.id)) {
+      await stopSync(sync);
+      managed.delete(sync.config.id);
+      log(`Removed sync: ${sync.config.id.slice(0, 8)}`);
+      removed++;
+    }
+  }
+  for (const config of wanted.values()) {
+    const sync = managed.get(config.id);
+    if (!sync) {
+      const created: ManagedSync = { config, paused: false, lastError: null };
+      managed.set(config.id, created);
+      toStart.push(created);
+      added++;
+      continue;
+    }
+    const changed = configKey(sync.config) !== configKey(config);
+    if (changed) {
+      await stopSync(sync);
+      sync.lastError = null;
+      restarted++;
+    }
+    sync.config = config;
+    // A sync that failed to start gets another attempt
+    if (!sync.paused && (changed || sync.stopWatcher === undefined)) toStart.push(sync);
+  }
+
+  const active = toStart.filter(s => !s.paused);
+  // Catch changes made while each sync was not watched. A sync whose
+  // reconciliation fails is still watched.
+  for (const sync of active) {
+    await reconcile(sync);
+  }
+  for (const sync of active) {
+    await startSync(sync);
+  }
+
+  const parts: string[] = [];
+  if (added > 0) parts.push(`${added} added`);
+  if (removed > 0) parts.push(`${removed} removed`);
+  if (restarted > 0) parts.push(`${restarted} restarted`);
+  return parts.length > 0 ? parts.join(', ') : 'no changes';
+}
+
+/**
+ * Re-read syncs.json and apply it. Reloads run one at a time; a file that
+ * cannot be read leaves the running syncs as they are. Runs rewrite
+ * lastSyncAt in syncs.json, the daemon's own included, so a reload that is
+ * not explicit (`sync daemon reload`, SIGHUP) is skipped when nothing else
+ * changed. Only an explicit reload retries profiles that need a new login.
+ */
+function reloadSyncs(reason: string, explicit: boolean): Promise<DaemonResponse> {
+  return enqueue(async (): Promise<DaemonResponse> => {
+    let configs: SyncConfig[];
+    try {
+      configs = readSyncConfigs();
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      log(`Failed to start sync ${config.id.slice(0, 8)}: ${msg}`);
+      log(`Ignoring unreadable sync configurations: ${msg}`);
+      return { ok: false, error: `Could not read sync configurations: ${msg}` };
+    }
+    const key = configsKey(configs);
+    if (!explicit && key === appliedConfigs) {
+      return { ok: true, message: 'Reloaded sync configurations: no changes' };
+    }
+    appliedConfigs = key;
+    log(`Reloading sync configurations (${reason})...`);
+    if (explicit) {
+      // Syncs stopped for a new login are retried with the credentials stored since
+      for (const profile of authRequired) clients.delete(profile);
+      authRequired.clear();
+      clearAuthRequired();
+    }
+    const summary = await applySyncConfigs(configs);
+    log(`Reloaded sync configurations: ${summary}`);
+    if (managed.size === 0) log('No auto-sync configurations. Waiting for one to be added.');
+    return { ok: true, message: `Reloaded sync configurations: ${summary}` };
+  });
+}
+
+function describeSync(sync: ManagedSync, lastSyncAt: Map<string, string>): DaemonSyncStatus {
+  const running = !sync.paused;
+  const last = lastSyncAt.get(sync.config.id);
+  return {
+    syncId: sync.config.id,
+    profile: syncProfileName(sync.config),
+    localPath: sync.config.localPath,
+    mode: sync.config.mode,
+    paused: sync.paused,
+    watching: running && sync.stopWatcher !== undefined,
+    polling: running && sync.stopPoller !== undefined && !sync.streaming?.(),
+    streaming: running && (sync.streaming?.() ?? false),
+    lastSyncAt: last && last !== '1970-01-01T00:00:00.000Z' ? last : null,
+    queueDepth: sync.pending?.() ?? 0,
+    lastError: sync.lastError,
+    authRequired: authRequired.has(syncProfileName(sync.config)),
+  };
+}
+
+/**
+ * Answer a request on the control socket.
+ */
+async function handleControl(request: DaemonRequest): Promise<DaemonResponse> {
+  if (request.command === 'status') {
+    // Runs update lastSyncAt in syncs.json, not the copy held here
+    const lastSyncAt = new Map(loadSyncConfigs().map(c => [c.id, c.lastSyncAt]));
+    return { ok: true, syncs: [...managed.values()].map(s => describeSync(s, lastSyncAt)) };
+  }
+  if (request.command === 'reload') {
+    return reloadSyncs('requested', true);
+  }
+  return enqueue(() => controlSync(request));
+}
+
+/**
+ * Pause, resume or trigger a sync. Runs in the queue, after any reload that
+ * may have removed or restarted the sync.
+ */
+async function controlSync(request: Extract<DaemonRequest, { syncId: string }>): Promise<DaemonResponse> {
+  const sync = managed.get(request.syncId);
+  if (!sync) {
+    return { ok: false, error: `Sync not managed by the daemon: ${request.syncId}` };
+  }
+  const shortId = sync.config.id.slice(0, 8);
+  switch (request.command) {
+    case 'pause':
+      if (sync.paused) return { ok: true, message: `Sync ${shortId} is already paused` };
+      sync.paused = true;
+      await stopSync(sync);
+      log(`Paused sync: ${shortId}`);
+      return { ok: true, message: `Paused sync ${shortId}` };
+    case 'resume': {
+      if (!sync.paused) return { ok: true, message: `Sync ${shortId} is not paused` };
+      sync.paused = false;
+      const profile = syncProfileName(sync.config);
+      if (authRequired.has(profile)) return { ok: false, error: loginRequiredMessage(profile) };
+      log(`Resuming sync: ${shortId}`);
+      await reconcile(sync);
+      if (!await startSync(sync)) {
+        return { ok: false, error: `Sync ${shortId} could not be started: ${sync.lastError?.message}` };
+      }
+      return { ok: true, message: `Resumed sync ${shortId}` };
     }
+    case 'trigger':
+      if (sync.paused) {
+        return { ok: false, error: `Sync ${shortId} is paused. Resume it with: lsvault sync daemon resume ${sync.config.id}` };
+      }
+      return reconcile(sync);
+  }
+}
+
+async function start(): Promise<void> {
+  log('Daemon starting...');
+  // Profiles recorded by a previous daemon are checked again as their syncs start
+  clearAuthRequired();
+
+  let configs: SyncConfig[] = [];
+  try {
+    configs = readSyncConfigs();
+  } catch (err) {
+    // Started idle; the fixed file is picked up by the watcher below
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`Ignoring unreadable sync configurations: ${msg}`);
   }
+  log(`Found ${configs.filter(c => c.autoSync).length} auto-sync configuration(s)`);
+  appliedConfigs = configsKey(configs);
+  await enqueue(() => applySyncConfigs(configs));
 
-  if (managed.length === 0) {
-    log('No syncs could be started. Exiting.');
-    removePid();
-    process.exit(1);
+  try {
+    controlServer = await startControlServer(handleControl);
+  } catch (err) {
+    // Syncing goes on; only the control commands are unavailable
+    const msg = err instanceof Error ? err.message : String(err);
+    log(`Control socket unavailable: ${msg}`);
   }
+  stopConfigWatcher = watchSyncConfigs(() => void reloadSyncs('syncs.json changed', false));
 
-  log(`Daemon running with ${managed.length} sync(s)`);
+  if (managed.size === 0) {
+    log('No auto-sync configurations. Waiting for one to be added.');
+  } else {
+    const running = [...managed.values()].filter(s => s.stopWatcher !== undefined).length;
+    log(`Daemon running with ${running} sync(s)`);
+  }
 }
 
 async function shutdown(): Promise<void> {
   log('Daemon shutting down...');
 
-  for (const sync of managed) {
-    try {
-      sync.stopPoller?.();
-      await sync.stopWatcher();
-      log(`Stopped sync: ${sync.syncId.slice(0, 8)}`);
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      log(`Error stopping sync ${sync.syncId.slice(0, 8)}: ${msg}`);
-    }
+  stopConfigWatcher?.();
+  if (controlServer) {
+    await closeControlServer(controlServer);
+    controlServer = null;
+  }
+  for (const sync of managed.values()) {
+    await stopSync(sync);
   }
 
   removePid();
@@ -200,6 +591,7 @@ function parseSyncInterval(interval?: string): number | null {
 // Signal handlers
 process.on('SIGTERM', shutdown);
 process.on('SIGINT', shutdown);
+process.on('SIGHUP', () => void reloadSyncs('SIGHUP', true));
 
 // Uncaught error recovery
 process.on('uncaughtException', (err) => {
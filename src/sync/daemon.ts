@@ -10,6 +10,10 @@ import { spawn } from 'node:child_process';
 const DAEMON_DIR = path.join(os.homedir(), '.lsvault', 'daemon');
 const PID_FILE = path.join(DAEMON_DIR, 'daemon.pid');
 const LOG_FILE = path.join(DAEMON_DIR, 'daemon.log');
+/** Control socket of the running daemon (see daemon-control.ts); a named pipe on Windows */
+const SOCKET_FILE = process.platform === 'win32'
+  ? `\\\\.\\pipe\\lsvault-daemon-${os.userInfo().username}`
+  : path.join(DAEMON_DIR, 'daemon.sock');
 const MAX_LOG_SIZE = 10 * 1024 * 1024; // 10MB
 const MAX_LOG_AGE_DAYS = 7;
 
@@ -218,4 +222,4 @@ export function checkLingerStatus(): 'enabled' | 'disabled' | 'unknown' {
   }
 }
 
-export { DAEMON_DIR, PID_FILE, LOG_FILE };
+export { DAEMON_DIR, PID_FILE, LOG_FILE, SOCKET_FILE };
@@ -1,10 +1,14 @@
 /**
  * Diff generation for sync operations.
  * Compares local and remote file states to determine what actions are needed.
+ * Local files named in another Unicode normalization form than their remote
+ * document are matched to it first.
  */
 import type { FileState, SyncState, SyncMode } from './types.js';
+import { detectConflict } from './conflict.js';
+import { matchRemotePathForms } from './paths.js';
 
-export type SyncAction = 'create' | 'update' | 'delete';
+export type SyncAction = 'create' | 'update' | 'delete' | 'move';
 export type SyncDirection = 'upload' | 'download';
 
 export interface SyncDiffEntry {
@@ -18,6 +22,19 @@ export interface SyncDiffEntry {
   sizeBytes: number;
   /** Human-readable reason for this change */
   reason: string;
+  /** Previous document path, for moves */
+  fromPath?: string;
+}
+
+export interface SyncConflictEntry {
+  /** Document path (relative, forward slashes) */
+  path: string;
+  /** Current local file state */
+  local: FileState;
+  /** Current remote file state */
+  remote: FileState;
+  /** Human-readable reason for the conflict */
+  reason: string;
 }
 
 export interface SyncDiff {
@@ -27,6 +44,10 @@ export interface SyncDiff {
   downloads: SyncDiffEntry[];
   /** Files to delete */
   deletes: SyncDiffEntry[];
+  /** Files renamed or moved on one side, applied as a move on the other */
+  moves?: SyncDiffEntry[];
+  /** Files changed on both sides (bidirectional sync only) */
+  conflicts?: SyncConflictEntry[];
   /** Total bytes to transfer */
   totalBytes: number;
 }
@@ -40,6 +61,7 @@ export function computePullDiff(
   remoteFiles: Record<string, FileState>,
   lastState: SyncState,
 ): SyncDiff {
+  localFiles = matchRemotePathForms(localFiles, Object.keys(remoteFiles));
   const downloads: SyncDiffEntry[] = [];
   const deletes: SyncDiffEntry[] = [];
 
@@ -103,8 +125,9 @@ export function computePullDiff(
     }
   }
 
+  const moves = detectMoves('download', downloads, deletes, localFiles, remoteFiles, lastState);
   const totalBytes = downloads.reduce((sum, d) => sum + d.sizeBytes, 0);
-  return { uploads: [], downloads, deletes, totalBytes };
+  return { uploads: [], downloads, deletes, moves, totalBytes };
 }
 
 /**
@@ -116,6 +139,7 @@ export function computePushDiff(
   remoteFiles: Record<string, FileState>,
   lastState: SyncState,
 ): SyncDiff {
+  localFiles = matchRemotePathForms(localFiles, Object.keys(remoteFiles));
   const uploads: SyncDiffEntry[] = [];
   const deletes: SyncDiffEntry[] = [];
 
@@ -179,8 +203,180 @@ export function computePushDiff(
     }
   }
 
+  const moves = detectMoves('upload', uploads, deletes, localFiles, remoteFiles, lastState);
   const totalBytes = uploads.reduce((sum, u) => sum + u.sizeBytes, 0);
-  return { uploads, downloads: [], deletes, totalBytes };
+  return { uploads, downloads: [], deletes, moves, totalBytes };
+}
+
+/**
+ * Compute the diff between local and remote state for a bidirectional sync.
+ * Changes on one side are propagated to the other; files changed on both
+ * sides since the last sync are reported as conflicts. Deletions only
+ * propagate when the surviving side is unchanged — otherwise the file is
+ * restored.
+ */
+export function computeSyncDiff(
+  localFiles: Record<string, FileState>,
+  remoteFiles: Record<string, FileState>,
+  lastState: SyncState,
+): SyncDiff {
+  localFiles = matchRemotePathForms(localFiles, Object.keys(remoteFiles));
+  const uploads: SyncDiffEntry[] = [];
+  const downloads: SyncDiffEntry[] = [];
+  const deletes: SyncDiffEntry[] = [];
+  const conflicts: SyncConflictEntry[] = [];
+
+  const allPaths = new Set([...Object.keys(localFiles), ...Object.keys(remoteFiles)]);
+  for (const docPath of allPaths) {
+    const local = localFiles[docPath];
+    const remote = remoteFiles[docPath];
+    const lastLocal = lastState.local[docPath];
+    const lastRemote = lastState.remote[docPath];
+
+    if (local && remote) {
+      if (detectConflict(local, remote, lastLocal, lastRemote)) {
+        conflicts.push({
+          path: docPath,
+          local,
+          remote,
+          reason: lastLocal && lastRemote ? 'Changed locally and remotely' : 'Content differs (first sync)',
+        });
+      } else if (lastLocal && local.hash !== lastLocal.hash) {
+        uploads.push({
+          path: docPath,
+          action: 'update',
+          direction: 'upload',
+          sizeBytes: local.size,
+          reason: 'Local file updated',
+        });
+      } else if (lastRemote && remote.hash !== lastRemote.hash) {
+        downloads.push({
+          path: docPath,
+          action: 'update',
+          direction: 'download',
+          sizeBytes: remote.size,
+          reason: 'Remote file updated',
+        });
+      }
+    } else if (local) {
+      if (!lastRemote) {
+        uploads.push({
+          path: docPath,
+          action: 'create',
+          direction: 'upload',
+          sizeBytes: local.size,
+          reason: 'New local file',
+        });
+      } else if (lastLocal && local.hash === lastLocal.hash) {
+        deletes.push({
+          path: docPath,
+          action: 'delete',
+          direction: 'download',
+          sizeBytes: 0,
+          reason: 'Deleted from remote',
+        });
+      } else {
+        uploads.push({
+          path: docPath,
+          action: 'create',
+          direction: 'upload',
+          sizeBytes: local.size,
+          reason: 'Deleted remotely, changed locally (sync restores)',
+        });
+      }
+    } else if (remote) {
+      if (!lastLocal) {
+        downloads.push({
+          path: docPath,
+          action: 'create',
+          direction: 'download',
+          sizeBytes: remote.size,
+          reason: 'New remote file',
+        });
+      } else if (lastRemote && remote.hash === lastRemote.hash) {
+        deletes.push({
+          path: docPath,
+          action: 'delete',
+          direction: 'upload',
+          sizeBytes: 0,
+          reason: 'Deleted locally',
+        });
+      } else {
+        downloads.push({
+          path: docPath,
+          action: 'create',
+          direction: 'download',
+          sizeBytes: remote.size,
+          reason: 'Deleted locally, changed remotely (sync restores)',
+        });
+      }
+    }
+  }
+
+  const moves = [
+    ...detectMoves('upload', uploads, deletes, localFiles, remoteFiles, lastState),
+    ...detectMoves('download', downloads, deletes, localFiles, remoteFiles, lastState),
+  ];
+  const totalBytes = [...uploads, ...downloads].reduce((sum, e) => sum + e.sizeBytes, 0)
+    + conflicts.reduce((sum, c) => sum + Math.max(c.local.size, c.remote.size), 0);
+  return { uploads, downloads, deletes, moves, conflicts, totalBytes };
+}
+
+/**
+ * Pair files deleted and created on the same side with identical content
+ * into moves, so the other side renames the document instead of deleting it
+ * and creating a copy (which would lose its history, links and shares).
+ * Paired entries are removed from the creates and deletes lists in place.
+ * A deletion only pairs when the surviving side still holds the last-synced
+ * version; otherwise the move would carry edits it cannot see.
+ */
+function detectMoves(
+  direction: SyncDirection,
+  transfers: SyncDiffEntry[],
+  deletes: SyncDiffEntry[],
+  localFiles: Record<string, FileState>,
+  remoteFiles: Record<string, FileState>,
+  lastState: SyncState,
+): SyncDiffEntry[] {
+  // The side the move happened on, and the side that must replay it
+  const [source, target] = direction === 'upload' ? [localFiles, remoteFiles] : [remoteFiles, localFiles];
+  const [lastSource, lastTarget] = direction === 'upload'
+    ? [lastState.local, lastState.remote]
+    : [lastState.remote, lastState.local];
+
+  const removed = new Map<string, SyncDiffEntry>();
+  for (const entry of deletes) {
+    const lastHash = lastSource[entry.path]?.hash;
+    if (
+      entry.direction === direction &&
+      lastHash &&
+      !removed.has(lastHash) &&
+      target[entry.path]?.hash === lastTarget[entry.path]?.hash
+    ) {
+      removed.set(lastHash, entry);
+    }
+  }
+  if (removed.size === 0) return [];
+
+  const moves: SyncDiffEntry[] = [];
+  for (const entry of [...transfers]) {
+    if (entry.action !== 'create' || target[entry.path]) continue;
+    const hash = source[entry.path]?.hash;
+    const from = hash ? removed.get(hash) : undefined;
+    if (!from) continue;
+    removed.delete(hash!);
+    transfers.splice(transfers.indexOf(entry), 1);
+    deletes.splice(deletes.indexOf(from), 1);
+    moves.push({
+      path: entry.path,
+      fromPath: from.path,
+      action: 'move',
+      direction,
+      sizeBytes: 0,
+      reason: `Moved from ${from.path}`,
+    });
+  }
+  return moves;
 }
 
 /**
@@ -188,7 +384,9 @@ export function computePushDiff(
  */
 export function formatDiff(diff: SyncDiff): string {
   const lines: string[] = [];
-  const allEntries = [...diff.downloads, ...diff.uploads, ...diff.deletes];
+  const conflicts = diff.conflicts ?? [];
+  const moves = diff.moves ?? [];
+  const allEntries = [...diff.downloads, ...diff.uploads, ...diff.deletes, ...moves, ...conflicts];
 
   if (allEntries.length === 0) {
     return 'Everything is up to date.';
@@ -205,6 +403,12 @@ export function formatDiff(diff: SyncDiff): string {
   for (const entry of diff.deletes) {
     lines.push(`  - ${entry.path} (${entry.reason})`);
   }
+  for (const entry of moves) {
+    lines.push(`  > ${entry.fromPath} -> ${entry.path}`);
+  }
+  for (const entry of conflicts) {
+    lines.push(`  ! ${entry.path} (${entry.reason})`);
+  }
 
   const totalFiles = allEntries.length;
   const totalKB = Math.ceil(diff.totalBytes / 1024);
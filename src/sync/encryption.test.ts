@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSDKMock, type SDKMock } from '../__tests__/mocks/sdk.js';
+
+const mockGetVaultKey = vi.fn();
+vi.mock('../config.js', () => ({
+  getCredentialManager: vi.fn(() => ({ getVaultKey: mockGetVaultKey })),
+}));
+
+import { requireVaultKey, withVaultEncryption, createSyncClient } from './encryption.js';
+
+const VAULT_KEY = 'ab'.repeat(32);
+
+describe('sync encryption', () => {
+  let sdkMock: SDKMock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sdkMock = createSDKMock();
+    mockGetVaultKey.mockResolvedValue(VAULT_KEY);
+  });
+
+  describe('requireVaultKey', () => {
+    it('should return the stored key', async () => {
+      await expect(requireVaultKey('vault-1')).resolves.toBe(VAULT_KEY);
+      expect(mockGetVaultKey).toHaveBeenCalledWith('vault-1');
+    });
+
+    it('should throw with import instructions when no key is stored', async () => {
+      mockGetVaultKey.mockResolvedValue(null);
+      await expect(requireVaultKey('vault-1')).rejects.toThrow('lsvault vaults import-key vault-1');
+    });
+  });
+
+  describe('withVaultEncryption', () => {
+    it('should decrypt encrypted documents on get', async () => {
+      sdkMock.documents.get.mockResolvedValue({ content: 'ciphertext', document: { path: 'a.md', encrypted: true } });
+      sdkMock.documents.getEncrypted.mockResolvedValue({ content: '# Plain', document: { path: 'a.md' } });
+      const client = withVaultEncryption(sdkMock as never, VAULT_KEY);
+
+      const result = await client.documents.get('vault-1', 'a.md');
+
+      expect(sdkMock.documents.getEncrypted).toHaveBeenCalledWith('vault-1', 'a.md', VAULT_KEY);
+      expect(result.content).toBe('# Plain');
+      expect(result.document.path).toBe('a.md');
+    });
+
+    it('should return unencrypted documents as-is', async () => {
+      sdkMock.documents.get.mockResolvedValue({ content: '# Legacy', document: { path: 'a.md', encrypted: false } });
+      const client = withVaultEncryption(sdkMock as never, VAULT_KEY);
+
+      const result = await client.documents.get('vault-1', 'a.md');
+
+      expect(result.content).toBe('# Legacy');
+      expect(sdkMock.documents.getEncrypted).not.toHaveBeenCalled();
+    });
+
+    it('should encrypt on put and pass other calls through', async () => {
+      sdkMock.documents.list.mockResolvedValue([]);
+      const client = withVaultEncryption(sdkMock as never, VAULT_KEY);
+
+      await client.documents.put('vault-1', 'a.md', '# Secret');
+      await client.documents.list('vault-1');
+      await client.documents.delete('vault-1', 'b.md');
+
+      expect(sdkMock.documents.putEncrypted).toHaveBeenCalledWith('vault-1', 'a.md', '# Secret', VAULT_KEY);
+      expect(sdkMock.documents.put).not.toHaveBeenCalled();
+      expect(sdkMock.documents.list).toHaveBeenCalledWith('vault-1');
+      expect(sdkMock.documents.delete).toHaveBeenCalledWith('vault-1', 'b.md');
+      expect(client.vaults).toBe(sdkMock.vaults);
+    });
+  });
+
+  describe('createSyncClient', () => {
+    it('should return the client unchanged for unencrypted vaults', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', encryptionEnabled: false });
+
+      const client = await createSyncClient(sdkMock as never, { vaultId: 'vault-1' });
+
+      expect(client).toBe(sdkMock);
+      expect(mockGetVaultKey).not.toHaveBeenCalled();
+    });
+
+    it('should encrypt documents for encrypted vaults', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', encryptionEnabled: true });
+
+      const client = await createSyncClient(sdkMock as never, { vaultId: 'vault-1' });
+      await client.documents.put('vault-1', 'a.md', '# Secret');
+
+      expect(sdkMock.documents.putEncrypted).toHaveBeenCalledWith('vault-1', 'a.md', '# Secret', VAULT_KEY);
+    });
+
+    it('should map frontmatter when configured', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', encryptionEnabled: true });
+      sdkMock.documents.putEncrypted.mockResolvedValue({ path: 'a.md', tags: [] });
+
+      const client = await createSyncClient(sdkMock as never, { vaultId: 'vault-1', frontmatter: ['title'] });
+      await client.documents.put('vault-1', 'a.md', '---\ntitle: Secret\n---\n# Secret');
+
+      expect(sdkMock.documents.putEncrypted).toHaveBeenCalledWith('vault-1', 'a.md', '# Secret', VAULT_KEY);
+    });
+
+    it('should refuse encrypted vaults without a key', async () => {
+      sdkMock.vaults.get.mockResolvedValue({ id: 'vault-1', encryptionEnabled: true });
+      mockGetVaultKey.mockResolvedValue(null);
+
+      await expect(createSyncClient(sdkMock as never, { vaultId: 'vault-1' })).rejects.toThrow('no vault key found');
+    });
+  });
+});
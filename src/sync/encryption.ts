@@ -0,0 +1,74 @@
+/**
+ * End-to-end encrypted vault support for sync.
+ * Encrypted vaults hold ciphertext on the server. The sync engine, watcher and
+ * remote poller work with plaintext through a client whose documents.get/put
+ * decrypt and encrypt with the vault key stored by `lsvault vaults import-key`.
+ */
+import type { LifestreamVaultClient } from '@lifestreamdynamics/vault-sdk';
+import { getCredentialManager } from '../config.js';
+import type { SyncConfig } from './types.js';
+import { withFrontmatter } from './frontmatter.js';
+
+/**
+ * Look up the locally stored encryption key of a vault.
+ * Throws with import instructions if no key is available.
+ */
+export async function requireVaultKey(vaultId: string): Promise<string> {
+  const vaultKey = await getCredentialManager().getVaultKey(vaultId);
+  if (!vaultKey) {
+    throw new Error(
+      `Vault ${vaultId} is encrypted but no vault key found. ` +
+      `Import the key with: lsvault vaults import-key ${vaultId} --key <key>`,
+    );
+  }
+  return vaultKey;
+}
+
+/**
+ * Wrap a client so document reads and writes are transparently decrypted and
+ * encrypted with the given vault key. Documents stored unencrypted (e.g.
+ * created before encryption was enabled) are returned as-is.
+ */
+export function withVaultEncryption(client: LifestreamVaultClient, vaultKey: string): LifestreamVaultClient {
+  const get = async (vaultId: string, docPath: string) => {
+    const result = await client.documents.get(vaultId, docPath);
+    if (!result.document.encrypted) return result;
+    const decrypted = await client.documents.getEncrypted(vaultId, docPath, vaultKey);
+    return { ...result, content: decrypted.content };
+  };
+  const put = (vaultId: string, docPath: string, content: string) =>
+    client.documents.putEncrypted(vaultId, docPath, content, vaultKey);
+
+  const documents = new Proxy(client.documents, {
+    get(target, prop) {
+      if (prop === 'get') return get;
+      if (prop === 'put') return put;
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+  return new Proxy(client, {
+    get(target, prop) {
+      if (prop === 'documents') return documents;
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Prepare a client for syncing a configuration: if the vault is end-to-end
+ * encrypted, returns a client that encrypts and decrypts documents with the
+ * vault key, and if the configuration maps frontmatter, one that maps it
+ * (see frontmatter.ts). Otherwise returns the client unchanged.
+ */
+export async function createSyncClient(
+  client: LifestreamVaultClient,
+  config: Pick<SyncConfig, 'vaultId' | 'frontmatter'>,
+): Promise<LifestreamVaultClient> {
+  const vault = await client.vaults.get(config.vaultId);
+  const syncClient = vault.encryptionEnabled
+    ? withVaultEncryption(client, await requireVaultKey(config.vaultId))
+    : client;
+  return config.frontmatter?.length ? withFrontmatter(syncClient, config.frontmatter) : syncClient;
+}
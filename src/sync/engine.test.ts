@@ -1,11 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import fs from 'node:fs';
+import path from 'node:path';
+import { opendir, readFile, stat } from 'node:fs/promises';
 
 vi.mock('node:fs');
+vi.mock('node:fs/promises');
 const mockedFs = vi.mocked(fs);
 
 // Mock config/state modules
-vi.mock('./state.js', () => ({
+vi.mock('./state.js', async (importOriginal) => ({
+  isStatUnchanged: (await importOriginal<typeof import('./state.js')>()).isStatUnchanged,
+  hashFileStream: vi.fn(async (absPath: string, base64: boolean) => `stream-${base64 ? 'b64' : 'raw'}-${absPath}`),
   loadSyncState: vi.fn(() => ({
     syncId: 'sync-1',
     local: {},
@@ -26,6 +31,39 @@ vi.mock('./config.js', () => ({
   updateLastSync: vi.fn(),
 }));
 
+vi.mock('./base-store.js', () => ({
+  saveBaseContent: vi.fn(),
+  loadBaseContent: vi.fn(() => null),
+  pruneBaseContent: vi.fn(),
+}));
+
+vi.mock('./remote-manifest.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./remote-manifest.js')>(),
+  loadRemoteManifest: vi.fn(() => ({})),
+  saveRemoteManifest: vi.fn(),
+}));
+
+vi.mock('./journal.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./journal.js')>(),
+  beginJournal: vi.fn(() => 'run-1'),
+  endJournal: vi.fn(),
+  journalIntent: vi.fn(),
+  journalDone: vi.fn(),
+  journalFailed: vi.fn(),
+  clearJournal: vi.fn(),
+  loadInterruptedRun: vi.fn(() => null),
+}));
+
+vi.mock('./history.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./history.js')>(),
+  appendSyncHistory: vi.fn(),
+}));
+
+vi.mock('./paths.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./paths.js')>(),
+  isCaseInsensitiveFs: vi.fn(() => false),
+}));
+
 vi.mock('./ignore.js', () => ({
   resolveIgnorePatterns: vi.fn(() => []),
   shouldIgnore: vi.fn(() => false),
@@ -33,12 +71,28 @@ vi.mock('./ignore.js', () => ({
 
 import {
   scanLocalFiles,
+  scanRemoteFiles,
   executePull,
   executePush,
+  executeSync,
+  resumeSyncRun,
 } from './engine.js';
-import { computePullDiff, computePushDiff } from './diff.js';
-import { loadSyncState, saveSyncState } from './state.js';
+import { computePullDiff, computePushDiff, computeSyncDiff } from './diff.js';
+import { loadSyncState, saveSyncState, hashFileStream } from './state.js';
+import { loadBaseContent, saveBaseContent } from './base-store.js';
 import { updateLastSync } from './config.js';
+import { loadRemoteManifest, saveRemoteManifest } from './remote-manifest.js';
+import {
+  beginJournal,
+  journalIntent,
+  journalDone,
+  journalFailed,
+  clearJournal,
+  endJournal,
+  loadInterruptedRun,
+} from './journal.js';
+import { appendSyncHistory } from './history.js';
+import { isCaseInsensitiveFs } from './paths.js';
 import type { SyncConfig, SyncState, FileState } from './types.js';
 
 function makeConfig(overrides: Partial<SyncConfig> = {}): SyncConfig {
@@ -61,40 +115,193 @@ describe('sync engine', () => {
   });
 
   describe('scanLocalFiles', () => {
-    it('should return empty object when directory does not exist', () => {
+    const dirent = (name: string, dir = false) => ({ name, isFile: () => !dir, isDirectory: () => dir });
+    const fileStat = (ino: number) => ({ mtime: new Date('2025-01-01'), size: 7, ino }) as fs.Stats;
+
+    function mockTree(tree: Record<string, ReturnType<typeof dirent>[]>): void {
+      mockedFs.existsSync.mockReturnValue(true);
+      vi.mocked(opendir).mockImplementation((async (dirPath: string) => (async function* () {
+        yield* tree[dirPath] ?? [];
+      })()) as unknown as typeof opendir);
+      vi.mocked(stat).mockImplementation((async () => fileStat(42)) as unknown as typeof stat);
+    }
+
+    it('should return empty object when directory does not exist', async () => {
       mockedFs.existsSync.mockReturnValue(false);
-      const files = scanLocalFiles('/nonexistent', []);
+      const files = await scanLocalFiles('/nonexistent', []);
       expect(files).toEqual({});
     });
 
-    it('should scan .md files recursively', () => {
-      mockedFs.existsSync.mockReturnValue(true);
-      mockedFs.readdirSync.mockImplementation(((dirPath: string) => {
-        if (dirPath === '/vault') {
-          return [
-            { name: 'hello.md', isFile: () => true, isDirectory: () => false },
-            { name: 'sub', isFile: () => false, isDirectory: () => true },
-            { name: 'skip.txt', isFile: () => true, isDirectory: () => false },
-          ] as unknown as fs.Dirent[];
-        }
-        if (dirPath.includes('sub')) {
-          return [
-            { name: 'nested.md', isFile: () => true, isDirectory: () => false },
-          ] as unknown as fs.Dirent[];
-        }
-        return [] as unknown as fs.Dirent[];
-      }) as unknown as typeof fs.readdirSync);
+    it('should scan .md files recursively', async () => {
+      mockTree({
+        '/vault': [dirent('hello.md'), dirent('sub', true), dirent('skip.txt')],
+        [path.join('/vault', 'sub')]: [dirent('nested.md')],
+      });
 
-      mockedFs.readFileSync.mockReturnValue(Buffer.from('content'));
-      mockedFs.statSync.mockReturnValue({
-        mtime: new Date('2025-01-01'),
+      const files = await scanLocalFiles('/vault', []);
+      expect(Object.keys(files).sort()).toEqual(['hello.md', 'sub/nested.md']);
+      expect(files['sub/nested.md']).toEqual({
+        path: 'sub/nested.md',
+        hash: `stream-raw-${path.join('/vault', 'sub', 'nested.md')}`,
+        mtime: '2025-01-01T00:00:00.000Z',
         size: 7,
-      } as fs.Stats);
+        inode: 42,
+      });
+      expect(mockedFs.readFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should include files with the configured extensions', async () => {
+      mockTree({ '/vault': [dirent('note.md'), dirent('photo.PNG'), dirent('data.bin')] });
+
+      const files = await scanLocalFiles('/vault', [], ['.md', '.png']);
+      expect(Object.keys(files).sort()).toEqual(['note.md', 'photo.PNG']);
+      // Binary files are hashed by the base64 content stored in the vault
+      expect(hashFileStream).toHaveBeenCalledWith(path.join('/vault', 'photo.PNG'), true);
+      expect(hashFileStream).toHaveBeenCalledWith(path.join('/vault', 'note.md'), false);
+    });
 
-      const files = scanLocalFiles('/vault', []);
-      expect(Object.keys(files)).toContain('hello.md');
-      expect(Object.keys(files)).toContain('sub/nested.md');
-      expect(Object.keys(files)).not.toContain('skip.txt');
+    it('should reuse cached hashes of files whose stat is unchanged', async () => {
+      mockTree({ '/vault': [dirent('same.md'), dirent('moved.md')] });
+      const cached = { hash: 'cached', mtime: '2025-01-01T00:00:00.000Z', size: 7 };
+      const cache = {
+        'same.md': { path: 'same.md', ...cached, inode: 42 },
+        // Replaced by another file with the same size and mtime
+        'moved.md': { path: 'moved.md', ...cached, inode: 7 },
+      };
+
+      const files = await scanLocalFiles('/vault', [], ['.md'], { cache });
+      expect(files['same.md'].hash).toBe('cached');
+      expect(files['moved.md'].hash).toBe(`stream-raw-${path.join('/vault', 'moved.md')}`);
+      expect(hashFileStream).toHaveBeenCalledTimes(1);
+
+      const rehashed = await scanLocalFiles('/vault', [], ['.md'], { cache, rehash: true });
+      expect(rehashed['same.md'].hash).toBe(`stream-raw-${path.join('/vault', 'same.md')}`);
+    });
+
+    it('should hash text files in normalized form under a normalization policy', async () => {
+      mockTree({ '/vault': [dirent('crlf.md'), dirent('img.png')] });
+      vi.mocked(readFile).mockResolvedValue(Buffer.from('\uFEFFa\r\nb\r\n') as never);
+
+      const files = await scanLocalFiles('/vault', [], ['.md', '.png'], {
+        normalize: { lineEndings: 'lf', stripBom: true },
+      });
+
+      expect(files['crlf.md'].hash).toBe('hash-a\nb\n');
+      expect(files['img.png'].hash).toBe(`stream-b64-${path.join('/vault', 'img.png')}`);
+      expect(hashFileStream).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('scanRemoteFiles', () => {
+    const listed = [
+      { path: 'same.md', fileModifiedAt: '2025-01-01T00:00:00.000Z', sizeBytes: 10, contentHash: null },
+      { path: 'edited.md', fileModifiedAt: '2025-02-01T00:00:00.000Z', sizeBytes: 12, contentHash: null },
+      { path: 'new.md', fileModifiedAt: '2025-01-01T00:00:00.000Z', sizeBytes: 5, contentHash: null },
+    ];
+
+    it('should take hashes of unchanged documents from the manifest', async () => {
+      const client = { documents: { list: vi.fn().mockResolvedValue(listed) } } as any;
+      const manifest = {
+        'same.md': { hash: 'h-same', fileModifiedAt: '2025-01-01T00:00:00.000Z', sizeBytes: 10 },
+        'edited.md': { hash: 'h-old', fileModifiedAt: '2025-01-01T00:00:00.000Z', sizeBytes: 12 },
+      };
+
+      const files = await scanRemoteFiles(client, 'vault-1', [], ['.md'], manifest);
+
+      expect(client.documents.list).toHaveBeenCalledTimes(1);
+      expect(files['same.md'].hash).toBe('h-same');
+      expect(files['edited.md'].hash).toBe('');
+      expect(files['new.md'].hash).toBe('');
+    });
+
+    it('should make a no-op pull download nothing', async () => {
+      const client = { documents: { list: vi.fn().mockResolvedValue([listed[0]]) } } as any;
+      const manifest = {
+        'same.md': { hash: 'h-same', fileModifiedAt: '2025-01-01T00:00:00.000Z', sizeBytes: 10 },
+      };
+      const known = { path: 'same.md', hash: 'h-same', mtime: '', size: 10 };
+      const lastState: SyncState = { syncId: 'sync-1', local: { 'same.md': known }, remote: { 'same.md': known }, updatedAt: '' };
+
+      const remoteFiles = await scanRemoteFiles(client, 'vault-1', [], ['.md'], manifest);
+      const diff = computePullDiff({ 'same.md': known }, remoteFiles, lastState);
+
+      expect(diff.downloads).toHaveLength(0);
+    });
+
+    it('should recognise a document moved on the server by its content hash', async () => {
+      const moved = { path: 'archive/a.md', fileModifiedAt: '2025-03-01T00:00:00.000Z', sizeBytes: 10, contentHash: 'srv' };
+      const client = { documents: { list: vi.fn().mockResolvedValue([moved]) } } as any;
+      const manifest = {
+        'a.md': { hash: 'h-a', fileModifiedAt: '2025-01-01T00:00:00.000Z', sizeBytes: 10, contentHash: 'srv' },
+      };
+
+      const files = await scanRemoteFiles(client, 'vault-1', [], ['.md'], manifest);
+
+      expect(files['archive/a.md'].hash).toBe('h-a');
+    });
+  });
+
+  describe('move detection', () => {
+    const file = (p: string, hash = 'h'): FileState => ({ path: p, hash, mtime: '', size: 5 });
+    const synced: SyncState = {
+      syncId: 's1',
+      local: { 'a.md': file('a.md') },
+      remote: { 'a.md': file('a.md') },
+      updatedAt: '',
+    };
+
+    it('should turn a local rename into a single move on push', () => {
+      const diff = computePushDiff({ 'dir/b.md': file('dir/b.md') }, { 'a.md': file('a.md') }, synced);
+
+      expect(diff.uploads).toHaveLength(0);
+      expect(diff.deletes).toHaveLength(0);
+      expect(diff.moves).toEqual([
+        expect.objectContaining({ path: 'dir/b.md', fromPath: 'a.md', action: 'move', direction: 'upload' }),
+      ]);
+    });
+
+    it('should turn a remote rename into a local move on pull', () => {
+      const diff = computePullDiff({ 'a.md': file('a.md') }, { 'b.md': file('b.md') }, synced);
+
+      expect(diff.downloads).toHaveLength(0);
+      expect(diff.deletes).toHaveLength(0);
+      expect(diff.moves![0]).toMatchObject({ path: 'b.md', fromPath: 'a.md', direction: 'download' });
+    });
+
+    it('should detect moves in both directions during a bidirectional sync', () => {
+      const state: SyncState = {
+        syncId: 's1',
+        local: { 'a.md': file('a.md'), 'c.md': file('c.md', 'hc') },
+        remote: { 'a.md': file('a.md'), 'c.md': file('c.md', 'hc') },
+        updatedAt: '',
+      };
+      const diff = computeSyncDiff(
+        { 'b.md': file('b.md'), 'c.md': file('c.md', 'hc') },
+        { 'a.md': file('a.md'), 'd.md': file('d.md', 'hc') },
+        state,
+      );
+
+      expect(diff.moves!.map(m => [m.fromPath, m.path, m.direction])).toEqual([
+        ['a.md', 'b.md', 'upload'],
+        ['c.md', 'd.md', 'download'],
+      ]);
+      expect(diff.uploads).toHaveLength(0);
+      expect(diff.downloads).toHaveLength(0);
+      expect(diff.deletes).toHaveLength(0);
+    });
+
+    it('should not pair files whose content changed while moving', () => {
+      const diff = computePushDiff({ 'b.md': file('b.md', 'edited') }, { 'a.md': file('a.md') }, synced);
+
+      expect(diff.moves).toHaveLength(0);
+      expect(diff.uploads).toHaveLength(1);
+      expect(diff.deletes).toHaveLength(1);
+    });
+
+    it('should not move over edits made on the other side', () => {
+      const diff = computePushDiff({ 'b.md': file('b.md') }, { 'a.md': file('a.md', 'remote-edit') }, synced);
+
+      expect(diff.moves).toHaveLength(0);
     });
   });
 
@@ -285,6 +492,88 @@ describe('sync engine', () => {
     });
   });
 
+  describe('computeSyncDiff', () => {
+    const base: FileState = { path: 'a.md', hash: 'base', mtime: '', size: 10 };
+    const synced: SyncState = {
+      syncId: 's1',
+      local: { 'a.md': base },
+      remote: { 'a.md': base },
+      updatedAt: '',
+    };
+
+    it('should upload local-only changes', () => {
+      const diff = computeSyncDiff(
+        { 'a.md': { ...base, hash: 'local-new' } },
+        { 'a.md': base },
+        synced,
+      );
+      expect(diff.uploads).toHaveLength(1);
+      expect(diff.downloads).toHaveLength(0);
+      expect(diff.conflicts).toHaveLength(0);
+    });
+
+    it('should download remote-only changes', () => {
+      const diff = computeSyncDiff(
+        { 'a.md': base },
+        { 'a.md': { ...base, hash: 'remote-new' } },
+        synced,
+      );
+      expect(diff.downloads).toHaveLength(1);
+      expect(diff.uploads).toHaveLength(0);
+    });
+
+    it('should report a conflict when both sides changed', () => {
+      const diff = computeSyncDiff(
+        { 'a.md': { ...base, hash: 'local-new' } },
+        { 'a.md': { ...base, hash: 'remote-new' } },
+        synced,
+      );
+      expect(diff.conflicts).toHaveLength(1);
+      expect(diff.conflicts![0].path).toBe('a.md');
+      expect(diff.uploads).toHaveLength(0);
+      expect(diff.downloads).toHaveLength(0);
+    });
+
+    it('should propagate deletions in both directions', () => {
+      const state: SyncState = {
+        syncId: 's1',
+        local: { 'a.md': base, 'b.md': { ...base, path: 'b.md' } },
+        remote: { 'a.md': base, 'b.md': { ...base, path: 'b.md' } },
+        updatedAt: '',
+      };
+      const diff = computeSyncDiff(
+        { 'a.md': base },
+        { 'b.md': { ...base, path: 'b.md' } },
+        state,
+      );
+      expect(diff.deletes).toHaveLength(2);
+      expect(diff.deletes.find(d => d.path === 'a.md')!.direction).toBe('download');
+      expect(diff.deletes.find(d => d.path === 'b.md')!.direction).toBe('upload');
+    });
+
+    it('should restore a file deleted on one side but changed on the other', () => {
+      const diff = computeSyncDiff(
+        {},
+        { 'a.md': { ...base, hash: 'remote-new' } },
+        synced,
+      );
+      expect(diff.deletes).toHaveLength(0);
+      expect(diff.downloads).toHaveLength(1);
+      expect(diff.downloads[0].action).toBe('create');
+    });
+
+    it('should transfer new files in both directions', () => {
+      const diff = computeSyncDiff(
+        { 'local.md': { path: 'local.md', hash: 'l', mtime: '', size: 5 } },
+        { 'remote.md': { path: 'remote.md', hash: 'r', mtime: '', size: 7 } },
+        { syncId: 's1', local: {}, remote: {}, updatedAt: '' },
+      );
+      expect(diff.uploads.map(u => u.path)).toEqual(['local.md']);
+      expect(diff.downloads.map(d => d.path)).toEqual(['remote.md']);
+      expect(diff.totalBytes).toBe(12);
+    });
+  });
+
   describe('executePull', () => {
     it('should download files and update state', async () => {
       const config = makeConfig();
@@ -314,6 +603,113 @@ describe('sync engine', () => {
       expect(updateLastSync).toHaveBeenCalledWith('sync-1');
     });
 
+    it('should record downloaded versions in the remote manifest', async () => {
+      const config = makeConfig();
+      const diff = {
+        uploads: [],
+        downloads: [
+          { path: 'new.md', action: 'create' as const, direction: 'download' as const, sizeBytes: 7, reason: 'New' },
+        ],
+        deletes: [],
+        totalBytes: 7,
+      };
+      const mockClient = {
+        documents: {
+          get: vi.fn().mockResolvedValue({
+            content: '# Hello',
+            document: { path: 'new.md', fileModifiedAt: '2025-03-01T00:00:00.000Z', sizeBytes: 7, contentHash: 'srv-1' },
+          }),
+        },
+      } as any;
+      vi.mocked(loadRemoteManifest).mockReturnValueOnce({
+        'gone.md': { hash: 'x', fileModifiedAt: '', sizeBytes: 0 },
+      });
+      mockedFs.existsSync.mockReturnValue(true);
+
+      await executePull(mockClient, config, diff);
+
+      expect(saveRemoteManifest).toHaveBeenCalledWith('sync-1', {
+        'gone.md': { hash: 'x', fileModifiedAt: '', sizeBytes: 0 },
+        'new.md': { hash: 'hash-# Hello', fileModifiedAt: '2025-03-01T00:00:00.000Z', sizeBytes: 7, contentHash: 'srv-1' },
+      });
+    });
+
+    it('should write text with the line endings of the normalization policy', async () => {
+      const config = makeConfig({ normalize: { lineEndings: 'crlf' } });
+      const diff = {
+        uploads: [],
+        downloads: [
+          { path: 'new.md', action: 'create' as const, direction: 'download' as const, sizeBytes: 8, reason: 'New' },
+        ],
+        deletes: [],
+        totalBytes: 8,
+      };
+      const mockClient = {
+        documents: {
+          get: vi.fn().mockResolvedValue({ content: 'a\r\nb\n', document: { path: 'new.md' } }),
+        },
+      } as any;
+      mockedFs.existsSync.mockReturnValue(true);
+
+      await executePull(mockClient, config, diff);
+
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(expect.stringContaining('new.md.tmp.'), 'a\r\nb\r\n');
+      expect(saveBaseContent).toHaveBeenCalledWith('sync-1', 'a\nb\n', { lineEndings: 'crlf' });
+    });
+
+    it('should write binary attachments as decoded bytes', async () => {
+      const config = makeConfig({ includeExtensions: ['.md', '.png'] });
+      const diff = {
+        uploads: [],
+        downloads: [
+          { path: 'img/a.png', action: 'create' as const, direction: 'download' as const, sizeBytes: 8, reason: 'New' },
+        ],
+        deletes: [],
+        totalBytes: 8,
+      };
+      const mockClient = {
+        documents: {
+          get: vi.fn().mockResolvedValue({ content: 'iVBORw==', document: { path: 'img/a.png' } }),
+        },
+      } as any;
+      mockedFs.existsSync.mockReturnValue(true);
+
+      const result = await executePull(mockClient, config, diff);
+
+      expect(result.filesDownloaded).toBe(1);
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+        expect.stringContaining('a.png.tmp.'),
+        Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+      );
+      expect(saveBaseContent).not.toHaveBeenCalled();
+    });
+
+    it('should skip files over the size limit with an error', async () => {
+      const config = makeConfig({ maxFileSize: 1024 });
+      const diff = {
+        uploads: [],
+        downloads: [
+          { path: 'big.md', action: 'create' as const, direction: 'download' as const, sizeBytes: 4096, reason: 'New' },
+          { path: 'small.md', action: 'create' as const, direction: 'download' as const, sizeBytes: 10, reason: 'New' },
+        ],
+        deletes: [],
+        totalBytes: 4106,
+      };
+      const mockClient = {
+        documents: {
+          get: vi.fn().mockResolvedValue({ content: '# Small', document: { path: 'small.md' } }),
+        },
+      } as any;
+      mockedFs.existsSync.mockReturnValue(true);
+
+      const result = await executePull(mockClient, config, diff);
+
+      expect(mockClient.documents.get).toHaveBeenCalledTimes(1);
+      expect(mockClient.documents.get).toHaveBeenCalledWith('vault-1', 'small.md');
+      expect(result.filesDownloaded).toBe(1);
+      expect(result.errors).toEqual([{ path: 'big.md', error: 'File is 4.0 KB, over the 1.0 KB size limit' }]);
+    });
+
     it('should handle download errors', async () => {
       const config = makeConfig();
       const diff = {
@@ -338,6 +734,74 @@ describe('sync engine', () => {
       expect(result.errors[0].error).toContain('quota exceeded');
     });
 
+    it('should refuse to download documents whose path leaves the sync folder', async () => {
+      const config = makeConfig();
+      const diff = {
+        uploads: [],
+        downloads: [
+          { path: '../outside.md', action: 'create' as const, direction: 'download' as const, sizeBytes: 5, reason: 'New' },
+          { path: 'ok.md', action: 'create' as const, direction: 'download' as const, sizeBytes: 5, reason: 'New' },
+        ],
+        deletes: [
+          { path: 'a/../../b.md', action: 'delete' as const, direction: 'download' as const, sizeBytes: 0, reason: 'Deleted remotely' },
+        ],
+        totalBytes: 10,
+      };
+      const mockClient = {
+        documents: {
+          get: vi.fn().mockResolvedValue({ content: '# Ok', document: { path: 'ok.md' } }),
+        },
+      } as any;
+      mockedFs.existsSync.mockReturnValue(true);
+
+      const result = await executePull(mockClient, config, diff);
+
+      expect(mockClient.documents.get).toHaveBeenCalledTimes(1);
+      expect(mockClient.documents.get).toHaveBeenCalledWith('vault-1', 'ok.md');
+      expect(mockedFs.renameSync).not.toHaveBeenCalledWith(expect.stringContaining('b.md'), expect.anything());
+      expect(result.errors).toEqual([
+        { path: '../outside.md', error: 'Path traversal (..) is not allowed: ../outside.md' },
+        { path: 'a/../../b.md', error: 'Path traversal (..) is not allowed: a/../../b.md' },
+      ]);
+    });
+
+    it('should report documents that differ only in case on a case-insensitive filesystem', async () => {
+      vi.mocked(isCaseInsensitiveFs).mockReturnValueOnce(true);
+      vi.mocked(loadSyncState).mockReturnValueOnce({
+        syncId: 'sync-1',
+        local: { 'Notes/Todo.md': { path: 'Notes/Todo.md', hash: 'h', mtime: '', size: 1 } },
+        remote: {},
+        updatedAt: '1970-01-01T00:00:00.000Z',
+      });
+      const config = makeConfig();
+      const diff = {
+        uploads: [],
+        downloads: [
+          { path: 'notes/todo.md', action: 'create' as const, direction: 'download' as const, sizeBytes: 5, reason: 'New' },
+          { path: 'Readme.md', action: 'create' as const, direction: 'download' as const, sizeBytes: 5, reason: 'New' },
+          { path: 'README.md', action: 'create' as const, direction: 'download' as const, sizeBytes: 5, reason: 'New' },
+        ],
+        deletes: [],
+        totalBytes: 15,
+      };
+      const mockClient = {
+        documents: {
+          get: vi.fn().mockResolvedValue({ content: '# Readme', document: { path: 'README.md' } }),
+        },
+      } as any;
+      mockedFs.existsSync.mockReturnValue(true);
+
+      const result = await executePull(mockClient, config, diff);
+
+      expect(mockClient.documents.get).toHaveBeenCalledTimes(1);
+      expect(mockClient.documents.get).toHaveBeenCalledWith('vault-1', 'README.md');
+      expect(result.errors).toEqual(expect.arrayContaining([
+        { path: 'notes/todo.md', error: 'Case collision with Notes/Todo.md; rename one of them in the vault' },
+        { path: 'Readme.md', error: 'Case collision with README.md; rename one of them in the vault' },
+      ]));
+      expect(result.errors).toHaveLength(2);
+    });
+
     it('should delete local files on remote deletion', async () => {
       const config = makeConfig();
       const diff = {
@@ -354,7 +818,114 @@ describe('sync engine', () => {
       const result = await executePull({} as any, config, diff);
 
       expect(result.filesDeleted).toBe(1);
-      expect(mockedFs.unlinkSync).toHaveBeenCalled();
+      expect(mockedFs.unlinkSync).not.toHaveBeenCalled();
+      expect(mockedFs.renameSync).toHaveBeenCalledWith(
+        expect.stringMatching(/old\.md$/),
+        expect.stringMatching(/\.lsvault[\\/]trash[\\/][\dT-]+Z[\\/]old\.md$/),
+      );
+    });
+
+    it('should refuse deletions over the mass-deletion threshold unless allowed', async () => {
+      const config = makeConfig();
+      const paths = ['a.md', 'b.md', 'c.md', 'd.md', 'e.md', 'f.md'];
+      const tracked = Object.fromEntries(paths.map(p => [p, { path: p, hash: 'h', mtime: '', size: 1 }]));
+      const diff = {
+        uploads: [],
+        downloads: [],
+        deletes: paths.map(p => ({ path: p, action: 'delete' as const, direction: 'download' as const, sizeBytes: 0, reason: 'Deleted remotely' })),
+        totalBytes: 0,
+      };
+      const trackedState = () => ({ syncId: 'sync-1', local: { ...tracked }, remote: { ...tracked }, updatedAt: '' });
+      mockedFs.existsSync.mockReturnValue(true);
+
+      vi.mocked(loadSyncState).mockReturnValueOnce(trackedState());
+      await expect(executePull({} as any, config, diff)).rejects.toThrow(/Refusing to delete 6 of 6 tracked file\(s\).*--allow-mass-delete/);
+      expect(mockedFs.renameSync).not.toHaveBeenCalled();
+      expect(beginJournal).not.toHaveBeenCalled();
+
+      vi.mocked(loadSyncState).mockReturnValueOnce(trackedState());
+      const result = await executePull({} as any, config, diff, undefined, { allowMassDelete: true });
+      expect(result.filesDeleted).toBe(6);
+    });
+
+    it('should transfer files in parallel up to the concurrency with ordered progress', async () => {
+      const config = makeConfig({ concurrency: 2 });
+      const entry = (p: string) => ({ path: p, action: 'create' as const, direction: 'download' as const, sizeBytes: 10, reason: 'New' });
+      const diff = { uploads: [], downloads: ['a.md', 'b.md', 'c.md'].map(entry), deletes: [], totalBytes: 30 };
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const mockClient = {
+        documents: {
+          get: vi.fn(async (_vaultId: string, docPath: string) => {
+            maxInFlight = Math.max(maxInFlight, ++inFlight);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            inFlight--;
+            return { content: `# ${docPath}`, document: {} };
+          }),
+        },
+      } as any;
+      mockedFs.existsSync.mockReturnValue(true);
+      const progress: string[] = [];
+
+      const result = await executePull(mockClient, config, diff, (p) => {
+        if (p.phase === 'transferring') progress.push(`${p.current}:${p.currentFile}`);
+      });
+
+      expect(result.filesDownloaded).toBe(3);
+      expect(maxInFlight).toBe(2);
+      expect(progress).toEqual(['1:a.md', '2:b.md', '3:c.md']);
+    });
+
+    it('should let the concurrency option override the config', async () => {
+      const config = makeConfig({ concurrency: 4 });
+      const entry = (p: string) => ({ path: p, action: 'create' as const, direction: 'download' as const, sizeBytes: 10, reason: 'New' });
+      const diff = { uploads: [], downloads: ['a.md', 'b.md'].map(entry), deletes: [], totalBytes: 20 };
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const mockClient = {
+        documents: {
+          get: vi.fn(async () => {
+            maxInFlight = Math.max(maxInFlight, ++inFlight);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            inFlight--;
+            return { content: '# Doc', document: {} };
+          }),
+        },
+      } as any;
+      mockedFs.existsSync.mockReturnValue(true);
+
+      await executePull(mockClient, config, diff, undefined, { concurrency: 1 });
+
+      expect(maxInFlight).toBe(1);
+    });
+
+    it('should rename local files moved remotely and carry over their state', async () => {
+      const config = makeConfig();
+      const known = { path: 'a.md', hash: 'h', mtime: '', size: 5 };
+      vi.mocked(loadSyncState).mockReturnValueOnce({ syncId: 'sync-1', local: { 'a.md': known }, remote: { 'a.md': known }, updatedAt: '' });
+      vi.mocked(loadRemoteManifest).mockReturnValueOnce({ 'a.md': { hash: 'h', fileModifiedAt: 't', sizeBytes: 5 } });
+      mockedFs.existsSync.mockReturnValue(false);
+      const diff = {
+        uploads: [],
+        downloads: [],
+        deletes: [],
+        moves: [
+          { path: 'notes/b.md', fromPath: 'a.md', action: 'move' as const, direction: 'download' as const, sizeBytes: 0, reason: 'Moved from a.md' },
+        ],
+        totalBytes: 0,
+      };
+
+      const result = await executePull({} as any, config, diff);
+
+      expect(result.filesMoved).toBe(1);
+      expect(mockedFs.mkdirSync).toHaveBeenCalledWith('/home/user/vault/notes', { recursive: true });
+      expect(mockedFs.renameSync).toHaveBeenCalledWith('/home/user/vault/a.md', '/home/user/vault/notes/b.md');
+      const saved = vi.mocked(saveSyncState).mock.calls[0][0];
+      expect(saved.local).toEqual({ 'notes/b.md': { ...known, path: 'notes/b.md' } });
+      expect(saved.remote).toEqual({ 'notes/b.md': { ...known, path: 'notes/b.md' } });
+      expect(vi.mocked(saveRemoteManifest).mock.calls[0][1]).toEqual({
+        'notes/b.md': { hash: 'h', fileModifiedAt: 't', sizeBytes: 5 },
+      });
     });
   });
 
@@ -376,7 +947,7 @@ describe('sync engine', () => {
         },
       } as any;
 
-      mockedFs.readFileSync.mockReturnValue('# Local content');
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('# Local content'));
 
       const result = await executePush(mockClient, config, diff);
 
@@ -387,6 +958,49 @@ describe('sync engine', () => {
       expect(updateLastSync).toHaveBeenCalledWith('sync-1');
     });
 
+    it('should upload binary attachments base64-encoded', async () => {
+      const config = makeConfig({ includeExtensions: ['.pdf'] });
+      const diff = {
+        uploads: [
+          { path: 'doc.pdf', action: 'create' as const, direction: 'upload' as const, sizeBytes: 4, reason: 'New' },
+        ],
+        downloads: [],
+        deletes: [],
+        totalBytes: 4,
+      };
+      const mockClient = {
+        documents: {
+          put: vi.fn().mockResolvedValue({ path: 'doc.pdf' }),
+        },
+      } as any;
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('%PDF'));
+
+      const result = await executePush(mockClient, config, diff);
+
+      expect(result.filesUploaded).toBe(1);
+      expect(mockClient.documents.put).toHaveBeenCalledWith('vault-1', 'doc.pdf', Buffer.from('%PDF').toString('base64'));
+    });
+
+    it('should refuse files synced as text that are not UTF-8 text', async () => {
+      const config = makeConfig({ includeExtensions: ['*'] });
+      const diff = {
+        uploads: [
+          { path: 'notes.bak', action: 'create' as const, direction: 'upload' as const, sizeBytes: 4, reason: 'New' },
+        ],
+        downloads: [],
+        deletes: [],
+        totalBytes: 4,
+      };
+      const mockClient = { documents: { put: vi.fn() } } as any;
+      mockedFs.readFileSync.mockReturnValue(Buffer.from([0x63, 0x61, 0x66, 0xe9]));
+
+      const result = await executePush(mockClient, config, diff);
+
+      expect(result.filesUploaded).toBe(0);
+      expect(mockClient.documents.put).not.toHaveBeenCalled();
+      expect(result.errors).toEqual([{ path: 'notes.bak', error: expect.stringContaining('notes.bak is not UTF-8 text') }]);
+    });
+
     it('should delete remote files on local deletion', async () => {
       const config = makeConfig();
       const diff = {
@@ -410,6 +1024,34 @@ describe('sync engine', () => {
       expect(mockClient.documents.delete).toHaveBeenCalledWith('vault-1', 'old.md');
     });
 
+    it('should move remote documents renamed locally', async () => {
+      const config = makeConfig();
+      const diff = {
+        uploads: [],
+        downloads: [],
+        deletes: [],
+        moves: [
+          { path: 'b.md', fromPath: 'a.md', action: 'move' as const, direction: 'upload' as const, sizeBytes: 0, reason: 'Moved from a.md' },
+        ],
+        totalBytes: 0,
+      };
+      const mockClient = {
+        documents: {
+          move: vi.fn().mockResolvedValue({ source: 'a.md', destination: 'b.md' }),
+          put: vi.fn(),
+          delete: vi.fn(),
+        },
+      } as any;
+
+      const result = await executePush(mockClient, config, diff);
+
+      expect(result.filesMoved).toBe(1);
+      expect(result.filesUploaded).toBe(0);
+      expect(mockClient.documents.move).toHaveBeenCalledWith('vault-1', 'a.md', 'b.md');
+      expect(mockClient.documents.put).not.toHaveBeenCalled();
+      expect(mockClient.documents.delete).not.toHaveBeenCalled();
+    });
+
     it('should stop on quota errors', async () => {
       const config = makeConfig();
       const diff = {
@@ -428,7 +1070,7 @@ describe('sync engine', () => {
         },
       } as any;
 
-      mockedFs.readFileSync.mockReturnValue('content');
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('content'));
 
       const result = await executePush(mockClient, config, diff);
 
@@ -436,5 +1078,506 @@ describe('sync engine', () => {
       expect(result.errors).toHaveLength(1);
       expect(result.filesUploaded).toBe(0);
     });
+
+    it('should start no further parallel transfers after a quota error', async () => {
+      const config = makeConfig({ concurrency: 2 });
+      const entry = (p: string) => ({ path: p, action: 'create' as const, direction: 'upload' as const, sizeBytes: 10, reason: 'New' });
+      const diff = { uploads: ['a.md', 'b.md', 'c.md', 'd.md'].map(entry), downloads: [], deletes: [], totalBytes: 40 };
+      const mockClient = {
+        documents: {
+          put: vi.fn(async (_vaultId: string, docPath: string) => {
+            if (docPath === 'c.md') throw new Error('storage limit exceeded');
+            await new Promise(resolve => setTimeout(resolve, 5));
+            return { path: docPath };
+          }),
+        },
+      } as any;
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('content'));
+
+      const result = await executePush(mockClient, config, diff);
+
+      // b.md was in flight alongside c.md and completes; d.md never starts
+      expect(mockClient.documents.put.mock.calls.map((c: unknown[]) => c[1])).toEqual(['a.md', 'b.md', 'c.md']);
+      expect(result.filesUploaded).toBe(2);
+      expect(result.errors).toEqual([{ path: 'c.md', error: 'storage limit exceeded' }]);
+    });
+
+    it('should report a transfer that fails before it starts', async () => {
+      const config = makeConfig({ concurrency: 2 });
+      const entry = (p: string) => ({ path: p, action: 'create' as const, direction: 'upload' as const, sizeBytes: 10, reason: 'New' });
+      const diff = { uploads: ['a.md', 'b.md'].map(entry), downloads: [], deletes: [], totalBytes: 20 };
+      const mockClient = { documents: { put: vi.fn(async (_vaultId: string, docPath: string) => ({ path: docPath })) } } as any;
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('content'));
+      const onProgress = vi.fn((progress: { currentFile?: string }) => {
+        if (progress.currentFile === 'a.md') throw new Error('Progress display failed');
+      });
+
+      const result = await executePush(mockClient, config, diff, onProgress);
+
+      expect(mockClient.documents.put.mock.calls.map((c: unknown[]) => c[1])).toEqual(['b.md']);
+      expect(result.filesUploaded).toBe(1);
+      expect(result.errors).toEqual([{ path: 'a.md', error: 'Progress display failed' }]);
+    });
+
+    it('should wait for Retry-After when rate limited', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+      try {
+        const config = makeConfig();
+        const diff = {
+          uploads: [{ path: 'a.md', action: 'create' as const, direction: 'upload' as const, sizeBytes: 10, reason: 'New' }],
+          downloads: [],
+          deletes: [],
+          totalBytes: 10,
+        };
+        const rateLimited = Object.assign(new Error('Too Many Requests'), { status: 429, headers: { 'retry-after': '3' } });
+        const mockClient = {
+          documents: {
+            put: vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValue({ path: 'a.md' }),
+          },
+        } as any;
+        mockedFs.readFileSync.mockReturnValue(Buffer.from('content'));
+
+        const pending = executePush(mockClient, config, diff);
+        await vi.advanceTimersByTimeAsync(2900);
+        expect(mockClient.documents.put).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(200);
+        const result = await pending;
+
+        expect(mockClient.documents.put).toHaveBeenCalledTimes(2);
+        expect(result.filesUploaded).toBe(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('executeSync', () => {
+    const base: FileState = { path: 'a.md', hash: 'hash-base', mtime: '2025-01-01T00:00:00.000Z', size: 4 };
+
+    it('should execute uploads, downloads and deletes in one run', async () => {
+      const config = makeConfig();
+      const diff = {
+        uploads: [
+          { path: 'up.md', action: 'create' as const, direction: 'upload' as const, sizeBytes: 5, reason: 'New' },
+        ],
+        downloads: [
+          { path: 'down.md', action: 'create' as const, direction: 'download' as const, sizeBytes: 7, reason: 'New' },
+        ],
+        deletes: [
+          { path: 'gone.md', action: 'delete' as const, direction: 'upload' as const, sizeBytes: 0, reason: 'Deleted locally' },
+        ],
+        conflicts: [],
+        totalBytes: 12,
+      };
+
+      const mockClient = {
+        documents: {
+          get: vi.fn().mockResolvedValue({ content: 'remote', document: { path: 'down.md' } }),
+          put: vi.fn().mockResolvedValue({}),
+          delete: vi.fn().mockResolvedValue(undefined),
+        },
+      } as any;
+
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('local'));
+
+      const result = await executeSync(mockClient, config, diff);
+
+      expect(result.filesUploaded).toBe(1);
+      expect(result.filesDownloaded).toBe(1);
+      expect(result.filesDeleted).toBe(1);
+      expect(mockClient.documents.put).toHaveBeenCalledWith('vault-1', 'up.md', 'local');
+      expect(mockClient.documents.delete).toHaveBeenCalledWith('vault-1', 'gone.md');
+      expect(saveSyncState).toHaveBeenCalled();
+    });
+
+    it('should resolve true conflicts with the configured strategy', async () => {
+      vi.mocked(loadSyncState).mockReturnValueOnce({
+        syncId: 'sync-1',
+        local: { 'a.md': base },
+        remote: { 'a.md': base },
+        updatedAt: '',
+      });
+      const config = makeConfig({ onConflict: 'local' });
+      const diff = {
+        uploads: [],
+        downloads: [],
+        deletes: [],
+        conflicts: [{
+          path: 'a.md',
+          local: { ...base, hash: 'l' },
+          remote: { ...base, hash: 'r' },
+          reason: 'Changed locally and remotely',
+        }],
+        totalBytes: 4,
+      };
+
+      const mockClient = {
+        documents: {
+          get: vi.fn().mockResolvedValue({ content: 'remote edit', document: { path: 'a.md' } }),
+          put: vi.fn().mockResolvedValue({}),
+        },
+      } as any;
+
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('local edit'));
+
+      const result = await executeSync(mockClient, config, diff);
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0].resolution).toBe('local');
+      expect(result.conflicts[0].conflictFile).toContain('conflicted.remote');
+      expect(mockClient.documents.put).toHaveBeenCalledWith('vault-1', 'a.md', 'local edit');
+      expect(result.filesUploaded).toBe(1);
+    });
+
+    it('should not report a conflict when the remote content is unchanged', async () => {
+      vi.mocked(loadSyncState).mockReturnValueOnce({
+        syncId: 'sync-1',
+        local: { 'a.md': base },
+        remote: { 'a.md': { ...base, hash: 'hash-remote unc' } },
+        updatedAt: '',
+      });
+      const config = makeConfig();
+      const diff = {
+        uploads: [],
+        downloads: [],
+        deletes: [],
+        conflicts: [{
+          path: 'a.md',
+          local: { ...base, hash: 'l' },
+          remote: { ...base, hash: '' },
+          reason: 'Changed locally and remotely',
+        }],
+        totalBytes: 4,
+      };
+
+      const mockClient = {
+        documents: {
+          get: vi.fn().mockResolvedValue({ content: 'remote unchanged', document: { path: 'a.md' } }),
+          put: vi.fn().mockResolvedValue({}),
+        },
+      } as any;
+
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('local edit'));
+
+      const result = await executeSync(mockClient, config, diff);
+
+      expect(result.conflicts).toHaveLength(0);
+      expect(result.filesUploaded).toBe(1);
+      expect(mockClient.documents.put).toHaveBeenCalledWith('vault-1', 'a.md', 'local edit');
+    });
+
+    it('should not treat line-ending differences as a conflict under a normalization policy', async () => {
+      const config = makeConfig({ normalize: { lineEndings: 'lf', stripBom: true } });
+      const diff = {
+        uploads: [],
+        downloads: [],
+        deletes: [],
+        conflicts: [{
+          path: 'a.md',
+          local: { ...base, hash: 'l' },
+          remote: { ...base, hash: 'r' },
+          reason: 'Changed locally and remotely',
+        }],
+        totalBytes: 4,
+      };
+      const mockClient = {
+        documents: {
+          get: vi.fn().mockResolvedValue({ content: 'one\ntwo\n', document: { path: 'a.md' } }),
+          put: vi.fn(),
+        },
+      } as any;
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('\uFEFFone\r\ntwo\r\n'));
+
+      const result = await executeSync(mockClient, config, diff);
+
+      expect(result.conflicts).toHaveLength(0);
+      expect(result.filesUploaded).toBe(0);
+      expect(mockClient.documents.put).not.toHaveBeenCalled();
+    });
+
+    it('should merge non-overlapping edits using the stored base revision', async () => {
+      vi.mocked(loadSyncState).mockReturnValueOnce({
+        syncId: 'sync-1',
+        local: { 'a.md': base },
+        remote: { 'a.md': base },
+        updatedAt: '',
+      });
+      vi.mocked(loadBaseContent).mockReturnValueOnce('one\ntwo\nthree\n');
+      const config = makeConfig({ onConflict: 'remote' });
+      const diff = {
+        uploads: [],
+        downloads: [],
+        deletes: [],
+        conflicts: [{
+          path: 'a.md',
+          local: { ...base, hash: 'l' },
+          remote: { ...base, hash: 'r' },
+          reason: 'Changed locally and remotely',
+        }],
+        totalBytes: 4,
+      };
+
+      const mockClient = {
+        documents: {
+          get: vi.fn().mockResolvedValue({ content: 'one\ntwo\nTHREE\n', document: { path: 'a.md' } }),
+          put: vi.fn().mockResolvedValue({}),
+        },
+      } as any;
+
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('ONE\ntwo\nthree\n'));
+
+      const result = await executeSync(mockClient, config, diff);
+
+      expect(result.conflicts).toEqual([{ path: 'a.md', resolution: 'merged', conflictFile: null }]);
+      expect(mockClient.documents.put).toHaveBeenCalledWith('vault-1', 'a.md', 'ONE\ntwo\nTHREE\n');
+      expect(saveBaseContent).toHaveBeenCalledWith('sync-1', 'ONE\ntwo\nTHREE\n', undefined);
+    });
+
+    describe('with the ask strategy', () => {
+      const conflictDiff = () => ({
+        uploads: [],
+        downloads: [],
+        deletes: [],
+        conflicts: [{
+          path: 'a.md',
+          local: { ...base, hash: 'l' },
+          remote: { ...base, hash: 'r' },
+          reason: 'Changed locally and remotely',
+        }],
+        totalBytes: 4,
+      });
+
+      beforeEach(() => {
+        vi.mocked(loadSyncState).mockReturnValueOnce({
+          syncId: 'sync-1',
+          local: { 'a.md': base },
+          remote: { 'a.md': base },
+          updatedAt: '',
+        });
+        mockedFs.existsSync.mockReturnValue(false);
+        mockedFs.readFileSync.mockReturnValue(Buffer.from('local edit'));
+      });
+
+      it('should queue the conflict when no prompt is available', async () => {
+        const mockClient = {
+          documents: {
+            get: vi.fn().mockResolvedValue({ content: 'remote edit', document: { path: 'a.md' } }),
+            put: vi.fn().mockResolvedValue({}),
+          },
+        } as any;
+
+        const result = await executeSync(mockClient, makeConfig({ onConflict: 'ask' }), conflictDiff());
+
+        expect(result.conflicts).toEqual([{ path: 'a.md', resolution: 'queued', conflictFile: null }]);
+        expect(mockClient.documents.put).not.toHaveBeenCalled();
+        expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+          expect.stringContaining('sync-1.conflicts.json'),
+          expect.stringContaining('"remoteContent": "remote edit"'),
+          { mode: 0o600 },
+        );
+        const savedState = vi.mocked(saveSyncState).mock.calls[0][0] as SyncState;
+        expect(savedState.local['a.md']).toEqual(base);
+      });
+
+      it('should apply the prompted decision', async () => {
+        const mockClient = {
+          documents: {
+            get: vi.fn().mockResolvedValue({ content: 'remote edit', document: { path: 'a.md' } }),
+            put: vi.fn().mockResolvedValue({}),
+          },
+        } as any;
+        const prompt = vi.fn().mockResolvedValue({ resolution: 'both' });
+
+        const result = await executeSync(mockClient, makeConfig({ onConflict: 'ask' }), conflictDiff(), undefined, { prompt });
+
+        expect(prompt).toHaveBeenCalledWith({
+          docPath: 'a.md',
+          localContent: 'local edit',
+          remoteContent: 'remote edit',
+          baseContent: null,
+          binary: false,
+        });
+        expect(result.conflicts[0].resolution).toBe('both');
+        expect(result.conflicts[0].conflictFile).toContain('conflicted.remote');
+        expect(mockClient.documents.put).toHaveBeenCalledWith('vault-1', 'a.md', 'local edit');
+        expect(result.filesUploaded).toBe(1);
+      });
+
+      it('should check pull updates for local edits and never upload', async () => {
+        const mockClient = {
+          documents: {
+            get: vi.fn().mockResolvedValue({ content: 'remote edit', document: { path: 'a.md' } }),
+            put: vi.fn().mockResolvedValue({}),
+          },
+        } as any;
+        const prompt = vi.fn().mockResolvedValue({ resolution: 'local' });
+        const diff = {
+          downloads: [{ path: 'a.md', action: 'update' as const, direction: 'download' as const, sizeBytes: 11, reason: 'Remote file updated' }],
+          uploads: [],
+          deletes: [],
+          totalBytes: 11,
+        };
+
+        const result = await executePull(mockClient, makeConfig({ mode: 'pull', onConflict: 'ask' }), diff, undefined, { prompt });
+
+        expect(prompt).toHaveBeenCalled();
+        expect(result.conflicts[0].resolution).toBe('local');
+        expect(mockClient.documents.put).not.toHaveBeenCalled();
+        expect(mockedFs.renameSync).not.toHaveBeenCalled();
+        expect(result.filesDownloaded).toBe(0);
+      });
+    });
+  });
+
+  describe('journal', () => {
+    const upload = (p: string) => ({ path: p, action: 'create' as const, direction: 'upload' as const, sizeBytes: 5, reason: 'New' });
+
+    it('should journal each operation before and after it runs', async () => {
+      const diff = { uploads: [upload('a.md'), upload('b.md')], downloads: [], deletes: [], totalBytes: 10 };
+      const mockClient = {
+        documents: {
+          put: vi.fn(async (_vaultId: string, docPath: string) => {
+            if (docPath === 'b.md') throw new Error('forbidden');
+            return { path: docPath };
+          }),
+        },
+      } as any;
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('# Doc'));
+
+      await executePush(mockClient, makeConfig({ concurrency: 1 }), diff);
+
+      expect(beginJournal).toHaveBeenCalledWith('sync-1');
+      expect(journalIntent).toHaveBeenNthCalledWith(1, 'sync-1', { seq: 1, op: 'upload', path: 'a.md' });
+      expect(journalIntent).toHaveBeenNthCalledWith(2, 'sync-1', { seq: 2, op: 'upload', path: 'b.md' });
+      expect(journalDone).toHaveBeenCalledWith('sync-1', 1, [
+        expect.objectContaining({ path: 'a.md', local: expect.objectContaining({ hash: 'hash-# Doc' }) }),
+      ]);
+      expect(journalFailed).toHaveBeenCalledWith('sync-1', 2);
+      // The journal is only dropped once the state is safely saved
+      expect(vi.mocked(clearJournal).mock.invocationCallOrder[0])
+        .toBeGreaterThan(vi.mocked(saveSyncState).mock.invocationCallOrder[0]);
+    });
+
+    it('should end the run even when it fails midway', async () => {
+      const diff = { uploads: [upload('a.md')], downloads: [], deletes: [], totalBytes: 5 };
+      const mockClient = { documents: { put: vi.fn(async () => ({ path: 'a.md' })) } } as any;
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('# Doc'));
+      vi.mocked(saveSyncState).mockImplementationOnce(() => {
+        throw new Error('ENOSPC: no space left on device');
+      });
+
+      await expect(executePush(mockClient, makeConfig(), diff)).rejects.toThrow('ENOSPC');
+
+      expect(endJournal).toHaveBeenCalledWith('run-1');
+      expect(clearJournal).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to start while a previous run is unrecovered', async () => {
+      vi.mocked(loadInterruptedRun).mockReturnValueOnce({ startedAt: 't', completed: [], pending: [] });
+      const diff = { uploads: [upload('a.md')], downloads: [], deletes: [], totalBytes: 5 };
+
+      await expect(executePush({} as any, makeConfig(), diff)).rejects.toThrow('lsvault sync resume sync-1');
+      expect(beginJournal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('history', () => {
+    it('should record the run with its trigger, changes and errors', async () => {
+      const upload = (p: string) => ({ path: p, action: 'create' as const, direction: 'upload' as const, sizeBytes: 5, reason: 'New' });
+      const diff = { uploads: [upload('a.md'), upload('b.md')], downloads: [], deletes: [], totalBytes: 10 };
+      const mockClient = {
+        documents: {
+          put: vi.fn(async (_vaultId: string, docPath: string) => {
+            if (docPath === 'b.md') throw new Error('forbidden');
+            return { path: docPath };
+          }),
+        },
+      } as any;
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('# Doc'));
+
+      await executePush(mockClient, makeConfig({ concurrency: 1 }), diff, undefined, { trigger: 'daemon' });
+
+      expect(appendSyncHistory).toHaveBeenCalledWith('sync-1', expect.objectContaining({
+        trigger: 'daemon',
+        operation: 'push',
+        filesUploaded: 1,
+        changes: [{ path: 'a.md', op: 'upload' }],
+        errors: [{ path: 'b.md', error: 'forbidden' }],
+      }));
+    });
+
+    it('should record a resumed run', async () => {
+      vi.mocked(loadInterruptedRun).mockReturnValueOnce({
+        startedAt: 't',
+        completed: [],
+        pending: [{ seq: 1, op: 'download', path: 'todo.md' }],
+      });
+      mockedFs.existsSync.mockReturnValue(false);
+      const mockClient = {
+        documents: { get: vi.fn().mockResolvedValue({ content: '# Todo', document: {} }) },
+      } as any;
+
+      await resumeSyncRun(mockClient, makeConfig());
+
+      expect(appendSyncHistory).toHaveBeenCalledWith('sync-1', expect.objectContaining({
+        trigger: 'manual',
+        operation: 'resume',
+        filesDownloaded: 1,
+        changes: [{ path: 'todo.md', op: 'download' }],
+      }));
+    });
+  });
+
+  describe('resumeSyncRun', () => {
+    const synced = { path: 'done.md', hash: 'h-done', mtime: '', size: 4 };
+
+    beforeEach(() => {
+      vi.mocked(loadInterruptedRun).mockReturnValueOnce({
+        startedAt: 't',
+        completed: [[{ path: 'done.md', local: synced, remote: synced, manifest: null }]],
+        pending: [{ seq: 2, op: 'download', path: 'todo.md' }],
+      });
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readdirSync.mockReturnValue(['todo.md.tmp.abcd1234', 'other.md'] as never);
+    });
+
+    it('should return null when no run was interrupted', async () => {
+      vi.mocked(loadInterruptedRun).mockReset().mockReturnValue(null);
+      await expect(resumeSyncRun({} as any, makeConfig())).resolves.toBeNull();
+      expect(saveSyncState).not.toHaveBeenCalled();
+    });
+
+    it('should record finished operations and redo those in flight', async () => {
+      const mockClient = {
+        documents: { get: vi.fn().mockResolvedValue({ content: '# Todo', document: {} }) },
+      } as any;
+
+      const result = await resumeSyncRun(mockClient, makeConfig());
+
+      expect(result).toEqual({ completed: 1, redone: 1, rolledBack: 0, errors: [] });
+      expect(mockedFs.unlinkSync).toHaveBeenCalledWith('/home/user/vault/todo.md.tmp.abcd1234');
+      expect(mockClient.documents.get).toHaveBeenCalledWith('vault-1', 'todo.md');
+      const saved = vi.mocked(saveSyncState).mock.calls[0][0];
+      expect(saved.local['done.md']).toEqual(synced);
+      expect(saved.local['todo.md'].hash).toBe('hash-# Todo');
+      expect(clearJournal).toHaveBeenCalledWith('sync-1');
+    });
+
+    it('should leave operations in flight undone when rolling back', async () => {
+      const mockClient = { documents: { get: vi.fn() } } as any;
+
+      const result = await resumeSyncRun(mockClient, makeConfig(), { rollback: true });
+
+      expect(result).toEqual({ completed: 1, redone: 0, rolledBack: 1, errors: [] });
+      expect(mockClient.documents.get).not.toHaveBeenCalled();
+      const saved = vi.mocked(saveSyncState).mock.calls[0][0];
+      expect(saved.local['done.md']).toEqual(synced);
+      expect(saved.local['todo.md']).toBeUndefined();
+    });
   });
 });
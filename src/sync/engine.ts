@@ -2,20 +2,92 @@
  * Core sync engine — performs pull and push operations.
  */
 import fs from 'node:fs';
+import { opendir, readFile, stat } from 'node:fs/promises';
 import path from 'node:path';
 import { randomBytes } from 'node:crypto';
 import type { LifestreamVaultClient } from '@lifestreamdynamics/vault-sdk';
-import type { SyncConfig, SyncState, FileState } from './types.js';
-import { loadSyncState, saveSyncState, hashFileContent, buildRemoteFileState } from './state.js';
+import type { SyncConfig, SyncState, FileState, NormalizePolicy } from './types.js';
+import {
+  loadSyncState,
+  saveSyncState,
+  hashFileContent,
+  hashFileStream,
+  isStatUnchanged,
+  buildRemoteFileState,
+} from './state.js';
 import { updateLastSync } from './config.js';
 import { resolveIgnorePatterns, shouldIgnore } from './ignore.js';
-import { computePullDiff, computePushDiff, type SyncDiff, type SyncDiffEntry } from './diff.js';
+import {
+  resolveConflict,
+  createConflictFile,
+  mergeWithBase,
+  askConflict,
+  planConflictDecision,
+  type ConflictResolution,
+  type ConflictPrompt,
+  type ConflictPlan,
+} from './conflict.js';
+import { saveBaseContent, loadBaseContent, pruneBaseContent } from './base-store.js';
+import {
+  DEFAULT_INCLUDE_EXTENSIONS,
+  isIncludedPath,
+  isBinaryPath,
+  decodedSize,
+  encodeContent,
+  decodeContent,
+  resolveMaxFileSize,
+} from './attachments.js';
+import {
+  loadRemoteManifest,
+  saveRemoteManifest,
+  recordRemoteDocument,
+  knownRemoteHash,
+  type RemoteManifest,
+  type RemoteDocumentMeta,
+} from './remote-manifest.js';
+import {
+  beginJournal,
+  journalIntent,
+  journalDone,
+  journalFailed,
+  clearJournal,
+  endJournal,
+  loadInterruptedRun,
+  snapshotPaths,
+  applyStateChanges,
+  type JournalOperation,
+  type PendingOperation,
+} from './journal.js';
+import { createTrashBatch, moveToTrash } from './trash.js';
+import { hasNormalization, normalizeText, toLocalText } from './normalize.js';
+import { fromLocalPath, localFilePath, checkDocPath, findDownloadProblems, isCaseInsensitiveFs } from './paths.js';
+import { checkMassDelete } from './mass-delete.js';
+import { startSyncRun, appendSyncHistory, recordChange, type SyncTrigger } from './history.js';
+import { formatBytes } from '../utils/format.js';
+import {
+  computePullDiff,
+  computePushDiff,
+  computeSyncDiff,
+  type SyncDiff,
+  type SyncDiffEntry,
+  type SyncConflictEntry,
+  type SyncDirection,
+} from './diff.js';
+
+/** Files transferred in parallel unless configured otherwise */
+export const DEFAULT_CONCURRENCY = 4;
+/** Upper bound on parallel transfers */
+export const MAX_CONCURRENCY = 16;
+/** Longest Retry-After we honour before retrying anyway */
+const MAX_RETRY_AFTER_MS = 60_000;
 
 export interface SyncProgress {
   phase: 'scanning' | 'computing' | 'transferring' | 'complete';
   current: number;
   total: number;
   currentFile?: string;
+  /** Size of the current file in bytes */
+  currentFileBytes?: number;
   bytesTransferred: number;
   totalBytes: number;
 }
@@ -26,67 +98,114 @@ export interface SyncResult {
   filesUploaded: number;
   filesDownloaded: number;
   filesDeleted: number;
+  filesMoved: number;
   bytesTransferred: number;
   errors: Array<{ path: string; error: string }>;
+  /** True conflicts encountered during a bidirectional sync and how each was resolved */
+  conflicts: Array<{ path: string; resolution: ConflictResolution; conflictFile: string | null; markers?: number }>;
+}
+
+export interface ScanOptions {
+  /** Last synced local state; files whose size, mtime and inode match reuse its hash */
+  cache?: Record<string, FileState>;
+  /** Hash every file, ignoring the cache */
+  rehash?: boolean;
+  /** Normalization policy applied to text files before hashing */
+  normalize?: NormalizePolicy;
 }
 
 /**
- * Scan local directory recursively for .md files.
- * Returns a map of relative doc paths -> FileState.
+ * Scan local directory recursively for files with an included extension.
+ * Returns a map of doc paths (see paths.ts) -> FileState. Binary files are hashed
+ * by their encoded (base64) content, as that is what the vault stores.
+ * Directories and files are read as streams so large vaults do not block the
+ * event loop, and files whose stat matches the cache are not read at all.
  */
-export function scanLocalFiles(
+export async function scanLocalFiles(
   localPath: string,
   ignorePatterns: string[],
-): Record<string, FileState> {
+  includeExtensions: string[] = DEFAULT_INCLUDE_EXTENSIONS,
+  options: ScanOptions = {},
+): Promise<Record<string, FileState>> {
   const files: Record<string, FileState> = {};
+  const cache = options.rehash ? {} : (options.cache ?? {});
 
-  function walk(dir: string, prefix: string): void {
-    if (!fs.existsSync(dir)) return;
-    const entries = fs.readdirSync(dir, { withFileTypes: true });
-    for (const entry of entries) {
+  async function walk(dir: string, prefix: string): Promise<void> {
+    for await (const entry of await opendir(dir)) {
       const relPath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      const docPath = fromLocalPath(relPath);
       if (entry.isDirectory()) {
-        if (!shouldIgnore(relPath + '/', ignorePatterns)) {
-          walk(path.join(dir, entry.name), relPath);
+        if (!shouldIgnore(docPath + '/', ignorePatterns)) {
+          await walk(path.join(dir, entry.name), relPath);
         }
-      } else if (entry.isFile() && entry.name.endsWith('.md')) {
-        if (!shouldIgnore(relPath, ignorePatterns)) {
+      } else if (entry.isFile() && isIncludedPath(docPath, includeExtensions)) {
+        if (!shouldIgnore(docPath, ignorePatterns)) {
           const absPath = path.join(dir, entry.name);
-          const content = fs.readFileSync(absPath);
-          const stat = fs.statSync(absPath);
-          files[relPath] = {
-            path: relPath,
-            hash: hashFileContent(content),
-            mtime: stat.mtime.toISOString(),
-            size: stat.size,
-          };
+          const fileStat = await stat(absPath);
+          const hash = isStatUnchanged(cache[docPath], fileStat)
+            ? cache[docPath].hash
+            : await hashLocalFile(absPath, docPath, options.normalize);
+          files[docPath] = localFileState(docPath, hash, fileStat);
         }
       }
     }
   }
 
-  walk(localPath, '');
+  if (fs.existsSync(localPath)) {
+    await walk(localPath, '');
+  }
   return files;
 }
 
+/**
+ * Hash a local file as scanned. Text files under a normalization policy are
+ * read whole, since their hash covers the normalized content.
+ */
+async function hashLocalFile(absPath: string, docPath: string, policy?: NormalizePolicy): Promise<string> {
+  const binary = isBinaryPath(docPath);
+  if (binary || !hasNormalization(policy)) return hashFileStream(absPath, binary);
+  try {
+    return hashFileContent(encodeContent(docPath, await readFile(absPath), policy), policy);
+  } catch {
+    // Not text: the file is refused when it is transferred, not while scanning
+    return hashFileStream(absPath);
+  }
+}
+
+function localFileState(docPath: string, hash: string, stat: fs.Stats): FileState {
+  return { path: docPath, hash, mtime: stat.mtime.toISOString(), size: stat.size, inode: stat.ino };
+}
+
 /**
  * Scan remote vault for document list.
- * Returns a map of doc paths -> FileState.
+ * Returns a map of doc paths -> FileState. The listing carries no content, so
+ * hashes come from the remote manifest for documents whose metadata is
+ * unchanged since they were last synced; other documents get an empty hash,
+ * which marks them as changed.
  */
 export async function scanRemoteFiles(
   client: LifestreamVaultClient,
   vaultId: string,
   ignorePatterns: string[],
+  includeExtensions: string[] = DEFAULT_INCLUDE_EXTENSIONS,
+  manifest: RemoteManifest = {},
 ): Promise<Record<string, FileState>> {
   const docs = await client.documents.list(vaultId);
+  // Documents moved on the server keep their content hash under the new path
+  const movedHashes = new Map(
+    Object.values(manifest).filter(e => e.contentHash).map(e => [e.contentHash!, e.hash]),
+  );
   const files: Record<string, FileState> = {};
   for (const doc of docs) {
-    if (!shouldIgnore(doc.path, ignorePatterns)) {
+    if (isIncludedPath(doc.path, includeExtensions) && !shouldIgnore(doc.path, ignorePatterns)) {
       files[doc.path] = {
         path: doc.path,
-        hash: '', // We don't have content hash from list; will use mtime for comparison
+        hash: knownRemoteHash(manifest[doc.path], doc)
+          ?? (doc.contentHash ? movedHashes.get(doc.contentHash) : undefined)
+          ?? '',
         mtime: doc.fileModifiedAt,
-        size: doc.sizeBytes,
+        // Compared with local file sizes and size limits
+        size: decodedSize(doc.path, doc.sizeBytes),
       };
     }
   }
@@ -97,123 +216,659 @@ export async function scanRemoteFiles(
  * Write a file atomically using a temp file + rename.
  * Prevents partial reads if the process is interrupted mid-write.
  */
-function atomicWriteFileSync(targetPath: string, content: string, encoding: BufferEncoding = 'utf-8'): void {
+function atomicWriteFileSync(targetPath: string, content: string | Buffer): void {
   const tmpFile = targetPath + '.tmp.' + randomBytes(4).toString('hex');
-  fs.writeFileSync(tmpFile, content, encoding);
+  fs.writeFileSync(tmpFile, content);
   fs.renameSync(tmpFile, targetPath);
 }
 
+/**
+ * Outcome of resolving a single conflict entry during a bidirectional sync.
+ */
+interface ConflictOutcome {
+  /**
+   * Content both sides hold after resolution (the local side when remoteContent
+   * is set), or null to leave the file's sync state untouched
+   */
+  content: string | null;
+  /** Remote content when the sides intentionally differ (local conflict markers) */
+  remoteContent?: string;
+  /** Which way content travelled, or null when both sides already matched */
+  direction: SyncDirection | null;
+  /** Server metadata of the remote version afterwards, when known */
+  remoteDocument?: RemoteDocumentMeta;
+  /** Set when the entry was a true conflict (both sides changed) */
+  conflict?: { resolution: ConflictResolution; conflictFile: string | null; markers?: number };
+}
+
+/**
+ * Content of a transferred file and the server metadata of the remote version.
+ */
+interface TransferredFile {
+  content: string;
+  document?: RemoteDocumentMeta;
+  /** Stat of the local file holding exactly `content`, for the scan's stat cache */
+  localStat?: fs.Stats;
+}
+
 /**
  * Direction-specific callbacks for the sync operation helper.
  */
-interface SyncOperationHandlers {
-  /** The file entries to transfer (downloads for pull, uploads for push). */
+interface SyncOperationHandlers<C extends { path: string } = SyncConflictEntry> {
+  /** The operation recorded in the run history. */
+  operation: 'pull' | 'push' | 'sync';
+  /** The file entries to transfer; each entry's direction selects the counter. */
   transfers: SyncDiffEntry[];
   /** The file entries to delete. */
   deletes: SyncDiffEntry[];
+  /** The file entries to move from their fromPath. */
+  moves?: SyncDiffEntry[];
+  /** Files that may have changed on both sides. */
+  conflicts?: C[];
   /** Transfer a single file entry; returns the content for state tracking. */
-  transferFile(entry: SyncDiffEntry, config: SyncConfig): Promise<string>;
+  transferFile(entry: SyncDiffEntry, config: SyncConfig): Promise<TransferredFile>;
   /** Delete a single file entry. */
   deleteFile(entry: SyncDiffEntry, config: SyncConfig): Promise<void>;
-  /** Which counter to increment on successful transfer. */
-  transferCounterKey: 'filesUploaded' | 'filesDownloaded';
+  /** Move a single file entry from its fromPath to its path. */
+  moveFile?(entry: SyncDiffEntry, config: SyncConfig): Promise<void>;
+  /** Resolve a single conflict entry against the last known state. */
+  resolveConflict?(entry: C, config: SyncConfig, state: SyncState): Promise<ConflictOutcome>;
 }
 
 /**
- * Shared sync operation executor used by both pull and push.
+ * Shared sync operation executor used by pull, push and bidirectional sync.
  * Handles result initialization, state loading, progress callbacks,
  * quota error handling, state saving, and lastSync update.
  */
-async function executeSyncOperation(
+async function executeSyncOperation<C extends { path: string }>(
   config: SyncConfig,
   diff: SyncDiff,
-  handlers: SyncOperationHandlers,
+  handlers: SyncOperationHandlers<C>,
   onProgress?: ProgressCallback,
+  options: ExecuteOptions = {},
 ): Promise<SyncResult> {
   const result: SyncResult = {
     filesUploaded: 0,
     filesDownloaded: 0,
     filesDeleted: 0,
+    filesMoved: 0,
     bytesTransferred: 0,
     errors: [],
+    conflicts: [],
   };
 
+  // Starting over would discard what the interrupted run already did
+  if (loadInterruptedRun(config.id)) {
+    throw new Error(
+      `A previous sync run of ${config.id} was interrupted. ` +
+      `Complete or roll it back with: lsvault sync resume ${config.id}`,
+    );
+  }
+
   const state = loadSyncState(config.id);
-  const allOps = [...handlers.transfers, ...handlers.deletes];
+  if (!options.allowMassDelete) {
+    const tracked = new Set([...Object.keys(state.local), ...Object.keys(state.remote)]).size;
+    const problem = checkMassDelete(handlers.deletes.length, tracked, config.massDeleteThreshold);
+    if (problem) {
+      throw new Error(`${problem}. If this is intended, re-run with --allow-mass-delete`);
+    }
+  }
+
+  const manifest = loadRemoteManifest(config.id);
+  const history = startSyncRun(options.trigger ?? 'manual', handlers.operation);
+  const conflicts = handlers.conflicts ?? [];
+  const moves = handlers.moves ?? [];
+
+  // Downloads that cannot be written safely are reported instead of applied
+  const localDeletes = new Set(handlers.deletes.filter(e => e.direction === 'download').map(e => e.path));
+  const pathProblems = findDownloadProblems(
+    [...moves, ...handlers.transfers].filter(e => e.direction === 'download'),
+    Object.keys(state.local).filter(p => !localDeletes.has(p)),
+    isCaseInsensitiveFs(config.localPath),
+  );
+  for (const docPath of localDeletes) {
+    const unsafe = checkDocPath(docPath);
+    if (unsafe) pathProblems.set(docPath, `${unsafe}: ${docPath}`);
+  }
+  const rejectPath = (entry: SyncDiffEntry): boolean => {
+    const problem = entry.direction === 'download' ? pathProblems.get(entry.path) : undefined;
+    if (problem) result.errors.push({ path: entry.path, error: problem });
+    return problem !== undefined;
+  };
+  // A transfer or deletion that failed outside its own error handling
+  const reportFailure = (entry: SyncDiffEntry, err: unknown): void => {
+    result.errors.push({ path: entry.path, error: err instanceof Error ? err.message : String(err) });
+  };
+  const total = conflicts.length + moves.length + handlers.transfers.length + handlers.deletes.length;
   let current = 0;
+  let stopped = false;
+
+  const recordSynced = (
+    docPath: string,
+    content: string,
+    remoteContent = content,
+    remoteDocument?: RemoteDocumentMeta,
+    localStat?: fs.Stats,
+  ): void => recordSyncedFile(config, state, manifest, docPath, content, remoteContent, remoteDocument, localStat);
+
+  // State is saved once at the end, so each operation is journaled before it
+  // runs and, with the state it left behind, after it has run
+  const runId = beginJournal(config.id);
+  try {
+    let seq = 0;
+    const started = new Map<number, PendingOperation>();
+    const journalStart = (op: JournalOperation, entry: { path: string; fromPath?: string }): number => {
+      seq++;
+      const operation = { seq, op, path: entry.path, ...(entry.fromPath ? { fromPath: entry.fromPath } : {}) };
+      journalIntent(config.id, operation);
+      started.set(seq, operation);
+      return seq;
+    };
+    const journalEnd = (opSeq: number, paths: string[]): void => {
+      journalDone(config.id, opSeq, snapshotPaths(state, manifest, paths));
+      const { seq: _, ...change } = started.get(opSeq)!;
+      history.changes.push(change);
+    };
+
+    const reportProgress = (currentFile: string, currentFileBytes?: number): void => {
+      current++;
+      onProgress?.({
+        phase: 'transferring',
+        current,
+        total,
+        currentFile,
+        currentFileBytes,
+        bytesTransferred: result.bytesTransferred,
+        totalBytes: diff.totalBytes,
+      });
+    };
+
+    // Moves run first so a create at a moved file's old path cannot clobber it
+    for (const entry of moves) {
+      if (!handlers.moveFile || !entry.fromPath) break;
+      reportProgress(entry.path);
+      if (rejectPath(entry)) continue;
+      const opSeq = journalStart(entry.direction === 'upload' ? 'move-remote' : 'move-local', entry);
+
+      try {
+        await handlers.moveFile(entry, config);
+        result.filesMoved++;
+        moveSyncedPath(state, manifest, entry.fromPath, entry.path);
+        journalEnd(opSeq, [entry.fromPath, entry.path]);
+      } catch (err) {
+        journalFailed(config.id, opSeq);
+        const message = err instanceof Error ? err.message : String(err);
+        result.errors.push({ path: entry.path, error: message });
+      }
+    }
+
+    for (const entry of conflicts) {
+      if (!handlers.resolveConflict) break;
+      reportProgress(entry.path);
+      const opSeq = journalStart('resolve', entry);
+
+      try {
+        const outcome = await handlers.resolveConflict(entry, config, state);
+        if (outcome.conflict) {
+          result.conflicts.push({ path: entry.path, ...outcome.conflict });
+        }
+        if (outcome.content !== null) {
+          if (outcome.direction) {
+            result[outcome.direction === 'upload' ? 'filesUploaded' : 'filesDownloaded']++;
+            result.bytesTransferred += Buffer.byteLength(outcome.content, 'utf-8');
+          }
+          recordSynced(entry.path, outcome.content, outcome.remoteContent, outcome.remoteDocument);
+        }
+        journalEnd(opSeq, [entry.path]);
+      } catch (err) {
+        journalFailed(config.id, opSeq);
+        const message = err instanceof Error ? err.message : String(err);
+        result.errors.push({ path: entry.path, error: message });
+        if (isQuotaError(message)) {
+          stopped = true;
+          break; // Stop immediately on quota errors
+        }
+      }
+    }
+
+    // Progress is reported as each entry starts, so it stays in diff order
+    const maxFileSize = resolveMaxFileSize(config);
+    const concurrency = resolveConcurrency(config, options.concurrency);
+    await runPool(handlers.transfers, concurrency, () => stopped, async (entry) => {
+      reportProgress(entry.path, entry.sizeBytes);
+
+      if (entry.sizeBytes > maxFileSize) {
+        result.errors.push({
+          path: entry.path,
+          error: `File is ${formatBytes(entry.sizeBytes)}, over the ${formatBytes(maxFileSize)} size limit`,
+        });
+        return;
+      }
+      if (rejectPath(entry)) return;
+      const opSeq = journalStart(entry.direction, entry);
+
+      try {
+        const transferred = await handlers.transferFile(entry, config);
+        result[entry.direction === 'upload' ? 'filesUploaded' : 'filesDownloaded']++;
+        result.bytesTransferred += entry.sizeBytes;
+        recordSynced(entry.path, transferred.content, transferred.content, transferred.document, transferred.localStat);
+        journalEnd(opSeq, [entry.path]);
+      } catch (err) {
+        journalFailed(config.id, opSeq);
+        const message = err instanceof Error ? err.message : String(err);
+        result.errors.push({ path: entry.path, error: message });
+        if (isQuotaError(message)) {
+          stopped = true; // Start no further transfers on quota errors
+        }
+      }
+    }, reportFailure);
+
+    await runPool(handlers.deletes, concurrency, () => false, async (entry) => {
+      reportProgress(entry.path);
+      if (rejectPath(entry)) return;
+      const opSeq = journalStart(entry.direction === 'upload' ? 'delete-remote' : 'delete-local', entry);
+
+      try {
+        await handlers.deleteFile(entry, config);
+        result.filesDeleted++;
+        delete state.local[entry.path];
+        delete state.remote[entry.path];
+        delete manifest[entry.path];
+        journalEnd(opSeq, [entry.path]);
+      } catch (err) {
+        journalFailed(config.id, opSeq);
+        const message = err instanceof Error ? err.message : String(err);
+        result.errors.push({ path: entry.path, error: message });
+      }
+    }, reportFailure);
+
+    saveSyncState(state);
+    saveRemoteManifest(config.id, manifest);
+    clearJournal(config.id);
+    pruneBaseContent(config.id, Object.values(state.remote).map(f => f.hash));
+    updateLastSync(config.id);
+    appendSyncHistory(config.id, { ...history, ...result });
 
-  for (const entry of handlers.transfers) {
-    current++;
     onProgress?.({
-      phase: 'transferring',
-      current,
-      total: allOps.length,
-      currentFile: entry.path,
+      phase: 'complete',
+      current: total,
+      total,
       bytesTransferred: result.bytesTransferred,
       totalBytes: diff.totalBytes,
     });
 
-    try {
-      const content = await handlers.transferFile(entry, config);
-      result[handlers.transferCounterKey]++;
-      result.bytesTransferred += entry.sizeBytes;
-
-      // Update state
-      state.local[entry.path] = {
-        path: entry.path,
-        hash: hashFileContent(content),
+    return result;
+  } finally {
+    endJournal(runId);
+  }
+}
+
+/**
+ * Record a file as synced: both sides hold `content` (the local side) and
+ * `remoteContent` (the remote side, usually the same). Without the local
+ * file's stat, the next scan rehashes the file.
+ */
+function recordSyncedFile(
+  config: SyncConfig,
+  state: SyncState,
+  manifest: RemoteManifest,
+  docPath: string,
+  content: string,
+  remoteContent = content,
+  remoteDocument?: RemoteDocumentMeta,
+  localStat?: fs.Stats,
+): void {
+  state.local[docPath] = localStat
+    ? localFileState(docPath, hashFileContent(content, config.normalize), localStat)
+    : {
+        path: docPath,
+        hash: hashFileContent(content, config.normalize),
         mtime: new Date().toISOString(),
         size: Buffer.byteLength(content, 'utf-8'),
       };
-      state.remote[entry.path] = buildRemoteFileState(
-        entry.path,
-        content,
-        new Date().toISOString(),
-      );
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      if (isQuotaError(message)) {
-        result.errors.push({ path: entry.path, error: message });
-        break; // Stop immediately on quota errors
+  state.remote[docPath] = buildRemoteFileState(
+    docPath,
+    remoteContent,
+    new Date().toISOString(),
+    config.normalize,
+  );
+  recordRemoteDocument(manifest, docPath, state.remote[docPath].hash, remoteDocument);
+  // Keep the synced revision as the base for future three-way merges
+  if (!isBinaryPath(docPath)) {
+    saveBaseContent(config.id, remoteContent, config.normalize);
+  }
+}
+
+/**
+ * Run a task for each item with at most `concurrency` tasks in flight.
+ * Starts with a single task and adds one more each time a task finishes, so a
+ * failure on the first item (quota, permissions) stops the run before others
+ * start. Items start in order; once isStopped() returns true no further items
+ * start, but tasks already running are awaited. A task that rejects is
+ * reported to onError, and the others carry on.
+ */
+function runPool<T>(
+  items: T[],
+  concurrency: number,
+  isStopped: () => boolean,
+  task: (item: T) => Promise<void>,
+  onError: (item: T, err: unknown) => void,
+): Promise<void> {
+  return new Promise(resolve => {
+    let next = 0;
+    let active = 0;
+    let limit = 1;
+    const launch = (): void => {
+      while (active < limit && next < items.length && !isStopped()) {
+        active++;
+        const item = items[next++];
+        const done = (): void => {
+          active--;
+          limit = Math.min(limit + 1, concurrency);
+          launch();
+        };
+        task(item).catch(err => onError(item, err)).then(done, done);
       }
-      result.errors.push({ path: entry.path, error: message });
+      if (active === 0) resolve();
+    };
+    launch();
+  });
+}
+
+/**
+ * Carry the sync state and manifest entry of a moved file over to its new
+ * path, so the next sync sees it as unchanged.
+ */
+export function moveSyncedPath(state: SyncState, manifest: RemoteManifest, fromPath: string, toPath: string): void {
+  for (const files of [state.local, state.remote]) {
+    if (files[fromPath]) {
+      files[toPath] = { ...files[fromPath], path: toPath };
+      delete files[fromPath];
     }
   }
+  if (manifest[fromPath]) {
+    manifest[toPath] = manifest[fromPath];
+    delete manifest[fromPath];
+  }
+}
 
-  for (const entry of handlers.deletes) {
-    current++;
-    onProgress?.({
-      phase: 'transferring',
-      current,
-      total: allOps.length,
-      currentFile: entry.path,
-      bytesTransferred: result.bytesTransferred,
-      totalBytes: diff.totalBytes,
-    });
+/**
+ * Download a remote document and write it atomically to the local directory.
+ */
+async function downloadFile(
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  docPath: string,
+): Promise<TransferredFile> {
+  const { content: received, document } = await retryWithBackoff(() =>
+    client.documents.get(config.vaultId, docPath),
+  );
+  const content = normalizeText(received, config.normalize);
+  writeLocalFile(config, docPath, content);
+  return { content, document, localStat: fs.statSync(localFilePath(config.localPath, docPath)) };
+}
 
-    try {
-      await handlers.deleteFile(entry, config);
-      result.filesDeleted++;
-      delete state.local[entry.path];
-      delete state.remote[entry.path];
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      result.errors.push({ path: entry.path, error: message });
-    }
+/**
+ * Read a local file and upload it to the remote vault.
+ */
+async function uploadFile(
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  docPath: string,
+): Promise<TransferredFile> {
+  // Stat before reading, so an edit made during the upload changes the stat
+  const localStat = fs.statSync(localFilePath(config.localPath, docPath));
+  const content = readLocalFile(config, docPath);
+  const document = await retryWithBackoff(() =>
+    client.documents.put(config.vaultId, docPath, content),
+  );
+  return { content, document, localStat };
+}
+
+/**
+ * Read a local file as the content string exchanged with the vault.
+ */
+function readLocalFile(config: SyncConfig, docPath: string): string {
+  return encodeContent(docPath, fs.readFileSync(localFilePath(config.localPath, docPath)), config.normalize);
+}
+
+/**
+ * Write content received from the vault to a local file.
+ */
+function writeLocalFile(config: SyncConfig, docPath: string, content: string): void {
+  const localFile = localFilePath(config.localPath, docPath);
+  const localDir = path.dirname(localFile);
+  if (!fs.existsSync(localDir)) {
+    fs.mkdirSync(localDir, { recursive: true });
   }
+  atomicWriteFileSync(
+    localFile,
+    isBinaryPath(docPath) ? decodeContent(docPath, content) : toLocalText(content, config.normalize),
+  );
+}
 
-  saveSyncState(state);
-  updateLastSync(config.id);
-
-  onProgress?.({
-    phase: 'complete',
-    current: allOps.length,
-    total: allOps.length,
-    bytesTransferred: result.bytesTransferred,
-    totalBytes: diff.totalBytes,
-  });
+/**
+ * Delete a local file by moving it to the given trash batch.
+ */
+function deleteLocalFile(config: SyncConfig, docPath: string, trashBatch: string): void {
+  if (fs.existsSync(localFilePath(config.localPath, docPath))) {
+    moveToTrash(config.localPath, docPath, trashBatch);
+  }
+}
 
-  return result;
+/**
+ * Rename a local file, creating the destination directory if needed.
+ */
+function moveLocalFile(config: SyncConfig, fromPath: string, toPath: string): void {
+  const target = localFilePath(config.localPath, toPath);
+  const targetDir = path.dirname(target);
+  if (!fs.existsSync(targetDir)) {
+    fs.mkdirSync(targetDir, { recursive: true });
+  }
+  fs.renameSync(localFilePath(config.localPath, fromPath), target);
+}
+
+async function moveRemoteFile(
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  fromPath: string,
+  toPath: string,
+): Promise<void> {
+  await retryWithBackoff(() =>
+    client.documents.move(config.vaultId, fromPath, toPath),
+  );
+}
+
+async function deleteRemoteFile(
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  docPath: string,
+): Promise<void> {
+  await retryWithBackoff(() =>
+    client.documents.delete(config.vaultId, docPath),
+  );
+}
+
+/**
+ * Options for pull, push and bidirectional sync execution.
+ */
+export interface ExecuteOptions {
+  /** Interactive resolver for the 'ask' strategy; without one, conflicts are queued */
+  prompt?: ConflictPrompt;
+  /** Files to transfer in parallel, overriding the config's concurrency */
+  concurrency?: number;
+  /** Proceed even if the deletions exceed the config's mass-deletion threshold */
+  allowMassDelete?: boolean;
+  /** What started the run, for the run history (default: 'manual') */
+  trigger?: SyncTrigger;
+}
+
+/**
+ * Whether a value is a usable transfer concurrency (an integer from 1 to MAX_CONCURRENCY).
+ */
+export function isValidConcurrency(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_CONCURRENCY;
+}
+
+/**
+ * Resolve how many files to transfer in parallel: the per-run override,
+ * then the config's setting, then the default.
+ */
+export function resolveConcurrency(config: Pick<SyncConfig, 'concurrency'>, override?: number): number {
+  const concurrency = override ?? config.concurrency;
+  return isValidConcurrency(concurrency) ? concurrency : DEFAULT_CONCURRENCY;
+}
+
+interface ConflictEntryOptions {
+  /** Whether the remote document may be overwritten */
+  allowUpload: boolean;
+  /** Whether the local file may be overwritten */
+  allowDownload: boolean;
+  /** Operation that found the conflict, recorded when it is queued */
+  trigger: string;
+  prompt?: ConflictPrompt;
+  /** Listed file states, used by the time-based strategies */
+  sides?: { local: FileState; remote: FileState };
+}
+
+/**
+ * Resolve a file that may have changed on both sides since the last sync.
+ * Fetches real content on both sides, applies whichever side changed, then
+ * tries a three-way merge, and finally falls back to the onConflict strategy.
+ * Directions the operation may not touch are left alone.
+ */
+async function resolveConflictEntry(
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  docPath: string,
+  state: SyncState,
+  options: ConflictEntryOptions,
+): Promise<ConflictOutcome> {
+  const { content: received, document: remoteDocument } = await retryWithBackoff(() =>
+    client.documents.get(config.vaultId, docPath),
+  );
+  const remoteContent = normalizeText(received, config.normalize);
+  const localContent = readLocalFile(config, docPath);
+  const localHash = hashFileContent(localContent, config.normalize);
+  const remoteHash = hashFileContent(remoteContent, config.normalize);
+  const lastRemote = state.remote[docPath];
+  const lastLocal = state.local[docPath];
+
+  // Listed hashes may be unknown or stale, so re-check against real content
+  if (localHash === remoteHash) {
+    return { content: localContent, direction: null, remoteDocument };
+  }
+  if (lastRemote && remoteHash === lastRemote.hash) {
+    if (!options.allowUpload) return { content: null, direction: null };
+    const uploaded = await retryWithBackoff(() => client.documents.put(config.vaultId, docPath, localContent));
+    return { content: localContent, direction: 'upload', remoteDocument: uploaded };
+  }
+  if (lastLocal && localHash === lastLocal.hash) {
+    if (!options.allowDownload) return { content: null, direction: null };
+    writeLocalFile(config, docPath, remoteContent);
+    return { content: remoteContent, direction: 'download', remoteDocument };
+  }
+
+  const apply = (plan: ConflictPlan, resolution: ConflictResolution) =>
+    applyConflictPlan(client, config, docPath, localContent, { content: remoteContent, document: remoteDocument }, options, plan, resolution);
+
+  // Binary files cannot be merged line by line
+  const binary = isBinaryPath(docPath);
+  const baseHash = binary ? undefined : lastRemote?.hash ?? lastLocal?.hash;
+  const merged = mergeWithBase(config, baseHash, localContent, remoteContent);
+  if (merged && merged.conflicts === 0) {
+    return apply({
+      writeLocal: merged.content,
+      upload: merged.content,
+      backup: null,
+      synced: merged.content,
+    }, 'merged');
+  }
+  if (merged) {
+    // Overlapping edits: leave markers locally until the user resolves them
+    const outcome = await apply({
+      writeLocal: merged.content,
+      upload: null,
+      backup: null,
+      synced: merged.content,
+    }, 'merged');
+    if (outcome.conflict) outcome.conflict.markers = merged.conflicts;
+    return outcome;
+  }
+
+  if (config.onConflict === 'ask' || !options.sides) {
+    const decision = await askConflict(config.id, {
+      docPath,
+      localContent,
+      remoteContent,
+      baseContent: baseHash ? loadBaseContent(config.id, baseHash) : null,
+      binary,
+    }, options.trigger, options.prompt);
+    const plan = planConflictDecision(decision, localContent, remoteContent);
+    return apply(plan, decision.resolution);
+  }
+
+  const local = { ...options.sides.local, hash: localHash };
+  const remote = { ...options.sides.remote, hash: remoteHash };
+  const resolution = resolveConflict(config.onConflict, local, remote);
+  const plan: ConflictPlan = resolution === 'local'
+    ? { writeLocal: null, upload: localContent, backup: { content: remoteContent, source: 'remote' }, synced: localContent }
+    : { writeLocal: remoteContent, upload: null, backup: { content: localContent, source: 'local' }, synced: remoteContent };
+  return apply(plan, resolution);
+}
+
+/**
+ * Carry out a conflict plan within the directions the operation allows.
+ * Records what each side holds afterwards, or nothing if the conflict is
+ * left unresolved (skipped or queued).
+ */
+async function applyConflictPlan(
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  docPath: string,
+  localContent: string,
+  remote: TransferredFile,
+  options: ConflictEntryOptions,
+  plan: ConflictPlan,
+  resolution: ConflictResolution,
+): Promise<ConflictOutcome> {
+  if (plan.synced === null) {
+    return { content: null, direction: null, conflict: { resolution, conflictFile: null } };
+  }
+
+  const conflictFile = plan.backup
+    ? createConflictFile(config.localPath, docPath, plan.backup.content, plan.backup.source)
+    : null;
+  const writeLocal = options.allowDownload ? plan.writeLocal : null;
+  const upload = options.allowUpload ? plan.upload : null;
+  if (writeLocal !== null) {
+    writeLocalFile(config, docPath, writeLocal);
+  }
+  const uploaded = upload !== null
+    ? await retryWithBackoff(() => client.documents.put(config.vaultId, docPath, upload))
+    : remote.document;
+
+  const localAfter = writeLocal ?? localContent;
+  const remoteAfter = upload ?? remote.content;
+  return {
+    content: localAfter,
+    remoteContent: remoteAfter === localAfter ? undefined : remoteAfter,
+    direction: upload !== null ? 'upload' : writeLocal !== null ? 'download' : null,
+    remoteDocument: uploaded,
+    conflict: { resolution, conflictFile },
+  };
+}
+
+/**
+ * Split out 'update' entries that must be checked for conflicts under the
+ * 'ask' strategy. Returns [updates, remaining transfers].
+ */
+function splitAskUpdates(config: SyncConfig, entries: SyncDiffEntry[]): [SyncDiffEntry[], SyncDiffEntry[]] {
+  if (config.onConflict !== 'ask') return [[], entries];
+  return [
+    entries.filter(e => e.action === 'update'),
+    entries.filter(e => e.action !== 'update'),
+  ];
 }
 
 /**
@@ -224,30 +879,32 @@ export async function executePull(
   config: SyncConfig,
   diff: SyncDiff,
   onProgress?: ProgressCallback,
+  options?: ExecuteOptions,
 ): Promise<SyncResult> {
+  // Under 'ask', updates may overwrite local edits, so check them as conflicts
+  const [updates, transfers] = splitAskUpdates(config, diff.downloads);
+  const trashBatch = createTrashBatch();
   return executeSyncOperation(config, diff, {
-    transfers: diff.downloads,
+    operation: 'pull',
+    transfers,
     deletes: diff.deletes,
-    transferCounterKey: 'filesDownloaded',
-    async transferFile(entry, cfg) {
-      const { content } = await retryWithBackoff(() =>
-        client.documents.get(cfg.vaultId, entry.path),
-      );
-      const localFile = path.join(cfg.localPath, entry.path);
-      const localDir = path.dirname(localFile);
-      if (!fs.existsSync(localDir)) {
-        fs.mkdirSync(localDir, { recursive: true });
-      }
-      atomicWriteFileSync(localFile, content, 'utf-8');
-      return content;
-    },
+    moves: diff.moves,
+    conflicts: updates,
+    transferFile: (entry, cfg) => downloadFile(client, cfg, entry.path),
     async deleteFile(entry, cfg) {
-      const localFile = path.join(cfg.localPath, entry.path);
-      if (fs.existsSync(localFile)) {
-        fs.unlinkSync(localFile);
-      }
+      deleteLocalFile(cfg, entry.path, trashBatch);
+    },
+    async moveFile(entry, cfg) {
+      moveLocalFile(cfg, entry.fromPath!, entry.path);
     },
-  }, onProgress);
+    resolveConflict: (entry, cfg, state) =>
+      resolveConflictEntry(client, cfg, entry.path, state, {
+        allowUpload: false,
+        allowDownload: true,
+        trigger: 'pull',
+        prompt: options?.prompt,
+      }),
+  }, onProgress, options);
 }
 
 /**
@@ -258,44 +915,243 @@ export async function executePush(
   config: SyncConfig,
   diff: SyncDiff,
   onProgress?: ProgressCallback,
+  options?: ExecuteOptions,
 ): Promise<SyncResult> {
+  // Under 'ask', updates may overwrite remote edits, so check them as conflicts
+  const [updates, transfers] = splitAskUpdates(config, diff.uploads);
   return executeSyncOperation(config, diff, {
-    transfers: diff.uploads,
+    operation: 'push',
+    transfers,
     deletes: diff.deletes,
-    transferCounterKey: 'filesUploaded',
-    async transferFile(entry, cfg) {
-      const localFile = path.join(cfg.localPath, entry.path);
-      const content = fs.readFileSync(localFile, 'utf-8');
-      await retryWithBackoff(() =>
-        client.documents.put(cfg.vaultId, entry.path, content),
-      );
-      return content;
+    moves: diff.moves,
+    conflicts: updates,
+    transferFile: (entry, cfg) => uploadFile(client, cfg, entry.path),
+    deleteFile: (entry, cfg) => deleteRemoteFile(client, cfg, entry.path),
+    moveFile: (entry, cfg) => moveRemoteFile(client, cfg, entry.fromPath!, entry.path),
+    resolveConflict: (entry, cfg, state) =>
+      resolveConflictEntry(client, cfg, entry.path, state, {
+        allowUpload: true,
+        allowDownload: false,
+        trigger: 'push',
+        prompt: options?.prompt,
+      }),
+  }, onProgress, options);
+}
+
+/**
+ * Execute a bidirectional sync: resolve conflicts with the config's
+ * onConflict strategy, then propagate uploads, downloads and deletions.
+ */
+export async function executeSync(
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  diff: SyncDiff,
+  onProgress?: ProgressCallback,
+  options?: ExecuteOptions,
+): Promise<SyncResult> {
+  const trashBatch = createTrashBatch();
+  return executeSyncOperation(config, diff, {
+    operation: 'sync',
+    transfers: [...diff.downloads, ...diff.uploads],
+    deletes: diff.deletes,
+    moves: diff.moves,
+    conflicts: diff.conflicts,
+    transferFile(entry, cfg) {
+      return entry.direction === 'download'
+        ? downloadFile(client, cfg, entry.path)
+        : uploadFile(client, cfg, entry.path);
     },
     async deleteFile(entry, cfg) {
-      await retryWithBackoff(() =>
-        client.documents.delete(cfg.vaultId, entry.path),
-      );
+      if (entry.direction === 'download') {
+        deleteLocalFile(cfg, entry.path, trashBatch);
+      } else {
+        await deleteRemoteFile(client, cfg, entry.path);
+      }
+    },
+    async moveFile(entry, cfg) {
+      if (entry.direction === 'download') {
+        moveLocalFile(cfg, entry.fromPath!, entry.path);
+      } else {
+        await moveRemoteFile(client, cfg, entry.fromPath!, entry.path);
+      }
     },
-  }, onProgress);
+    resolveConflict: (entry, cfg, state) =>
+      resolveConflictEntry(client, cfg, entry.path, state, {
+        allowUpload: true,
+        allowDownload: true,
+        trigger: 'run',
+        prompt: options?.prompt,
+        sides: entry,
+      }),
+  }, onProgress, options);
+}
+
+/**
+ * Outcome of resuming an interrupted sync run.
+ */
+export interface ResumeResult {
+  /** Operations that had finished before the interruption, now recorded in the state */
+  completed: number;
+  /** Interrupted operations that were executed again */
+  redone: number;
+  /** Interrupted operations left undone */
+  rolledBack: number;
+  errors: Array<{ path: string; error: string }>;
+}
+
+/**
+ * Recover a sync run that was interrupted before its state was saved.
+ * Operations that finished are recorded in the sync state. Operations that
+ * were in flight are executed again to complete the run, or, with rollback
+ * (and always for conflict resolutions, which may need a decision), left
+ * undone so the next sync picks them up afresh. Returns null if no run was
+ * interrupted.
+ */
+export async function resumeSyncRun(
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  options: { rollback?: boolean; trigger?: SyncTrigger } = {},
+): Promise<ResumeResult | null> {
+  const run = loadInterruptedRun(config.id);
+  if (!run) return null;
+  const history = startSyncRun(options.trigger ?? 'manual', 'resume');
+
+  const state = loadSyncState(config.id);
+  const manifest = loadRemoteManifest(config.id);
+  for (const changes of run.completed) {
+    applyStateChanges(state, manifest, changes);
+  }
+
+  const result: ResumeResult = { completed: run.completed.length, redone: 0, rolledBack: 0, errors: [] };
+  for (const operation of run.pending) {
+    // An interrupted atomic write may have left its temp file behind
+    removeTempFiles(config, operation.path);
+    if (options.rollback || operation.op === 'resolve') {
+      result.rolledBack++;
+      continue;
+    }
+    try {
+      await redoOperation(client, config, operation, state, manifest);
+      result.redone++;
+      const { seq: _, ...change } = operation;
+      recordChange(history, change);
+    } catch (err) {
+      result.rolledBack++;
+      result.errors.push({ path: operation.path, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  saveSyncState(state);
+  saveRemoteManifest(config.id, manifest);
+  clearJournal(config.id);
+  appendSyncHistory(config.id, { ...history, errors: result.errors });
+  return result;
+}
+
+/**
+ * Execute an interrupted operation again and record its outcome.
+ * Operations may already have taken effect, so each tolerates finding its
+ * work done.
+ */
+async function redoOperation(
+  client: LifestreamVaultClient,
+  config: SyncConfig,
+  operation: PendingOperation,
+  state: SyncState,
+  manifest: RemoteManifest,
+): Promise<void> {
+  const { op, path: docPath, fromPath } = operation;
+  switch (op) {
+    case 'download':
+    case 'upload': {
+      const transferred = op === 'download'
+        ? await downloadFile(client, config, docPath)
+        : await uploadFile(client, config, docPath);
+      recordSyncedFile(config, state, manifest, docPath, transferred.content, transferred.content, transferred.document, transferred.localStat);
+      return;
+    }
+    case 'delete-local':
+    case 'delete-remote':
+      if (op === 'delete-local') {
+        deleteLocalFile(config, docPath, createTrashBatch());
+      } else {
+        try {
+          await deleteRemoteFile(client, config, docPath);
+        } catch (err) {
+          if (!isNotFoundError(err)) throw err;
+        }
+      }
+      delete state.local[docPath];
+      delete state.remote[docPath];
+      delete manifest[docPath];
+      return;
+    case 'move-local':
+      if (fs.existsSync(localFilePath(config.localPath, fromPath!))) {
+        moveLocalFile(config, fromPath!, docPath);
+      }
+      moveSyncedPath(state, manifest, fromPath!, docPath);
+      return;
+    case 'move-remote':
+      try {
+        await moveRemoteFile(client, config, fromPath!, docPath);
+      } catch (err) {
+        if (!isNotFoundError(err)) throw err;
+      }
+      moveSyncedPath(state, manifest, fromPath!, docPath);
+      return;
+    case 'resolve':
+      return;
+  }
+}
+
+/**
+ * Remove temp files left next to a document by an interrupted atomic write.
+ */
+function removeTempFiles(config: SyncConfig, docPath: string): void {
+  const localFile = localFilePath(config.localPath, docPath);
+  const dir = path.dirname(localFile);
+  if (!fs.existsSync(dir)) return;
+  const prefix = `${path.basename(localFile)}.tmp.`;
+  for (const name of fs.readdirSync(dir)) {
+    if (name.startsWith(prefix)) {
+      fs.unlinkSync(path.join(dir, name));
+    }
+  }
 }
 
+/**
+ * Time until which requests are held back after the server rate-limited us.
+ * Shared by all parallel transfers, so one 429 slows every worker down.
+ */
+let rateLimitedUntil = 0;
+
 /**
  * Retry a function with exponential backoff (max 3 retries).
+ * Rate-limited (HTTP 429) attempts wait for the server's Retry-After instead,
+ * and hold back all other requests for the same time.
  */
 async function retryWithBackoff<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
   let lastError: unknown;
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const wait = rateLimitedUntil - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
     try {
       return await fn();
     } catch (err) {
       lastError = err;
       const message = err instanceof Error ? err.message : String(err);
+      const delay = Math.pow(2, attempt) * 500; // 500ms, 1s, 2s
+      if (isRateLimitError(err)) {
+        rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + (retryAfterMs(err) ?? delay));
+        continue;
+      }
       // Don't retry on non-transient errors
       if (isQuotaError(message) || isPermissionError(message)) {
         throw err;
       }
       if (attempt < maxRetries) {
-        const delay = Math.pow(2, attempt) * 500; // 500ms, 1s, 2s
         await sleep(delay);
       }
     }
@@ -303,10 +1159,59 @@ async function retryWithBackoff<T>(fn: () => Promise<T>, maxRetries = 3): Promis
   throw lastError;
 }
 
+/**
+ * Error fields the SDK may set for HTTP failures.
+ */
+interface HttpErrorLike {
+  status?: number;
+  statusCode?: number;
+  retryAfter?: number | string;
+  headers?: unknown;
+  response?: { status?: number; headers?: unknown };
+}
+
+function isRateLimitError(err: unknown): boolean {
+  const e = (err ?? {}) as HttpErrorLike;
+  const status = e.status ?? e.statusCode ?? e.response?.status;
+  if (status === 429) return true;
+  const message = err instanceof Error ? err.message : String(err);
+  return /\b429\b|too many requests|rate limit/i.test(message);
+}
+
+/**
+ * Delay requested by a rate-limit error's Retry-After (seconds or an HTTP
+ * date), capped at MAX_RETRY_AFTER_MS, or null if none was given.
+ */
+function retryAfterMs(err: unknown): number | null {
+  const e = (err ?? {}) as HttpErrorLike;
+  const value = e.retryAfter ?? readHeader(e.headers, 'retry-after') ?? readHeader(e.response?.headers, 'retry-after');
+  if (value === undefined || value === '') return null;
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(String(value)) - Date.now();
+  if (Number.isNaN(ms)) return null;
+  return Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS);
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
 function isQuotaError(message: string): boolean {
   return /quota|storage limit|limit exceeded/i.test(message);
 }
 
+function isNotFoundError(err: unknown): boolean {
+  const e = (err ?? {}) as HttpErrorLike;
+  if ((e.status ?? e.statusCode ?? e.response?.status) === 404) return true;
+  const message = err instanceof Error ? err.message : String(err);
+  return /not found|\b404\b/i.test(message);
+}
+
 function isPermissionError(message: string): boolean {
   return /permission|forbidden|unauthorized|access denied/i.test(message);
 }
@@ -316,4 +1221,4 @@ function sleep(ms: number): Promise<void> {
 }
 
 // Re-export diff functions for convenience
-export { computePullDiff, computePushDiff, type SyncDiff, type SyncDiffEntry };
+export { computePullDiff, computePushDiff, computeSyncDiff, type SyncDiff, type SyncDiffEntry };
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSDKMock, type SDKMock } from '../__tests__/mocks/sdk.js';
+import {
+  parseFrontmatterFields,
+  describeFrontmatter,
+  injectFrontmatter,
+  stripFrontmatter,
+  readFrontmatterTags,
+  withFrontmatter,
+} from './frontmatter.js';
+
+describe('sync frontmatter', () => {
+  const doc = { path: 'note.md', tags: ['work', 'to do'], title: 'Plan: Q3', id: 'doc-1' };
+
+  it('should parse field lists', () => {
+    expect(parseFrontmatterFields('title, tags')).toEqual(['tags', 'title']);
+    expect(parseFrontmatterFields('tags,updatedAt')).toBeNull();
+    expect(parseFrontmatterFields(' , ')).toBeNull();
+    expect(describeFrontmatter(undefined)).toBe('(off)');
+    expect(describeFrontmatter(['tags', 'id'])).toBe('tags, id');
+  });
+
+  describe('injectFrontmatter', () => {
+    it('should add a block to content without one', () => {
+      expect(injectFrontmatter('# Plan\n', doc, ['tags', 'title'])).toBe(
+        '---\ntags: [work, to do]\ntitle: "Plan: Q3"\n---\n# Plan\n',
+      );
+    });
+
+    it('should add no block when there is nothing to write', () => {
+      expect(injectFrontmatter('# Plan\n', { path: 'note.md', tags: [] }, ['tags'])).toBe('# Plan\n');
+    });
+
+    it('should keep other keys and replace stale mapped ones', () => {
+      const content = '---\r\naliases:\r\n  - plan\r\ntags: [old]\r\n---\r\n# Plan\r\n';
+      expect(injectFrontmatter(content, doc, ['tags'])).toBe(
+        '---\r\ntags: [work, to do]\r\naliases:\r\n  - plan\r\n---\r\n# Plan\r\n',
+      );
+    });
+
+    it('should leave other file types alone', () => {
+      expect(injectFrontmatter('{}', { ...doc, path: 'data.json' }, ['tags'])).toBe('{}');
+    });
+
+    it('should quote values YAML would read differently', () => {
+      const tagged = { path: 'a.md', tags: ['2024', 'yes', 'a,b', 'ok'] };
+      expect(injectFrontmatter('', tagged, ['tags'])).toBe('---\ntags: ["2024", "yes", "a,b", ok]\n---\n');
+    });
+  });
+
+  describe('stripFrontmatter', () => {
+    it.each([
+      ['# Plan\n'],
+      ['---\naliases: [plan]\n---\n# Plan\n'],
+      ['---\r\n# comment\r\ncssclass: wide\r\n---\r\n\r\n# Plan\r\n'],
+    ])('should restore the original content after a round trip: %j', (content) => {
+      const local = injectFrontmatter(content, doc, ['tags', 'title', 'id']);
+      expect(local).not.toBe(content);
+      expect(stripFrontmatter('note.md', local, ['tags', 'title', 'id'])).toBe(content);
+    });
+
+    it('should keep keys added locally', () => {
+      const local = '---\ntags: [work]\nstatus: draft\n---\n# Plan\n';
+      expect(stripFrontmatter('note.md', local, ['tags'])).toBe('---\nstatus: draft\n---\n# Plan\n');
+    });
+
+    it('should leave content without mapped keys untouched', () => {
+      const content = '---\nstatus: draft\n---\n# Plan\n';
+      expect(stripFrontmatter('note.md', content, ['tags'])).toBe(content);
+    });
+  });
+
+  describe('readFrontmatterTags', () => {
+    it.each([
+      ['---\ntags: [a, "b c", \'it\'\'s\']\n---\n', ['a', 'b c', "it's"]],
+      ['---\ntags:\n  - a\n  - "b"\n---\n', ['a', 'b']],
+      ['---\ntags:\n- a\n- a\n---\n', ['a']],
+      ['---\ntags: a, b # comment\n---\n', ['a', 'b']],
+      ['---\ntags: []\n---\n', []],
+      ['---\ntitle: x\n---\n', undefined],
+      ['# No frontmatter\ntags: [a]\n', undefined],
+    ])('should read %j', (content, tags) => {
+      expect(readFrontmatterTags(content)).toEqual(tags);
+    });
+  });
+
+  describe('withFrontmatter', () => {
+    let sdkMock: SDKMock;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      sdkMock = createSDKMock();
+    });
+
+    it('should add mapped fields on get', async () => {
+      sdkMock.documents.get.mockResolvedValue({
+        content: '# Plan\n',
+        document: { path: 'note.md', tags: ['work'], contentHash: 'c1' },
+      });
+      const client = withFrontmatter(sdkMock as never, ['tags']);
+
+      const result = await client.documents.get('vault-1', 'note.md');
+
+      expect(result.content).toBe('---\ntags: [work]\n---\n# Plan\n');
+      expect(result.document.contentHash).toBe('c1#work');
+    });
+
+    it('should upload the content without mapped fields and apply tag edits', async () => {
+      sdkMock.documents.put.mockResolvedValue({ path: 'note.md', tags: ['work', 'old'], contentHash: 'c1' });
+      sdkMock.documents.bulkTag.mockResolvedValue({ succeeded: ['note.md'], failed: [] });
+      const client = withFrontmatter(sdkMock as never, ['tags', 'title']);
+
+      const document = await client.documents.put(
+        'vault-1',
+        'note.md',
+        '---\ntags: [work, new]\ntitle: Edited\nstatus: draft\n---\n# Plan\n',
+      );
+
+      expect(sdkMock.documents.put).toHaveBeenCalledWith('vault-1', 'note.md', '---\nstatus: draft\n---\n# Plan\n');
+      expect(sdkMock.documents.bulkTag).toHaveBeenCalledWith('vault-1', {
+        items: ['note.md'],
+        addTags: ['new'],
+        removeTags: ['old'],
+      });
+      expect(document.tags).toEqual(['work', 'new']);
+      expect(document.contentHash).toBe('c1#new,work');
+    });
+
+    it('should not retag documents whose tags are unchanged', async () => {
+      sdkMock.documents.put.mockResolvedValue({ path: 'note.md', tags: ['work'] });
+      const client = withFrontmatter(sdkMock as never, ['tags']);
+
+      await client.documents.put('vault-1', 'note.md', '---\ntags: [work]\n---\n# Plan\n');
+
+      expect(sdkMock.documents.bulkTag).not.toHaveBeenCalled();
+    });
+
+    it('should leave the tags alone when the frontmatter has no tags key', async () => {
+      sdkMock.documents.put.mockResolvedValue({ path: 'note.md', tags: ['work'], contentHash: 'c1' });
+      const client = withFrontmatter(sdkMock as never, ['tags']);
+
+      const document = await client.documents.put('vault-1', 'note.md', '# Plan\n');
+
+      expect(sdkMock.documents.bulkTag).not.toHaveBeenCalled();
+      expect(document.tags).toEqual(['work']);
+      expect(document.contentHash).toBe('c1#work');
+    });
+
+    it('should clear the tags for an empty tags list', async () => {
+      sdkMock.documents.put.mockResolvedValue({ path: 'note.md', tags: ['work'] });
+      sdkMock.documents.bulkTag.mockResolvedValue({ succeeded: ['note.md'], failed: [] });
+      const client = withFrontmatter(sdkMock as never, ['tags']);
+
+      await client.documents.put('vault-1', 'note.md', '---\ntags: []\n---\n# Plan\n');
+
+      expect(sdkMock.documents.bulkTag).toHaveBeenCalledWith('vault-1', {
+        items: ['note.md'],
+        addTags: undefined,
+        removeTags: ['work'],
+      });
+    });
+
+    it('should fail the upload when tags cannot be applied', async () => {
+      sdkMock.documents.put.mockResolvedValue({ path: 'note.md', tags: [] });
+      sdkMock.documents.bulkTag.mockResolvedValue({ succeeded: [], failed: [{ path: 'note.md', error: 'Forbidden' }] });
+      const client = withFrontmatter(sdkMock as never, ['tags']);
+
+      await expect(client.documents.put('vault-1', 'note.md', '---\ntags: [a]\n---\n'))
+        .rejects.toThrow('Failed to update tags of note.md: Forbidden');
+    });
+
+    it('should fold tags into listed content hashes', async () => {
+      sdkMock.documents.list.mockResolvedValue([
+        { path: 'a.md', tags: ['b', 'a'], fileModifiedAt: '2024-01-01T00:00:00.000Z', sizeBytes: 3 },
+        { path: 'b.md', tags: [], contentHash: 'c2' },
+        { path: 'c.png', tags: ['x'], contentHash: 'c3' },
+      ]);
+      const client = withFrontmatter(sdkMock as never, ['tags']);
+
+      const docs = await client.documents.list('vault-1');
+
+      expect(docs.map((d: { contentHash?: string }) => d.contentHash)).toEqual([
+        '2024-01-01T00:00:00.000Z/3#a,b',
+        'c2',
+        'c3',
+      ]);
+      expect(client.vaults).toBe(sdkMock.vaults);
+    });
+  });
+});
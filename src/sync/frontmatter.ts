@@ -0,0 +1,289 @@
+/**
+ * Frontmatter mapping for sync.
+ * With the mapping on, the sync engine, watcher and remote poller see each
+ * markdown document as its content with the chosen document fields added to
+ * a YAML frontmatter block, through a client whose documents.get/put add and
+ * remove them. Tags edited in the block are applied back to the document; the
+ * other fields are read-only. Keys the mapping does not own are kept exactly
+ * as written, and a block left empty once the mapped fields are removed is
+ * dropped, so a round trip leaves the document content unchanged.
+ */
+import path from 'node:path';
+import type { LifestreamVaultClient } from '@lifestreamdynamics/vault-sdk';
+import type { FrontmatterField } from './types.js';
+
+/** Fields that can be mapped, in the order they are written. */
+export const FRONTMATTER_FIELDS: readonly FrontmatterField[] = ['tags', 'title', 'id', 'createdAt'];
+
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown']);
+
+/**
+ * Document metadata the mapping reads its values from.
+ */
+export interface FrontmatterDocument {
+  path: string;
+  tags?: string[];
+  title?: string | null;
+  id?: string;
+  createdAt?: string;
+  contentHash?: string | null;
+  fileModifiedAt?: string;
+  sizeBytes?: number;
+}
+
+interface FrontmatterBlock {
+  /** Opening delimiter line, with its line ending */
+  open: string;
+  /** Lines inside the block, each with its line ending */
+  lines: string[];
+  /** Closing delimiter line, with its line ending */
+  close: string;
+  /** Content after the block */
+  body: string;
+}
+
+/** A top-level key and its continuation lines; leading comments have no key. */
+interface FrontmatterEntry {
+  key: string | null;
+  lines: string[];
+}
+
+/**
+ * Check whether a value is a field the mapping supports.
+ */
+export function isFrontmatterField(value: unknown): value is FrontmatterField {
+  return FRONTMATTER_FIELDS.includes(value as FrontmatterField);
+}
+
+/**
+ * Parse a comma-separated field list, e.g. "tags,title".
+ * Returns null if any field is not supported.
+ */
+export function parseFrontmatterFields(value: string): FrontmatterField[] | null {
+  const fields = value.split(',').map(f => f.trim()).filter(Boolean);
+  if (fields.length === 0 || !fields.every(isFrontmatterField)) return null;
+  return FRONTMATTER_FIELDS.filter(f => fields.includes(f));
+}
+
+/**
+ * Describe the mapped fields for display, e.g. "tags, title".
+ */
+export function describeFrontmatter(fields: FrontmatterField[] | undefined): string {
+  return fields?.length ? fields.join(', ') : '(off)';
+}
+
+/**
+ * Whether a document can carry frontmatter.
+ */
+export function isMarkdownPath(docPath: string): boolean {
+  return MARKDOWN_EXTENSIONS.has(path.posix.extname(docPath).toLowerCase());
+}
+
+function splitFrontmatter(content: string): FrontmatterBlock | null {
+  const open = /^---[ \t]*\r?\n/.exec(content)?.[0];
+  if (!open) return null;
+  const lines: string[] = [];
+  let offset = open.length;
+  while (offset < content.length) {
+    const end = content.indexOf('\n', offset);
+    const next = end === -1 ? content.length : end + 1;
+    const line = content.slice(offset, next);
+    if (/^(---|\.\.\.)[ \t]*\r?\n?$/.test(line)) {
+      return { open, lines, close: line, body: content.slice(next) };
+    }
+    lines.push(line);
+    offset = next;
+  }
+  return null;
+}
+
+function parseEntries(lines: string[]): FrontmatterEntry[] {
+  const entries: FrontmatterEntry[] = [];
+  for (const line of lines) {
+    const key = /^([^\s#'"-][^:]*?)[ \t]*:(?:[ \t]|\r?\n|$)/.exec(line)?.[1];
+    if (key !== undefined || entries.length === 0) {
+      entries.push({ key: key ?? null, lines: [line] });
+    } else {
+      entries[entries.length - 1].lines.push(line);
+    }
+  }
+  return entries;
+}
+
+function yamlScalar(value: string): string {
+  const plain = /^[\p{L}\p{N}_][\p{L}\p{N}_./-]*(?: [\p{L}\p{N}_./-]+)*$/u.test(value)
+    && !/^(true|false|yes|no|on|off|null)$/i.test(value)
+    && !/^[-+.]?\d/.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function yamlUnquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+function stripComment(value: string): string {
+  return /["']/.test(value) ? value : value.replace(/(^|\s)#.*$/, '');
+}
+
+function mappedLine(field: FrontmatterField, doc: FrontmatterDocument, eol: string): string | null {
+  if (field === 'tags') {
+    return doc.tags?.length ? `tags: [${doc.tags.map(yamlScalar).join(', ')}]${eol}` : null;
+  }
+  const value = doc[field];
+  return typeof value === 'string' && value !== '' ? `${field}: ${yamlScalar(value)}${eol}` : null;
+}
+
+/**
+ * Add the mapped fields of a document to the frontmatter of its content,
+ * replacing any copies of them already there. Creates a block only when
+ * there is something to write.
+ */
+export function injectFrontmatter(
+  content: string,
+  doc: FrontmatterDocument,
+  fields: FrontmatterField[],
+): string {
+  if (!isMarkdownPath(doc.path)) return content;
+  const block = splitFrontmatter(content);
+  const eol = (block ? block.open : content).includes('\r\n') ? '\r\n' : '\n';
+  const mapped = FRONTMATTER_FIELDS
+    .filter(f => fields.includes(f))
+    .map(f => mappedLine(f, doc, eol))
+    .filter((line): line is string => line !== null);
+
+  if (!block) {
+    return mapped.length > 0 ? `---${eol}${mapped.join('')}---${eol}${content}` : content;
+  }
+  // Mapped fields go after leading comments, which would otherwise attach to them
+  const entries = parseEntries(block.lines);
+  const comments = entries[0]?.key === null ? entries.shift()!.lines : [];
+  const kept = entries
+    .filter(e => !fields.includes(e.key as FrontmatterField))
+    .flatMap(e => e.lines);
+  return block.open + comments.join('') + mapped.join('') + kept.join('') + block.close + block.body;
+}
+
+/**
+ * Remove the mapped fields from the frontmatter of a document's content, as
+ * it is uploaded. A block holding nothing else is removed entirely.
+ */
+export function stripFrontmatter(docPath: string, content: string, fields: FrontmatterField[]): string {
+  if (!isMarkdownPath(docPath)) return content;
+  const block = splitFrontmatter(content);
+  if (!block) return content;
+  const entries = parseEntries(block.lines);
+  const kept = entries.filter(e => e.key === null || !fields.includes(e.key as FrontmatterField));
+  if (kept.length === entries.length) return content;
+  const lines = kept.flatMap(e => e.lines);
+  return lines.length > 0 ? block.open + lines.join('') + block.close + block.body : block.body;
+}
+
+/**
+ * Read the tags listed in the frontmatter of a document's content. Accepts
+ * flow (`[a, b]`) and block (`- a`) sequences, and a single or
+ * comma-separated value. Returns undefined without a `tags` key, so a file
+ * written without the mapping leaves the document's tags alone; an empty
+ * list (`tags: []`) clears them.
+ */
+export function readFrontmatterTags(content: string): string[] | undefined {
+  const block = splitFrontmatter(content);
+  const entry = block && parseEntries(block.lines).find(e => e.key === 'tags');
+  if (!entry) return undefined;
+
+  const [first, ...rest] = entry.lines.map(l => l.replace(/\r?\n$/, ''));
+  const inline = stripComment(first.slice(first.indexOf(':') + 1)).trim();
+  let tags: string[];
+  if (inline.startsWith('[')) {
+    const flow = [inline, ...rest.map(l => l.trim())].join(' ');
+    const items = flow.slice(1, flow.lastIndexOf(']') === -1 ? undefined : flow.lastIndexOf(']'));
+    tags = items.match(/\s*(?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+)/g)?.map(t => yamlUnquote(t.trim())) ?? [];
+  } else if (inline) {
+    const value = yamlUnquote(inline);
+    tags = value === inline ? value.split(',') : [value];
+  } else {
+    tags = rest
+      .map(l => stripComment(l).trim())
+      .filter(l => l.startsWith('-'))
+      .map(l => yamlUnquote(l.slice(1).trim()));
+  }
+  return [...new Set(tags.map(t => t.trim()).filter(Boolean))];
+}
+
+/**
+ * Listing metadata is compared with the remote manifest to skip unchanged
+ * documents, but retagging a document leaves its content alone. Folding the
+ * tags into the content hash makes a retagged document count as changed.
+ */
+function withTagsHash<T extends FrontmatterDocument>(doc: T): T {
+  if (!isMarkdownPath(doc.path) || !doc.tags?.length) return doc;
+  const base = doc.contentHash ?? `${doc.fileModifiedAt}/${doc.sizeBytes}`;
+  return { ...doc, contentHash: `${base}#${[...doc.tags].sort().join(',')}` };
+}
+
+/**
+ * Wrap a client so markdown documents are read with the mapped fields in
+ * their frontmatter, and written without them, with tags edited in the
+ * frontmatter applied to the document.
+ */
+export function withFrontmatter(client: LifestreamVaultClient, fields: FrontmatterField[]): LifestreamVaultClient {
+  const mapsTags = fields.includes('tags');
+  const list = async (...args: Parameters<LifestreamVaultClient['documents']['list']>) => {
+    const docs = await client.documents.list(...args);
+    return mapsTags ? docs.map(withTagsHash) : docs;
+  };
+  const get = async (vaultId: string, docPath: string) => {
+    const result = await client.documents.get(vaultId, docPath);
+    return {
+      ...result,
+      content: injectFrontmatter(result.content, result.document, fields),
+      document: mapsTags ? withTagsHash(result.document) : result.document,
+    };
+  };
+  const put = async (vaultId: string, docPath: string, content: string) => {
+    const document = await client.documents.put(vaultId, docPath, stripFrontmatter(docPath, content, fields));
+    if (!mapsTags || !isMarkdownPath(docPath)) return document;
+
+    const tags = readFrontmatterTags(content);
+    if (tags === undefined) return withTagsHash(document);
+    const current: string[] = document.tags ?? [];
+    const addTags = tags.filter(t => !current.includes(t));
+    const removeTags = current.filter(t => !tags.includes(t));
+    if (addTags.length > 0 || removeTags.length > 0) {
+      const result = await client.documents.bulkTag(vaultId, {
+        items: [docPath],
+        addTags: addTags.length > 0 ? addTags : undefined,
+        removeTags: removeTags.length > 0 ? removeTags : undefined,
+      });
+      const failure = result.failed[0];
+      if (failure) throw new Error(`Failed to update tags of ${docPath}: ${failure.error}`);
+    }
+    return withTagsHash({ ...document, tags });
+  };
+
+  const documents = new Proxy(client.documents, {
+    get(target, prop) {
+      if (prop === 'list') return list;
+      if (prop === 'get') return get;
+      if (prop === 'put') return put;
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+  return new Proxy(client, {
+    get(target, prop) {
+      if (prop === 'documents') return documents;
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+import {
+  startSyncRun,
+  appendSyncHistory,
+  loadSyncHistory,
+  deleteSyncHistory,
+  runTouchesPath,
+  recordChange,
+} from './history.js';
+
+describe('sync history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedFs.existsSync.mockReturnValue(false);
+  });
+
+  it('should count recorded changes like a sync result', () => {
+    const run = startSyncRun('manual', 'sync');
+    recordChange(run, { path: 'a.md', op: 'upload' }, 10);
+    recordChange(run, { path: 'b.md', op: 'download' }, 20);
+    recordChange(run, { path: 'c.md', op: 'delete-local' });
+    recordChange(run, { path: 'd.md', op: 'move-remote', fromPath: 'old.md' });
+    recordChange(run, { path: 'e.md', op: 'resolve' });
+
+    expect(run).toEqual(expect.objectContaining({
+      trigger: 'manual',
+      operation: 'sync',
+      filesUploaded: 1,
+      filesDownloaded: 1,
+      filesDeleted: 1,
+      filesMoved: 1,
+      bytesTransferred: 30,
+    }));
+    expect(run.changes).toHaveLength(5);
+  });
+
+  it('should append a run as a JSON line and set its end time', () => {
+    mockedFs.existsSync.mockImplementation((p) => !String(p).endsWith('.jsonl'));
+    const run = startSyncRun('watcher', 'watch');
+    recordChange(run, { path: 'a.md', op: 'upload' }, 5);
+
+    appendSyncHistory('sync-1', run);
+
+    const [filePath, content, options] = mockedFs.appendFileSync.mock.calls[0];
+    expect(filePath).toEqual(expect.stringContaining('sync-1.history.jsonl'));
+    expect(options).toEqual({ mode: 0o600 });
+    const written = JSON.parse(String(content).trim());
+    expect(written.changes).toEqual([{ path: 'a.md', op: 'upload' }]);
+    expect(written.endedAt).not.toBe('');
+    expect(mockedFs.renameSync).not.toHaveBeenCalled();
+  });
+
+  it('should rotate the log once it grows past 1 MB', () => {
+    mockedFs.existsSync.mockImplementation((p) => !String(p).endsWith('.3.jsonl'));
+    mockedFs.statSync.mockReturnValue({ size: 2 * 1024 * 1024 } as fs.Stats);
+
+    appendSyncHistory('sync-1', startSyncRun('poller', 'poll'));
+
+    const renames = mockedFs.renameSync.mock.calls.map(([from, to]) => [String(from), String(to)]);
+    expect(renames).toEqual([
+      [expect.stringContaining('sync-1.history.2.jsonl'), expect.stringContaining('sync-1.history.3.jsonl')],
+      [expect.stringContaining('sync-1.history.1.jsonl'), expect.stringContaining('sync-1.history.2.jsonl')],
+      [expect.stringContaining('sync-1.history.jsonl'), expect.stringContaining('sync-1.history.1.jsonl')],
+    ]);
+    expect(mockedFs.appendFileSync).toHaveBeenCalledWith(
+      expect.stringContaining('sync-1.history.jsonl'), expect.any(String), { mode: 0o600 },
+    );
+  });
+
+  it('should never throw when the history cannot be written', () => {
+    mockedFs.appendFileSync.mockImplementation(() => { throw new Error('EACCES'); });
+    expect(() => appendSyncHistory('sync-1', startSyncRun('manual', 'pull'))).not.toThrow();
+    mockedFs.appendFileSync.mockReset();
+  });
+
+  it('should load rotated files oldest first and skip unreadable lines', () => {
+    mockedFs.existsSync.mockImplementation((p) => /history(\.1)?\.jsonl$/.test(String(p)));
+    mockedFs.readFileSync.mockImplementation((p) => String(p).endsWith('.1.jsonl')
+      ? JSON.stringify({ startedAt: 'old' }) + '\n'
+      : JSON.stringify({ startedAt: 'new' }) + '\n{"startedAt": "partial\n');
+
+    const records = loadSyncHistory('sync-1');
+
+    expect(records.map(r => r.startedAt)).toEqual(['old', 'new']);
+  });
+
+  it('should delete the current and rotated history files', () => {
+    mockedFs.existsSync.mockReturnValue(true);
+    deleteSyncHistory('sync-1');
+    expect(mockedFs.unlinkSync).toHaveBeenCalledTimes(4);
+  });
+
+  it('should match runs that changed, moved or failed on a document', () => {
+    const run = startSyncRun('manual', 'push');
+    recordChange(run, { path: 'new.md', op: 'move-remote', fromPath: 'old.md' });
+    run.errors.push({ path: 'broken.md', error: 'boom' });
+
+    expect(runTouchesPath(run, 'new.md')).toBe(true);
+    expect(runTouchesPath(run, 'old.md')).toBe(true);
+    expect(runTouchesPath(run, 'broken.md')).toBe(true);
+    expect(runTouchesPath(run, 'other.md')).toBe(false);
+  });
+});
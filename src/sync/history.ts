@@ -0,0 +1,157 @@
+/**
+ * Run history of a sync configuration.
+ * Every pull, push, sync, watcher event and poll that changed something is
+ * appended as a JSON line to ~/.lsvault/sync-state/<syncId>.history.jsonl,
+ * so `lsvault sync history` can show when and why a file changed. The log is
+ * rotated to <syncId>.history.1.jsonl, .2 and so on once it grows past 1 MB.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import type { SyncResult } from './engine.js';
+import type { JournalOperation } from './journal.js';
+
+const STATE_DIR = path.join(os.homedir(), '.lsvault', 'sync-state');
+const MAX_HISTORY_SIZE = 1024 * 1024; // 1MB
+/** Rotated history files kept besides the current one */
+const MAX_ROTATED_FILES = 3;
+
+/** What started a sync run. */
+export type SyncTrigger = 'manual' | 'watcher' | 'poller' | 'daemon';
+
+export const SYNC_TRIGGERS: SyncTrigger[] = ['manual', 'watcher', 'poller', 'daemon'];
+
+/** A file operation applied by a run. */
+export interface SyncHistoryChange {
+  path: string;
+  op: JournalOperation;
+  /** Previous path of a moved file */
+  fromPath?: string;
+}
+
+export interface SyncHistoryRecord extends SyncResult {
+  /** ISO 8601 timestamp when the run started */
+  startedAt: string;
+  /** ISO 8601 timestamp when the run finished */
+  endedAt: string;
+  trigger: SyncTrigger;
+  /** What ran: pull, push, sync, resume, watch (a local change) or poll */
+  operation: string;
+  /** File operations that succeeded, in completion order */
+  changes: SyncHistoryChange[];
+}
+
+function historyFilePath(syncId: string, rotation = 0): string {
+  return path.join(STATE_DIR, rotation === 0 ? `${syncId}.history.jsonl` : `${syncId}.history.${rotation}.jsonl`);
+}
+
+/**
+ * Start a history record for a run; fill in its counts and changes, then
+ * pass it to appendSyncHistory.
+ */
+export function startSyncRun(trigger: SyncTrigger, operation: string): SyncHistoryRecord {
+  return {
+    startedAt: new Date().toISOString(),
+    endedAt: '',
+    trigger,
+    operation,
+    filesUploaded: 0,
+    filesDownloaded: 0,
+    filesDeleted: 0,
+    filesMoved: 0,
+    bytesTransferred: 0,
+    changes: [],
+    errors: [],
+    conflicts: [],
+  };
+}
+
+/**
+ * Append a finished run to the history, rotating the log when it is full.
+ * History is diagnostic, so failing to write it never fails the sync.
+ */
+export function appendSyncHistory(syncId: string, record: SyncHistoryRecord): void {
+  record.endedAt = new Date().toISOString();
+  try {
+    if (!fs.existsSync(STATE_DIR)) {
+      fs.mkdirSync(STATE_DIR, { recursive: true, mode: 0o700 });
+    }
+    const filePath = historyFilePath(syncId);
+    if (fs.existsSync(filePath) && fs.statSync(filePath).size > MAX_HISTORY_SIZE) {
+      for (let i = MAX_ROTATED_FILES - 1; i >= 1; i--) {
+        if (fs.existsSync(historyFilePath(syncId, i))) {
+          fs.renameSync(historyFilePath(syncId, i), historyFilePath(syncId, i + 1));
+        }
+      }
+      fs.renameSync(filePath, historyFilePath(syncId, 1));
+    }
+    fs.appendFileSync(filePath, JSON.stringify(record) + '\n', { mode: 0o600 });
+  } catch {
+    // Ignore history write errors
+  }
+}
+
+/**
+ * Load the recorded runs of a sync configuration, oldest first.
+ * Unreadable lines are skipped.
+ */
+export function loadSyncHistory(syncId: string): SyncHistoryRecord[] {
+  const records: SyncHistoryRecord[] = [];
+  for (let i = MAX_ROTATED_FILES; i >= 0; i--) {
+    const filePath = historyFilePath(syncId, i);
+    if (!fs.existsSync(filePath)) continue;
+    let raw: string;
+    try {
+      raw = fs.readFileSync(filePath, 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as SyncHistoryRecord);
+      } catch {
+        // Skip partially written lines
+      }
+    }
+  }
+  return records;
+}
+
+/**
+ * Delete the history of a sync configuration, including rotated files.
+ */
+export function deleteSyncHistory(syncId: string): void {
+  for (let i = 0; i <= MAX_ROTATED_FILES; i++) {
+    const filePath = historyFilePath(syncId, i);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+}
+
+/**
+ * Check whether a run touched a document, as a change, error or conflict.
+ */
+export function runTouchesPath(record: SyncHistoryRecord, docPath: string): boolean {
+  return record.changes.some(c => c.path === docPath || c.fromPath === docPath)
+    || record.errors.some(e => e.path === docPath)
+    || record.conflicts.some(c => c.path === docPath);
+}
+
+/**
+ * Add a successful file operation to a run, counting it like SyncResult does.
+ */
+export function recordChange(record: SyncHistoryRecord, change: SyncHistoryChange, bytes = 0): void {
+  record.changes.push(change);
+  switch (change.op) {
+    case 'download': record.filesDownloaded++; break;
+    case 'upload': record.filesUploaded++; break;
+    case 'delete-local':
+    case 'delete-remote': record.filesDeleted++; break;
+    case 'move-local':
+    case 'move-remote': record.filesMoved++; break;
+    case 'resolve': break;
+  }
+  record.bytesTransferred += bytes;
+}
@@ -7,13 +7,22 @@ const mockedFs = vi.mocked(fs);
 import {
   DEFAULT_IGNORE_PATTERNS,
   loadIgnoreFile,
+  loadNestedIgnoreFiles,
+  scopePattern,
+  normalizeIncludePath,
+  includeToIgnorePatterns,
   resolveIgnorePatterns,
   shouldIgnore,
 } from './ignore.js';
 
+function dirent(name: string, dir = true): fs.Dirent {
+  return { name, isDirectory: () => dir } as fs.Dirent;
+}
+
 describe('sync ignore', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockedFs.readdirSync.mockReturnValue([]);
   });
 
   describe('DEFAULT_IGNORE_PATTERNS', () => {
@@ -58,6 +67,15 @@ describe('sync ignore', () => {
       expect(patterns).toContain('custom-pattern');
     });
 
+    it('should put include rules first so ignore patterns still apply', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+      const patterns = resolveIgnorePatterns(['*.pdf'], '/tmp/vault', ['projects/']);
+      expect(patterns.slice(0, 2)).toEqual(['/*', '!/projects/']);
+      expect(shouldIgnore('projects/a.md', patterns)).toBe(false);
+      expect(shouldIgnore('projects/a.pdf', patterns)).toBe(true);
+      expect(shouldIgnore('other/a.md', patterns)).toBe(true);
+    });
+
     it('should deduplicate patterns', () => {
       mockedFs.existsSync.mockReturnValue(false);
       const patterns = resolveIgnorePatterns(['.git/', '.DS_Store'], '/tmp/vault');
@@ -67,10 +85,40 @@ describe('sync ignore', () => {
   });
 
   describe('shouldIgnore', () => {
-    it('should match directory patterns', () => {
+    it('should match directory patterns at any depth', () => {
       expect(shouldIgnore('.git/config', ['.git/'])).toBe(true);
-      expect(shouldIgnore('sub/.git/config', ['.git/'])).toBe(false);
+      expect(shouldIgnore('sub/.git/config', ['.git/'])).toBe(true);
       expect(shouldIgnore('node_modules/pkg/index.js', ['node_modules/'])).toBe(true);
+      expect(shouldIgnore('node_modules/', ['node_modules/'])).toBe(true);
+    });
+
+    it('should match directory-only patterns against directories only', () => {
+      expect(shouldIgnore('build', ['build/'])).toBe(false);
+      expect(shouldIgnore('build/', ['build/'])).toBe(true);
+    });
+
+    it('should anchor patterns containing a slash to the root', () => {
+      expect(shouldIgnore('.git/config', ['/.git/'])).toBe(true);
+      expect(shouldIgnore('sub/.git/config', ['/.git/'])).toBe(false);
+      expect(shouldIgnore('drafts/a.md', ['drafts/*.md'])).toBe(true);
+      expect(shouldIgnore('notes/drafts/a.md', ['drafts/*.md'])).toBe(false);
+      expect(shouldIgnore('notes/drafts/a.md', ['notes/drafts/*.md'])).toBe(true);
+      expect(shouldIgnore('a/b/c.log', ['a/**/*.log'])).toBe(true);
+    });
+
+    it('should re-include paths with negated patterns, last match winning', () => {
+      expect(shouldIgnore('keep.pdf', ['*.pdf', '!keep.pdf'])).toBe(false);
+      expect(shouldIgnore('other.pdf', ['*.pdf', '!keep.pdf'])).toBe(true);
+      expect(shouldIgnore('keep.pdf', ['*.pdf', '!keep.pdf', 'keep.pdf'])).toBe(true);
+    });
+
+    it('should not re-include files inside an ignored directory', () => {
+      expect(shouldIgnore('build/keep.md', ['build/', '!keep.md'])).toBe(true);
+      expect(shouldIgnore('build/keep.md', ['build/*', '!build/keep.md'])).toBe(false);
+    });
+
+    it('should treat a leading backslash as an escape', () => {
+      expect(shouldIgnore('!important.md', ['\\!important.md'])).toBe(true);
     });
 
     it('should match glob patterns', () => {
@@ -99,4 +147,70 @@ describe('sync ignore', () => {
       expect(shouldIgnore('anything.md', [])).toBe(false);
     });
   });
+
+  describe('nested ignore files', () => {
+    it('should scope patterns to their directory', () => {
+      expect(scopePattern('*.pdf', 'docs')).toBe('/docs/**/*.pdf');
+      expect(scopePattern('/build/', 'docs')).toBe('/docs/build/');
+      expect(scopePattern('drafts/*.md', 'docs/notes')).toBe('/docs/notes/drafts/*.md');
+      expect(scopePattern('!keep.pdf', 'docs')).toBe('!/docs/**/keep.pdf');
+    });
+
+    it('should apply scoped patterns only below their directory', () => {
+      const patterns = [scopePattern('*.pdf', 'docs'), scopePattern('!keep.pdf', 'docs')];
+      expect(shouldIgnore('docs/a.pdf', patterns)).toBe(true);
+      expect(shouldIgnore('docs/sub/a.pdf', patterns)).toBe(true);
+      expect(shouldIgnore('docs/keep.pdf', patterns)).toBe(false);
+      expect(shouldIgnore('a.pdf', patterns)).toBe(false);
+    });
+
+    it('should load ignore files from subdirectories, skipping ignored ones', () => {
+      mockedFs.readdirSync.mockImplementation(((dir: string) => {
+        if (dir === '/tmp/vault') return [dirent('docs'), dirent('node_modules'), dirent('a.md', false)];
+        if (dir === '/tmp/vault/docs') return [dirent('old')];
+        return [];
+      }) as unknown as typeof fs.readdirSync);
+      mockedFs.existsSync.mockImplementation((p) => String(p).startsWith('/tmp/vault/docs/'));
+      mockedFs.readFileSync.mockImplementation((p) => String(p) === '/tmp/vault/docs/.lsvault-ignore' ? 'old/\n' : '*.md\n');
+
+      const nested = loadNestedIgnoreFiles('/tmp/vault', ['node_modules/']);
+
+      expect(nested).toEqual(['/docs/**/old/']);
+      expect(mockedFs.readdirSync).not.toHaveBeenCalledWith('/tmp/vault/node_modules', expect.anything());
+      expect(mockedFs.readdirSync).not.toHaveBeenCalledWith('/tmp/vault/docs/old', expect.anything());
+    });
+  });
+
+  describe('include paths', () => {
+    it('should normalize include paths', () => {
+      expect(normalizeIncludePath('./projects/')).toBe('projects/');
+      expect(normalizeIncludePath('/journal')).toBe('journal');
+      expect(normalizeIncludePath('a//b/')).toBe('a/b/');
+      expect(normalizeIncludePath('../x')).toBeNull();
+      expect(normalizeIncludePath('  ')).toBeNull();
+    });
+
+    it('should whitelist included folders', () => {
+      expect(includeToIgnorePatterns(['projects/work/', 'journal/'])).toEqual([
+        '/*', '!/projects/', '/projects/*', '!/projects/work/', '!/journal/',
+      ]);
+      expect(includeToIgnorePatterns([])).toEqual([]);
+    });
+
+    it('should sync only included paths and the folders leading to them', () => {
+      const patterns = includeToIgnorePatterns(['projects/work/', 'journal/', 'todo.md']);
+      expect(shouldIgnore('projects/', patterns)).toBe(false);
+      expect(shouldIgnore('projects/work/a/b.md', patterns)).toBe(false);
+      expect(shouldIgnore('projects/home/b.md', patterns)).toBe(true);
+      expect(shouldIgnore('projects/readme.md', patterns)).toBe(true);
+      expect(shouldIgnore('journal/2025/06.md', patterns)).toBe(false);
+      expect(shouldIgnore('todo.md', patterns)).toBe(false);
+      expect(shouldIgnore('other.md', patterns)).toBe(true);
+      expect(shouldIgnore('archive/', patterns)).toBe(true);
+    });
+
+    it('should let a folder include cover deeper includes', () => {
+      expect(includeToIgnorePatterns(['projects/', 'projects/work/'])).toEqual(['/*', '!/projects/']);
+    });
+  });
 });
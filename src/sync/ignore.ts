@@ -1,10 +1,15 @@
 /**
  * Ignore pattern matching for sync operations.
- * Supports .lsvault-ignore files and built-in default patterns.
+ * Patterns follow .gitignore semantics: the last matching pattern wins, `!`
+ * re-includes a path, a pattern containing a slash is anchored to the sync
+ * root, a trailing slash matches directories only, and nothing inside an
+ * ignored directory can be re-included. Patterns come from built-in
+ * defaults, the sync config, and .lsvault-ignore files at the root and in
+ * subdirectories.
  */
 import fs from 'node:fs';
 import path from 'node:path';
-import { minimatch } from 'minimatch';
+import { Minimatch } from 'minimatch';
 
 /** Default patterns that are always ignored. */
 export const DEFAULT_IGNORE_PATTERNS = [
@@ -19,12 +24,47 @@ export const DEFAULT_IGNORE_PATTERNS = [
   '.lsvault-*',
 ];
 
+export const IGNORE_FILE_NAME = '.lsvault-ignore';
+
+interface IgnoreRule {
+  negate: boolean;
+  dirOnly: boolean;
+  /** Matched against the whole path rather than the last path segment */
+  anchored: boolean;
+  matcher: Minimatch;
+}
+
+/** Compiled rules, shared by every pattern list */
+const compiledRules = new Map<string, IgnoreRule>();
+
+function compileRule(pattern: string): IgnoreRule {
+  let rule = compiledRules.get(pattern);
+  if (rule) return rule;
+
+  let body = pattern;
+  const negate = body.startsWith('!');
+  if (negate) {
+    body = body.slice(1);
+  } else if (body.startsWith('\\')) {
+    // "\!" and "\#" match a literal leading ! or #
+    body = body.slice(1);
+  }
+  const dirOnly = body.endsWith('/');
+  if (dirOnly) body = body.slice(0, -1);
+  const anchored = body.includes('/');
+  body = body.replace(/^\//, '');
+
+  rule = { negate, dirOnly, anchored, matcher: new Minimatch(body, { dot: true }) };
+  compiledRules.set(pattern, rule);
+  return rule;
+}
+
 /**
- * Load ignore patterns from a .lsvault-ignore file.
+ * Load ignore patterns from the .lsvault-ignore file in a directory.
  * Returns empty array if file doesn't exist.
  */
 export function loadIgnoreFile(localPath: string): string[] {
-  const ignoreFile = path.join(localPath, '.lsvault-ignore');
+  const ignoreFile = path.join(localPath, IGNORE_FILE_NAME);
   if (!fs.existsSync(ignoreFile)) return [];
   try {
     const content = fs.readFileSync(ignoreFile, 'utf-8');
@@ -38,40 +78,148 @@ export function loadIgnoreFile(localPath: string): string[] {
 }
 
 /**
- * Combine default patterns, config-level patterns, and .lsvault-ignore patterns.
+ * Rewrite a pattern from the .lsvault-ignore file in `dir` so it applies
+ * relative to the sync root, e.g. "*.pdf" in "docs" becomes "/docs/**\/*.pdf"
+ * and "/build/" becomes "/docs/build/".
+ */
+export function scopePattern(pattern: string, dir: string): string {
+  const negate = pattern.startsWith('!');
+  let body = negate ? pattern.slice(1) : pattern;
+  const dirOnly = body.endsWith('/');
+  if (dirOnly) body = body.slice(0, -1);
+  const anchored = body.includes('/');
+  body = body.replace(/^\//, '');
+  return `${negate ? '!' : ''}/${dir}/${anchored ? '' : '**/'}${body}${dirOnly ? '/' : ''}`;
+}
+
+/**
+ * Load the .lsvault-ignore files below the sync root, scoped to their
+ * directories. Directories already ignored are not searched.
+ */
+export function loadNestedIgnoreFiles(localPath: string, patterns: string[]): string[] {
+  const nested: string[] = [];
+
+  const walk = (relDir: string): void => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(localPath, relDir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+      if (shouldIgnore(relPath + '/', [...patterns, ...nested])) continue;
+      nested.push(...loadIgnoreFile(path.join(localPath, relPath)).map(p => scopePattern(p, relPath)));
+      walk(relPath);
+    }
+  };
+
+  walk('');
+  return nested;
+}
+
+/**
+ * Normalize an include path, e.g. "./projects/" to "projects/".
+ * Returns null if the path is empty or leaves the sync root.
+ */
+export function normalizeIncludePath(includePath: string): string | null {
+  const normalized = includePath.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+  const segments = normalized.split('/').filter(Boolean);
+  if (segments.length === 0 || segments.some(s => s === '.' || s === '..')) return null;
+  return segments.join('/') + (normalized.endsWith('/') ? '/' : '');
+}
+
+/**
+ * Turn include paths into ignore patterns that exclude everything else, using
+ * the .gitignore whitelist idiom: ignore every entry of a directory, then
+ * re-include the entries on the way to an included path. For example
+ * ['projects/work/', 'journal/'] becomes
+ * ['/*', '!/projects/', '/projects/*', '!/projects/work/', '!/journal/'].
+ */
+export function includeToIgnorePatterns(include: string[]): string[] {
+  interface Node { children: Map<string, Node>; included: boolean; dirOnly: boolean }
+  const root: Node = { children: new Map(), included: false, dirOnly: true };
+
+  for (const entry of include) {
+    const normalized = normalizeIncludePath(entry);
+    if (!normalized) continue;
+    const segments = normalized.split('/').filter(Boolean);
+    let node = root;
+    segments.forEach((segment, i) => {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = { children: new Map(), included: false, dirOnly: true };
+        node.children.set(segment, child);
+      }
+      if (i === segments.length - 1) {
+        child.included = true;
+        child.dirOnly = normalized.endsWith('/');
+      }
+      node = child;
+    });
+  }
+
+  const patterns: string[] = [];
+  const visit = (node: Node, prefix: string): void => {
+    if (node.included || node.children.size === 0) return;
+    patterns.push(`${prefix}/*`);
+    for (const [segment, child] of node.children) {
+      const childPath = `${prefix}/${segment}`;
+      patterns.push(`!${childPath}${child.included && !child.dirOnly ? '' : '/'}`);
+      visit(child, childPath);
+    }
+  };
+  visit(root, '');
+  return patterns;
+}
+
+/**
+ * Combine include rules, default patterns, config-level patterns, and the
+ * .lsvault-ignore files, in order of precedence (later patterns win).
  */
 export function resolveIgnorePatterns(
   configIgnore: string[],
   localPath: string,
+  include: string[] = [],
 ): string[] {
-  const filePatterns = loadIgnoreFile(localPath);
-  // Deduplicate
-  const all = new Set([...DEFAULT_IGNORE_PATTERNS, ...configIgnore, ...filePatterns]);
-  return [...all];
+  const patterns = [
+    ...includeToIgnorePatterns(include),
+    ...DEFAULT_IGNORE_PATTERNS,
+    ...configIgnore,
+    ...loadIgnoreFile(localPath),
+  ];
+  patterns.push(...loadNestedIgnoreFiles(localPath, patterns));
+  // Deduplicate, keeping the last occurrence; an earlier duplicate never decides a match
+  return patterns.filter((p, i) => patterns.lastIndexOf(p) === i);
+}
+
+function matchRules(relPath: string, isDir: boolean, patterns: string[]): boolean {
+  let ignored = false;
+  for (const pattern of patterns) {
+    const rule = compileRule(pattern);
+    if (rule.dirOnly && !isDir) continue;
+    if (rule.negate !== ignored) continue;
+    const subject = rule.anchored ? relPath : path.posix.basename(relPath);
+    if (rule.matcher.match(subject)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
 }
 
 /**
  * Check if a document path should be ignored.
- * The docPath should be a relative path using forward slashes.
+ * The docPath should be a relative path using forward slashes; directories
+ * are passed with a trailing slash.
  */
 export function shouldIgnore(docPath: string, patterns: string[]): boolean {
-  for (const pattern of patterns) {
-    // Directory patterns (ending with /)
-    if (pattern.endsWith('/')) {
-      const dirPattern = pattern.slice(0, -1);
-      if (docPath.startsWith(dirPattern + '/') || docPath === dirPattern) {
-        return true;
-      }
-    }
-    // Glob patterns
-    if (minimatch(docPath, pattern, { dot: true })) {
-      return true;
-    }
-    // Also check basename for file-level patterns (e.g., ".DS_Store" matches "sub/.DS_Store")
-    const basename = path.posix.basename(docPath);
-    if (minimatch(basename, pattern, { dot: true })) {
-      return true;
-    }
+  if (patterns.length === 0) return false;
+  const isDir = docPath.endsWith('/');
+  const segments = docPath.split('/').filter(Boolean);
+  // Nothing inside an ignored directory can be re-included
+  for (let i = 1; i < segments.length; i++) {
+    if (matchRules(segments.slice(0, i).join('/'), true, patterns)) return true;
   }
-  return false;
+  return matchRules(segments.join('/'), isDir, patterns);
 }
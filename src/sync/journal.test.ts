@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+vi.mock('./daemon.js', () => ({
+  isProcessRunning: vi.fn(() => false),
+}));
+
+import {
+  beginJournal,
+  endJournal,
+  journalIntent,
+  journalDone,
+  journalFailed,
+  clearJournal,
+  loadInterruptedRun,
+  snapshotPaths,
+  applyStateChanges,
+} from './journal.js';
+import { isProcessRunning } from './daemon.js';
+import type { SyncState } from './types.js';
+import type { RemoteManifest } from './remote-manifest.js';
+
+const file = (p: string, hash = 'h') => ({ path: p, hash, mtime: '', size: 1 });
+
+function journalLines(...records: unknown[]): string {
+  return records.map(r => JSON.stringify(r)).join('\n') + '\n';
+}
+
+describe('sync journal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('writing', () => {
+    it('should start a fresh journal file with a begin record naming its owner', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      const runId = beginJournal('sync-1');
+      const [filePath, content, options] = mockedFs.writeFileSync.mock.calls[0];
+      expect(filePath).toEqual(expect.stringContaining('sync-1.journal.jsonl'));
+      expect(JSON.parse(content as string)).toEqual(expect.objectContaining({ type: 'begin', pid: process.pid, runId }));
+      expect(options).toEqual({ mode: 0o600 });
+      endJournal(runId);
+    });
+
+    it('should not replace the journal of a run still in flight', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      const runId = beginJournal('sync-1');
+      mockedFs.readFileSync.mockReturnValue(mockedFs.writeFileSync.mock.calls[0][1] as string);
+
+      expect(() => beginJournal('sync-1')).toThrow('A sync run of sync-1 is already in progress');
+      endJournal(runId);
+      expect(() => endJournal(beginJournal('sync-1'))).not.toThrow();
+    });
+
+    it('should append intent, done and failed records as JSON lines', () => {
+      journalIntent('sync-1', { seq: 1, op: 'download', path: 'a.md' });
+      journalDone('sync-1', 1, []);
+      journalFailed('sync-1', 2);
+
+      const records = mockedFs.appendFileSync.mock.calls.map(c => JSON.parse(c[1] as string));
+      expect(records).toEqual([
+        { type: 'intent', seq: 1, op: 'download', path: 'a.md' },
+        { type: 'done', seq: 1, changes: [] },
+        { type: 'failed', seq: 2 },
+      ]);
+    });
+
+    it('should remove the journal once the run is saved', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      clearJournal('sync-1');
+      expect(mockedFs.unlinkSync).toHaveBeenCalledWith(expect.stringContaining('sync-1.journal.jsonl'));
+    });
+  });
+
+  describe('loadInterruptedRun', () => {
+    it('should return null when no run is journaled', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+      expect(loadInterruptedRun('sync-1')).toBeNull();
+    });
+
+    it('should separate finished operations from those in flight', () => {
+      const change = { path: 'a.md', local: file('a.md'), remote: file('a.md'), manifest: null };
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(journalLines(
+        { type: 'begin', startedAt: '2025-01-01T00:00:00.000Z' },
+        { type: 'intent', seq: 1, op: 'download', path: 'a.md' },
+        { type: 'intent', seq: 2, op: 'upload', path: 'b.md' },
+        { type: 'intent', seq: 3, op: 'delete-remote', path: 'c.md' },
+        { type: 'done', seq: 1, changes: [change] },
+        { type: 'failed', seq: 3 },
+      ));
+
+      const run = loadInterruptedRun('sync-1');
+
+      expect(run).toEqual({
+        startedAt: '2025-01-01T00:00:00.000Z',
+        completed: [[change]],
+        pending: [{ seq: 2, op: 'upload', path: 'b.md' }],
+      });
+    });
+
+    it('should not report a run of this process that is still in flight', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      const runId = beginJournal('sync-1');
+      mockedFs.readFileSync.mockReturnValue(journalLines(
+        JSON.parse(mockedFs.writeFileSync.mock.calls[0][1] as string),
+        { type: 'intent', seq: 1, op: 'download', path: 'a.md' },
+      ));
+
+      expect(loadInterruptedRun('sync-1')).toBeNull();
+      endJournal(runId);
+      expect(loadInterruptedRun('sync-1')!.pending).toEqual([{ seq: 1, op: 'download', path: 'a.md' }]);
+    });
+
+    it('should report a run of another process only once that process is gone', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(journalLines(
+        { type: 'begin', startedAt: 't', pid: 4242, runId: 'other-run' },
+      ));
+
+      vi.mocked(isProcessRunning).mockReturnValueOnce(true);
+      expect(loadInterruptedRun('sync-1')).toBeNull();
+      expect(isProcessRunning).toHaveBeenCalledWith(4242);
+      expect(loadInterruptedRun('sync-1')).toEqual({ startedAt: 't', completed: [], pending: [] });
+    });
+
+    it('should ignore a partially written last line', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(
+        journalLines(
+          { type: 'begin', startedAt: 't' },
+          { type: 'intent', seq: 1, op: 'download', path: 'a.md' },
+        ) + '{"type":"done","seq":1,"chan',
+      );
+
+      expect(loadInterruptedRun('sync-1')!.pending).toEqual([{ seq: 1, op: 'download', path: 'a.md' }]);
+    });
+  });
+
+  describe('snapshotPaths / applyStateChanges', () => {
+    it('should round-trip state entries, including removals', () => {
+      const before: SyncState = { syncId: 's', local: { 'a.md': file('a.md') }, remote: {}, updatedAt: '' };
+      const manifest: RemoteManifest = {};
+      const changes = snapshotPaths(before, manifest, ['a.md', 'gone.md']);
+
+      const state: SyncState = {
+        syncId: 's',
+        local: { 'gone.md': file('gone.md') },
+        remote: { 'gone.md': file('gone.md') },
+        updatedAt: '',
+      };
+      const target: RemoteManifest = { 'gone.md': { hash: 'h', fileModifiedAt: 't', sizeBytes: 1 } };
+      applyStateChanges(state, target, changes);
+
+      expect(state.local).toEqual({ 'a.md': file('a.md') });
+      expect(state.remote).toEqual({});
+      expect(target).toEqual({});
+    });
+  });
+});
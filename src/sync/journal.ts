@@ -0,0 +1,226 @@
+/**
+ * Write-ahead journal of a sync run.
+ * Sync state is only saved once a run finishes, so every operation is recorded
+ * before it executes and again, with the state changes it made, once it has
+ * executed. If the process dies midway, `lsvault sync resume` replays the
+ * journal to complete or roll back the interrupted run.
+ * Stored as JSON lines at ~/.lsvault/sync-state/<syncId>.journal.jsonl and
+ * removed once the run's state has been saved. The journal names the process
+ * and run that own it, so a run still in flight is never taken for an
+ * interrupted one.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { isProcessRunning } from './daemon.js';
+import type { FileState, SyncState } from './types.js';
+import type { RemoteManifest, RemoteManifestEntry } from './remote-manifest.js';
+
+const STATE_DIR = path.join(os.homedir(), '.lsvault', 'sync-state');
+
+/** A single file operation of a sync run. */
+export type JournalOperation =
+  | 'download'
+  | 'upload'
+  | 'delete-local'
+  | 'delete-remote'
+  | 'move-local'
+  | 'move-remote'
+  | 'resolve';
+
+/**
+ * Sync state of one path after an operation; null means the entry was removed.
+ */
+export interface JournalStateChange {
+  path: string;
+  local: FileState | null;
+  remote: FileState | null;
+  manifest: RemoteManifestEntry | null;
+}
+
+export type JournalRecord =
+  /** pid and runId are missing from journals written by older versions */
+  | { type: 'begin'; startedAt: string; pid?: number; runId?: string }
+  | { type: 'intent'; seq: number; op: JournalOperation; path: string; fromPath?: string }
+  | { type: 'done'; seq: number; changes: JournalStateChange[] }
+  | { type: 'failed'; seq: number };
+
+/** An operation that was started but never recorded as finished. */
+export interface PendingOperation {
+  seq: number;
+  op: JournalOperation;
+  path: string;
+  fromPath?: string;
+}
+
+/**
+ * A sync run that did not finish, as reconstructed from its journal.
+ */
+export interface InterruptedRun {
+  /** ISO 8601 timestamp when the run started */
+  startedAt: string;
+  /** State changes of operations that finished, in completion order */
+  completed: JournalStateChange[][];
+  /** Operations that started but whose outcome is unknown */
+  pending: PendingOperation[];
+}
+
+/** Runs of this process that have not finished yet, by run ID */
+const activeRuns = new Set<string>();
+
+function journalFilePath(syncId: string): string {
+  return path.join(STATE_DIR, `${syncId}.journal.jsonl`);
+}
+
+function appendRecord(syncId: string, record: JournalRecord): void {
+  fs.appendFileSync(journalFilePath(syncId), JSON.stringify(record) + '\n', { mode: 0o600 });
+}
+
+/**
+ * Whether the run that began a journal is still in flight: a run of this
+ * process that has not ended, or a run of another process that still runs.
+ */
+function isRunActive(record: Extract<JournalRecord, { type: 'begin' }>): boolean {
+  if (record.pid === undefined || record.runId === undefined) return false;
+  return record.pid === process.pid ? activeRuns.has(record.runId) : isProcessRunning(record.pid);
+}
+
+/**
+ * Start the journal of a new sync run, replacing the journal of a previous
+ * run. Returns the ID of the run, to be passed to endJournal once it is over.
+ *
+ * @throws {Error} If a run of the sync configuration is still in flight.
+ */
+export function beginJournal(syncId: string): string {
+  const current = readBeginRecord(syncId);
+  if (current && isRunActive(current)) {
+    throw new Error(`A sync run of ${syncId} is already in progress (pid ${current.pid})`);
+  }
+  if (!fs.existsSync(STATE_DIR)) {
+    fs.mkdirSync(STATE_DIR, { recursive: true, mode: 0o700 });
+  }
+  const runId = randomBytes(8).toString('hex');
+  const record: JournalRecord = { type: 'begin', startedAt: new Date().toISOString(), pid: process.pid, runId };
+  fs.writeFileSync(journalFilePath(syncId), JSON.stringify(record) + '\n', { mode: 0o600 });
+  activeRuns.add(runId);
+  return runId;
+}
+
+/**
+ * Mark a run of this process as over, whether it finished or failed. A
+ * journal it left behind counts as interrupted from then on.
+ */
+export function endJournal(runId: string): void {
+  activeRuns.delete(runId);
+}
+
+function readBeginRecord(syncId: string): Extract<JournalRecord, { type: 'begin' }> | null {
+  try {
+    const firstLine = fs.readFileSync(journalFilePath(syncId), 'utf-8').split('\n', 1)[0];
+    const record = JSON.parse(firstLine) as JournalRecord;
+    return record.type === 'begin' ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record that an operation is about to execute.
+ */
+export function journalIntent(syncId: string, operation: PendingOperation): void {
+  appendRecord(syncId, { type: 'intent', ...operation });
+}
+
+/**
+ * Record that an operation executed, with the sync state it left behind.
+ */
+export function journalDone(syncId: string, seq: number, changes: JournalStateChange[]): void {
+  appendRecord(syncId, { type: 'done', seq, changes });
+}
+
+/**
+ * Record that an operation failed without changing anything.
+ */
+export function journalFailed(syncId: string, seq: number): void {
+  appendRecord(syncId, { type: 'failed', seq });
+}
+
+/**
+ * Remove the journal once the run's state has been saved.
+ */
+export function clearJournal(syncId: string): void {
+  const filePath = journalFilePath(syncId);
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
+
+/**
+ * Load the interrupted run of a sync configuration, if any: a journal whose
+ * run is no longer in flight. A partially written last line (the process died
+ * mid-append) is ignored.
+ */
+export function loadInterruptedRun(syncId: string): InterruptedRun | null {
+  const filePath = journalFilePath(syncId);
+  if (!fs.existsSync(filePath)) return null;
+
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let run: InterruptedRun | null = null;
+  const pending = new Map<number, PendingOperation>();
+  for (const line of raw.split('\n')) {
+    let record: JournalRecord;
+    try {
+      record = JSON.parse(line) as JournalRecord;
+    } catch {
+      continue;
+    }
+    if (record.type === 'begin') {
+      if (isRunActive(record)) return null;
+      run = { startedAt: record.startedAt, completed: [], pending: [] };
+      pending.clear();
+    } else if (!run) {
+      continue;
+    } else if (record.type === 'intent') {
+      const { type: _, ...operation } = record;
+      pending.set(record.seq, operation);
+    } else {
+      pending.delete(record.seq);
+      if (record.type === 'done') run.completed.push(record.changes);
+    }
+  }
+  if (run) run.pending = [...pending.values()];
+  return run;
+}
+
+/**
+ * Capture the current sync state of the given paths for a 'done' record.
+ */
+export function snapshotPaths(state: SyncState, manifest: RemoteManifest, paths: string[]): JournalStateChange[] {
+  return paths.map(p => ({
+    path: p,
+    local: state.local[p] ?? null,
+    remote: state.remote[p] ?? null,
+    manifest: manifest[p] ?? null,
+  }));
+}
+
+/**
+ * Apply recorded state changes to a sync state and remote manifest.
+ */
+export function applyStateChanges(state: SyncState, manifest: RemoteManifest, changes: JournalStateChange[]): void {
+  for (const change of changes) {
+    if (change.local) state.local[change.path] = change.local;
+    else delete state.local[change.path];
+    if (change.remote) state.remote[change.path] = change.remote;
+    else delete state.remote[change.path];
+    if (change.manifest) manifest[change.path] = change.manifest;
+    else delete manifest[change.path];
+  }
+}
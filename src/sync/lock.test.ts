@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+vi.mock('./daemon.js', () => ({
+  isProcessRunning: vi.fn(() => true),
+}));
+
+import {
+  acquireSyncLock,
+  releaseSyncLock,
+  readSyncLock,
+  formatLockHolder,
+  waitForSyncLock,
+  withSyncLock,
+} from './lock.js';
+import { isProcessRunning } from './daemon.js';
+
+const other = { pid: 4242, holder: 'daemon', acquiredAt: '2025-01-01T00:00:00.000Z' };
+
+function lockExists(): void {
+  const exists = Object.assign(new Error('exists'), { code: 'EEXIST' });
+  mockedFs.writeFileSync.mockImplementation(() => { throw exists; });
+  mockedFs.existsSync.mockReturnValue(true);
+  mockedFs.readFileSync.mockReturnValue(JSON.stringify(other));
+}
+
+describe('sync lock', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedFs.writeFileSync.mockReset();
+    vi.mocked(isProcessRunning).mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should create the lock file exclusively and remove it on release', () => {
+    expect(acquireSyncLock('sync-1', 'sync pull')).toBe(true);
+    const [filePath, content, options] = mockedFs.writeFileSync.mock.calls[0];
+    expect(filePath).toEqual(expect.stringContaining('sync-1.lock'));
+    expect(JSON.parse(content as string)).toEqual(expect.objectContaining({ pid: process.pid, holder: 'sync pull' }));
+    expect(options).toEqual({ flag: 'wx', mode: 0o600 });
+
+    releaseSyncLock('sync-1');
+    expect(mockedFs.rmSync).toHaveBeenCalledWith(expect.stringContaining('sync-1.lock'), { force: true });
+  });
+
+  it('should be re-entrant for nested calls', () => {
+    expect(acquireSyncLock('sync-1', 'daemon')).toBe(true);
+    expect(acquireSyncLock('sync-1', 'daemon')).toBe(true);
+    expect(mockedFs.writeFileSync).toHaveBeenCalledTimes(1);
+
+    releaseSyncLock('sync-1');
+    expect(mockedFs.rmSync).not.toHaveBeenCalled();
+    releaseSyncLock('sync-1');
+    expect(mockedFs.rmSync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not acquire a lock held by a running process', () => {
+    lockExists();
+    expect(acquireSyncLock('sync-1', 'sync pull')).toBe(false);
+    expect(mockedFs.rmSync).not.toHaveBeenCalled();
+    expect(readSyncLock('sync-1')).toEqual(other);
+  });
+
+  it('should take over a lock left behind by a process that exited', () => {
+    lockExists();
+    vi.mocked(isProcessRunning).mockReturnValue(false);
+    mockedFs.writeFileSync.mockImplementationOnce(() => {
+      throw Object.assign(new Error('exists'), { code: 'EEXIST' });
+    }).mockImplementationOnce(() => undefined);
+
+    expect(readSyncLock('sync-1')).toBeNull();
+    expect(acquireSyncLock('sync-1', 'sync pull')).toBe(true);
+    const [lockPath, movedPath] = mockedFs.renameSync.mock.calls[0];
+    expect(String(lockPath)).toMatch(/sync-1\.lock$/);
+    expect(mockedFs.rmSync).toHaveBeenCalledWith(movedPath, { force: true });
+    releaseSyncLock('sync-1');
+  });
+
+  it('should put back a lock another process took over first', () => {
+    lockExists();
+    // Stale when first read, taken over by the time it was moved aside
+    vi.mocked(isProcessRunning).mockReturnValueOnce(false).mockReturnValue(true);
+
+    expect(acquireSyncLock('sync-1', 'sync pull')).toBe(false);
+    const [lockPath, movedPath] = mockedFs.renameSync.mock.calls[0];
+    expect(mockedFs.linkSync).toHaveBeenCalledWith(movedPath, lockPath);
+    expect(mockedFs.writeFileSync).toHaveBeenCalledTimes(1);
+  });
+
+  describe('withSyncLock', () => {
+    it('should run the tasks of a process one after another', async () => {
+      const order: string[] = [];
+      let finishFirst!: () => void;
+      const first = withSyncLock('sync-1', 'watcher', async () => {
+        order.push('first start');
+        await new Promise<void>(resolve => { finishFirst = resolve; });
+        order.push('first end');
+      });
+      const second = withSyncLock('sync-1', 'poller', async () => {
+        order.push('second');
+      });
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(order).toEqual(['first start']);
+      expect(acquireSyncLock('sync-1', 'sync status')).toBe(false);
+      finishFirst();
+
+      await expect(first).resolves.toBe(true);
+      await expect(second).resolves.toBe(true);
+      expect(order).toEqual(['first start', 'first end', 'second']);
+      expect(mockedFs.rmSync).toHaveBeenCalledTimes(2);
+      expect(acquireSyncLock('sync-1', 'sync status')).toBe(true);
+      releaseSyncLock('sync-1');
+    });
+
+    it('should not run the task while another process holds the lock', async () => {
+      lockExists();
+      const task = vi.fn(async () => {});
+
+      await expect(withSyncLock('sync-1', 'watcher', task)).resolves.toBe(false);
+      expect(task).not.toHaveBeenCalled();
+    });
+
+    it('should release the lock when the task fails', async () => {
+      await expect(withSyncLock('sync-1', 'watcher', async () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      expect(mockedFs.rmSync).toHaveBeenCalledWith(expect.stringContaining('sync-1.lock'), { force: true });
+      expect(acquireSyncLock('sync-1', 'sync status')).toBe(true);
+      releaseSyncLock('sync-1');
+    });
+  });
+
+  it('should describe the holder and how long it has held the lock', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:01:05.000Z'));
+    expect(formatLockHolder(other)).toBe('daemon (pid 4242) for 1m 5s');
+  });
+
+  it('should give up waiting with the holder in the error', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+    lockExists();
+
+    const waiting = expect(waitForSyncLock('sync-1', 'sync pull', 1000)).rejects.toThrow(
+      'Sync sync-1 is locked by daemon (pid 4242)',
+    );
+    await vi.advanceTimersByTimeAsync(1500);
+    await waiting;
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Advisory per-sync locks.
+ * Every process that reads and writes a sync's state (manual commands, the
+ * daemon's watcher and poller) holds the lock while it does, so concurrent
+ * runs cannot overwrite each other's state updates. The lock is a file at
+ * ~/.lsvault/sync-state/<syncId>.lock created exclusively; a lock left behind
+ * by a process that no longer runs is taken over. Within a process, callers
+ * that run side by side (a watcher, a poller, the daemon's reconciliation)
+ * take turns through withSyncLock.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { isProcessRunning } from './daemon.js';
+import { formatUptime } from '../utils/format.js';
+
+const STATE_DIR = path.join(os.homedir(), '.lsvault', 'sync-state');
+
+/** How long a manual command waits for the daemon to finish its operation */
+export const DEFAULT_LOCK_WAIT_MS = 30_000;
+const LOCK_POLL_MS = 250;
+
+export interface SyncLockInfo {
+  /** Process holding the lock */
+  pid: number;
+  /** What holds the lock, e.g. 'sync pull' or 'daemon' */
+  holder: string;
+  /** ISO 8601 timestamp when the lock was acquired */
+  acquiredAt: string;
+}
+
+/**
+ * Locks held by this process, with how many nested acquireSyncLock calls
+ * hold each; 0 while a withSyncLock task holds it.
+ */
+const held = new Map<string, number>();
+/** Last of the withSyncLock tasks of this process queued for each sync */
+const queues = new Map<string, Promise<void>>();
+
+function lockFilePath(syncId: string): string {
+  return path.join(STATE_DIR, `${syncId}.lock`);
+}
+
+/**
+ * Read the current holder of a sync's lock. Returns null if the sync is not
+ * locked, or its lock was left behind by a process that no longer runs.
+ */
+export function readSyncLock(syncId: string): SyncLockInfo | null {
+  return readLockFile(lockFilePath(syncId));
+}
+
+function readLockFile(filePath: string): SyncLockInfo | null {
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    const info = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SyncLockInfo;
+    return isProcessRunning(info.pid) ? info : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Move a lock left behind by a process that no longer runs out of the way.
+ * Renaming is atomic, so of several processes taking over the same lock only
+ * one moves it; the lock it moved is read again, and if another process
+ * had taken it over in the meantime, it is put back. Returns whether the
+ * lock file is gone.
+ */
+function takeOverStaleLock(filePath: string): boolean {
+  if (readLockFile(filePath) !== null) return false;
+  const movedPath = `${filePath}.stale.${randomBytes(4).toString('hex')}`;
+  try {
+    fs.renameSync(filePath, movedPath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return true;
+    throw err;
+  }
+  try {
+    if (readLockFile(movedPath) === null) return true;
+    try {
+      fs.linkSync(movedPath, filePath);
+    } catch {
+      // Yet another process created a lock meanwhile; it holds it now
+    }
+    return false;
+  } finally {
+    fs.rmSync(movedPath, { force: true });
+  }
+}
+
+/**
+ * Create the lock file of a sync for this process. Returns false if another
+ * process holds the lock.
+ */
+function createLockFile(syncId: string, holder: string): boolean {
+  if (!fs.existsSync(STATE_DIR)) {
+    fs.mkdirSync(STATE_DIR, { recursive: true, mode: 0o700 });
+  }
+  const filePath = lockFilePath(syncId);
+  const info: SyncLockInfo = { pid: process.pid, holder, acquiredAt: new Date().toISOString() };
+  // A second attempt after taking over a stale lock
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      fs.writeFileSync(filePath, JSON.stringify(info) + '\n', { flag: 'wx', mode: 0o600 });
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      if (attempt > 0 || !takeOverStaleLock(filePath)) return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * Try to acquire a sync's lock without waiting. Returns false if another
+ * process holds it, or a withSyncLock task of this one does. Calls nested in
+ * a caller that acquired the lock this way succeed; each successful call
+ * must be matched by releaseSyncLock.
+ */
+export function acquireSyncLock(syncId: string, holder: string): boolean {
+  const count = held.get(syncId);
+  if (count !== undefined) {
+    if (count === 0) return false;
+    held.set(syncId, count + 1);
+    return true;
+  }
+  if (queues.has(syncId) || !createLockFile(syncId, holder)) return false;
+  held.set(syncId, 1);
+  return true;
+}
+
+/**
+ * Release a lock acquired with acquireSyncLock.
+ */
+export function releaseSyncLock(syncId: string): void {
+  const count = held.get(syncId);
+  if (count === undefined || count === 0) return;
+  if (count > 1) {
+    held.set(syncId, count - 1);
+    return;
+  }
+  held.delete(syncId);
+  fs.rmSync(lockFilePath(syncId), { force: true });
+}
+
+/**
+ * Run a task holding a sync's lock, once the tasks of this process queued
+ * for the same sync before it are done. Returns false, without running the
+ * task, if another process holds the lock then. Tasks are not re-entrant:
+ * one must not wait for another task for the same sync.
+ */
+export async function withSyncLock(syncId: string, holder: string, task: () => Promise<void>): Promise<boolean> {
+  const previous = queues.get(syncId) ?? Promise.resolve();
+  let finish!: () => void;
+  const done = new Promise<void>(resolve => { finish = resolve; });
+  const tail = previous.then(() => done);
+  queues.set(syncId, tail);
+  try {
+    await previous;
+    if (held.has(syncId) || !createLockFile(syncId, holder)) return false;
+    held.set(syncId, 0);
+    try {
+      await task();
+    } finally {
+      held.delete(syncId);
+      fs.rmSync(lockFilePath(syncId), { force: true });
+    }
+    return true;
+  } finally {
+    finish();
+    if (queues.get(syncId) === tail) queues.delete(syncId);
+  }
+}
+
+/**
+ * Describe who holds a lock, e.g. "daemon (pid 1234) for 0m 5s".
+ */
+export function formatLockHolder(info: SyncLockInfo): string {
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(info.acquiredAt).getTime()) / 1000));
+  return `${info.holder} (pid ${info.pid}) for ${formatUptime(seconds)}`;
+}
+
+/**
+ * Acquire a sync's lock, waiting up to waitMs for another process to
+ * release it. Throws if the lock is still held after that.
+ */
+export async function waitForSyncLock(
+  syncId: string,
+  holder: string,
+  waitMs = DEFAULT_LOCK_WAIT_MS,
+): Promise<void> {
+  const deadline = Date.now() + waitMs;
+  while (!acquireSyncLock(syncId, holder)) {
+    if (Date.now() >= deadline) {
+      const info = readSyncLock(syncId);
+      throw new Error(
+        `Sync ${syncId} is locked by ${info ? formatLockHolder(info) : 'another process'}. Try again once it finishes.`,
+      );
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_POLL_MS));
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseDeleteThreshold, checkMassDelete } from './mass-delete.js';
+
+describe('mass-deletion guard', () => {
+  describe('parseDeleteThreshold', () => {
+    it('should parse file counts and percentages', () => {
+      expect(parseDeleteThreshold('100')).toEqual({ value: 100, unit: 'files' });
+      expect(parseDeleteThreshold(' 25% ')).toEqual({ value: 25, unit: 'percent' });
+      expect(parseDeleteThreshold('12.5%')).toEqual({ value: 12.5, unit: 'percent' });
+    });
+
+    it('should reject invalid thresholds', () => {
+      expect(parseDeleteThreshold('lots')).toBeNull();
+      expect(parseDeleteThreshold('150%')).toBeNull();
+      expect(parseDeleteThreshold('2.5')).toBeNull();
+      expect(parseDeleteThreshold('-1')).toBeNull();
+    });
+  });
+
+  describe('checkMassDelete', () => {
+    it('should allow deletions up to a file count', () => {
+      expect(checkMassDelete(10, 1000, '10')).toBeNull();
+      expect(checkMassDelete(11, 1000, '10')).toContain('Refusing to delete 11 of 1000 tracked file(s)');
+    });
+
+    it('should default to half of the tracked files', () => {
+      expect(checkMassDelete(50, 100)).toBeNull();
+      expect(checkMassDelete(51, 100)).toContain('threshold of 50%');
+    });
+
+    it('should not guard a handful of deletions in small vaults', () => {
+      expect(checkMassDelete(4, 4, '10%')).toBeNull();
+      expect(checkMassDelete(5, 5, '10%')).not.toBeNull();
+    });
+
+    it('should fall back to the default for an invalid threshold', () => {
+      expect(checkMassDelete(60, 100, 'bogus')).toContain('threshold of 50%');
+    });
+  });
+});
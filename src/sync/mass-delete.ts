@@ -0,0 +1,49 @@
+/**
+ * Guard against a sync deleting a large part of a vault at once, as happens
+ * after an accidental `rm -rf` or when the synced drive is not mounted.
+ * The threshold is a file count ('50') or a percentage of tracked files
+ * ('25%'); deleting more aborts the sync unless explicitly allowed.
+ */
+
+/** Threshold used when a sync configuration does not set one */
+export const DEFAULT_MASS_DELETE_THRESHOLD = '50%';
+
+/** Percentage thresholds only apply once at least this many files would go */
+const MIN_GUARDED_DELETES = 5;
+
+export interface DeleteThreshold {
+  value: number;
+  unit: 'files' | 'percent';
+}
+
+/**
+ * Parse a threshold like '100' or '25%'. Returns null for invalid input.
+ */
+export function parseDeleteThreshold(value: string): DeleteThreshold | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(%?)\s*$/.exec(value);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  if (match[2]) {
+    return amount <= 100 ? { value: amount, unit: 'percent' } : null;
+  }
+  return Number.isInteger(amount) ? { value: amount, unit: 'files' } : null;
+}
+
+/**
+ * Check a planned number of deletions against the threshold.
+ * Returns a description of the problem, or null if the deletions may proceed.
+ */
+export function checkMassDelete(
+  deletes: number,
+  trackedFiles: number,
+  threshold: string = DEFAULT_MASS_DELETE_THRESHOLD,
+): string | null {
+  const parsed = parseDeleteThreshold(threshold) ?? parseDeleteThreshold(DEFAULT_MASS_DELETE_THRESHOLD)!;
+  if (parsed.unit === 'files') {
+    if (deletes <= parsed.value) return null;
+  } else if (deletes < MIN_GUARDED_DELETES || trackedFiles === 0 || (deletes / trackedFiles) * 100 <= parsed.value) {
+    return null;
+  }
+  const limit = parsed.unit === 'files' ? `${parsed.value} file(s)` : `${parsed.value}%`;
+  return `Refusing to delete ${deletes} of ${trackedFiles} tracked file(s), over the mass-deletion threshold of ${limit}`;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { mergeThreeWay, computeHunks, splitLines } from './merge.js';
+
+describe('sync merge', () => {
+  describe('splitLines', () => {
+    it('should keep line terminators', () => {
+      expect(splitLines('a\nb\r\nc')).toEqual(['a\n', 'b\r\n', 'c']);
+    });
+
+    it('should return no lines for empty content', () => {
+      expect(splitLines('')).toEqual([]);
+    });
+  });
+
+  describe('computeHunks', () => {
+    it('should return no hunks for identical content', () => {
+      const lines = splitLines('a\nb\nc\n');
+      expect(computeHunks(lines, lines)).toEqual([]);
+    });
+
+    it('should locate a single changed line', () => {
+      const hunks = computeHunks(splitLines('a\nb\nc\n'), splitLines('a\nB\nc\n'));
+      expect(hunks).toEqual([{ baseStart: 1, baseEnd: 2, sideStart: 1, sideEnd: 2 }]);
+    });
+
+    it('should locate separate insertions and deletions', () => {
+      const hunks = computeHunks(splitLines('a\nb\nc\nd\n'), splitLines('x\na\nb\nd\n'));
+      expect(hunks).toEqual([
+        { baseStart: 0, baseEnd: 0, sideStart: 0, sideEnd: 1 },
+        { baseStart: 2, baseEnd: 3, sideStart: 3, sideEnd: 3 },
+      ]);
+    });
+  });
+
+  describe('mergeThreeWay', () => {
+    const base = '# Meeting\n\n## Agenda\n- budget\n- hiring\n\n## Notes\nTBD\n';
+
+    it('should take the changed side when only one side changed', () => {
+      const local = base.replace('TBD', 'Discussed budget');
+      expect(mergeThreeWay(base, local, base)).toEqual({ content: local, conflicts: 0 });
+      expect(mergeThreeWay(base, base, local)).toEqual({ content: local, conflicts: 0 });
+    });
+
+    it('should merge non-overlapping edits cleanly', () => {
+      const local = base.replace('- hiring\n', '- hiring\n- roadmap\n');
+      const remote = base.replace('TBD', 'Discussed budget');
+      const result = mergeThreeWay(base, local, remote);
+      expect(result.conflicts).toBe(0);
+      expect(result.content).toContain('- roadmap\n');
+      expect(result.content).toContain('Discussed budget');
+      expect(result.content).not.toContain('TBD');
+    });
+
+    it('should merge identical edits on both sides', () => {
+      const edited = base.replace('TBD', 'Done');
+      const local = edited.replace('# Meeting', '# Weekly meeting');
+      const result = mergeThreeWay(base, local, edited);
+      expect(result.conflicts).toBe(0);
+      expect(result.content).toBe(local);
+    });
+
+    it('should mark overlapping edits with conflict markers', () => {
+      const local = base.replace('TBD', 'Local notes');
+      const remote = base.replace('TBD', 'Remote notes');
+      const result = mergeThreeWay(base, local, remote);
+      expect(result.conflicts).toBe(1);
+      expect(result.content).toContain('<<<<<<< local\nLocal notes\n=======\nRemote notes\n>>>>>>> remote\n');
+      expect(result.content.startsWith('# Meeting\n')).toBe(true);
+    });
+
+    it('should terminate conflicting lines that lack a trailing newline', () => {
+      const result = mergeThreeWay('a\nb', 'a\nlocal', 'a\nremote');
+      expect(result.conflicts).toBe(1);
+      expect(result.content).toBe('a\n<<<<<<< local\nlocal\n=======\nremote\n>>>>>>> remote\n');
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Line-level three-way merge for sync conflicts.
+ * Merges local and remote edits against the last-synced base revision;
+ * only overlapping hunks produce git-style conflict markers.
+ */
+
+/** Upper bound on LCS table cells before falling back to a single hunk. */
+const MAX_LCS_CELLS = 4_000_000;
+
+export const CONFLICT_MARKER_LOCAL = '<<<<<<< local';
+export const CONFLICT_MARKER_SEPARATOR = '=======';
+export const CONFLICT_MARKER_REMOTE = '>>>>>>> remote';
+
+export interface MergeResult {
+  /** Merged content (contains conflict markers when conflicts > 0) */
+  content: string;
+  /** Number of overlapping hunks that could not be merged */
+  conflicts: number;
+}
+
+/**
+ * A changed region: base lines [baseStart, baseEnd) were replaced by
+ * side lines [sideStart, sideEnd).
+ */
+interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  sideStart: number;
+  sideEnd: number;
+}
+
+/**
+ * Split content into lines, keeping each line's terminator so the
+ * merged output preserves the original line endings.
+ */
+export function splitLines(content: string): string[] {
+  if (content.length === 0) return [];
+  return content.split(/(?<=\n)/);
+}
+
+/**
+ * Compute the changed hunks that turn `base` into `side`.
+ * Common prefix and suffix are trimmed before the LCS table is built,
+ * which keeps typical note edits cheap.
+ */
+export function computeHunks(base: string[], side: string[]): Hunk[] {
+  let prefix = 0;
+  while (prefix < base.length && prefix < side.length && base[prefix] === side[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < side.length - prefix &&
+    base[base.length - 1 - suffix] === side[side.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = base.slice(prefix, base.length - suffix);
+  const b = side.slice(prefix, side.length - suffix);
+  if (a.length === 0 && b.length === 0) return [];
+
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    return [{ baseStart: prefix, baseEnd: prefix + n, sideStart: prefix, sideEnd: prefix + m }];
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+  let open: Hunk | null = null;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      if (open) {
+        hunks.push(open);
+        open = null;
+      }
+      i++;
+      j++;
+      continue;
+    }
+    if (!open) {
+      open = { baseStart: prefix + i, baseEnd: prefix + i, sideStart: prefix + j, sideEnd: prefix + j };
+    }
+    if (j < m && (i === n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      j++;
+      open.sideEnd = prefix + j;
+    } else {
+      i++;
+      open.baseEnd = prefix + i;
+    }
+  }
+  if (open) hunks.push(open);
+  return hunks;
+}
+
+/**
+ * Lines a side holds for the base range [start, end), given that side's
+ * hunks inside the range (unchanged lines map one-to-one).
+ */
+function sideLines(side: string[], base: string[], hunks: Hunk[], start: number, end: number): string[] {
+  if (hunks.length === 0) return base.slice(start, end);
+  const first = hunks[0];
+  const last = hunks[hunks.length - 1];
+  const sideStart = first.sideStart - (first.baseStart - start);
+  const sideEnd = last.sideEnd + (end - last.baseEnd);
+  return side.slice(sideStart, sideEnd);
+}
+
+function withTrailingNewline(lines: string[]): string[] {
+  if (lines.length === 0 || lines[lines.length - 1].endsWith('\n')) return lines;
+  return [...lines.slice(0, -1), lines[lines.length - 1] + '\n'];
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, idx) => line === b[idx]);
+}
+
+/**
+ * Merge local and remote edits made on top of a common base revision.
+ * Non-overlapping (and identical) edits merge cleanly; overlapping hunks
+ * are emitted between git-style conflict markers.
+ */
+export function mergeThreeWay(base: string, local: string, remote: string): MergeResult {
+  if (local === remote) return { content: local, conflicts: 0 };
+  if (local === base) return { content: remote, conflicts: 0 };
+  if (remote === base) return { content: local, conflicts: 0 };
+
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+
+  const tagged = [
+    ...computeHunks(baseLines, localLines).map(h => ({ ...h, side: 'local' as const })),
+    ...computeHunks(baseLines, remoteLines).map(h => ({ ...h, side: 'remote' as const })),
+  ].sort((x, y) => x.baseStart - y.baseStart || x.baseEnd - y.baseEnd);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let cursor = 0;
+  let idx = 0;
+
+  while (idx < tagged.length) {
+    // Group hunks whose base ranges overlap or touch
+    const groupStart = tagged[idx].baseStart;
+    let groupEnd = tagged[idx].baseEnd;
+    const group = [tagged[idx++]];
+    while (idx < tagged.length && tagged[idx].baseStart <= groupEnd) {
+      groupEnd = Math.max(groupEnd, tagged[idx].baseEnd);
+      group.push(tagged[idx++]);
+    }
+
+    output.push(...baseLines.slice(cursor, groupStart));
+    cursor = groupEnd;
+
+    const localHunks = group.filter(h => h.side === 'local');
+    const remoteHunks = group.filter(h => h.side === 'remote');
+    const ours = sideLines(localLines, baseLines, localHunks, groupStart, groupEnd);
+    const theirs = sideLines(remoteLines, baseLines, remoteHunks, groupStart, groupEnd);
+
+    if (remoteHunks.length === 0 || sameLines(ours, theirs)) {
+      output.push(...ours);
+    } else if (localHunks.length === 0) {
+      output.push(...theirs);
+    } else {
+      conflicts++;
+      output.push(`${CONFLICT_MARKER_LOCAL}\n`);
+      output.push(...withTrailingNewline(ours));
+      output.push(`${CONFLICT_MARKER_SEPARATOR}\n`);
+      output.push(...withTrailingNewline(theirs));
+      output.push(`${CONFLICT_MARKER_REMOTE}\n`);
+    }
+  }
+  output.push(...baseLines.slice(cursor));
+
+  return { content: output.join(''), conflicts };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isLineEndings,
+  hasNormalization,
+  normalizeText,
+  comparableText,
+  toLocalText,
+  describeNormalization,
+} from './normalize.js';
+
+describe('sync normalization', () => {
+  it('should recognise line-ending settings', () => {
+    expect(isLineEndings('crlf')).toBe(true);
+    expect(isLineEndings('CRLF')).toBe(false);
+    expect(isLineEndings('preserve')).toBe(false);
+  });
+
+  it('should report whether a policy changes anything', () => {
+    expect(hasNormalization(undefined)).toBe(false);
+    expect(hasNormalization({})).toBe(false);
+    expect(hasNormalization({ stripBom: false })).toBe(false);
+    expect(hasNormalization({ lineEndings: 'lf' })).toBe(true);
+  });
+
+  describe('normalizeText', () => {
+    it('should leave content unchanged without a policy', () => {
+      expect(normalizeText('\uFEFFa\r\nb\r', undefined)).toBe('\uFEFFa\r\nb\r');
+    });
+
+    it('should canonicalize line endings to LF', () => {
+      expect(normalizeText('a\r\nb\rc\n', { lineEndings: 'crlf' })).toBe('a\nb\nc\n');
+    });
+
+    it('should strip a leading byte order mark only when asked', () => {
+      expect(normalizeText('\uFEFF# Title\r\n', { stripBom: true })).toBe('# Title\r\n');
+      expect(normalizeText('\uFEFF# Title\r\n', { lineEndings: 'lf' })).toBe('\uFEFF# Title\n');
+    });
+
+    it('should leave base64 content unchanged', () => {
+      expect(normalizeText('iVBORw0KGgo=', { lineEndings: 'lf', stripBom: true })).toBe('iVBORw0KGgo=');
+    });
+  });
+
+  describe('comparableText', () => {
+    it('should ignore trailing whitespace on each line and at the end', () => {
+      const policy = { ignoreTrailingWhitespace: true };
+      expect(comparableText('a  \nb\t\n\n', policy)).toBe(comparableText('a\nb', policy));
+      expect(comparableText('a \nb', policy)).not.toBe(comparableText('a\n b', policy));
+    });
+
+    it('should keep trailing whitespace by default', () => {
+      expect(comparableText('a  \n', { lineEndings: 'lf' })).toBe('a  \n');
+    });
+  });
+
+  describe('toLocalText', () => {
+    it('should write the configured line endings', () => {
+      expect(toLocalText('a\nb\n', { lineEndings: 'crlf' })).toBe('a\r\nb\r\n');
+      expect(toLocalText('a\r\nb\r\n', { lineEndings: 'lf' })).toBe('a\nb\n');
+      expect(toLocalText('a\r\nb\n', undefined)).toBe('a\r\nb\n');
+    });
+
+    it('should use the platform line endings for native', () => {
+      const expected = process.platform === 'win32' ? 'a\r\n' : 'a\n';
+      expect(toLocalText('a\n', { lineEndings: 'native' })).toBe(expected);
+    });
+  });
+
+  it('should describe a policy', () => {
+    expect(describeNormalization(undefined)).toBe('(none)');
+    expect(describeNormalization({ lineEndings: 'lf', stripBom: true, ignoreTrailingWhitespace: true }))
+      .toBe('LF line endings, strip BOM, ignore trailing whitespace');
+  });
+});
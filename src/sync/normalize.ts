@@ -0,0 +1,70 @@
+/**
+ * Text normalization policy for sync.
+ * Text read from disk or received from the vault is canonicalized (LF line
+ * endings, optionally without a byte order mark) before it is hashed, merged
+ * or uploaded, and written to disk with the configured line endings, so
+ * differences introduced by an editor do not count as changes. Ignoring
+ * trailing whitespace only affects comparisons; the content keeps it.
+ * Base64-encoded binary content contains none of these characters, so it
+ * passes through unchanged.
+ */
+import type { LineEndings, NormalizePolicy } from './types.js';
+
+export const LINE_ENDINGS: readonly LineEndings[] = ['lf', 'crlf', 'native'];
+
+/**
+ * Check whether a value is a supported line-ending setting.
+ */
+export function isLineEndings(value: unknown): value is LineEndings {
+  return LINE_ENDINGS.includes(value as LineEndings);
+}
+
+/**
+ * Whether a policy changes anything at all.
+ */
+export function hasNormalization(policy: NormalizePolicy | undefined): policy is NormalizePolicy {
+  return policy !== undefined
+    && (policy.lineEndings !== undefined || policy.stripBom === true || policy.ignoreTrailingWhitespace === true);
+}
+
+/**
+ * Canonical form of text content, as hashed, merged and uploaded.
+ */
+export function normalizeText(content: string, policy?: NormalizePolicy): string {
+  if (!policy) return content;
+  let text = content;
+  if (policy.stripBom && text.startsWith('\uFEFF')) text = text.slice(1);
+  if (policy.lineEndings) text = text.replace(/\r\n?/g, '\n');
+  return text;
+}
+
+/**
+ * Form of text content that is compared between the two sides: the canonical
+ * form, without trailing whitespace on each line and at the end of the file
+ * if the policy ignores it.
+ */
+export function comparableText(content: string, policy?: NormalizePolicy): string {
+  const text = normalizeText(content, policy);
+  return policy?.ignoreTrailingWhitespace ? text.replace(/[ \t]+$/gm, '').replace(/\s+$/, '') : text;
+}
+
+/**
+ * Form of canonical text content written to a local file.
+ */
+export function toLocalText(content: string, policy?: NormalizePolicy): string {
+  const text = normalizeText(content, policy);
+  const crlf = policy?.lineEndings === 'crlf' || (policy?.lineEndings === 'native' && process.platform === 'win32');
+  return crlf ? text.replace(/\n/g, '\r\n') : text;
+}
+
+/**
+ * Describe a policy for display, e.g. "LF line endings, strip BOM".
+ */
+export function describeNormalization(policy: NormalizePolicy | undefined): string {
+  if (!hasNormalization(policy)) return '(none)';
+  const parts: string[] = [];
+  if (policy.lineEndings) parts.push(`${policy.lineEndings.toUpperCase()} line endings`);
+  if (policy.stripBom) parts.push('strip BOM');
+  if (policy.ignoreTrailingWhitespace) parts.push('ignore trailing whitespace');
+  return parts.join(', ');
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+import {
+  isTransientError,
+  loadOutbox,
+  enqueueOutbox,
+  recordOutboxFailure,
+  removeOutboxEntry,
+  deleteOutbox,
+  type OutboxEntry,
+} from './outbox.js';
+
+function stored(entries: OutboxEntry[]): void {
+  mockedFs.existsSync.mockReturnValue(true);
+  mockedFs.readFileSync.mockReturnValue(JSON.stringify(entries));
+}
+
+function saved(): OutboxEntry[] {
+  return JSON.parse(String(mockedFs.writeFileSync.mock.calls[0][1]));
+}
+
+const entry = (docPath: string, op: OutboxEntry['op'] = 'put'): OutboxEntry => ({
+  path: docPath, op, queuedAt: '2025-06-16T10:00:00.000Z', attempts: 1, lastError: 'fetch failed',
+});
+
+describe('sync outbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('isTransientError', () => {
+    it('should retry connection failures and server errors', () => {
+      expect(isTransientError(Object.assign(new TypeError('fetch failed'), {
+        cause: Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }),
+      }))).toBe(true);
+      expect(isTransientError(Object.assign(new Error('Bad gateway'), { status: 502 }))).toBe(true);
+      expect(isTransientError(Object.assign(new Error('Slow down'), { status: 429 }))).toBe(true);
+      expect(isTransientError(new Error('Network down'))).toBe(true);
+    });
+
+    it('should not retry requests the server refused', () => {
+      expect(isTransientError(Object.assign(new Error('Invalid path'), { status: 400 }))).toBe(false);
+      expect(isTransientError(Object.assign(new Error('Unauthorized'), { status: 401 }))).toBe(false);
+      expect(isTransientError(Object.assign(new Error('no such file'), { code: 'ENOENT' }))).toBe(false);
+    });
+  });
+
+  describe('loadOutbox', () => {
+    it('should return an empty outbox when none is stored', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+      expect(loadOutbox('sync-1')).toEqual([]);
+    });
+
+    it('should return an empty outbox for a corrupt file', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue('not json');
+      expect(loadOutbox('sync-1')).toEqual([]);
+    });
+  });
+
+  describe('enqueueOutbox', () => {
+    it('should replace an older entry for the same path and move it to the end', () => {
+      stored([entry('a.md'), entry('b.md', 'delete')]);
+
+      expect(enqueueOutbox('sync-1', 'a.md', 'delete', 'socket hang up')).toBe(2);
+
+      expect(saved()).toEqual([
+        entry('b.md', 'delete'),
+        expect.objectContaining({ path: 'a.md', op: 'delete', attempts: 1, lastError: 'socket hang up' }),
+      ]);
+      expect(mockedFs.renameSync).toHaveBeenCalledWith(
+        expect.stringContaining('sync-1.outbox.json.tmp.'),
+        expect.stringContaining('sync-1.outbox.json'),
+      );
+    });
+  });
+
+  describe('recordOutboxFailure', () => {
+    it('should count the attempt and keep the latest error', () => {
+      stored([entry('a.md')]);
+
+      recordOutboxFailure('sync-1', 'a.md', 'HTTP 503');
+
+      expect(saved()).toEqual([expect.objectContaining({ path: 'a.md', attempts: 2, lastError: 'HTTP 503' })]);
+    });
+  });
+
+  describe('removeOutboxEntry', () => {
+    it('should remove the entry for a path', () => {
+      stored([entry('a.md'), entry('b.md')]);
+
+      expect(removeOutboxEntry('sync-1', 'a.md')).toBe(true);
+
+      expect(saved()).toEqual([entry('b.md')]);
+    });
+
+    it('should delete the file once the outbox is empty', () => {
+      stored([entry('a.md')]);
+
+      removeOutboxEntry('sync-1', 'a.md');
+
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+      expect(mockedFs.unlinkSync).toHaveBeenCalledWith(expect.stringContaining('sync-1.outbox.json'));
+    });
+
+    it('should leave the outbox alone when the path is not queued', () => {
+      stored([entry('a.md')]);
+
+      expect(removeOutboxEntry('sync-1', 'c.md')).toBe(false);
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteOutbox', () => {
+    it('should remove the outbox file', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+
+      deleteOutbox('sync-1');
+
+      expect(mockedFs.unlinkSync).toHaveBeenCalledWith(expect.stringContaining('sync-1.outbox.json'));
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Persistent outbox of local changes the watcher could not push.
+ * When an upload or deletion fails because the server cannot be reached, the
+ * watcher records the path here instead of dropping the change, and replays
+ * the outbox in order, with backoff, until it goes through. Each path has at
+ * most one entry: a newer change replaces the older one and moves it to the
+ * end, and a replay pushes the file's content as it is then, so only the
+ * latest version of a file is uploaded.
+ * Stored at ~/.lsvault/sync-state/<syncId>.outbox.json.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+const STATE_DIR = path.join(os.homedir(), '.lsvault', 'sync-state');
+
+/** Error codes of connections that failed or dropped */
+const TRANSIENT_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+export interface OutboxEntry {
+  /** Document path */
+  path: string;
+  /** Upload the local file, or delete the remote document */
+  op: 'put' | 'delete';
+  /** ISO 8601 timestamp when the change was queued */
+  queuedAt: string;
+  /** Failed attempts so far, including the original one */
+  attempts: number;
+  /** Error of the most recent attempt */
+  lastError: string;
+}
+
+/**
+ * Error fields the SDK and fetch may set for failed requests.
+ */
+interface RequestErrorLike {
+  status?: number;
+  statusCode?: number;
+  response?: { status?: number };
+  code?: string;
+  cause?: unknown;
+}
+
+/**
+ * Whether an error means the server could not be reached or is temporarily
+ * unable to answer, so the same request is worth trying again later.
+ */
+export function isTransientError(err: unknown): boolean {
+  const e = (err ?? {}) as RequestErrorLike;
+  const status = e.status ?? e.statusCode ?? e.response?.status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  if (e.code && TRANSIENT_CODES.has(e.code)) return true;
+  if (e.cause && e.cause !== err && isTransientError(e.cause)) return true;
+  const message = err instanceof Error ? err.message : String(err);
+  return /fetch failed|\bnetwork\b|socket hang up|timed out|ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN/i.test(message);
+}
+
+function outboxFilePath(syncId: string): string {
+  return path.join(STATE_DIR, `${syncId}.outbox.json`);
+}
+
+/**
+ * Load the outbox of a sync configuration, oldest entry first.
+ * Returns an empty outbox if none is stored or the file is unreadable.
+ */
+export function loadOutbox(syncId: string): OutboxEntry[] {
+  const filePath = outboxFilePath(syncId);
+  if (!fs.existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return Array.isArray(parsed) ? parsed as OutboxEntry[] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save the outbox of a sync configuration (atomically, via a temp file).
+ * An empty outbox removes the file.
+ */
+function saveOutbox(syncId: string, entries: OutboxEntry[]): void {
+  if (entries.length === 0) {
+    deleteOutbox(syncId);
+    return;
+  }
+  if (!fs.existsSync(STATE_DIR)) {
+    fs.mkdirSync(STATE_DIR, { recursive: true, mode: 0o700 });
+  }
+  const filePath = outboxFilePath(syncId);
+  const tmpFile = `${filePath}.tmp.${randomBytes(4).toString('hex')}`;
+  fs.writeFileSync(tmpFile, JSON.stringify(entries, null, 2) + '\n', { mode: 0o600 });
+  fs.renameSync(tmpFile, filePath);
+}
+
+/**
+ * Queue a failed change. It replaces any entry for the same path and goes
+ * to the end of the outbox. Returns the number of entries queued.
+ */
+export function enqueueOutbox(syncId: string, docPath: string, op: OutboxEntry['op'], error: string): number {
+  const entries = loadOutbox(syncId).filter(e => e.path !== docPath);
+  entries.push({ path: docPath, op, queuedAt: new Date().toISOString(), attempts: 1, lastError: error });
+  saveOutbox(syncId, entries);
+  return entries.length;
+}
+
+/**
+ * Record another failed attempt at replaying the entry for a path.
+ */
+export function recordOutboxFailure(syncId: string, docPath: string, error: string): void {
+  const entries = loadOutbox(syncId);
+  const entry = entries.find(e => e.path === docPath);
+  if (!entry) return;
+  entry.attempts++;
+  entry.lastError = error;
+  saveOutbox(syncId, entries);
+}
+
+/**
+ * Remove the entry for a path, once it was pushed or superseded.
+ * Returns whether there was one.
+ */
+export function removeOutboxEntry(syncId: string, docPath: string): boolean {
+  const entries = loadOutbox(syncId);
+  const remaining = entries.filter(e => e.path !== docPath);
+  if (remaining.length === entries.length) return false;
+  saveOutbox(syncId, remaining);
+  return true;
+}
+
+/**
+ * Delete the outbox of a sync configuration.
+ */
+export function deleteOutbox(syncId: string): void {
+  const filePath = outboxFilePath(syncId);
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+import {
+  escapePathSegment,
+  unescapePathSegment,
+  checkDocPath,
+  fromLocalPath,
+  toLocalPath,
+  localFilePath,
+  findDownloadProblems,
+  matchRemotePathForms,
+} from './paths.js';
+
+describe('sync paths', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedFs.existsSync.mockReturnValue(false);
+  });
+
+  describe('escaping', () => {
+    it.each([
+      ['a:b.md', 'a%3Ab.md'],
+      ['what?.md', 'what%3F.md'],
+      ['notes.', 'notes%2E'],
+      ['trailing ', 'trailing%20'],
+      ['CON.md', '%43ON.md'],
+      ['100%.md', '100%.md'],
+      ['%3A.md', '%253A.md'],
+      ['plain.md', 'plain.md'],
+    ])('should escape %j as %j and back', (segment, escaped) => {
+      expect(escapePathSegment(segment)).toBe(escaped);
+      expect(unescapePathSegment(escaped)).toBe(segment);
+    });
+
+    it('should map document paths to local paths and back when escaping', () => {
+      const local = toLocalPath('q&a/why: not?.md', true);
+      expect(local).toBe(['q&a', 'why%3A not%3F.md'].join(path.sep));
+      expect(fromLocalPath('q&a/why%3A not%3F.md', true)).toBe('q&a/why: not?.md');
+    });
+
+    it('should leave names untouched when not escaping', () => {
+      expect(toLocalPath('a:b.md', false)).toBe('a:b.md');
+      expect(fromLocalPath('a%3Ab.md', false)).toBe('a%3Ab.md');
+    });
+  });
+
+  describe('normalization', () => {
+    const nfc = 'caf\u00e9.md';
+    const nfd = 'cafe\u0301.md';
+
+    it('should scan local names as NFC', () => {
+      expect(fromLocalPath(nfd, false)).toBe(nfc);
+    });
+
+    it('should find a file stored under another normalization form', () => {
+      mockedFs.existsSync.mockImplementation((p) => p === path.join('/vault', nfd));
+      expect(localFilePath('/vault', nfc)).toBe(path.join('/vault', nfd));
+    });
+
+    it('should write new files with NFC names', () => {
+      expect(localFilePath('/vault', nfd)).toBe(path.join('/vault', nfc));
+    });
+
+    it('should compare local files with remote documents stored as NFD', () => {
+      const local = { [nfc]: { path: nfc, hash: 'h' }, 'other.md': { path: 'other.md', hash: 'o' } };
+      const matched = matchRemotePathForms(local, [nfd, 'other.md']);
+      expect(matched).toEqual({ [nfd]: { path: nfd, hash: 'h' }, 'other.md': { path: 'other.md', hash: 'o' } });
+      expect(matchRemotePathForms(local, ['other.md'])).toBe(local);
+    });
+  });
+
+  describe('checkDocPath', () => {
+    it.each([
+      ['../x.md', 'Path traversal (..) is not allowed'],
+      ['a/../../x.md', 'Path traversal (..) is not allowed'],
+      ['a\\..\\x.md', 'Path traversal (..) is not allowed'],
+      ['/etc/passwd', 'Absolute paths are not allowed'],
+      ['C:/x.md', 'Absolute paths are not allowed'],
+      ['a//b.md', 'Path contains an empty or "." segment'],
+      ['a\0.md', 'Path contains a NUL character'],
+      ['', 'Empty path'],
+    ])('should reject %j', (docPath, problem) => {
+      expect(checkDocPath(docPath)).toBe(problem);
+    });
+
+    it('should accept ordinary paths', () => {
+      expect(checkDocPath('notes/..hidden/a..b.md')).toBeNull();
+    });
+  });
+
+  describe('findDownloadProblems', () => {
+    it('should report unsafe paths on any filesystem', () => {
+      const problems = findDownloadProblems([{ path: '../x.md' }, { path: 'ok.md' }], [], false);
+      expect([...problems]).toEqual([['../x.md', 'Path traversal (..) is not allowed: ../x.md']]);
+    });
+
+    it('should ignore case differences on a case-sensitive filesystem', () => {
+      expect(findDownloadProblems([{ path: 'A.md' }, { path: 'a.md' }], ['A.MD'], false).size).toBe(0);
+    });
+
+    it('should report downloads colliding with a synced file or another download', () => {
+      const problems = findDownloadProblems(
+        [{ path: 'notes/todo.md' }, { path: 'b.md' }, { path: 'B.md' }, { path: 'Notes/Todo.md' }],
+        ['Notes/Todo.md'],
+        true,
+      );
+      expect(Object.fromEntries(problems)).toEqual({
+        'notes/todo.md': 'Case collision with Notes/Todo.md; rename one of them in the vault',
+        'b.md': 'Case collision with B.md; rename one of them in the vault',
+      });
+    });
+
+    it('should allow a move that only changes case', () => {
+      const problems = findDownloadProblems([{ path: 'readme.md', fromPath: 'README.md' }], ['README.md'], true);
+      expect(problems.size).toBe(0);
+    });
+  });
+});
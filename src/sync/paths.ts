@@ -0,0 +1,180 @@
+/**
+ * Mapping between vault document paths and local file paths.
+ * Document paths use forward slashes. Local files are scanned under their
+ * NFC-normalized names, and a document is found on disk under whichever
+ * Unicode normalization form its file name uses. On Windows, characters and
+ * names the filesystem does not allow are escaped as %XX, reversibly, so
+ * scanning a written file yields its document path again.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+
+/** Whether reserved characters are escaped in local file names */
+const ESCAPE_RESERVED = process.platform === 'win32';
+
+const RESERVED_CHARS = /[<>:"|?*\\\x00-\x1f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+/** An escape sequence; only ASCII codes are ever produced */
+const ESCAPE_SEQUENCE = /%([0-7][0-9A-F])/g;
+
+function escapeChar(char: string): string {
+  return '%' + char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0');
+}
+
+/**
+ * Escape a path segment for filesystems that reserve characters and names,
+ * e.g. "a:b" becomes "a%3Ab", "notes." becomes "notes%2E" and "CON.md"
+ * becomes "%43ON.md". A literal "%" is escaped only where it would otherwise
+ * read as an escape sequence.
+ */
+export function escapePathSegment(segment: string): string {
+  let escaped = segment
+    .replace(/%(?=[0-7][0-9A-F])/g, '%25')
+    .replace(RESERVED_CHARS, escapeChar)
+    .replace(/[. ]$/, escapeChar);
+  if (RESERVED_NAMES.test(escaped)) {
+    escaped = escapeChar(escaped[0]) + escaped.slice(1);
+  }
+  return escaped;
+}
+
+/**
+ * Reverse escapePathSegment.
+ */
+export function unescapePathSegment(segment: string): string {
+  return segment.replace(ESCAPE_SEQUENCE, (_, code: string) => String.fromCharCode(parseInt(code, 16)));
+}
+
+/**
+ * Check that a document path from the vault can be written inside the sync
+ * folder. Returns the problem, or null if the path is safe.
+ */
+export function checkDocPath(docPath: string): string | null {
+  if (docPath.length === 0) return 'Empty path';
+  if (docPath.startsWith('/') || /^[a-zA-Z]:/.test(docPath)) return 'Absolute paths are not allowed';
+  if (docPath.includes('\0')) return 'Path contains a NUL character';
+  const segments = docPath.split(/[/\\]/);
+  if (segments.some(s => s === '..')) return 'Path traversal (..) is not allowed';
+  if (segments.some(s => s === '' || s === '.')) return 'Path contains an empty or "." segment';
+  return null;
+}
+
+/**
+ * Map a file path relative to the sync folder (with forward slashes) to its
+ * document path.
+ */
+export function fromLocalPath(relPath: string, escapeReserved = ESCAPE_RESERVED): string {
+  const normalized = relPath.normalize('NFC');
+  return escapeReserved ? normalized.split('/').map(unescapePathSegment).join('/') : normalized;
+}
+
+/**
+ * Map a document path to a file path relative to the sync folder, using the
+ * platform's separator.
+ */
+export function toLocalPath(docPath: string, escapeReserved = ESCAPE_RESERVED): string {
+  const segments = docPath.split('/');
+  return (escapeReserved ? segments.map(escapePathSegment) : segments).join(path.sep);
+}
+
+/**
+ * Absolute path of a document's local file. If the file exists under another
+ * Unicode normalization form of its name (e.g. NFD, as written by macOS), that
+ * file is returned; new files are written with NFC names.
+ */
+export function localFilePath(localRoot: string, docPath: string): string {
+  const filePath = path.join(localRoot, toLocalPath(docPath));
+  if (/^[\x00-\x7f]*$/.test(docPath) || fs.existsSync(filePath)) return filePath;
+  for (const form of ['NFC', 'NFD'] as const) {
+    const variant = path.join(localRoot, toLocalPath(docPath.normalize(form)));
+    if (variant !== filePath && fs.existsSync(variant)) return variant;
+  }
+  return path.join(localRoot, toLocalPath(docPath.normalize('NFC')));
+}
+
+/**
+ * Key under which paths collide on a case-insensitive filesystem.
+ */
+export function caseFoldPath(docPath: string): string {
+  return docPath.normalize('NFC').toLowerCase();
+}
+
+const caseInsensitiveRoots = new Map<string, boolean>();
+
+/**
+ * Whether the filesystem holding a directory ignores case in file names,
+ * found by looking the directory up under a different case. Falls back to
+ * the platform default when the path has no letters to swap.
+ */
+export function isCaseInsensitiveFs(dir: string): boolean {
+  let insensitive = caseInsensitiveRoots.get(dir);
+  if (insensitive !== undefined) return insensitive;
+
+  const swapped = [...dir].map(c => (c === c.toLowerCase() ? c.toUpperCase() : c.toLowerCase())).join('');
+  if (swapped === dir) {
+    insensitive = process.platform === 'darwin' || process.platform === 'win32';
+  } else {
+    try {
+      insensitive = fs.existsSync(swapped) && fs.statSync(swapped).ino === fs.statSync(dir).ino;
+    } catch {
+      insensitive = false;
+    }
+  }
+  caseInsensitiveRoots.set(dir, insensitive);
+  return insensitive;
+}
+
+/**
+ * Find documents that cannot be downloaded: unsafe paths, and on
+ * case-insensitive filesystems, paths that differ only in case from a file
+ * already synced or from another download (the first path in sorted order
+ * wins). `existing` lists the documents already on disk; a move may change
+ * the case of its own file. Returns the problem of each rejected path.
+ */
+export function findDownloadProblems(
+  downloads: Array<{ path: string; fromPath?: string }>,
+  existing: string[],
+  caseInsensitive: boolean,
+): Map<string, string> {
+  const problems = new Map<string, string>();
+  const taken = new Map<string, string>();
+  if (caseInsensitive) {
+    for (const p of existing) taken.set(caseFoldPath(p), p);
+  }
+
+  for (const entry of [...downloads].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))) {
+    const unsafe = checkDocPath(entry.path);
+    if (unsafe) {
+      problems.set(entry.path, `${unsafe}: ${entry.path}`);
+      continue;
+    }
+    if (!caseInsensitive) continue;
+    const key = caseFoldPath(entry.path);
+    const other = taken.get(key);
+    if (other !== undefined && other !== entry.path && other !== entry.fromPath) {
+      problems.set(entry.path, `Case collision with ${other}; rename one of them in the vault`);
+      continue;
+    }
+    taken.set(key, entry.path);
+  }
+  return problems;
+}
+
+/**
+ * Re-key local files found under another Unicode normalization form than
+ * their remote document, so both sides are compared as the same document.
+ */
+export function matchRemotePathForms<T extends { path: string }>(
+  localFiles: Record<string, T>,
+  remotePaths: string[],
+): Record<string, T> {
+  let matched: Record<string, T> | null = null;
+  for (const remotePath of remotePaths) {
+    const nfc = remotePath.normalize('NFC');
+    if (nfc === remotePath || localFiles[remotePath] || !localFiles[nfc]) continue;
+    matched ??= { ...localFiles };
+    matched[remotePath] = { ...localFiles[nfc], path: remotePath };
+    delete matched[nfc];
+  }
+  return matched ?? localFiles;
+}
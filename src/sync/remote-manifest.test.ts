@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+import {
+  loadRemoteManifest,
+  saveRemoteManifest,
+  deleteRemoteManifest,
+  recordRemoteDocument,
+  knownRemoteHash,
+  type RemoteManifest,
+} from './remote-manifest.js';
+
+describe('sync remote manifest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('loadRemoteManifest', () => {
+    it('should return an empty manifest when none is stored', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+      expect(loadRemoteManifest('sync-1')).toEqual({});
+    });
+
+    it('should return an empty manifest for a corrupt file', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue('not json');
+      expect(loadRemoteManifest('sync-1')).toEqual({});
+    });
+
+    it('should parse a stored manifest', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(JSON.stringify({
+        'a.md': { hash: 'h', fileModifiedAt: '2025-01-01T00:00:00.000Z', sizeBytes: 3 },
+      }));
+      expect(loadRemoteManifest('sync-1')['a.md'].hash).toBe('h');
+    });
+  });
+
+  describe('saveRemoteManifest', () => {
+    it('should write the manifest atomically with restricted permissions', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      saveRemoteManifest('sync-1', {});
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+        expect.stringContaining('sync-1.manifest.json'),
+        '{}\n',
+        { mode: 0o600 },
+      );
+      expect(mockedFs.renameSync).toHaveBeenCalledWith(
+        expect.stringContaining('sync-1.manifest.json.tmp.'),
+        expect.stringMatching(/sync-1\.manifest\.json$/),
+      );
+    });
+  });
+
+  describe('deleteRemoteManifest', () => {
+    it('should remove the manifest file if present', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      deleteRemoteManifest('sync-1');
+      expect(mockedFs.unlinkSync).toHaveBeenCalledWith(expect.stringContaining('sync-1.manifest.json'));
+    });
+  });
+
+  describe('recordRemoteDocument', () => {
+    it('should store the server metadata with our content hash', () => {
+      const manifest: RemoteManifest = {};
+      recordRemoteDocument(manifest, 'a.md', 'h', { fileModifiedAt: 't1', sizeBytes: 3, contentHash: 'srv' });
+      expect(manifest['a.md']).toEqual({ hash: 'h', fileModifiedAt: 't1', sizeBytes: 3, contentHash: 'srv' });
+    });
+
+    it('should drop the entry when the metadata is unknown', () => {
+      const manifest: RemoteManifest = { 'a.md': { hash: 'old', fileModifiedAt: 't0', sizeBytes: 1 } };
+      recordRemoteDocument(manifest, 'a.md', 'h', undefined);
+      expect(manifest).toEqual({});
+    });
+  });
+
+  describe('knownRemoteHash', () => {
+    const entry = { hash: 'h', fileModifiedAt: 't1', sizeBytes: 3, contentHash: 'srv' };
+
+    it('should compare server content hashes when both are present', () => {
+      expect(knownRemoteHash(entry, { fileModifiedAt: 't2', sizeBytes: 3, contentHash: 'srv' })).toBe('h');
+      expect(knownRemoteHash(entry, { fileModifiedAt: 't1', sizeBytes: 3, contentHash: 'other' })).toBeNull();
+    });
+
+    it('should fall back to modification time and size', () => {
+      const { contentHash: _, ...noHash } = entry;
+      expect(knownRemoteHash(noHash, { fileModifiedAt: 't1', sizeBytes: 3, contentHash: null })).toBe('h');
+      expect(knownRemoteHash(noHash, { fileModifiedAt: 't1', sizeBytes: 4 })).toBeNull();
+      expect(knownRemoteHash(noHash, { fileModifiedAt: 't2', sizeBytes: 3 })).toBeNull();
+    });
+
+    it('should return null for documents not in the manifest', () => {
+      expect(knownRemoteHash(undefined, { fileModifiedAt: 't1', sizeBytes: 3 })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Persistent manifest of remote document metadata.
+ * Listing a vault returns metadata but no content, so the manifest records,
+ * for each synced document, the server metadata seen alongside the content
+ * hash we computed. A listed document whose metadata still matches its entry
+ * is known to be unchanged without downloading it.
+ * Stored at ~/.lsvault/sync-state/<syncId>.manifest.json.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+const STATE_DIR = path.join(os.homedir(), '.lsvault', 'sync-state');
+
+export interface RemoteManifestEntry {
+  /** SHA-256 hash of the content we last synced (as used in FileState) */
+  hash: string;
+  /** Server modification time of that version */
+  fileModifiedAt: string;
+  /** Server size of that version in bytes */
+  sizeBytes: number;
+  /** Server-provided content hash of that version, if any */
+  contentHash?: string;
+}
+
+/** Map of document path -> manifest entry. */
+export type RemoteManifest = Record<string, RemoteManifestEntry>;
+
+/**
+ * Remote document metadata as returned by the list, get and put APIs.
+ */
+export interface RemoteDocumentMeta {
+  fileModifiedAt?: string;
+  sizeBytes?: number;
+  contentHash?: string | null;
+}
+
+function manifestFilePath(syncId: string): string {
+  return path.join(STATE_DIR, `${syncId}.manifest.json`);
+}
+
+/**
+ * Load the remote manifest for a sync configuration.
+ * Returns an empty manifest if none is stored or the file is unreadable.
+ */
+export function loadRemoteManifest(syncId: string): RemoteManifest {
+  const filePath = manifestFilePath(syncId);
+  if (!fs.existsSync(filePath)) return {};
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as RemoteManifest : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save the remote manifest for a sync configuration (atomically, via a temp file).
+ */
+export function saveRemoteManifest(syncId: string, manifest: RemoteManifest): void {
+  if (!fs.existsSync(STATE_DIR)) {
+    fs.mkdirSync(STATE_DIR, { recursive: true, mode: 0o700 });
+  }
+  const filePath = manifestFilePath(syncId);
+  const tmpFile = `${filePath}.tmp.${randomBytes(4).toString('hex')}`;
+  fs.writeFileSync(tmpFile, JSON.stringify(manifest, null, 2) + '\n', { mode: 0o600 });
+  fs.renameSync(tmpFile, filePath);
+}
+
+/**
+ * Delete the remote manifest for a sync configuration.
+ */
+export function deleteRemoteManifest(syncId: string): void {
+  const filePath = manifestFilePath(syncId);
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
+
+/**
+ * Record the version of a document that was just downloaded or uploaded.
+ * If the server metadata of that version is unknown the entry is dropped, so
+ * the document is checked by content on the next sync.
+ */
+export function recordRemoteDocument(
+  manifest: RemoteManifest,
+  docPath: string,
+  hash: string,
+  doc: RemoteDocumentMeta | undefined,
+): void {
+  if (!doc?.fileModifiedAt || typeof doc.sizeBytes !== 'number') {
+    delete manifest[docPath];
+    return;
+  }
+  manifest[docPath] = {
+    hash,
+    fileModifiedAt: doc.fileModifiedAt,
+    sizeBytes: doc.sizeBytes,
+    ...(doc.contentHash ? { contentHash: doc.contentHash } : {}),
+  };
+}
+
+/**
+ * Look up the content hash of a listed document.
+ * Compares server content hashes when both sides have one, otherwise the
+ * modification time and size. Returns null if the document may have changed.
+ */
+export function knownRemoteHash(entry: RemoteManifestEntry | undefined, doc: RemoteDocumentMeta): string | null {
+  if (!entry) return null;
+  if (entry.contentHash && doc.contentHash) {
+    return entry.contentHash === doc.contentHash ? entry.hash : null;
+  }
+  return entry.fileModifiedAt === doc.fileModifiedAt && entry.sizeBytes === doc.sizeBytes ? entry.hash : null;
+}
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+
+vi.mock('node:fs');
+
+vi.mock('./state.js', () => ({
+  loadSyncState: vi.fn(() => ({
+    syncId: 'sync-1',
+    local: {},
+    remote: {},
+    updatedAt: '',
+  })),
+  saveSyncState: vi.fn(),
+  hashFileContent: vi.fn((content: string) => `hash-${content.slice(0, 8)}`),
+  buildRemoteFileState: vi.fn((docPath: string, content: string, updatedAt: string) => ({
+    path: docPath,
+    hash: `hash-${content.slice(0, 8)}`,
+    mtime: updatedAt,
+    size: content.length,
+  })),
+}));
+
+vi.mock('./config.js', () => ({
+  updateLastSync: vi.fn(),
+}));
+
+vi.mock('./base-store.js', () => ({
+  saveBaseContent: vi.fn(),
+  loadBaseContent: vi.fn(() => null),
+}));
+
+vi.mock('./remote-manifest.js', () => ({
+  loadRemoteManifest: vi.fn(() => ({})),
+  saveRemoteManifest: vi.fn(),
+  recordRemoteDocument: vi.fn(),
+  knownRemoteHash: vi.fn(() => null),
+}));
+
+vi.mock('./trash.js', () => ({
+  createTrashBatch: vi.fn(() => 'batch-1'),
+  moveToTrash: vi.fn(),
+}));
+
+vi.mock('./lock.js', () => ({
+  withSyncLock: vi.fn(async (_syncId: string, _holder: string, task: () => Promise<void>) => {
+    await task();
+    return true;
+  }),
+  readSyncLock: vi.fn(() => null),
+  formatLockHolder: vi.fn(() => 'sync pull (pid 4242)'),
+}));
+
+vi.mock('./history.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./history.js')>(),
+  appendSyncHistory: vi.fn(),
+}));
+
+vi.mock('./paths.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./paths.js')>(),
+  isCaseInsensitiveFs: vi.fn(() => false),
+}));
+
+vi.mock('./change-feed.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./change-feed.js')>(),
+  openChangeFeed: vi.fn(),
+  loadFeedCursor: vi.fn(() => null),
+  saveFeedCursor: vi.fn(),
+}));
+
+import { createRemotePoller } from './remote-poller.js';
+import { openChangeFeed, loadFeedCursor, saveFeedCursor, type ChangeFeedOptions } from './change-feed.js';
+import { loadSyncState } from './state.js';
+import { moveToTrash } from './trash.js';
+import type { SyncConfig } from './types.js';
+
+function makeConfig(overrides: Partial<SyncConfig> = {}): SyncConfig {
+  return {
+    id: 'sync-12345678-abcd-efgh',
+    vaultId: 'vault-1',
+    localPath: '/home/user/vault',
+    mode: 'sync',
+    onConflict: 'newer',
+    ignore: [],
+    lastSyncAt: '1970-01-01T00:00:00.000Z',
+    autoSync: true,
+    ...overrides,
+  };
+}
+
+function makeClient(docs: Array<{ path: string }> = []) {
+  return {
+    documents: {
+      list: vi.fn(async () => docs.map(d => ({ sizeBytes: 5, fileModifiedAt: '2025-01-01T00:00:00.000Z', ...d }))),
+      get: vi.fn(async (_vaultId: string, docPath: string) => ({ content: `content of ${docPath}` })),
+      put: vi.fn(),
+    },
+  };
+}
+
+describe('sync remote poller', () => {
+  let stop: (() => void) | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    stop?.();
+    stop = undefined;
+    vi.useRealTimers();
+  });
+
+  describe('polling', () => {
+    it('should poll less often while the vault is unchanged', async () => {
+      const client = makeClient();
+      stop = createRemotePoller(client as any, makeConfig(), { ignorePatterns: [], intervalMs: 1000 }).stop;
+      await vi.advanceTimersByTimeAsync(0);
+      expect(client.documents.list).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(client.documents.list).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(client.documents.list).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(client.documents.list).toHaveBeenCalledTimes(3);
+    });
+
+    it('should go back to the base interval once something changes', async () => {
+      const client = makeClient();
+      stop = createRemotePoller(client as any, makeConfig(), { ignorePatterns: [], intervalMs: 1000 }).stop;
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(client.documents.list).toHaveBeenCalledTimes(3);
+
+      client.documents.list.mockResolvedValueOnce([{ path: 'new.md', sizeBytes: 5, fileModifiedAt: '2025-01-01T00:00:00.000Z' }]);
+      await vi.advanceTimersByTimeAsync(4000);
+      expect(client.documents.get).toHaveBeenCalledWith('vault-1', 'new.md');
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(client.documents.list).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe('change feed', () => {
+    let feed: ChangeFeedOptions;
+    let endFeed: (err?: Error) => void;
+
+    beforeEach(() => {
+      vi.mocked(openChangeFeed).mockImplementation((_source, options) => {
+        feed = options;
+        options.onOpen?.();
+        return new Promise((resolve, reject) => {
+          endFeed = (err) => (err ? reject(err) : resolve());
+        });
+      });
+    });
+
+    it('should apply just the changed documents and advance the cursor', async () => {
+      vi.mocked(loadFeedCursor).mockReturnValueOnce('c1');
+      vi.mocked(loadSyncState).mockReturnValueOnce({
+        syncId: 'sync-1',
+        local: { 'old.md': { path: 'old.md', hash: 'h', mtime: '', size: 1 } },
+        remote: { 'old.md': { path: 'old.md', hash: 'h', mtime: '', size: 1 } },
+        updatedAt: '',
+      });
+      vi.mocked(fs.existsSync).mockImplementation(p => String(p).endsWith('old.md'));
+      const client = makeClient();
+      const poller = createRemotePoller(client as any, makeConfig(), {
+        ignorePatterns: [],
+        changeFeed: vi.fn(),
+      });
+      stop = poller.stop;
+
+      expect(openChangeFeed).toHaveBeenCalledWith(expect.any(Function), expect.objectContaining({ cursor: 'c1' }));
+      expect(poller.streaming()).toBe(true);
+
+      feed.onEvent({ type: 'updated', cursor: 'c2', document: { path: 'a.md', sizeBytes: 5, fileModifiedAt: '2025-01-01T00:00:00.000Z' } });
+      feed.onEvent({ type: 'deleted', cursor: 'c3', path: 'old.md' });
+      await vi.advanceTimersByTimeAsync(250);
+
+      expect(client.documents.get).toHaveBeenCalledTimes(1);
+      expect(client.documents.get).toHaveBeenCalledWith('vault-1', 'a.md');
+      expect(moveToTrash).toHaveBeenCalledWith('/home/user/vault', 'old.md', 'batch-1');
+      expect(saveFeedCursor).toHaveBeenCalledWith('sync-12345678-abcd-efgh', 'c3');
+
+      await vi.advanceTimersByTimeAsync(10 * 60_000);
+      expect(client.documents.list).not.toHaveBeenCalled();
+      vi.mocked(fs.existsSync).mockReset();
+    });
+
+    it('should list the vault when the feed asks for a reset', async () => {
+      vi.mocked(loadFeedCursor).mockReturnValueOnce('c1');
+      const client = makeClient();
+      stop = createRemotePoller(client as any, makeConfig(), { ignorePatterns: [], changeFeed: vi.fn() }).stop;
+
+      feed.onEvent({ type: 'reset', cursor: 'c9' });
+      await vi.advanceTimersByTimeAsync(250);
+
+      expect(client.documents.list).toHaveBeenCalledTimes(1);
+      expect(saveFeedCursor).toHaveBeenCalledWith('sync-12345678-abcd-efgh', 'c9');
+    });
+
+    it('should list the vault once when there is no cursor to resume from', async () => {
+      const client = makeClient();
+      stop = createRemotePoller(client as any, makeConfig(), { ignorePatterns: [], changeFeed: vi.fn() }).stop;
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(client.documents.list).toHaveBeenCalledTimes(1);
+      expect(openChangeFeed).toHaveBeenCalledWith(expect.any(Function), expect.objectContaining({ cursor: null }));
+    });
+
+    it('should poll while the feed is down and stop once it reconnects', async () => {
+      vi.mocked(loadFeedCursor).mockReturnValueOnce('c1');
+      const client = makeClient();
+      const poller = createRemotePoller(client as any, makeConfig(), {
+        ignorePatterns: [],
+        intervalMs: 500,
+        changeFeed: vi.fn(),
+      });
+      stop = poller.stop;
+
+      vi.mocked(openChangeFeed).mockImplementationOnce(() => Promise.reject(new Error('ECONNREFUSED')));
+      endFeed(new Error('socket hang up'));
+      await vi.advanceTimersByTimeAsync(500);
+      expect(poller.streaming()).toBe(false);
+      expect(client.documents.list).toHaveBeenCalledTimes(1);
+
+      // First retry after 1s fails, the second 2s later succeeds
+      await vi.advanceTimersByTimeAsync(2500);
+      expect(openChangeFeed).toHaveBeenCalledTimes(3);
+      expect(poller.streaming()).toBe(true);
+      const polls = client.documents.list.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(client.documents.list).toHaveBeenCalledTimes(polls);
+    });
+
+    it('should fall back to polling on a server without a change feed', async () => {
+      vi.mocked(openChangeFeed).mockImplementation(() =>
+        Promise.reject(Object.assign(new Error('Change feed request failed: HTTP 404'), { unsupported: true })));
+      const onLog = vi.fn();
+      const client = makeClient();
+      const poller = createRemotePoller(client as any, makeConfig(), {
+        ignorePatterns: [],
+        intervalMs: 1000,
+        changeFeed: vi.fn(),
+        onLog,
+      });
+      stop = poller.stop;
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(poller.streaming()).toBe(false);
+      expect(client.documents.list).toHaveBeenCalledTimes(2);
+      expect(onLog).toHaveBeenCalledWith(expect.stringContaining('Change feed unavailable'));
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(openChangeFeed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should close the feed when stopped', async () => {
+      const poller = createRemotePoller(makeClient() as any, makeConfig(), { ignorePatterns: [], changeFeed: vi.fn() });
+
+      poller.stop();
+
+      expect(feed.signal?.aborted).toBe(true);
+      expect(poller.streaming()).toBe(false);
+    });
+  });
+});
@@ -1,6 +1,10 @@
 /**
  * Remote change poller for continuous sync.
- * Periodically checks the remote vault for changes and pulls them down.
+ * Pulls down changes made to the remote vault. Given a change feed, it
+ * subscribes to it and applies just the documents named by its events,
+ * resuming from the stored cursor after a disconnect or restart. Without a
+ * feed, or while the feed is unavailable, it lists the vault periodically,
+ * polling less often while nothing changes.
  */
 import fs from 'node:fs';
 import path from 'node:path';
@@ -9,13 +13,63 @@ import type { SyncConfig } from './types.js';
 import { shouldIgnore } from './ignore.js';
 import { loadSyncState, saveSyncState, hashFileContent, buildRemoteFileState } from './state.js';
 import { updateLastSync } from './config.js';
-import { resolveConflict, detectConflict, createConflictFile, formatConflictLog } from './conflict.js';
+import {
+  resolveConflict,
+  detectConflict,
+  createConflictFile,
+  formatConflictLog,
+  mergeWithBase,
+  askConflict,
+  planConflictDecision,
+  type ConflictPrompt,
+} from './conflict.js';
+import { saveBaseContent, loadBaseContent } from './base-store.js';
+import {
+  DEFAULT_INCLUDE_EXTENSIONS,
+  isIncludedPath,
+  isBinaryPath,
+  decodedSize,
+  encodeContent,
+  decodeContent,
+  resolveMaxFileSize,
+} from './attachments.js';
+import { loadRemoteManifest, saveRemoteManifest, recordRemoteDocument, knownRemoteHash } from './remote-manifest.js';
+import { createTrashBatch, moveToTrash } from './trash.js';
+import { checkMassDelete } from './mass-delete.js';
+import { withSyncLock, readSyncLock, formatLockHolder } from './lock.js';
+import { startSyncRun, appendSyncHistory, recordChange } from './history.js';
+import { localFilePath, findDownloadProblems, isCaseInsensitiveFs } from './paths.js';
+import { normalizeText, toLocalText } from './normalize.js';
+import {
+  openChangeFeed,
+  isFeedUnsupported,
+  loadFeedCursor,
+  saveFeedCursor,
+  type ChangeEvent,
+  type ChangedDocument,
+  type ChangeFeedSource,
+} from './change-feed.js';
+import { formatBytes } from '../utils/format.js';
+
+/** How long to collect change feed events before applying them together */
+const EVENT_BATCH_MS = 250;
+/** First reconnection delay after the change feed drops; doubled per failure */
+const FEED_RECONNECT_MIN_MS = 1000;
+const FEED_RECONNECT_MAX_MS = 60_000;
+/** How long to wait before trying again on a server without a change feed */
+const FEED_UNSUPPORTED_RETRY_MS = 15 * 60_000;
 
 export interface PollerOptions {
   /** Patterns to ignore */
   ignorePatterns: string[];
+  /** File extensions to sync (default: .md only) */
+  includeExtensions?: string[];
   /** Poll interval in ms (default: 30000) */
   intervalMs?: number;
+  /** Longest interval polling backs off to while the vault is unchanged (default: 10 × intervalMs, at most 5 minutes) */
+  maxIntervalMs?: number;
+  /** Change feed to subscribe to; without one, the vault is polled */
+  changeFeed?: ChangeFeedSource;
   /** Callback for log messages */
   onLog?: (message: string) => void;
   /** Callback for conflict log messages */
@@ -24,70 +78,191 @@ export interface PollerOptions {
   onError?: (error: Error) => void;
   /** Callback when a file is written locally (for watcher loop prevention) */
   onLocalWrite?: (docPath: string) => void;
+  /** Interactive resolver for the 'ask' strategy; without one, conflicts are queued */
+  prompt?: ConflictPrompt;
+  /** Name recorded in the sync lock while polling (default: 'daemon') */
+  lockHolder?: string;
 }
 
 /**
  * Creates and starts a remote poller for a sync configuration.
- * Returns a stop function.
+ * Returns a stop function, and whether changes currently arrive over the
+ * change feed rather than by polling.
  */
 export function createRemotePoller(
   client: LifestreamVaultClient,
   config: SyncConfig,
   options: PollerOptions,
-): { stop: () => void } {
+): { stop: () => void; streaming: () => boolean } {
   const {
     ignorePatterns,
+    includeExtensions = DEFAULT_INCLUDE_EXTENSIONS,
     intervalMs = 30000,
+    maxIntervalMs = Math.max(intervalMs, Math.min(intervalMs * 10, 5 * 60_000)),
+    changeFeed,
     onLog,
     onConflictLog,
     onError,
     onLocalWrite,
+    prompt,
+    lockHolder = 'daemon',
   } = options;
 
   const log = (msg: string) => onLog?.(`[poll:${config.id.slice(0, 8)}] ${msg}`);
-  let timer: ReturnType<typeof setInterval> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let delay = intervalMs;
   let polling = false;
+  let paused = false;
+  let stopped = false;
+  // Change feed state: events are collected into one batch per path and
+  // applied together; the cursor advances only once a batch is applied
+  let streaming = false;
+  let feedAbort: AbortController | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectDelay = FEED_RECONNECT_MIN_MS;
+  let cursor = changeFeed ? loadFeedCursor(config.id) : null;
+  // Whether the vault was listed, or the feed resumed from the cursor, since starting
+  let caughtUp = false;
+  let batch = emptyBatch();
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let flushRetryMs = FEED_RECONNECT_MIN_MS;
+  // Conflicts skipped or queued this session, keyed by path and both hashes,
+  // so the same pair of versions is not raised again on every poll
+  const deferred = new Set<string>();
+  const maxFileSize = resolveMaxFileSize(config);
 
-  async function poll(): Promise<void> {
-    if (polling) return; // Skip if previous poll still in progress
+  /** Keep a synced revision as a merge base; binary files are never merged. */
+  function saveBase(docPath: string, content: string): void {
+    if (!isBinaryPath(docPath)) {
+      saveBaseContent(config.id, content, config.normalize);
+    }
+  }
+
+  /** List the whole vault and apply every difference. */
+  function poll(): Promise<number | null> {
+    return applyRemote('poll', async () => ({ remoteDocs: await client.documents.list(config.vaultId), deletedPaths: null }));
+  }
+
+  /**
+   * Apply remote changes. listChanges returns the remote documents to
+   * check, and the paths deleted remotely, or null to treat every tracked
+   * document missing from the list as deleted. Returns the number of changes
+   * made, or null if nothing was applied because another run was in
+   * progress, the sync lock was held, or the run failed.
+   */
+  async function applyRemote(
+    operation: string,
+    listChanges: () => Promise<{ remoteDocs: ChangedDocument[]; deletedPaths: string[] | null }>,
+  ): Promise<number | null> {
+    if (polling) return null; // Skip if previous poll still in progress
     polling = true;
+    try {
+      // Waits for the watcher's pushes, so neither overwrites the other's state updates
+      let changes: number | null = null;
+      const acquired = await withSyncLock(config.id, lockHolder, async () => {
+        if (paused) {
+          log('Resumed: sync lock released');
+          paused = false;
+        }
+        changes = await applyLocked(operation, listChanges);
+      });
+      // Another process (e.g. a manual `sync pull`) is syncing; poll once it is done
+      if (!acquired && !paused) {
+        const holder = readSyncLock(config.id);
+        log(`Paused while ${holder ? formatLockHolder(holder) : 'another process'} holds the sync lock`);
+        paused = true;
+      }
+      return changes;
+    } finally {
+      polling = false;
+    }
+  }
 
+  /** Apply remote changes while holding the sync lock (see applyRemote). */
+  async function applyLocked(
+    operation: string,
+    listChanges: () => Promise<{ remoteDocs: ChangedDocument[]; deletedPaths: string[] | null }>,
+  ): Promise<number | null> {
     try {
-      const remoteDocs = await client.documents.list(config.vaultId);
+      const { remoteDocs, deletedPaths } = await listChanges();
       const state = loadSyncState(config.id);
+      const manifest = loadRemoteManifest(config.id);
       let changes = 0;
+      let fetched = 0;
+      const run = startSyncRun('poller', operation);
+      const pathProblems = findDownloadProblems(
+        remoteDocs.filter(d => !state.local[d.path]),
+        Object.keys(state.local),
+        isCaseInsensitiveFs(config.localPath),
+      );
 
       for (const doc of remoteDocs) {
+        if (!isIncludedPath(doc.path, includeExtensions)) continue;
         if (shouldIgnore(doc.path, ignorePatterns)) continue;
 
         const lastRemote = state.remote[doc.path];
 
-        // Detect remote changes by comparing mtime
-        const remoteChanged = !lastRemote || doc.fileModifiedAt !== lastRemote.mtime;
-        if (!remoteChanged) continue;
+        // Skip documents the manifest shows are unchanged since the last sync
+        if (lastRemote && knownRemoteHash(manifest[doc.path], doc) === lastRemote.hash) continue;
+
+        const size = decodedSize(doc.path, doc.sizeBytes);
+        if (size > maxFileSize) {
+          const deferKey = `${doc.path}:size:${doc.fileModifiedAt}`;
+          if (!deferred.has(deferKey)) {
+            deferred.add(deferKey);
+            log(`Skipping ${doc.path} (${formatBytes(size)}, over the ${formatBytes(maxFileSize)} size limit)`);
+          }
+          continue;
+        }
+
+        const problem = pathProblems.get(doc.path);
+        if (problem) {
+          const deferKey = `${doc.path}:path`;
+          if (!deferred.has(deferKey)) {
+            deferred.add(deferKey);
+            log(`Skipping ${doc.path}: ${problem}`);
+            run.errors.push({ path: doc.path, error: problem });
+          }
+          continue;
+        }
 
         // Fetch the full content
-        const { content } = await client.documents.get(config.vaultId, doc.path);
-        const remoteHash = hashFileContent(content);
+        const { content: received } = await client.documents.get(config.vaultId, doc.path);
+        const content = normalizeText(received, config.normalize);
+        const remoteHash = hashFileContent(content, config.normalize);
+        recordRemoteDocument(manifest, doc.path, remoteHash, doc);
+        fetched++;
 
         // Skip if hash hasn't actually changed
         if (lastRemote && remoteHash === lastRemote.hash) {
           // Update mtime in state but skip file operations
-          state.remote[doc.path] = buildRemoteFileState(doc.path, content, doc.fileModifiedAt);
+          state.remote[doc.path] = buildRemoteFileState(doc.path, content, doc.fileModifiedAt, config.normalize);
           continue;
         }
 
-        const localFile = path.join(config.localPath, doc.path);
+        const localFile = localFilePath(config.localPath, doc.path);
         const localExists = fs.existsSync(localFile);
 
         if (localExists) {
-          const localContent = fs.readFileSync(localFile, 'utf-8');
-          const localHash = hashFileContent(localContent);
+          let localContent: string;
+          try {
+            localContent = encodeContent(doc.path, fs.readFileSync(localFile), config.normalize);
+          } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            const deferKey = `${doc.path}:content:${doc.fileModifiedAt}`;
+            if (!deferred.has(deferKey)) {
+              deferred.add(deferKey);
+              log(`Skipping ${doc.path}: ${message}`);
+              run.errors.push({ path: doc.path, error: message });
+            }
+            continue;
+          }
+          const localHash = hashFileContent(localContent, config.normalize);
 
           if (localHash === remoteHash) {
             // Content is already the same — just update state
             state.local[doc.path] = { path: doc.path, hash: localHash, mtime: new Date().toISOString(), size: Buffer.byteLength(localContent) };
-            state.remote[doc.path] = buildRemoteFileState(doc.path, content, doc.fileModifiedAt);
+            state.remote[doc.path] = buildRemoteFileState(doc.path, content, doc.fileModifiedAt, config.normalize);
             continue;
           }
 
@@ -97,6 +272,84 @@ export function createRemotePoller(
           const remoteState = { path: doc.path, hash: remoteHash, mtime: doc.fileModifiedAt, size: Buffer.byteLength(content) };
 
           if (detectConflict(localState, remoteState, lastLocal, lastRemote)) {
+            // Binary files cannot be merged line by line
+            const binary = isBinaryPath(doc.path);
+            const baseHash = binary ? undefined : lastRemote?.hash ?? lastLocal?.hash;
+            const merged = mergeWithBase(config, baseHash, localContent, content);
+            if (merged) {
+              onLocalWrite?.(doc.path);
+              const tmpMerged = localFile + '.tmp';
+              fs.writeFileSync(tmpMerged, toLocalText(merged.content, config.normalize), 'utf-8');
+              fs.renameSync(tmpMerged, localFile);
+
+              if (merged.conflicts === 0) {
+                const uploaded = await client.documents.put(config.vaultId, doc.path, merged.content);
+                state.remote[doc.path] = buildRemoteFileState(doc.path, merged.content, new Date().toISOString(), config.normalize);
+                recordRemoteDocument(manifest, doc.path, state.remote[doc.path].hash, uploaded);
+                saveBaseContent(config.id, merged.content, config.normalize);
+                log(`Conflict: ${doc.path} — merged local and remote edits`);
+              } else {
+                // Overlapping edits stay local as conflict markers until the user resolves them
+                state.remote[doc.path] = buildRemoteFileState(doc.path, content, doc.fileModifiedAt, config.normalize);
+                saveBaseContent(config.id, content, config.normalize);
+                log(`Conflict: ${doc.path} — ${merged.conflicts} overlapping edit(s) marked in file`);
+              }
+
+              onConflictLog?.(formatConflictLog(doc.path, 'merged', null));
+              run.conflicts.push({ path: doc.path, resolution: 'merged', conflictFile: null, markers: merged.conflicts });
+              recordChange(run, { path: doc.path, op: 'resolve' });
+              state.local[doc.path] = { path: doc.path, hash: hashFileContent(merged.content, config.normalize), mtime: new Date().toISOString(), size: Buffer.byteLength(merged.content) };
+              changes++;
+              continue;
+            }
+
+            if (config.onConflict === 'ask') {
+              const deferKey = `${doc.path}:${localHash}:${remoteHash}`;
+              if (deferred.has(deferKey)) continue;
+
+              const decision = await askConflict(config.id, {
+                docPath: doc.path,
+                localContent,
+                remoteContent: content,
+                baseContent: baseHash ? loadBaseContent(config.id, baseHash) : null,
+                binary,
+              }, 'poll', prompt);
+              const plan = planConflictDecision(decision, localContent, content);
+              if (plan.synced === null) {
+                deferred.add(deferKey);
+                log(`Conflict: ${doc.path} — ${decision.resolution === 'queued' ? 'queued for resolution' : 'skipped'}`);
+                onConflictLog?.(formatConflictLog(doc.path, decision.resolution, null));
+                run.conflicts.push({ path: doc.path, resolution: decision.resolution, conflictFile: null });
+                continue;
+              }
+
+              const conflictFile = plan.backup
+                ? createConflictFile(config.localPath, doc.path, plan.backup.content, plan.backup.source)
+                : null;
+              if (plan.writeLocal !== null) {
+                onLocalWrite?.(doc.path);
+                const tmpResolved = localFile + '.tmp';
+                fs.writeFileSync(tmpResolved, decodeContent(doc.path, plan.writeLocal, config.normalize));
+                fs.renameSync(tmpResolved, localFile);
+              }
+              if (plan.upload !== null) {
+                const uploaded = await client.documents.put(config.vaultId, doc.path, plan.upload);
+                recordRemoteDocument(manifest, doc.path, hashFileContent(plan.upload, config.normalize), uploaded);
+              }
+              log(`Conflict: ${doc.path} — resolved (${decision.resolution})`);
+              onConflictLog?.(formatConflictLog(doc.path, decision.resolution, conflictFile));
+              run.conflicts.push({ path: doc.path, resolution: decision.resolution, conflictFile });
+              recordChange(run, { path: doc.path, op: 'resolve' });
+
+              state.local[doc.path] = { path: doc.path, hash: hashFileContent(plan.synced, config.normalize), mtime: new Date().toISOString(), size: Buffer.byteLength(plan.synced) };
+              state.remote[doc.path] = plan.upload !== null
+                ? buildRemoteFileState(doc.path, plan.synced, new Date().toISOString(), config.normalize)
+                : buildRemoteFileState(doc.path, content, doc.fileModifiedAt, config.normalize);
+              saveBase(doc.path, plan.synced);
+              changes++;
+              continue;
+            }
+
             const resolution = resolveConflict(config.onConflict, localState, remoteState);
             let conflictFile: string | null = null;
 
@@ -104,21 +357,25 @@ export function createRemotePoller(
               conflictFile = createConflictFile(config.localPath, doc.path, localContent, 'local');
               onLocalWrite?.(doc.path);
               const tmpConflict = localFile + '.tmp';
-              fs.writeFileSync(tmpConflict, content, 'utf-8');
+              fs.writeFileSync(tmpConflict, decodeContent(doc.path, content, config.normalize));
               fs.renameSync(tmpConflict, localFile);
               log(`Conflict: ${doc.path} — used remote, saved local as ${conflictFile}`);
             } else {
               conflictFile = createConflictFile(config.localPath, doc.path, content, 'remote');
-              await client.documents.put(config.vaultId, doc.path, localContent);
+              const uploaded = await client.documents.put(config.vaultId, doc.path, localContent);
+              recordRemoteDocument(manifest, doc.path, localHash, uploaded);
               log(`Conflict: ${doc.path} — used local, saved remote as ${conflictFile}`);
             }
 
             onConflictLog?.(formatConflictLog(doc.path, resolution, conflictFile));
+            run.conflicts.push({ path: doc.path, resolution, conflictFile });
+            recordChange(run, { path: doc.path, op: 'resolve' });
 
             state.local[doc.path] = resolution === 'remote' ? remoteState : localState;
             state.remote[doc.path] = resolution === 'remote'
-              ? buildRemoteFileState(doc.path, content, doc.fileModifiedAt)
-              : buildRemoteFileState(doc.path, localContent, new Date().toISOString());
+              ? buildRemoteFileState(doc.path, content, doc.fileModifiedAt, config.normalize)
+              : buildRemoteFileState(doc.path, localContent, new Date().toISOString(), config.normalize);
+            saveBase(doc.path, resolution === 'remote' ? content : localContent);
             changes++;
             continue;
           }
@@ -131,10 +388,11 @@ export function createRemotePoller(
         }
         onLocalWrite?.(doc.path);
         const tmpFile = localFile + '.tmp';
-        fs.writeFileSync(tmpFile, content, 'utf-8');
+        fs.writeFileSync(tmpFile, decodeContent(doc.path, content, config.normalize));
         fs.renameSync(tmpFile, localFile);
         log(`Pulled: ${doc.path}`);
         changes++;
+        recordChange(run, { path: doc.path, op: 'download' }, Buffer.byteLength(content));
 
         state.local[doc.path] = {
           path: doc.path,
@@ -142,54 +400,233 @@ export function createRemotePoller(
           mtime: new Date().toISOString(),
           size: Buffer.byteLength(content),
         };
-        state.remote[doc.path] = buildRemoteFileState(doc.path, content, doc.fileModifiedAt);
+        state.remote[doc.path] = buildRemoteFileState(doc.path, content, doc.fileModifiedAt, config.normalize);
+        saveBase(doc.path, content);
       }
 
       // Check for remote deletions
-      for (const docPath of Object.keys(state.remote)) {
-        if (shouldIgnore(docPath, ignorePatterns)) continue;
-        const stillExists = remoteDocs.some(d => d.path === docPath);
-        if (!stillExists) {
-          const localFile = path.join(config.localPath, docPath);
+      const remotePaths = new Set(remoteDocs.map(d => d.path));
+      const deleted = (deletedPaths ?? Object.keys(state.remote)).filter(
+        docPath => state.remote[docPath] && !shouldIgnore(docPath, ignorePatterns) && !remotePaths.has(docPath),
+      );
+      const tracked = new Set([...Object.keys(state.local), ...Object.keys(state.remote)]).size;
+      const massDelete = checkMassDelete(deleted.length, tracked, config.massDeleteThreshold);
+      if (massDelete) {
+        log(`${massDelete}; skipping remote deletions (run \`lsvault sync pull --allow-mass-delete\` to apply them)`);
+      } else {
+        const trashBatch = createTrashBatch();
+        for (const docPath of deleted) {
+          const localFile = localFilePath(config.localPath, docPath);
           if (fs.existsSync(localFile)) {
-            fs.unlinkSync(localFile);
-            log(`Deleted local: ${docPath} (removed from remote)`);
+            moveToTrash(config.localPath, docPath, trashBatch);
+            log(`Deleted local: ${docPath} (removed from remote, moved to trash)`);
             changes++;
+            recordChange(run, { path: docPath, op: 'delete-local' });
           }
           delete state.local[docPath];
           delete state.remote[docPath];
+          delete manifest[docPath];
         }
       }
 
+      if (changes > 0 || fetched > 0) {
+        saveRemoteManifest(config.id, manifest);
+      }
+
       if (changes > 0) {
         saveSyncState(state);
         updateLastSync(config.id);
         log(`Poll complete: ${changes} change(s)`);
       }
+      if (run.changes.length > 0 || run.conflicts.length > 0 || run.errors.length > 0) {
+        appendSyncHistory(config.id, run);
+      }
+      return changes;
     } catch (err) {
       onError?.(err instanceof Error ? err : new Error(String(err)));
-    } finally {
-      polling = false;
+      return null;
     }
   }
 
-  // Initial poll
-  poll().catch(err => onError?.(err instanceof Error ? err : new Error(String(err))));
+  /**
+   * Poll after the current delay. The delay doubles, up to maxIntervalMs,
+   * after each poll that finds nothing to do, and drops back to intervalMs
+   * once one does.
+   */
+  function schedulePoll(ms: number = delay): void {
+    if (stopped || streaming || timer) return;
+    timer = setTimeout(async () => {
+      const changes = await poll();
+      timer = null;
+      delay = changes ? intervalMs : Math.min(delay * 2, maxIntervalMs);
+      schedulePoll();
+    }, ms);
+  }
 
-  // Start interval
-  timer = setInterval(() => {
-    poll().catch(err => onError?.(err instanceof Error ? err : new Error(String(err))));
-  }, intervalMs);
+  function stopPolling(): void {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  }
+
+  function queueEvent(event: ChangeEvent): void {
+    if (event.type === 'reset') {
+      batch.reset = true;
+    } else if (event.type === 'updated') {
+      batch.deleted.delete(event.document.path);
+      batch.updated.set(event.document.path, event.document);
+    } else {
+      batch.updated.delete(event.path);
+      batch.deleted.add(event.path);
+    }
+    if (event.cursor) batch.cursor = event.cursor;
+    scheduleFlush(EVENT_BATCH_MS);
+  }
+
+  function scheduleFlush(ms: number): void {
+    if (stopped || flushTimer) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      flush().catch(err => onError?.(err instanceof Error ? err : new Error(String(err))));
+    }, ms);
+  }
+
+  /**
+   * Apply the collected events: just the documents they name, or the whole
+   * vault after a reset. A batch that could not be applied is merged back
+   * under any events received since, and retried with backoff.
+   */
+  async function flush(): Promise<void> {
+    const applying = batch;
+    batch = emptyBatch();
+    const changes = applying.reset
+      ? await poll()
+      : await applyRemote('feed', async () => ({
+          remoteDocs: [...applying.updated.values()],
+          deletedPaths: [...applying.deleted],
+        }));
+
+    if (changes === null) {
+      batch = mergeBatches(applying, batch);
+      scheduleFlush(flushRetryMs);
+      flushRetryMs = Math.min(flushRetryMs * 2, maxIntervalMs);
+      return;
+    }
+    flushRetryMs = FEED_RECONNECT_MIN_MS;
+    if (applying.cursor) {
+      cursor = applying.cursor;
+      saveFeedCursor(config.id, cursor);
+    }
+  }
+
+  /**
+   * Subscribe to the change feed. While it is connected, polling stops;
+   * when it drops, polling takes over until a reconnection succeeds.
+   */
+  function connectFeed(feed: ChangeFeedSource): void {
+    reconnectTimer = null;
+    const abort = new AbortController();
+    feedAbort = abort;
+    openChangeFeed(feed, {
+      cursor,
+      signal: abort.signal,
+      onOpen: () => {
+        streaming = true;
+        caughtUp = true;
+        reconnectDelay = FEED_RECONNECT_MIN_MS;
+        stopPolling();
+        log(cursor ? 'Subscribed to change feed, resuming from the last change applied' : 'Subscribed to change feed');
+      },
+      onEvent: queueEvent,
+    })
+      .then(() => feedLost(feed, abort, new Error('Change feed closed by the server')))
+      .catch(err => feedLost(feed, abort, err));
+  }
 
-  log(`Polling every ${intervalMs / 1000}s`);
+  function feedLost(feed: ChangeFeedSource, abort: AbortController, err: unknown): void {
+    if (stopped || feedAbort !== abort) return;
+    feedAbort = null;
+    const wasStreaming = streaming;
+    streaming = false;
+    const msg = err instanceof Error ? err.message : String(err);
+    let retryMs: number;
+    if (isFeedUnsupported(err)) {
+      retryMs = FEED_UNSUPPORTED_RETRY_MS;
+      log(`Change feed unavailable (${msg}); polling every ${intervalMs / 1000}s`);
+    } else {
+      retryMs = reconnectDelay;
+      reconnectDelay = Math.min(reconnectDelay * 2, FEED_RECONNECT_MAX_MS);
+      log(`Change feed ${wasStreaming ? 'disconnected' : 'unreachable'} (${msg}); reconnecting in ${retryMs / 1000}s`);
+    }
+    // Once caught up, the cursor resumes the feed where it left off, so
+    // polling only has to cover the time until it is back
+    delay = intervalMs;
+    schedulePoll(caughtUp ? intervalMs : 0);
+    caughtUp = true;
+    reconnectTimer = setTimeout(() => connectFeed(feed), retryMs);
+  }
+
+  if (changeFeed) {
+    // Without a cursor to resume from, list the vault once to catch up
+    if (cursor === null) {
+      caughtUp = true;
+      poll().catch(err => onError?.(err instanceof Error ? err : new Error(String(err))));
+    }
+    connectFeed(changeFeed);
+  } else {
+    // Initial poll
+    poll().catch(err => onError?.(err instanceof Error ? err : new Error(String(err))));
+    schedulePoll();
+    log(`Polling every ${intervalMs / 1000}s, backing off to ${maxIntervalMs / 1000}s while the vault is unchanged`);
+  }
 
   return {
     stop: () => {
-      if (timer) {
-        clearInterval(timer);
-        timer = null;
-      }
+      stopped = true;
+      stopPolling();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (flushTimer) clearTimeout(flushTimer);
+      feedAbort?.abort();
+      feedAbort = null;
+      streaming = false;
       log('Stopped polling');
     },
+    streaming: () => streaming,
   };
 }
+
+/** Change feed events collected for one run, by path */
+interface EventBatch {
+  updated: Map<string, ChangedDocument>;
+  deleted: Set<string>;
+  /** The feed asked for a full listing */
+  reset: boolean;
+  /** Cursor of the last event in the batch */
+  cursor: string | null;
+}
+
+function emptyBatch(): EventBatch {
+  return { updated: new Map(), deleted: new Set(), reset: false, cursor: null };
+}
+
+/**
+ * Combine an earlier batch with a later one; for a path in both, the later
+ * event wins.
+ */
+function mergeBatches(earlier: EventBatch, later: EventBatch): EventBatch {
+  const merged = emptyBatch();
+  for (const [docPath, doc] of earlier.updated) merged.updated.set(docPath, doc);
+  for (const docPath of earlier.deleted) merged.deleted.add(docPath);
+  for (const [docPath, doc] of later.updated) {
+    merged.deleted.delete(docPath);
+    merged.updated.set(docPath, doc);
+  }
+  for (const docPath of later.deleted) {
+    merged.updated.delete(docPath);
+    merged.deleted.add(docPath);
+  }
+  merged.reset = earlier.reset || later.reset;
+  merged.cursor = later.cursor ?? earlier.cursor;
+  return merged;
+}
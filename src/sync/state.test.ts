@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import fs from 'node:fs';
+import { Readable } from 'node:stream';
 
 vi.mock('node:fs');
 const mockedFs = vi.mocked(fs);
@@ -9,6 +10,9 @@ import {
   saveSyncState,
   deleteSyncState,
   hashFileContent,
+  hashFileStream,
+  isStatUnchanged,
+  refreshStatCache,
   buildFileState,
   buildRemoteFileState,
   hasFileChanged,
@@ -84,10 +88,14 @@ describe('sync state', () => {
       saveSyncState(state);
 
       expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
-        expect.stringContaining('sync-1.json'),
+        expect.stringContaining('sync-1.json.tmp.'),
         expect.any(String),
         { mode: 0o600 },
       );
+      expect(mockedFs.renameSync).toHaveBeenCalledWith(
+        expect.stringContaining('sync-1.json.tmp.'),
+        expect.stringMatching(/sync-1\.json$/),
+      );
 
       // updatedAt should have been set
       expect(state.updatedAt).not.toBe('');
@@ -133,6 +141,64 @@ describe('sync state', () => {
       const hash = hashFileContent('');
       expect(hash).toHaveLength(64);
     });
+
+    it('should hash text as compared under a normalization policy', () => {
+      const policy = { lineEndings: 'lf' as const, stripBom: true, ignoreTrailingWhitespace: true };
+      expect(hashFileContent('\uFEFFa  \r\nb\r\n', policy)).toBe(hashFileContent('a\nb', policy));
+      expect(hashFileContent('a\nb', policy)).not.toBe(hashFileContent('a\nc', policy));
+      expect(hashFileContent('a\r\n')).not.toBe(hashFileContent('a\n'));
+    });
+  });
+
+  describe('hashFileStream', () => {
+    const data = Buffer.from('binary \x00\x01\x02 payload of odd length');
+
+    it('should match hashFileContent of the raw bytes', async () => {
+      mockedFs.createReadStream.mockReturnValue(Readable.from([data.subarray(0, 5), data.subarray(5)]) as fs.ReadStream);
+      expect(await hashFileStream('/vault/a.md')).toBe(hashFileContent(data));
+    });
+
+    it('should hash the base64 encoding across chunk boundaries', async () => {
+      mockedFs.createReadStream.mockReturnValue(
+        Readable.from([data.subarray(0, 4), data.subarray(4, 11), data.subarray(11)]) as fs.ReadStream,
+      );
+      expect(await hashFileStream('/vault/a.png', true)).toBe(hashFileContent(data.toString('base64')));
+    });
+  });
+
+  describe('stat cache', () => {
+    const stat = { ino: 42, size: 4, mtime: new Date('2025-06-15T10:00:00.000Z') } as fs.Stats;
+    const known: FileState = { path: 'a.md', hash: 'h', mtime: '2025-06-15T10:00:00.000Z', size: 4, inode: 42 };
+
+    it('should only trust entries whose inode, size and mtime all match', () => {
+      expect(isStatUnchanged(known, stat)).toBe(true);
+      expect(isStatUnchanged({ ...known, inode: 7 }, stat)).toBe(false);
+      expect(isStatUnchanged({ ...known, size: 5 }, stat)).toBe(false);
+      expect(isStatUnchanged({ ...known, mtime: '2025-06-15T10:00:01.000Z' }, stat)).toBe(false);
+      expect(isStatUnchanged({ ...known, inode: undefined }, stat)).toBe(false);
+      expect(isStatUnchanged(undefined, stat)).toBe(false);
+    });
+
+    it('should record the stat of files unchanged since the last sync', () => {
+      const state: SyncState = {
+        syncId: 's',
+        local: {
+          'a.md': { path: 'a.md', hash: 'h', mtime: 'old', size: 4 },
+          'b.md': { path: 'b.md', hash: 'old', mtime: 'old', size: 4 },
+        },
+        remote: {},
+        updatedAt: '',
+      };
+      const scanned = {
+        'a.md': known,
+        'b.md': { ...known, path: 'b.md', hash: 'edited' },
+      };
+
+      expect(refreshStatCache(state, scanned)).toBe(true);
+      expect(state.local['a.md']).toEqual(known);
+      expect(state.local['b.md'].mtime).toBe('old');
+      expect(refreshStatCache(state, scanned)).toBe(false);
+    });
   });
 
   describe('buildFileState', () => {
@@ -7,7 +7,8 @@ import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 import crypto from 'node:crypto';
-import type { SyncState, FileState } from './types.js';
+import type { SyncState, FileState, NormalizePolicy } from './types.js';
+import { comparableText } from './normalize.js';
 
 const STATE_DIR = path.join(os.homedir(), '.lsvault', 'sync-state');
 
@@ -44,13 +45,18 @@ export function loadSyncState(syncId: string): SyncState {
 
 /**
  * Save sync state to disk.
+ * Written to a temp file and renamed into place, so a crash mid-write leaves
+ * the previous state intact instead of a truncated file.
  */
 export function saveSyncState(state: SyncState): void {
   if (!fs.existsSync(STATE_DIR)) {
     fs.mkdirSync(STATE_DIR, { recursive: true, mode: 0o700 });
   }
   state.updatedAt = new Date().toISOString();
-  fs.writeFileSync(stateFilePath(state.syncId), JSON.stringify(state, null, 2) + '\n', { mode: 0o600 });
+  const filePath = stateFilePath(state.syncId);
+  const tmpFile = `${filePath}.tmp.${crypto.randomBytes(4).toString('hex')}`;
+  fs.writeFileSync(tmpFile, JSON.stringify(state, null, 2) + '\n', { mode: 0o600 });
+  fs.renameSync(tmpFile, filePath);
 }
 
 /**
@@ -65,10 +71,64 @@ export function deleteSyncState(syncId: string): boolean {
 }
 
 /**
- * Compute SHA-256 hash of a file's content.
+ * Compute SHA-256 hash of a file's content. With a normalization policy,
+ * string content is hashed in the form compared between the two sides.
  */
-export function hashFileContent(content: string | Buffer): string {
-  return crypto.createHash('sha256').update(content).digest('hex');
+export function hashFileContent(content: string | Buffer, policy?: NormalizePolicy): string {
+  const data = policy && typeof content === 'string' ? comparableText(content, policy) : content;
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Compute the SHA-256 hash of a file by streaming it from disk.
+ * With base64 set, hashes the file's base64 encoding, as hashFileContent
+ * does for the encoded content of binary files.
+ */
+export async function hashFileStream(absolutePath: string, base64 = false): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  // base64 maps 3 bytes to 4 characters, so chunks are split on multiples of 3
+  let carry: Buffer = Buffer.alloc(0);
+  for await (const chunk of fs.createReadStream(absolutePath) as AsyncIterable<Buffer>) {
+    if (!base64) {
+      hash.update(chunk);
+      continue;
+    }
+    const data = carry.length > 0 ? Buffer.concat([carry, chunk]) : chunk;
+    const whole = data.length - (data.length % 3);
+    hash.update(data.subarray(0, whole).toString('base64'));
+    carry = data.subarray(whole);
+  }
+  if (carry.length > 0) hash.update(carry.toString('base64'));
+  return hash.digest('hex');
+}
+
+/**
+ * Check whether a file's stat still matches a recorded file state, meaning
+ * its recorded hash can be reused without reading the file.
+ */
+export function isStatUnchanged(known: FileState | undefined, stat: fs.Stats): boolean {
+  return known !== undefined
+    && known.inode !== undefined
+    && known.inode === stat.ino
+    && known.size === stat.size
+    && known.mtime === stat.mtime.toISOString();
+}
+
+/**
+ * Copy the scanned stat of files unchanged since the last sync into the
+ * state, so the next scan can skip hashing them. Returns true if the state
+ * was updated and should be saved.
+ */
+export function refreshStatCache(state: SyncState, localFiles: Record<string, FileState>): boolean {
+  let updated = false;
+  for (const [docPath, file] of Object.entries(localFiles)) {
+    const known = state.local[docPath];
+    if (!known || known.hash !== file.hash || file.inode === undefined) continue;
+    if (known.inode === file.inode && known.mtime === file.mtime && known.size === file.size) continue;
+    state.local[docPath] = { ...known, mtime: file.mtime, size: file.size, inode: file.inode };
+    updated = true;
+  }
+  return updated;
 }
 
 /**
@@ -93,10 +153,11 @@ export function buildRemoteFileState(
   docPath: string,
   content: string,
   updatedAt: string,
+  policy?: NormalizePolicy,
 ): FileState {
   return {
     path: docPath,
-    hash: hashFileContent(content),
+    hash: hashFileContent(content, policy),
     mtime: updatedAt,
     size: Buffer.byteLength(content, 'utf-8'),
   };
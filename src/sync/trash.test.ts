@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+
+vi.mock('node:fs');
+const mockedFs = vi.mocked(fs);
+
+import { createTrashBatch, moveToTrash, listTrash, restoreFromTrash, emptyTrash } from './trash.js';
+
+const ROOT = path.join('/vault', '.lsvault', 'trash');
+const OLD_BATCH = '2025-01-01T00-00-00-000Z';
+const NEW_BATCH = '2025-06-15T10-20-30-000Z';
+
+function dirent(name: string, dir = false): fs.Dirent {
+  return { name, isDirectory: () => dir, isFile: () => !dir } as unknown as fs.Dirent;
+}
+
+/** Fake a trash directory holding notes/a.md in NEW_BATCH and b.md in OLD_BATCH. */
+function mockTrash(): void {
+  mockedFs.existsSync.mockImplementation(p => String(p) === ROOT);
+  mockedFs.readdirSync.mockImplementation(((p: string) => {
+    if (p === ROOT) return [OLD_BATCH, NEW_BATCH, 'not-a-batch'];
+    if (p === path.join(ROOT, NEW_BATCH)) return [dirent('notes', true)];
+    if (p === path.join(ROOT, NEW_BATCH, 'notes')) return [dirent('a.md')];
+    if (p === path.join(ROOT, OLD_BATCH)) return [dirent('b.md')];
+    return [];
+  }) as unknown as typeof fs.readdirSync);
+  mockedFs.statSync.mockReturnValue({ size: 12 } as fs.Stats);
+}
+
+describe('sync trash', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should name batches after the current time', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-15T10:20:30.000Z'));
+    expect(createTrashBatch()).toBe(NEW_BATCH);
+  });
+
+  it('should move files into the batch, keeping their path', () => {
+    moveToTrash('/vault', 'notes/a.md', NEW_BATCH);
+    expect(mockedFs.mkdirSync).toHaveBeenCalledWith(path.join(ROOT, NEW_BATCH, 'notes'), { recursive: true });
+    expect(mockedFs.renameSync).toHaveBeenCalledWith(
+      path.join('/vault', 'notes/a.md'),
+      path.join(ROOT, NEW_BATCH, 'notes', 'a.md'),
+    );
+  });
+
+  it('should list trashed files, newest batch first', () => {
+    mockTrash();
+    expect(listTrash('/vault')).toEqual([
+      { batch: NEW_BATCH, docPath: 'notes/a.md', deletedAt: '2025-06-15T10:20:30.000Z', sizeBytes: 12 },
+      { batch: OLD_BATCH, docPath: 'b.md', deletedAt: '2025-01-01T00:00:00.000Z', sizeBytes: 12 },
+    ]);
+  });
+
+  it('should return an empty list without a trash directory', () => {
+    mockedFs.existsSync.mockReturnValue(false);
+    expect(listTrash('/vault')).toEqual([]);
+  });
+
+  it('should skip files whose original path is taken unless overwriting', () => {
+    mockTrash();
+    mockedFs.existsSync.mockImplementation(p => String(p) === ROOT || String(p) === path.join('/vault', 'b.md'));
+
+    expect(restoreFromTrash('/vault', OLD_BATCH)).toEqual({ restored: [], skipped: ['b.md'] });
+    expect(mockedFs.renameSync).not.toHaveBeenCalled();
+
+    expect(restoreFromTrash('/vault', OLD_BATCH, undefined, true)).toEqual({ restored: ['b.md'], skipped: [] });
+    expect(mockedFs.renameSync).toHaveBeenCalledWith(path.join(ROOT, OLD_BATCH, 'b.md'), path.join('/vault', 'b.md'));
+  });
+
+  it('should only empty batches older than the given age', () => {
+    mockTrash();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-20T00:00:00.000Z'));
+
+    expect(emptyTrash('/vault', 30 * 24 * 60 * 60 * 1000)).toBe(1);
+    expect(mockedFs.rmSync).toHaveBeenCalledTimes(1);
+    expect(mockedFs.rmSync).toHaveBeenCalledWith(path.join(ROOT, OLD_BATCH), { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Local trash for files deleted by sync.
+ * When a document disappears remotely, the local copy is moved to
+ * <localPath>/.lsvault/trash/<timestamp>/<docPath> instead of being unlinked,
+ * so an unwanted deletion can be undone with `lsvault sync trash restore`.
+ * Each sync run that deletes files gets its own timestamped batch.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { localFilePath } from './paths.js';
+
+export interface TrashEntry {
+  /** Batch the file was trashed in (the run's timestamp) */
+  batch: string;
+  /** Original document path (relative, forward slashes) */
+  docPath: string;
+  /** ISO 8601 timestamp when the file was trashed */
+  deletedAt: string;
+  /** File size in bytes */
+  sizeBytes: number;
+}
+
+const BATCH_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/;
+
+function trashRoot(localPath: string): string {
+  return path.join(localPath, '.lsvault', 'trash');
+}
+
+/**
+ * Create the batch name for files trashed now, e.g. 2025-01-15T10-30-00-000Z.
+ */
+export function createTrashBatch(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+function batchTime(batch: string): string | null {
+  const match = BATCH_PATTERN.exec(batch);
+  if (!match) return null;
+  const [, date, hh, mm, ss, ms] = match;
+  return `${date}T${hh}:${mm}:${ss}.${ms}Z`;
+}
+
+/**
+ * Move a local file into a trash batch. Returns the trashed file's path.
+ */
+export function moveToTrash(localPath: string, docPath: string, batch: string): string {
+  const source = localFilePath(localPath, docPath);
+  const target = path.join(trashRoot(localPath), batch, path.relative(localPath, source));
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.renameSync(source, target);
+  return target;
+}
+
+/**
+ * List trashed files, newest batch first.
+ */
+export function listTrash(localPath: string): TrashEntry[] {
+  const root = trashRoot(localPath);
+  if (!fs.existsSync(root)) return [];
+
+  const entries: TrashEntry[] = [];
+  const batches = fs.readdirSync(root).filter(name => batchTime(name) !== null).sort().reverse();
+  for (const batch of batches) {
+    const deletedAt = batchTime(batch)!;
+    const walk = (dir: string, prefix: string): void => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const relPath = prefix ? `${prefix}/${entry.name}` : entry.name;
+        const absPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(absPath, relPath);
+        } else if (entry.isFile()) {
+          entries.push({ batch, docPath: relPath, deletedAt, sizeBytes: fs.statSync(absPath).size });
+        }
+      }
+    };
+    walk(path.join(root, batch), '');
+  }
+  return entries;
+}
+
+/**
+ * Move trashed files of a batch (or a single file of it) back to their
+ * original location. Files whose original path is taken again are skipped
+ * unless overwrite is set. Empty batches are removed.
+ */
+export function restoreFromTrash(
+  localPath: string,
+  batch: string,
+  docPath?: string,
+  overwrite = false,
+): { restored: string[]; skipped: string[] } {
+  const entries = listTrash(localPath).filter(e => e.batch === batch && (!docPath || e.docPath === docPath));
+  const restored: string[] = [];
+  const skipped: string[] = [];
+
+  for (const entry of entries) {
+    const target = path.join(localPath, entry.docPath);
+    if (fs.existsSync(target) && !overwrite) {
+      skipped.push(entry.docPath);
+      continue;
+    }
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.renameSync(path.join(trashRoot(localPath), batch, entry.docPath), target);
+    restored.push(entry.docPath);
+  }
+
+  if (restored.length > 0 && !listTrash(localPath).some(e => e.batch === batch)) {
+    fs.rmSync(path.join(trashRoot(localPath), batch), { recursive: true, force: true });
+  }
+  return { restored, skipped };
+}
+
+/**
+ * Permanently delete trash batches, optionally only those older than the
+ * given age. Returns the number of files removed.
+ */
+export function emptyTrash(localPath: string, olderThanMs?: number): number {
+  const entries = listTrash(localPath).filter(e =>
+    olderThanMs === undefined || Date.now() - new Date(e.deletedAt).getTime() > olderThanMs,
+  );
+  for (const batch of new Set(entries.map(e => e.batch))) {
+    fs.rmSync(path.join(trashRoot(localPath), batch), { recursive: true, force: true });
+  }
+  return entries.length;
+}
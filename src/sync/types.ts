@@ -4,6 +4,20 @@
 
 export type SyncMode = 'pull' | 'push' | 'sync';
 export type ConflictStrategy = 'newer' | 'local' | 'remote' | 'ask';
+export type LineEndings = 'lf' | 'crlf' | 'native';
+export type FrontmatterField = 'tags' | 'title' | 'id' | 'createdAt';
+
+/**
+ * How text files are normalized before they are hashed, compared and written.
+ */
+export interface NormalizePolicy {
+  /** Compare and upload text with LF line endings, and write local files with these */
+  lineEndings?: LineEndings;
+  /** Remove a leading UTF-8 byte order mark */
+  stripBom?: boolean;
+  /** Treat content differing only in trailing whitespace as unchanged */
+  ignoreTrailingWhitespace?: boolean;
+}
 
 /**
  * Persisted configuration for a single vault sync.
@@ -14,14 +28,32 @@ export interface SyncConfig {
   id: string;
   /** Remote vault ID */
   vaultId: string;
+  /** Configuration profile whose API URL and credentials the sync uses (default: 'default') */
+  profile?: string;
   /** Absolute local filesystem path */
   localPath: string;
   /** Sync direction: pull (remote->local), push (local->remote), sync (bidirectional) */
   mode: SyncMode;
   /** How to resolve conflicts */
   onConflict: ConflictStrategy;
-  /** Glob patterns to ignore (relative to localPath) */
+  /** Write git-style conflict markers for overlapping edits instead of a conflict copy */
+  conflictMarkers?: boolean;
+  /** Patterns to ignore, with .gitignore semantics (relative to localPath) */
   ignore: string[];
+  /** Folders or files to sync, relative to localPath; everything else is ignored (default: everything) */
+  include?: string[];
+  /** File extensions to sync, e.g. ['.md', '.png', '.pdf'] or ['*'] (default: ['.md']) */
+  includeExtensions?: string[];
+  /** Largest file to transfer, in bytes (default: 50 MB) */
+  maxFileSize?: number;
+  /** Files to transfer in parallel (default: 4) */
+  concurrency?: number;
+  /** Most deletions one sync may make, as a count ('100') or share of tracked files ('25%') (default: '50%') */
+  massDeleteThreshold?: string;
+  /** Text normalization applied before hashing and on write (default: none) */
+  normalize?: NormalizePolicy;
+  /** Document fields kept in YAML frontmatter; edited tags are applied back to the vault (default: none) */
+  frontmatter?: FrontmatterField[];
   /** ISO 8601 timestamp of last successful sync */
   lastSyncAt: string;
   /** Sync interval for auto-sync (e.g., '5m', '1h') */
@@ -42,6 +74,8 @@ export interface FileState {
   mtime: string;
   /** File size in bytes */
   size: number;
+  /** Inode of the local file, recorded with mtime and size so unchanged files need not be rehashed */
+  inode?: number;
 }
 
 /**
@@ -64,10 +98,19 @@ export interface SyncState {
  */
 export interface CreateSyncOptions {
   vaultId: string;
+  profile?: string;
   localPath: string;
   mode?: SyncMode;
   onConflict?: ConflictStrategy;
+  conflictMarkers?: boolean;
   ignore?: string[];
+  include?: string[];
+  includeExtensions?: string[];
+  maxFileSize?: number;
+  concurrency?: number;
+  massDeleteThreshold?: string;
+  normalize?: NormalizePolicy;
+  frontmatter?: FrontmatterField[];
   syncInterval?: string;
   autoSync?: boolean;
 }
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import fs from 'node:fs';
 
 vi.mock('node:fs');
@@ -44,10 +44,55 @@ vi.mock('./conflict.js', () => ({
   resolveConflict: vi.fn(() => 'local'),
   createConflictFile: vi.fn(() => 'conflict-path.md'),
   formatConflictLog: vi.fn(() => 'conflict log'),
+  mergeWithBase: vi.fn(() => null),
+  askConflict: vi.fn(async () => ({ resolution: 'queued' })),
+  planConflictDecision: vi.fn(() => ({ writeLocal: null, upload: null, backup: null, synced: null })),
+}));
+
+vi.mock('./base-store.js', () => ({
+  saveBaseContent: vi.fn(),
+  loadBaseContent: vi.fn(() => null),
+}));
+
+vi.mock('./lock.js', () => ({
+  withSyncLock: vi.fn(async (_syncId: string, _holder: string, task: () => Promise<void>) => {
+    await task();
+    return true;
+  }),
+  readSyncLock: vi.fn(() => ({ pid: 4242, holder: 'sync pull', acquiredAt: '' })),
+  formatLockHolder: vi.fn(() => 'sync pull (pid 4242)'),
+}));
+
+vi.mock('./history.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./history.js')>(),
+  appendSyncHistory: vi.fn(),
+}));
+
+vi.mock('./outbox.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./outbox.js')>(),
+  loadOutbox: vi.fn(() => []),
+  enqueueOutbox: vi.fn(() => 1),
+  recordOutboxFailure: vi.fn(),
+  removeOutboxEntry: vi.fn(() => false),
+}));
+
+vi.mock('./engine.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./engine.js')>(),
+  scanLocalFiles: vi.fn(async () => ({})),
+  scanRemoteFiles: vi.fn(async () => ({})),
+  executePush: vi.fn(async () => ({
+    filesUploaded: 0, filesDownloaded: 0, filesDeleted: 0, filesMoved: 0, bytesTransferred: 0, errors: [], conflicts: [],
+  })),
 }));
 
 import { createWatcher } from './watcher.js';
+import { scanLocalFiles, scanRemoteFiles, executePush } from './engine.js';
+import { loadOutbox, enqueueOutbox, recordOutboxFailure, removeOutboxEntry } from './outbox.js';
+import { appendSyncHistory } from './history.js';
+import { withSyncLock } from './lock.js';
 import { watch } from 'chokidar';
+import { loadSyncState, saveSyncState } from './state.js';
+import { detectConflict, mergeWithBase } from './conflict.js';
 import type { SyncConfig } from './types.js';
 
 function makeConfig(overrides: Partial<SyncConfig> = {}): SyncConfig {
@@ -134,4 +179,526 @@ describe('sync watcher', () => {
       }),
     );
   });
+
+  describe('conflicts', () => {
+    function handler(event: string): (absPath: string) => void {
+      return mockWatcher.on.mock.calls.find((args: unknown[]) => args[0] === event)![1];
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      const synced = { path: 'a.md', hash: 'hash-old', mtime: '', size: 6 };
+      vi.mocked(loadSyncState).mockReturnValue({ syncId: 'sync-1', local: { 'a.md': synced }, remote: { 'a.md': synced }, updatedAt: '' });
+      mockedFs.statSync.mockReturnValue({ size: 6 } as fs.Stats);
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('# Note'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should not push the unmerged content when uploading a merge fails', async () => {
+      vi.mocked(detectConflict).mockReturnValueOnce(true);
+      vi.mocked(mergeWithBase).mockReturnValueOnce({ content: '# Merged', conflicts: 0 } as never);
+      const get = vi.fn().mockResolvedValue({ content: '# Remote', document: { path: 'a.md', updatedAt: '' } });
+      const put = vi.fn().mockRejectedValue(new Error('Service unavailable'));
+      const onError = vi.fn();
+      createWatcher({ documents: { get, put } } as any, makeConfig({ mode: 'sync' }), { ignorePatterns: [], debounceMs: 100, onError });
+
+      handler('change')('/home/user/vault/a.md');
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(put).toHaveBeenCalledTimes(1);
+      expect(put).toHaveBeenCalledWith('vault-1', 'a.md', '# Merged');
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Service unavailable' }));
+    });
+  });
+
+  describe('moves', () => {
+    function handler(event: string): (absPath: string) => void {
+      return mockWatcher.on.mock.calls.find((args: unknown[]) => args[0] === event)![1];
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.mocked(loadSyncState).mockReturnValue({
+        syncId: 'sync-1',
+        local: { 'old.md': { path: 'old.md', hash: 'hash-# Note', mtime: '', size: 6 } },
+        remote: { 'old.md': { path: 'old.md', hash: 'hash-# Note', mtime: '', size: 6 } },
+        updatedAt: '',
+      } as never);
+      mockedFs.statSync.mockReturnValue({ size: 6 } as never);
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('# Note'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should push a rename as a move instead of delete and create', async () => {
+      const client = { documents: { move: vi.fn().mockResolvedValue({}), delete: vi.fn(), put: vi.fn() } } as any;
+      const onLog = vi.fn();
+      createWatcher(client, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100, onLog });
+
+      handler('unlink')('/home/user/vault/old.md');
+      handler('add')('/home/user/vault/notes/new.md');
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(client.documents.move).toHaveBeenCalledWith('vault-1', 'old.md', 'notes/new.md');
+      expect(client.documents.delete).not.toHaveBeenCalled();
+      expect(client.documents.put).not.toHaveBeenCalled();
+      expect(onLog).toHaveBeenCalledWith(expect.stringContaining('Moved: old.md -> notes/new.md'));
+      const saved = vi.mocked(saveSyncState).mock.calls[0][0];
+      expect(saved.local['notes/new.md'].path).toBe('notes/new.md');
+      expect(saved.local['old.md']).toBeUndefined();
+      expect(appendSyncHistory).toHaveBeenCalledWith('sync-12345678-abcd-efgh', expect.objectContaining({
+        trigger: 'watcher',
+        filesMoved: 1,
+        changes: [{ path: 'notes/new.md', op: 'move-remote', fromPath: 'old.md' }],
+      }));
+    });
+
+    it('should push the deletion once the move window passes', async () => {
+      const client = { documents: { move: vi.fn(), delete: vi.fn().mockResolvedValue(undefined) } } as any;
+      createWatcher(client, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100 });
+
+      handler('unlink')('/home/user/vault/old.md');
+      await vi.advanceTimersByTimeAsync(300);
+      expect(client.documents.delete).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(client.documents.delete).toHaveBeenCalledWith('vault-1', 'old.md');
+      expect(client.documents.move).not.toHaveBeenCalled();
+      expect(appendSyncHistory).toHaveBeenCalledWith('sync-12345678-abcd-efgh', expect.objectContaining({
+        changes: [{ path: 'old.md', op: 'delete-remote' }],
+      }));
+    });
+  });
+
+  describe('mass deletions', () => {
+    const file = (docPath: string) => ({ path: docPath, hash: `h-${docPath}`, mtime: '', size: 6 });
+    const paths = Array.from({ length: 6 }, (_, i) => `note-${i}.md`);
+
+    function handler(event: string): (absPath: string) => void {
+      return mockWatcher.on.mock.calls.find((args: unknown[]) => args[0] === event)![1];
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      const tracked = Object.fromEntries(paths.map(p => [p, file(p)]));
+      vi.mocked(loadSyncState).mockReturnValue({ syncId: 'sync-1', local: tracked, remote: tracked, updatedAt: '' });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should count deletions pushed one by one against the threshold', async () => {
+      const client = { documents: { delete: vi.fn().mockResolvedValue(undefined) } } as any;
+      const onLog = vi.fn();
+      createWatcher(client, makeConfig({ mode: 'push', massDeleteThreshold: '3' }), { ignorePatterns: [], debounceMs: 100, onLog });
+
+      for (const p of paths.slice(0, 4)) {
+        handler('unlink')(`/home/user/vault/${p}`);
+        await vi.advanceTimersByTimeAsync(1000);
+      }
+
+      expect(client.documents.delete).toHaveBeenCalledTimes(3);
+      expect(client.documents.delete).not.toHaveBeenCalledWith('vault-1', 'note-3.md');
+      expect(onLog).toHaveBeenCalledWith(expect.stringContaining(
+        'Refusing to delete 4 of 6 tracked file(s), over the mass-deletion threshold of 3 file(s); skipping deletion of note-3.md',
+      ));
+    });
+
+    it('should push deletions again once the window has passed', async () => {
+      const client = { documents: { delete: vi.fn().mockResolvedValue(undefined) } } as any;
+      createWatcher(client, makeConfig({ mode: 'push', massDeleteThreshold: '1' }), {
+        ignorePatterns: [], debounceMs: 100, massDeleteWindowMs: 5000,
+      });
+
+      handler('unlink')('/home/user/vault/note-0.md');
+      await vi.advanceTimersByTimeAsync(1000);
+      handler('unlink')('/home/user/vault/note-1.md');
+      await vi.advanceTimersByTimeAsync(5000);
+      handler('unlink')('/home/user/vault/note-2.md');
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(client.documents.delete.mock.calls.map((args: unknown[]) => args[1])).toEqual(['note-0.md', 'note-2.md']);
+    });
+
+    it('should skip the deletions of a batch that, with recent ones, exceed the threshold', async () => {
+      const client = { documents: { delete: vi.fn().mockResolvedValue(undefined) } } as any;
+      const onLog = vi.fn();
+      createWatcher(client, makeConfig({ mode: 'push', massDeleteThreshold: '3' }), {
+        ignorePatterns: [], debounceMs: 100, batchThreshold: 3, onLog,
+      });
+
+      vi.mocked(scanRemoteFiles).mockResolvedValueOnce(Object.fromEntries(paths.slice(1).map(p => [p, file(p)])));
+      handler('unlink')('/home/user/vault/note-0.md');
+      await vi.advanceTimersByTimeAsync(1000);
+      for (const p of paths.slice(1, 4)) handler('unlink')(`/home/user/vault/${p}`);
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(client.documents.delete).toHaveBeenCalledTimes(1);
+      expect(executePush).not.toHaveBeenCalled();
+      expect(onLog).toHaveBeenCalledWith(expect.stringContaining('Refusing to delete 4 of 6 tracked file(s)'));
+      expect(onLog).toHaveBeenCalledWith(expect.stringContaining("skipping the batch's deletions"));
+    });
+  });
+
+  describe('sync lock', () => {
+    function handler(event: string): (absPath: string) => void {
+      return mockWatcher.on.mock.calls.find((args: unknown[]) => args[0] === event)![1];
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.mocked(loadSyncState).mockReturnValue({ syncId: 'sync-1', local: {}, remote: {}, updatedAt: '' });
+      mockedFs.statSync.mockReturnValue({ size: 6 } as never);
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('# Note'));
+    });
+
+    const runTask = async (_syncId: string, _holder: string, task: () => Promise<void>) => {
+      await task();
+      return true;
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.mocked(withSyncLock).mockImplementation(runTask);
+    });
+
+    it('should pause while another process holds the lock and push once it is released', async () => {
+      const client = { documents: { put: vi.fn().mockResolvedValue({}) } } as any;
+      const onLog = vi.fn();
+      vi.mocked(withSyncLock).mockImplementation(async () => false);
+      createWatcher(client, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100, lockRetryMs: 1000, onLog });
+
+      handler('change')('/home/user/vault/a.md');
+      await vi.advanceTimersByTimeAsync(2500);
+      expect(client.documents.put).not.toHaveBeenCalled();
+      expect(onLog).toHaveBeenCalledWith(expect.stringContaining('Paused while sync pull (pid 4242) holds the sync lock'));
+
+      vi.mocked(withSyncLock).mockImplementation(runTask);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(client.documents.put).toHaveBeenCalledWith('vault-1', 'a.md', '# Note');
+      expect(onLog).toHaveBeenCalledWith(expect.stringContaining('Resumed'));
+      expect(withSyncLock).toHaveBeenCalledWith('sync-12345678-abcd-efgh', expect.any(String), expect.any(Function));
+    });
+
+    it('should not push a file another process already synced', async () => {
+      const client = { documents: { put: vi.fn() } } as any;
+      vi.mocked(loadSyncState).mockReturnValue({
+        syncId: 'sync-1',
+        local: { 'a.md': { path: 'a.md', hash: 'hash-# Note', mtime: '', size: 6 } },
+        remote: { 'a.md': { path: 'a.md', hash: 'hash-# Note', mtime: '', size: 6 } },
+        updatedAt: '',
+      });
+      createWatcher(client, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100 });
+
+      handler('change')('/home/user/vault/a.md');
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(client.documents.put).not.toHaveBeenCalled();
+      expect(appendSyncHistory).not.toHaveBeenCalled();
+    });
+
+    it('should record a failed push in the history', async () => {
+      const client = { documents: { put: vi.fn().mockRejectedValue(new Error('Network down')) } } as any;
+      const onError = vi.fn();
+      createWatcher(client, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100, onError });
+
+      handler('change')('/home/user/vault/a.md');
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Network down' }));
+      expect(appendSyncHistory).toHaveBeenCalledWith('sync-12345678-abcd-efgh', expect.objectContaining({
+        filesUploaded: 0,
+        errors: [{ path: 'a.md', error: 'Network down' }],
+      }));
+    });
+  });
+
+  describe('batches', () => {
+    const file = (docPath: string, hash: string) => ({ path: docPath, hash, mtime: '', size: 6 });
+    const pushed = { filesUploaded: 0, filesDownloaded: 0, filesDeleted: 0, filesMoved: 0, bytesTransferred: 0, errors: [], conflicts: [] };
+
+    function handler(event: string): (absPath: string) => void {
+      return mockWatcher.on.mock.calls.find((args: unknown[]) => args[0] === event)![1];
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.mocked(loadSyncState).mockReturnValue({ syncId: 'sync-1', local: {}, remote: {}, updatedAt: '' });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should push a burst of changes as one batch', async () => {
+      const paths = Array.from({ length: 12 }, (_, i) => `note-${i}.md`);
+      vi.mocked(scanLocalFiles).mockResolvedValueOnce(Object.fromEntries(paths.map(p => [p, file(p, `h-${p}`)])));
+      vi.mocked(executePush).mockResolvedValueOnce({ ...pushed, filesUploaded: 12 });
+      const client = { documents: { put: vi.fn() } } as any;
+      const onLog = vi.fn();
+      createWatcher(client, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100, onLog });
+
+      for (const p of paths) handler('add')(`/home/user/vault/${p}`);
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(scanLocalFiles).toHaveBeenCalledTimes(1);
+      expect(executePush).toHaveBeenCalledTimes(1);
+      const [, , diff, , options] = vi.mocked(executePush).mock.calls[0];
+      expect(diff.uploads.map(e => e.path)).toEqual(paths);
+      expect(options).toEqual(expect.objectContaining({ trigger: 'watcher' }));
+      expect(client.documents.put).not.toHaveBeenCalled();
+      expect(onLog).toHaveBeenCalledWith(expect.stringContaining('Batch pushed: 12 uploaded, 0 deleted, 0 moved'));
+    });
+
+    it('should push renames in a batch as moves', async () => {
+      vi.mocked(loadSyncState).mockReturnValue({
+        syncId: 'sync-1',
+        local: { 'old.md': file('old.md', 'h-old'), 'b.md': file('b.md', 'h-b') },
+        remote: { 'old.md': file('old.md', 'h-old'), 'b.md': file('b.md', 'h-b') },
+        updatedAt: '',
+      });
+      vi.mocked(scanLocalFiles).mockResolvedValueOnce({ 'new.md': file('new.md', 'h-old'), 'b.md': file('b.md', 'h-b2') });
+      vi.mocked(scanRemoteFiles).mockResolvedValueOnce({ 'old.md': file('old.md', 'h-old'), 'b.md': file('b.md', 'h-b') });
+      createWatcher({} as any, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100, batchThreshold: 2 });
+
+      handler('unlink')('/home/user/vault/old.md');
+      handler('add')('/home/user/vault/new.md');
+      handler('change')('/home/user/vault/b.md');
+      await vi.advanceTimersByTimeAsync(200);
+
+      const diff = vi.mocked(executePush).mock.calls[0][2];
+      expect(diff.moves).toEqual([expect.objectContaining({ path: 'new.md', fromPath: 'old.md' })]);
+      expect(diff.uploads.map(e => e.path)).toEqual(['b.md']);
+      expect(diff.deletes).toEqual([]);
+    });
+
+    it('should leave files outside the burst alone', async () => {
+      vi.mocked(scanLocalFiles).mockResolvedValueOnce({ 'a.md': file('a.md', 'h-a'), 'b.md': file('b.md', 'h-b'), 'other.md': file('other.md', 'h-o') });
+      createWatcher({} as any, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100, batchThreshold: 2 });
+
+      handler('add')('/home/user/vault/a.md');
+      handler('add')('/home/user/vault/b.md');
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(vi.mocked(executePush).mock.calls[0][2].uploads.map(e => e.path)).toEqual(['a.md', 'b.md']);
+    });
+
+    it('should push a burst early once it reaches the size limit', async () => {
+      createWatcher({} as any, makeConfig({ mode: 'push' }), {
+        ignorePatterns: [], debounceMs: 100, batchThreshold: 2, batchMaxSize: 3,
+      });
+
+      handler('add')('/home/user/vault/a.md');
+      handler('add')('/home/user/vault/b.md');
+      expect(scanLocalFiles).not.toHaveBeenCalled();
+      handler('add')('/home/user/vault/c.md');
+
+      expect(scanLocalFiles).toHaveBeenCalledTimes(1);
+    });
+
+    it('should push a burst once it is too old, even while events keep coming', async () => {
+      createWatcher({} as any, makeConfig({ mode: 'push' }), {
+        ignorePatterns: [], debounceMs: 100, batchThreshold: 2, batchMaxWaitMs: 250,
+      });
+
+      for (let i = 0; i < 4; i++) {
+        handler('change')(`/home/user/vault/note-${i}.md`);
+        await vi.advanceTimersByTimeAsync(90);
+      }
+
+      expect(scanLocalFiles).toHaveBeenCalledTimes(1);
+    });
+
+    it('should handle files also changed in the vault one by one in sync mode', async () => {
+      vi.mocked(loadSyncState).mockReturnValue({
+        syncId: 'sync-1',
+        local: { 'a.md': file('a.md', 'h-a'), 'b.md': file('b.md', 'h-b') },
+        remote: { 'a.md': file('a.md', 'h-a'), 'b.md': file('b.md', 'h-b') },
+        updatedAt: '',
+      });
+      vi.mocked(scanLocalFiles).mockResolvedValueOnce({ 'a.md': file('a.md', 'h-a2'), 'b.md': file('b.md', 'h-b2') });
+      vi.mocked(scanRemoteFiles).mockResolvedValueOnce({ 'a.md': file('a.md', 'h-a'), 'b.md': file('b.md', '') });
+      mockedFs.statSync.mockReturnValue({ size: 6 } as never);
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('# Note'));
+      const client = {
+        documents: {
+          get: vi.fn().mockResolvedValue({ content: '# Remote', document: { updatedAt: '' } }),
+          put: vi.fn().mockResolvedValue({}),
+        },
+      } as any;
+      createWatcher(client, makeConfig({ mode: 'sync' }), { ignorePatterns: [], debounceMs: 100, batchThreshold: 2 });
+
+      handler('change')('/home/user/vault/a.md');
+      handler('change')('/home/user/vault/b.md');
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(vi.mocked(executePush).mock.calls[0][2].uploads.map(e => e.path)).toEqual(['a.md']);
+      expect(client.documents.get).toHaveBeenCalledWith('vault-1', 'b.md');
+    });
+
+    it('should queue files the batch could not push while the server is unreachable', async () => {
+      vi.mocked(scanLocalFiles).mockResolvedValueOnce({ 'a.md': file('a.md', 'h-a'), 'b.md': file('b.md', 'h-b') });
+      vi.mocked(executePush).mockResolvedValueOnce({ ...pushed, filesUploaded: 1, errors: [{ path: 'b.md', error: 'fetch failed' }] });
+      createWatcher({} as any, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100, batchThreshold: 2 });
+
+      handler('add')('/home/user/vault/a.md');
+      handler('add')('/home/user/vault/b.md');
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(enqueueOutbox).toHaveBeenCalledWith('sync-12345678-abcd-efgh', 'b.md', 'put', 'fetch failed');
+      expect(removeOutboxEntry).toHaveBeenCalledWith('sync-12345678-abcd-efgh', 'a.md');
+    });
+
+    it('should queue the whole batch when the vault cannot be listed', async () => {
+      vi.mocked(loadSyncState).mockReturnValue({
+        syncId: 'sync-1', local: { 'old.md': file('old.md', 'h-old') }, remote: { 'old.md': file('old.md', 'h-old') }, updatedAt: '',
+      });
+      vi.mocked(scanRemoteFiles).mockRejectedValueOnce(new TypeError('fetch failed'));
+      const onError = vi.fn();
+      createWatcher({} as any, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100, batchThreshold: 3, onError });
+
+      handler('add')('/home/user/vault/a.md');
+      handler('change')('/home/user/vault/b.md');
+      handler('unlink')('/home/user/vault/old.md');
+      handler('unlink')('/home/user/vault/untracked.md');
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(executePush).not.toHaveBeenCalled();
+      expect(vi.mocked(enqueueOutbox).mock.calls).toEqual([
+        ['sync-12345678-abcd-efgh', 'a.md', 'put', 'fetch failed'],
+        ['sync-12345678-abcd-efgh', 'b.md', 'put', 'fetch failed'],
+        ['sync-12345678-abcd-efgh', 'old.md', 'delete', 'fetch failed'],
+      ]);
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('outbox', () => {
+    const queuedPut = { path: 'a.md', op: 'put' as const, queuedAt: '', attempts: 1, lastError: 'fetch failed' };
+
+    function handler(event: string): (absPath: string) => void {
+      return mockWatcher.on.mock.calls.find((args: unknown[]) => args[0] === event)![1];
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.mocked(loadSyncState).mockReturnValue({ syncId: 'sync-1', local: {}, remote: {}, updatedAt: '' });
+      mockedFs.statSync.mockReturnValue({ size: 6 } as never);
+      mockedFs.readFileSync.mockReturnValue(Buffer.from('# Note'));
+      mockedFs.existsSync.mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.mocked(loadOutbox).mockReturnValue([]);
+      mockedFs.existsSync.mockReset();
+    });
+
+    it('should queue a push that failed because the server was unreachable and replay it', async () => {
+      const put = vi.fn()
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValue({});
+      const onLog = vi.fn();
+      createWatcher({ documents: { put } } as any, makeConfig({ mode: 'push' }), {
+        ignorePatterns: [], debounceMs: 100, outboxRetryMs: 1000, onLog,
+      });
+
+      handler('change')('/home/user/vault/a.md');
+      await vi.advanceTimersByTimeAsync(200);
+      expect(enqueueOutbox).toHaveBeenCalledWith('sync-12345678-abcd-efgh', 'a.md', 'put', 'fetch failed');
+      expect(onLog).toHaveBeenCalledWith(expect.stringContaining('Queued upload of a.md in the outbox'));
+
+      vi.mocked(loadOutbox).mockReturnValue([queuedPut]);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(put).toHaveBeenCalledTimes(2);
+      expect(removeOutboxEntry).toHaveBeenCalledWith('sync-12345678-abcd-efgh', 'a.md');
+      expect(onLog).toHaveBeenCalledWith(expect.stringContaining('Outbox replayed: 1 change(s)'));
+    });
+
+    it('should queue a merged file whose upload failed instead of pushing the unmerged content', async () => {
+      const synced = (hash: string) => ({ path: 'a.md', hash, mtime: '', size: 6 });
+      vi.mocked(loadSyncState).mockReturnValue({
+        syncId: 'sync-1', local: { 'a.md': synced('hash-old') }, remote: { 'a.md': synced('hash-old') }, updatedAt: '',
+      });
+      vi.mocked(detectConflict).mockReturnValueOnce(true);
+      vi.mocked(mergeWithBase).mockReturnValueOnce({ content: '# Merged', conflicts: 0 } as never);
+      const get = vi.fn().mockResolvedValue({ content: '# Remote', document: { path: 'a.md', updatedAt: '' } });
+      const put = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+      createWatcher({ documents: { get, put } } as any, makeConfig({ mode: 'sync' }), { ignorePatterns: [], debounceMs: 100 });
+
+      handler('change')('/home/user/vault/a.md');
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(put).toHaveBeenCalledTimes(1);
+      expect(put).toHaveBeenCalledWith('vault-1', 'a.md', '# Merged');
+      expect(enqueueOutbox).toHaveBeenCalledWith('sync-12345678-abcd-efgh', 'a.md', 'put', 'fetch failed');
+    });
+
+    it('should back off while the server stays unreachable', async () => {
+      const put = vi.fn().mockRejectedValue(Object.assign(new Error('Service unavailable'), { status: 503 }));
+      vi.mocked(loadOutbox).mockReturnValue([queuedPut]);
+      createWatcher({ documents: { put } } as any, makeConfig({ mode: 'push' }), {
+        ignorePatterns: [], debounceMs: 100, outboxRetryMs: 1000,
+      });
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(put).toHaveBeenCalledTimes(1);
+      expect(recordOutboxFailure).toHaveBeenCalledWith('sync-12345678-abcd-efgh', 'a.md', 'Service unavailable');
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(put).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(put).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(put).toHaveBeenCalledTimes(3);
+      expect(removeOutboxEntry).not.toHaveBeenCalled();
+    });
+
+    it('should replay queued changes in order', async () => {
+      const client = { documents: { put: vi.fn().mockResolvedValue({}), delete: vi.fn().mockResolvedValue(undefined) } } as any;
+      vi.mocked(loadSyncState).mockReturnValue({
+        syncId: 'sync-1',
+        local: { 'b.md': { path: 'b.md', hash: 'h', mtime: '', size: 1 } },
+        remote: { 'b.md': { path: 'b.md', hash: 'h', mtime: '', size: 1 } },
+        updatedAt: '',
+      });
+      vi.mocked(loadOutbox).mockReturnValue([
+        { path: 'b.md', op: 'delete', queuedAt: '', attempts: 1, lastError: 'fetch failed' },
+        queuedPut,
+      ]);
+      createWatcher(client, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100 });
+
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(client.documents.delete).toHaveBeenCalledWith('vault-1', 'b.md');
+      expect(client.documents.put).toHaveBeenCalledWith('vault-1', 'a.md', '# Note');
+      expect(client.documents.delete.mock.invocationCallOrder[0])
+        .toBeLessThan(client.documents.put.mock.invocationCallOrder[0]);
+    });
+
+    it('should not queue a change the server refused', async () => {
+      const put = vi.fn().mockRejectedValue(Object.assign(new Error('Invalid path'), { status: 400 }));
+      const onError = vi.fn();
+      createWatcher({ documents: { put } } as any, makeConfig({ mode: 'push' }), { ignorePatterns: [], debounceMs: 100, onError });
+
+      handler('change')('/home/user/vault/a.md');
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Invalid path' }));
+      expect(enqueueOutbox).not.toHaveBeenCalled();
+    });
+
+    it('should count queued changes as pending', () => {
+      vi.mocked(loadOutbox).mockReturnValue([queuedPut]);
+      const { pending } = createWatcher({} as any, makeConfig(), { ignorePatterns: [] });
+
+      expect(pending()).toBe(1);
+    });
+  });
 });
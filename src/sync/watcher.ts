@@ -1,21 +1,55 @@
 /**
  * Local file watcher for continuous sync.
  * Uses chokidar to detect file changes and triggers sync operations.
+ * Changes that fail because the server cannot be reached go to the sync's
+ * outbox (see outbox.ts), which is replayed with backoff until they are pushed.
+ * Events are collected until the folder settles; a burst of many changes
+ * (a checkout, an unzip, "save all") is pushed as one diff-based batch.
  */
 import path from 'node:path';
 import { randomBytes } from 'node:crypto';
 import { watch, type FSWatcher } from 'chokidar';
 import type { LifestreamVaultClient } from '@lifestreamdynamics/vault-sdk';
-import type { SyncConfig } from './types.js';
+import type { SyncConfig, SyncState } from './types.js';
 import { shouldIgnore } from './ignore.js';
 import { hashFileContent, loadSyncState, saveSyncState, buildRemoteFileState } from './state.js';
 import { updateLastSync } from './config.js';
-import { resolveConflict, detectConflict, createConflictFile, formatConflictLog } from './conflict.js';
+import {
+  resolveConflict,
+  detectConflict,
+  createConflictFile,
+  formatConflictLog,
+  mergeWithBase,
+  askConflict,
+  planConflictDecision,
+  type ConflictPrompt,
+  type ConflictResolution,
+} from './conflict.js';
+import { saveBaseContent, loadBaseContent } from './base-store.js';
+import {
+  DEFAULT_INCLUDE_EXTENSIONS,
+  isIncludedPath,
+  isBinaryPath,
+  encodeContent,
+  decodeContent,
+  resolveMaxFileSize,
+} from './attachments.js';
+import { loadRemoteManifest, saveRemoteManifest, recordRemoteDocument, type RemoteDocumentMeta } from './remote-manifest.js';
+import { moveSyncedPath, scanLocalFiles, scanRemoteFiles, computePushDiff, executePush } from './engine.js';
+import { withSyncLock, readSyncLock, formatLockHolder } from './lock.js';
+import { startSyncRun, appendSyncHistory, recordChange, type SyncHistoryRecord } from './history.js';
+import { fromLocalPath, localFilePath } from './paths.js';
+import { loadOutbox, enqueueOutbox, recordOutboxFailure, removeOutboxEntry, isTransientError } from './outbox.js';
+import { normalizeText } from './normalize.js';
+import { checkMassDelete } from './mass-delete.js';
+import { formatBytes } from '../utils/format.js';
 import fs from 'node:fs';
 
 export interface WatcherOptions {
   /** Patterns to ignore */
   ignorePatterns: string[];
+  /** File extensions to sync (default: .md only) */
+  includeExtensions?: string[];
   /** Callback for log messages */
   onLog?: (message: string) => void;
   /** Callback for conflict log messages */
@@ -24,8 +58,32 @@ export interface WatcherOptions {
   onError?: (error: Error) => void;
   /** Debounce delay in ms (default: 500) */
   debounceMs?: number;
+  /**
+   * How long a deletion waits for a matching new file before it is pushed,
+   * so renames and moves are applied as moves (default: 4x debounceMs)
+   */
+  moveWindowMs?: number;
+  /** Interactive resolver for the 'ask' strategy; without one, conflicts are queued */
+  prompt?: ConflictPrompt;
+  /** Name recorded in the sync lock while handling a change (default: 'daemon') */
+  lockHolder?: string;
+  /** How often a change waiting for another process's sync lock is retried, in ms (default: 2000) */
+  lockRetryMs?: number;
+  /** First delay before the outbox is replayed after a failure, in ms; doubled per failed replay (default: 5000) */
+  outboxRetryMs?: number;
+  /** Bursts touching at least this many files are pushed as one batch (default: 10) */
+  batchThreshold?: number;
+  /** A burst is pushed once it touches this many files, even if events keep coming (default: 500) */
+  batchMaxSize?: number;
+  /** A burst is pushed at the latest this long after its first event, in ms (default: 10000) */
+  batchMaxWaitMs?: number;
+  /** Deletions pushed within this long count together against the mass-deletion threshold, in ms (default: 60000) */
+  massDeleteWindowMs?: number;
 }
 
+/** Longest delay between outbox replays */
+const MAX_OUTBOX_RETRY_MS = 5 * 60_000;
+
 /** TTL set to prevent sync loops — files written by sync are ignored for 5s */
 class RecentlyWrittenSet {
   private map = new Map<string, number>();
@@ -56,28 +114,93 @@ class RecentlyWrittenSet {
 
 /**
  * Creates and starts a file watcher for a sync configuration.
- * Returns a cleanup function to stop watching.
+ * Returns a cleanup function to stop watching, and one counting the changes
+ * waiting to be pushed.
  */
 export function createWatcher(
   client: LifestreamVaultClient,
   config: SyncConfig,
   options: WatcherOptions,
-): { watcher: FSWatcher; stop: () => Promise<void> } {
-  const { ignorePatterns, onLog, onConflictLog, onError, debounceMs = 500 } = options;
+): { watcher: FSWatcher; stop: () => Promise<void>; pending: () => number } {
+  const {
+    ignorePatterns,
+    includeExtensions = DEFAULT_INCLUDE_EXTENSIONS,
+    onLog,
+    onConflictLog,
+    onError,
+    debounceMs = 500,
+    prompt,
+    lockHolder = 'daemon',
+    lockRetryMs = 2000,
+    outboxRetryMs = 5000,
+    batchThreshold = 10,
+    batchMaxSize = 500,
+    batchMaxWaitMs = 10_000,
+    massDeleteWindowMs = 60_000,
+  } = options;
+  // Long enough for the new file's add event to clear its own debounce
+  const moveWindowMs = options.moveWindowMs ?? debounceMs * 4;
+  const maxFileSize = resolveMaxFileSize(config);
   const recentlyWritten = new RecentlyWrittenSet();
   const pendingChanges = new Map<string, NodeJS.Timeout>();
+  /** Deleted doc paths awaiting a possible move, with their last-synced hash */
+  const pendingDeletes = new Map<string, { hash: string; timeout: NodeJS.Timeout }>();
+  /** Files touched since the current burst of events began, with the last event for each */
+  const burst = new Map<string, 'change' | 'unlink'>();
+  let burstTimer: NodeJS.Timeout | null = null;
+  let burstStartedAt = 0;
+  let batches = 0;
+  /** When each remote deletion pushed within the mass-deletion window went through */
+  const recentDeletes: number[] = [];
 
   const log = (msg: string) => onLog?.(`[sync:${config.id.slice(0, 8)}] ${msg}`);
+  let paused = false;
+  let outboxTimer: NodeJS.Timeout | null = null;
+  let outboxDelay = outboxRetryMs;
 
   function toDocPath(absPath: string): string {
     const rel = path.relative(config.localPath, absPath);
-    return rel.split(path.sep).join('/');
+    const docPath = fromLocalPath(rel.split(path.sep).join('/'));
+    if (/^[\x00-\x7f]*$/.test(docPath)) return docPath;
+    // Keep the form of a document the vault stores under another Unicode normalization
+    const state = loadSyncState(config.id);
+    const known = [...Object.keys(state.local), ...Object.keys(state.remote)];
+    return known.find(p => p.normalize('NFC') === docPath) ?? docPath;
+  }
+
+  /** Write vault content to a local file atomically, decoding binary documents. */
+  function writeLocal(absPath: string, docPath: string, content: string): void {
+    recentlyWritten.add(docPath);
+    const tmpFile = absPath + '.tmp.' + randomBytes(4).toString('hex');
+    fs.writeFileSync(tmpFile, decodeContent(docPath, content, config.normalize));
+    fs.renameSync(tmpFile, absPath);
+  }
+
+  /** Keep a synced revision as a merge base; binary files are never merged. */
+  function saveBase(docPath: string, content: string): void {
+    if (!isBinaryPath(docPath)) {
+      saveBaseContent(config.id, content, config.normalize);
+    }
+  }
+
+  /** Record an uploaded version in the remote manifest, or forget a deleted document. */
+  function updateManifest(docPath: string, content: string | null, uploaded?: RemoteDocumentMeta): void {
+    const manifest = loadRemoteManifest(config.id);
+    if (content === null) {
+      delete manifest[docPath];
+    } else {
+      recordRemoteDocument(manifest, docPath, hashFileContent(content, config.normalize), uploaded);
+    }
+    saveRemoteManifest(config.id, manifest);
   }
 
   /**
    * Handles a detected conflict between local and remote versions of a file.
-   * Creates a backup of the losing side and applies the winning resolution.
+   * Tries a three-way merge against the stored base revision first; otherwise
+   * asks the user (or queues the conflict) under the 'ask' strategy, or
+   * creates a backup of the losing side and applies the winning resolution.
    * Returns the resolution chosen, or 'skip' if no actual conflict was detected.
+   * The conflict and any upload are recorded on `run`.
    */
   async function handleConflict(params: {
     absPath: string;
@@ -90,8 +213,9 @@ export function createWatcher(
     remoteHash: string;
     remoteUpdatedAt: string;
     state: import('./types.js').SyncState;
-  }): Promise<'local' | 'remote' | 'skip'> {
-    const { absPath, docPath, localContent, localHash, lastLocal, lastRemote, remoteContent, remoteHash, remoteUpdatedAt, state } = params;
+    run: SyncHistoryRecord;
+  }): Promise<ConflictResolution | 'skip'> {
+    const { absPath, docPath, localContent, localHash, lastLocal, lastRemote, remoteContent, remoteHash, remoteUpdatedAt, state, run } = params;
 
     const localState = { path: docPath, hash: localHash, mtime: new Date().toISOString(), size: Buffer.byteLength(localContent) };
     const remoteState = { path: docPath, hash: remoteHash, mtime: remoteUpdatedAt, size: Buffer.byteLength(remoteContent) };
@@ -100,103 +224,509 @@ export function createWatcher(
       return 'skip';
     }
 
+    const binary = isBinaryPath(docPath);
+    const baseHash = binary ? undefined : lastRemote?.hash ?? lastLocal?.hash;
+    const merged = mergeWithBase(config, baseHash, localContent, remoteContent);
+    if (merged) {
+      writeLocal(absPath, docPath, merged.content);
+      const mergedState = { path: docPath, hash: hashFileContent(merged.content, config.normalize), mtime: new Date().toISOString(), size: Buffer.byteLength(merged.content) };
+
+      if (merged.conflicts === 0) {
+        updateManifest(docPath, merged.content, await client.documents.put(config.vaultId, docPath, merged.content));
+        recordChange(run, { path: docPath, op: 'upload' }, Buffer.byteLength(merged.content));
+        state.remote[docPath] = buildRemoteFileState(docPath, merged.content, new Date().toISOString(), config.normalize);
+        saveBaseContent(config.id, merged.content, config.normalize);
+        log(`Conflict: ${docPath} — merged local and remote edits`);
+      } else {
+        // Overlapping edits stay local as conflict markers until the user resolves them
+        state.remote[docPath] = buildRemoteFileState(docPath, remoteContent, remoteUpdatedAt, config.normalize);
+        saveBaseContent(config.id, remoteContent, config.normalize);
+        log(`Conflict: ${docPath} — ${merged.conflicts} overlapping edit(s) marked in file`);
+      }
+
+      onConflictLog?.(formatConflictLog(docPath, 'merged', null));
+      run.conflicts.push({ path: docPath, resolution: 'merged', conflictFile: null, markers: merged.conflicts });
+      state.local[docPath] = mergedState;
+      saveSyncState(state);
+      return 'merged';
+    }
+
+    if (config.onConflict === 'ask') {
+      const decision = await askConflict(config.id, {
+        docPath,
+        localContent,
+        remoteContent,
+        baseContent: baseHash ? loadBaseContent(config.id, baseHash) : null,
+        binary,
+      }, 'watch', prompt);
+      const plan = planConflictDecision(decision, localContent, remoteContent);
+      if (plan.synced === null) {
+        // Leave both sides untouched; a queued conflict waits for `sync resolve`
+        log(`Conflict: ${docPath} — ${decision.resolution === 'queued' ? 'queued for resolution' : 'skipped'}`);
+        onConflictLog?.(formatConflictLog(docPath, decision.resolution, null));
+        run.conflicts.push({ path: docPath, resolution: decision.resolution, conflictFile: null });
+        return decision.resolution;
+      }
+
+      const conflictFile = plan.backup
+        ? createConflictFile(config.localPath, docPath, plan.backup.content, plan.backup.source)
+        : null;
+      if (plan.writeLocal !== null) {
+        writeLocal(absPath, docPath, plan.writeLocal);
+      }
+      if (plan.upload !== null) {
+        updateManifest(docPath, plan.upload, await client.documents.put(config.vaultId, docPath, plan.upload));
+        recordChange(run, { path: docPath, op: 'upload' }, Buffer.byteLength(plan.upload));
+      }
+      log(`Conflict: ${docPath} — resolved (${decision.resolution})`);
+      onConflictLog?.(formatConflictLog(docPath, decision.resolution, conflictFile));
+      run.conflicts.push({ path: docPath, resolution: decision.resolution, conflictFile });
+
+      state.local[docPath] = { path: docPath, hash: hashFileContent(plan.synced, config.normalize), mtime: new Date().toISOString(), size: Buffer.byteLength(plan.synced) };
+      state.remote[docPath] = plan.upload !== null
+        ? buildRemoteFileState(docPath, plan.synced, new Date().toISOString(), config.normalize)
+        : buildRemoteFileState(docPath, remoteContent, remoteUpdatedAt, config.normalize);
+      saveBase(docPath, plan.synced);
+      saveSyncState(state);
+      return decision.resolution;
+    }
+
     const resolution = resolveConflict(config.onConflict, localState, remoteState);
     let conflictFile: string | null = null;
 
     if (resolution === 'local') {
       conflictFile = createConflictFile(config.localPath, docPath, remoteContent, 'remote');
-      await client.documents.put(config.vaultId, docPath, localContent);
+      updateManifest(docPath, localContent, await client.documents.put(config.vaultId, docPath, localContent));
+      recordChange(run, { path: docPath, op: 'upload' }, Buffer.byteLength(localContent));
       log(`Conflict: ${docPath} — used local, saved remote as ${conflictFile}`);
     } else {
       conflictFile = createConflictFile(config.localPath, docPath, localContent, 'local');
-      recentlyWritten.add(docPath);
-      const tmpFile = absPath + '.tmp.' + randomBytes(4).toString('hex');
-      fs.writeFileSync(tmpFile, remoteContent, 'utf-8');
-      fs.renameSync(tmpFile, absPath);
+      writeLocal(absPath, docPath, remoteContent);
       log(`Conflict: ${docPath} — used remote, saved local as ${conflictFile}`);
     }
 
     onConflictLog?.(formatConflictLog(docPath, resolution, conflictFile));
+    run.conflicts.push({ path: docPath, resolution, conflictFile });
 
     state.local[docPath] = resolution === 'local' ? localState : remoteState;
     state.remote[docPath] = resolution === 'local'
-      ? buildRemoteFileState(docPath, localContent, new Date().toISOString())
-      : buildRemoteFileState(docPath, remoteContent, remoteUpdatedAt);
+      ? buildRemoteFileState(docPath, localContent, new Date().toISOString(), config.normalize)
+      : buildRemoteFileState(docPath, remoteContent, remoteUpdatedAt, config.normalize);
+    saveBase(docPath, resolution === 'local' ? localContent : remoteContent);
     saveSyncState(state);
 
     return resolution;
   }
 
-  async function handleFileChange(absPath: string): Promise<void> {
+  /**
+   * Run a handler while holding the sync lock, after the handlers (and the
+   * remote poller) already waiting for it. While another process (e.g. a
+   * manual `sync pull`) holds it, the handler is retried every lockRetryMs
+   * under `key`, so a newer event for the same file replaces the retry.
+   */
+  function runLocked(key: string, handler: () => Promise<void>): void {
+    withSyncLock(config.id, lockHolder, async () => {
+      if (paused) {
+        log('Resumed: sync lock released');
+        paused = false;
+      }
+      await handler();
+    })
+      .then((acquired) => {
+        if (acquired) return;
+        if (!paused) {
+          const holder = readSyncLock(config.id);
+          log(`Paused while ${holder ? formatLockHolder(holder) : 'another process'} holds the sync lock`);
+          paused = true;
+        }
+        clearTimeout(pendingChanges.get(key));
+        pendingChanges.set(key, setTimeout(() => {
+          pendingChanges.delete(key);
+          runLocked(key, handler);
+        }, lockRetryMs));
+      })
+      .catch(err => onError?.(err instanceof Error ? err : new Error(String(err))));
+  }
+
+  /**
+   * Push a changed file. A change that fails because the server cannot be
+   * reached is queued in the outbox; when replaying the outbox, such a
+   * failure is thrown instead so the replay stops and retries later.
+   */
+  async function handleFileChange(absPath: string, fromOutbox = false): Promise<void> {
     const docPath = toDocPath(absPath);
 
     if (shouldIgnore(docPath, ignorePatterns)) return;
-    if (!docPath.endsWith('.md')) return;
+    if (!isIncludedPath(docPath, includeExtensions)) return;
     if (recentlyWritten.has(docPath)) {
       log(`Skipping ${docPath} (recently written by sync)`);
       return;
     }
 
+    const run = startSyncRun('watcher', 'watch');
+    let movedFrom: string | null = null;
     try {
-      const content = fs.readFileSync(absPath, 'utf-8');
-      const localHash = hashFileContent(content);
+      const size = fs.statSync(absPath).size;
+      if (size > maxFileSize) {
+        log(`Skipping ${docPath} (${formatBytes(size)}, over the ${formatBytes(maxFileSize)} size limit)`);
+        return;
+      }
+      const content = encodeContent(docPath, fs.readFileSync(absPath), config.normalize);
+      const localHash = hashFileContent(content, config.normalize);
       const state = loadSyncState(config.id);
       const lastLocal = state.local[docPath];
       const lastRemote = state.remote[docPath];
+      // Already synced, e.g. written by a pull that held the sync lock
+      if (lastLocal?.hash === localHash) return;
+
+      if (!lastLocal && (config.mode === 'push' || config.mode === 'sync')) {
+        const fromPath = takePendingDelete(localHash);
+        if (fromPath) {
+          movedFrom = fromPath;
+          await client.documents.move(config.vaultId, fromPath, docPath);
+          log(`Moved: ${fromPath} -> ${docPath}`);
+          recordChange(run, { path: docPath, op: 'move-remote', fromPath });
+          appendSyncHistory(config.id, run);
+
+          const manifest = loadRemoteManifest(config.id);
+          moveSyncedPath(state, manifest, fromPath, docPath);
+          saveSyncState(state);
+          saveRemoteManifest(config.id, manifest);
+          updateLastSync(config.id);
+          removeOutboxEntry(config.id, fromPath);
+          return;
+        }
+      }
 
       // Check remote for conflicts in bidirectional mode
       if (config.mode === 'sync' && lastRemote) {
+        let remote: Awaited<ReturnType<typeof client.documents.get>> | null = null;
         try {
-          const remote = await client.documents.get(config.vaultId, docPath);
-          const remoteHash = hashFileContent(remote.content);
+          remote = await client.documents.get(config.vaultId, docPath);
+        } catch {
+          // Remote check failed — proceed with push
+        }
+        if (remote) {
+          const remoteContent = normalizeText(remote.content, config.normalize);
+          const remoteHash = hashFileContent(remoteContent, config.normalize);
           if (remoteHash !== lastRemote.hash) {
+            // Failures here must not fall through to pushing the unmerged content
             const result = await handleConflict({
               absPath, docPath, localContent: content, localHash,
               lastLocal, lastRemote,
-              remoteContent: remote.content, remoteHash,
-              remoteUpdatedAt: remote.document.updatedAt, state,
+              remoteContent, remoteHash,
+              remoteUpdatedAt: remote.document.updatedAt, state, run,
             });
-            if (result !== 'skip') return;
+            if (result !== 'skip') {
+              appendSyncHistory(config.id, run);
+              return;
+            }
           }
-        } catch {
-          // Remote check failed — proceed with push
         }
       }
 
       // No conflict — push the change
       if (config.mode === 'push' || config.mode === 'sync') {
-        await client.documents.put(config.vaultId, docPath, content);
+        updateManifest(docPath, content, await client.documents.put(config.vaultId, docPath, content));
         log(`Pushed: ${docPath}`);
+        recordChange(run, { path: docPath, op: 'upload' }, Buffer.byteLength(content));
 
         state.local[docPath] = { path: docPath, hash: localHash, mtime: new Date().toISOString(), size: Buffer.byteLength(content) };
-        state.remote[docPath] = buildRemoteFileState(docPath, content, new Date().toISOString());
+        state.remote[docPath] = buildRemoteFileState(docPath, content, new Date().toISOString(), config.normalize);
+        saveBase(docPath, content);
         saveSyncState(state);
         updateLastSync(config.id);
+        appendSyncHistory(config.id, run);
+        removeOutboxEntry(config.id, docPath);
       }
     } catch (err) {
-      onError?.(err instanceof Error ? err : new Error(String(err)));
+      const error = err instanceof Error ? err : new Error(String(err));
+      const transient = isTransientError(error);
+      if (fromOutbox && transient) throw error;
+      run.errors.push({ path: docPath, error: error.message });
+      appendSyncHistory(config.id, run);
+      if (transient) {
+        // A failed move leaves the old document in place; queue both halves
+        if (movedFrom) queueChange(movedFrom, 'delete', error);
+        queueChange(docPath, 'put', error);
+      }
+      onError?.(error);
+    }
+  }
+
+  /** Queue a change that could not be pushed, and schedule a replay. */
+  function queueChange(docPath: string, op: 'put' | 'delete', error: Error): void {
+    const queued = enqueueOutbox(config.id, docPath, op, error.message);
+    log(`Queued ${op === 'put' ? 'upload' : 'deletion'} of ${docPath} in the outbox (${queued} pending)`);
+    scheduleOutbox();
+  }
+
+  function scheduleOutbox(ms: number = outboxDelay): void {
+    if (outboxTimer) return;
+    outboxTimer = setTimeout(() => {
+      outboxTimer = null;
+      runLocked('outbox', replayOutbox);
+    }, ms);
+  }
+
+  /**
+   * Push the queued changes in order. Entries that go through, or fail for
+   * good (reported through onError), are removed; the first one the server
+   * still cannot be reached for stops the replay, which is tried again after
+   * a delay that doubles each time, up to five minutes.
+   */
+  async function replayOutbox(): Promise<void> {
+    const entries = loadOutbox(config.id);
+    let replayed = 0;
+    for (const entry of entries) {
+      try {
+        if (entry.op === 'put') {
+          const absPath = localFilePath(config.localPath, entry.path);
+          // Deleted since; the deletion is handled (or queued) on its own
+          if (fs.existsSync(absPath)) await handleFileChange(absPath, true);
+        } else {
+          await handleFileDelete(entry.path, true);
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        recordOutboxFailure(config.id, entry.path, message);
+        log(`Outbox replay stopped at ${entry.path} (${message}); retrying in ${outboxDelay / 1000}s`);
+        scheduleOutbox(outboxDelay);
+        outboxDelay = Math.min(outboxDelay * 2, MAX_OUTBOX_RETRY_MS);
+        return;
+      }
+      removeOutboxEntry(config.id, entry.path);
+      replayed++;
     }
+    outboxDelay = outboxRetryMs;
+    if (replayed > 0) log(`Outbox replayed: ${replayed} change(s)`);
   }
 
-  async function handleFileDelete(absPath: string): Promise<void> {
+  /**
+   * Claim a pending deletion whose last-synced content matches a new file,
+   * cancelling the deletion. Returns the deleted path, or null if none matches.
+   */
+  function takePendingDelete(hash: string): string | null {
+    for (const [docPath, pending] of pendingDeletes) {
+      if (pending.hash === hash) {
+        clearTimeout(pending.timeout);
+        pendingDeletes.delete(docPath);
+        return docPath;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Hold back a deletion for the move window, so a new file with the same
+   * content (a rename, or a file in a renamed directory) can claim it.
+   */
+  function scheduleDelete(absPath: string): void {
     const docPath = toDocPath(absPath);
     if (shouldIgnore(docPath, ignorePatterns)) return;
-    if (!docPath.endsWith('.md')) return;
+    if (!isIncludedPath(docPath, includeExtensions)) return;
     if (recentlyWritten.has(docPath)) return;
 
+    clearTimeout(pendingDeletes.get(docPath)?.timeout);
+    const hash = loadSyncState(config.id).local[docPath]?.hash ?? '';
+    pendingDeletes.set(docPath, {
+      hash,
+      timeout: setTimeout(() => {
+        pendingDeletes.delete(docPath);
+        runLocked(`delete:${docPath}`, () => handleFileDelete(docPath));
+      }, moveWindowMs),
+    });
+  }
+
+  /**
+   * Check deleting more files against the mass-deletion threshold, together
+   * with the deletions pushed within the last massDeleteWindowMs, so a folder
+   * emptied a few files at a time is caught like one emptied at once.
+   * Returns a description of the problem, or null if the deletions may proceed.
+   */
+  function checkRecentDeletes(deletes: number, state: SyncState): string | null {
+    const since = Date.now() - massDeleteWindowMs;
+    while (recentDeletes.length > 0 && recentDeletes[0] < since) recentDeletes.shift();
+    // Files deleted within the window still count as tracked
+    const tracked = new Set([...Object.keys(state.local), ...Object.keys(state.remote)]).size + recentDeletes.length;
+    return checkMassDelete(recentDeletes.length + deletes, tracked, config.massDeleteThreshold);
+  }
+
+  async function handleFileDelete(docPath: string, fromOutbox = false): Promise<void> {
+    const run = startSyncRun('watcher', 'watch');
     try {
       if (config.mode === 'push' || config.mode === 'sync') {
+        const state = loadSyncState(config.id);
+        // Already untracked, e.g. deleted by a pull that held the sync lock
+        if (!state.local[docPath] && !state.remote[docPath]) return;
+
+        // Queued deletions were checked when they were first pushed
+        const massDelete = fromOutbox ? null : checkRecentDeletes(1, state);
+        if (massDelete) {
+          log(`${massDelete}; skipping deletion of ${docPath} (run \`lsvault sync push --allow-mass-delete\` to apply it)`);
+          return;
+        }
+
         await client.documents.delete(config.vaultId, docPath);
+        recentDeletes.push(Date.now());
         log(`Deleted remote: ${docPath}`);
 
-        const state = loadSyncState(config.id);
         delete state.local[docPath];
         delete state.remote[docPath];
         saveSyncState(state);
+        updateManifest(docPath, null);
         updateLastSync(config.id);
+        recordChange(run, { path: docPath, op: 'delete-remote' });
+        appendSyncHistory(config.id, run);
+        removeOutboxEntry(config.id, docPath);
       }
     } catch (err) {
-      onError?.(err instanceof Error ? err : new Error(String(err)));
+      const error = err instanceof Error ? err : new Error(String(err));
+      const transient = isTransientError(error);
+      if (fromOutbox && transient) throw error;
+      run.errors.push({ path: docPath, error: error.message });
+      appendSyncHistory(config.id, run);
+      if (transient) queueChange(docPath, 'delete', error);
+      onError?.(error);
+    }
+  }
+
+  /**
+   * Add an event to the current burst. The burst is handled once no event
+   * has arrived for debounceMs, or earlier once it is batchMaxWaitMs old or
+   * touches batchMaxSize files.
+   */
+  function addToBurst(absPath: string, event: 'change' | 'unlink'): void {
+    if (burst.size === 0) burstStartedAt = Date.now();
+    burst.delete(absPath);
+    burst.set(absPath, event);
+    if (burstTimer) clearTimeout(burstTimer);
+    if (burst.size >= batchMaxSize || Date.now() - burstStartedAt >= batchMaxWaitMs) {
+      flushBurst();
+      return;
+    }
+    burstTimer = setTimeout(flushBurst, debounceMs);
+  }
+
+  /**
+   * Handle a settled burst: a few files one by one, or many as one batch.
+   * Deletions go first, so a renamed file's new path can claim them as a move.
+   */
+  function flushBurst(): void {
+    if (burstTimer) clearTimeout(burstTimer);
+    burstTimer = null;
+    const events = [...burst].filter(([absPath]) => !recentlyWritten.has(toDocPath(absPath)));
+    burst.clear();
+    if (events.length === 0) return;
+
+    if (events.length >= batchThreshold && (config.mode === 'push' || config.mode === 'sync')) {
+      const changes = new Map(events.map(([absPath, event]) =>
+        [toDocPath(absPath), event === 'unlink' ? 'delete' : 'put'] as const));
+      // Each batch waits for the sync lock under its own key, so none replaces another
+      runLocked(`batch:${++batches}`, () => pushBatch(changes));
+      return;
+    }
+    for (const [absPath, event] of events) {
+      if (event === 'unlink') scheduleDelete(absPath);
+    }
+    for (const [absPath, event] of events) {
+      if (event === 'change') runLocked(absPath, () => handleFileChange(absPath));
+    }
+  }
+
+  /**
+   * Push a burst of changes as one diff-based run of the engine, which pairs
+   * deletions with new files of the same content into moves and records the
+   * run as a single history entry. In sync mode, files also changed in the
+   * vault since the last sync are left out and handled one by one, so the
+   * conflict strategy applies to them. If the vault cannot be reached, every
+   * change of the batch is queued in the outbox.
+   */
+  async function pushBatch(changes: Map<string, 'put' | 'delete'>): Promise<void> {
+    const batch = new Set(changes.keys());
+    log(`Pushing a batch of ${batch.size} changed file(s)...`);
+    const state = loadSyncState(config.id);
+    let localFiles: Awaited<ReturnType<typeof scanLocalFiles>>;
+    let remoteFiles: Awaited<ReturnType<typeof scanRemoteFiles>>;
+    try {
+      localFiles = await scanLocalFiles(config.localPath, ignorePatterns, includeExtensions, {
+        cache: state.local,
+        normalize: config.normalize,
+      });
+      remoteFiles = await scanRemoteFiles(client, config.vaultId, ignorePatterns, includeExtensions, loadRemoteManifest(config.id));
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      if (!isTransientError(error)) throw error;
+      queueBatch(changes, state, error);
+      return;
+    }
+    const diff = computePushDiff(localFiles, remoteFiles, state);
+
+    const remoteChanged = (docPath: string): boolean =>
+      config.mode === 'sync' && state.remote[docPath] !== undefined &&
+      remoteFiles[docPath] !== undefined && remoteFiles[docPath].hash !== state.remote[docPath].hash;
+    const oneByOne = new Set(diff.uploads.filter(e => batch.has(e.path) && remoteChanged(e.path)).map(e => e.path));
+    diff.uploads = diff.uploads.filter(e => batch.has(e.path) && !oneByOne.has(e.path));
+    diff.deletes = diff.deletes.filter(e => batch.has(e.path));
+    diff.moves = (diff.moves ?? []).filter(e => batch.has(e.path) || batch.has(e.fromPath!));
+    diff.totalBytes = diff.uploads.reduce((sum, e) => sum + e.sizeBytes, 0);
+
+    const massDelete = diff.deletes.length > 0 ? checkRecentDeletes(diff.deletes.length, state) : null;
+    if (massDelete) {
+      log(`${massDelete}; skipping the batch's deletions (run \`lsvault sync push --allow-mass-delete\` to apply them)`);
+      diff.deletes = [];
+    }
+
+    const ops = diff.uploads.length + diff.deletes.length + diff.moves.length;
+    if (ops > 0) {
+      const result = await executePush(client, config, diff, undefined, { trigger: 'watcher', prompt });
+      log(`Batch pushed: ${result.filesUploaded} uploaded, ${result.filesDeleted} deleted, ${result.filesMoved} moved`);
+      for (let i = 0; i < result.filesDeleted; i++) recentDeletes.push(Date.now());
+
+      const deleted = new Set(diff.deletes.map(e => e.path));
+      const movedFrom = new Map(diff.moves.map(e => [e.path, e.fromPath!]));
+      const failed: string[] = [];
+      for (const { path: docPath, error } of result.errors) {
+        log(`  Push error: ${docPath}: ${error}`);
+        if (isTransientError(error)) {
+          const fromPath = movedFrom.get(docPath);
+          if (fromPath) queueChange(fromPath, 'delete', new Error(error));
+          queueChange(docPath, deleted.has(docPath) ? 'delete' : 'put', new Error(error));
+        } else {
+          failed.push(`${docPath}: ${error}`);
+        }
+      }
+      for (const entry of [...diff.uploads, ...diff.deletes, ...diff.moves]) {
+        if (!result.errors.some(e => e.path === entry.path)) {
+          removeOutboxEntry(config.id, entry.path);
+          if (entry.fromPath) removeOutboxEntry(config.id, entry.fromPath);
+        }
+      }
+      if (failed.length > 0) {
+        onError?.(new Error(`Batch push failed for ${failed.length} file(s); first: ${failed[0]}`));
+      }
+    }
+
+    for (const docPath of oneByOne) {
+      await handleFileChange(localFilePath(config.localPath, docPath));
+    }
+  }
+
+  /**
+   * Queue the changes of a batch that could not be pushed. Deletions of
+   * untracked files are dropped, and deletions over the mass-deletion
+   * threshold are skipped, as they would be when pushed.
+   */
+  function queueBatch(changes: Map<string, 'put' | 'delete'>, state: SyncState, error: Error): void {
+    const deletes = new Set([...changes]
+      .filter(([docPath, op]) => op === 'delete' && (state.local[docPath] || state.remote[docPath]))
+      .map(([docPath]) => docPath));
+    const massDelete = deletes.size > 0 ? checkRecentDeletes(deletes.size, state) : null;
+    if (massDelete) {
+      log(`${massDelete}; skipping the batch's deletions (run \`lsvault sync push --allow-mass-delete\` to apply them)`);
+    }
+    for (const [docPath, op] of changes) {
+      if (op === 'put' || (deletes.has(docPath) && !massDelete)) queueChange(docPath, op, error);
     }
   }
 
@@ -204,36 +734,32 @@ export function createWatcher(
     ignoreInitial: true,
     persistent: true,
     awaitWriteFinish: { stabilityThreshold: debounceMs },
-    ignored: (filePath: string) => {
+    ignored: (filePath: string, stats?: fs.Stats) => {
       const rel = path.relative(config.localPath, filePath);
       if (!rel || rel === '.') return false;
-      const docPath = rel.split(path.sep).join('/');
-      return shouldIgnore(docPath, ignorePatterns);
+      // Directory-only patterns need to know what the path is; chokidar asks again with stats
+      if (!stats) return false;
+      const docPath = fromLocalPath(rel.split(path.sep).join('/'));
+      return shouldIgnore(stats.isDirectory() ? docPath + '/' : docPath, ignorePatterns);
     },
   });
 
   watcher.on('add', (absPath: string) => {
-    clearTimeout(pendingChanges.get(absPath));
-    pendingChanges.set(absPath, setTimeout(() => {
-      pendingChanges.delete(absPath);
-      handleFileChange(absPath).catch(err => onError?.(err instanceof Error ? err : new Error(String(err))));
-    }, debounceMs));
+    // A file re-created at the same path was replaced, not deleted
+    const docPath = toDocPath(absPath);
+    clearTimeout(pendingDeletes.get(docPath)?.timeout);
+    pendingDeletes.delete(docPath);
+    addToBurst(absPath, 'change');
   });
 
   watcher.on('change', (absPath: string) => {
-    clearTimeout(pendingChanges.get(absPath));
-    pendingChanges.set(absPath, setTimeout(() => {
-      pendingChanges.delete(absPath);
-      handleFileChange(absPath).catch(err => onError?.(err instanceof Error ? err : new Error(String(err))));
-    }, debounceMs));
+    addToBurst(absPath, 'change');
   });
 
   watcher.on('unlink', (absPath: string) => {
     clearTimeout(pendingChanges.get(absPath));
-    pendingChanges.set(absPath, setTimeout(() => {
-      pendingChanges.delete(absPath);
-      handleFileDelete(absPath).catch(err => onError?.(err instanceof Error ? err : new Error(String(err))));
-    }, debounceMs));
+    pendingChanges.delete(absPath);
+    addToBurst(absPath, 'unlink');
   });
 
   watcher.on('error', (err: unknown) => {
@@ -242,6 +768,13 @@ export function createWatcher(
 
   log('Watching for changes...');
 
+  // Changes queued before a restart are pushed once the watcher has settled
+  const queued = loadOutbox(config.id).length;
+  if (queued > 0) {
+    log(`Replaying ${queued} change(s) from the outbox`);
+    scheduleOutbox(debounceMs);
+  }
+
   return {
     watcher,
     stop: async () => {
@@ -249,9 +782,21 @@ export function createWatcher(
         clearTimeout(timeout);
       }
       pendingChanges.clear();
+      for (const pending of pendingDeletes.values()) {
+        clearTimeout(pending.timeout);
+      }
+      pendingDeletes.clear();
+      if (burstTimer) clearTimeout(burstTimer);
+      burstTimer = null;
+      burst.clear();
+      if (outboxTimer) {
+        clearTimeout(outboxTimer);
+        outboxTimer = null;
+      }
       recentlyWritten.clear();
       await watcher.close();
       log('Stopped watching');
     },
+    pending: () => burst.size + pendingChanges.size + pendingDeletes.size + loadOutbox(config.id).length,
   };
 }